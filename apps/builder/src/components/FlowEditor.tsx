@@ -1,15 +1,27 @@
 import React, { useEffect, useMemo, useRef, useState, type MouseEvent } from 'react';
-import type { FlowGraphSchema, FlowScreenNode, FlowTransitionEdge } from '@platform/schema';
+import type { FlowGraphSchema, FlowGroupNode, FlowScreenNode, FlowTransitionEdge } from '@platform/schema';
 import styles from './FlowEditor.module.css';
 
 const NODE_WIDTH = 220;
 const NODE_HEIGHT = 112;
+const GROUP_PADDING = 18;
+const GROUP_HEADER_HEIGHT = 34;
 
 interface CanvasPoint {
   x: number;
   y: number;
 }
 
+interface NodeBox extends CanvasPoint {
+  width: number;
+  height: number;
+}
+
+interface GroupLayout {
+  group: FlowGroupNode;
+  box: NodeBox;
+}
+
 interface DraftConnection {
   fromScreenId: string;
   pointer: CanvasPoint;
@@ -56,13 +68,23 @@ export function FlowEditor({
     [flow.screens],
   );
 
-  const screenById = useMemo(() => {
-    const map = new Map<string, { screen: FlowScreenNode; position: CanvasPoint }>();
-    for (const layout of screenLayout) {
-      map.set(layout.screen.id, layout);
+  const groupLayout = useMemo(() => layoutGroups(flow.groups ?? [], screenLayout), [flow.groups, screenLayout]);
+
+  // Screens and groups share one box map so edges can start or end on either; history nodes
+  // resolve to their group's box.
+  const boxById = useMemo(() => {
+    const map = new Map<string, NodeBox>();
+    for (const { screen, position } of screenLayout) {
+      map.set(screen.id, { ...position, width: NODE_WIDTH, height: NODE_HEIGHT });
+    }
+    for (const { group, box } of groupLayout) {
+      map.set(group.id, box);
+      for (const history of group.history ?? []) {
+        map.set(history.id, box);
+      }
     }
     return map;
-  }, [screenLayout]);
+  }, [screenLayout, groupLayout]);
 
   useEffect(() => {
     if (!draftConnection && !draftNodeDrag) {
@@ -108,8 +130,8 @@ export function FlowEditor({
     };
   }, [draftConnection, draftNodeDrag, onMoveScreen]);
 
-  const canvasWidth = Math.max(920, ...screenLayout.map((layout) => layout.position.x + NODE_WIDTH + 120));
-  const canvasHeight = Math.max(560, ...screenLayout.map((layout) => layout.position.y + NODE_HEIGHT + 120));
+  const canvasWidth = Math.max(920, ...[...boxById.values()].map((box) => box.x + box.width + 120));
+  const canvasHeight = Math.max(560, ...[...boxById.values()].map((box) => box.y + box.height + 120));
 
   const handleConnectionStart = (screenId: string) => (event: MouseEvent<HTMLButtonElement>) => {
     event.preventDefault();
@@ -145,12 +167,12 @@ export function FlowEditor({
 
   const handleScreenDragStart = (screenId: string) => (event: MouseEvent<HTMLElement>) => {
     const boardPoint = toCanvasPoint(boardRef.current, event.clientX, event.clientY);
-    const screen = screenById.get(screenId);
+    const screen = boxById.get(screenId);
     if (!boardPoint || !screen) return;
     event.preventDefault();
     const pointerOffset = {
-      x: boardPoint.x - screen.position.x,
-      y: boardPoint.y - screen.position.y,
+      x: boardPoint.x - screen.x,
+      y: boardPoint.y - screen.y,
     };
     setDraftNodeDrag({
       screenId,
@@ -173,7 +195,7 @@ export function FlowEditor({
               </marker>
             </defs>
             {flow.transitions.map((transition) => {
-              const geometry = createEdgeGeometry(transition, screenById);
+              const geometry = createEdgeGeometry(transition, boxById);
               if (!geometry) {
                 return null;
               }
@@ -194,13 +216,47 @@ export function FlowEditor({
             })}
             {draftConnection ? (
               <path
-                d={buildDraftPath(draftConnection, screenById)}
+                d={buildDraftPath(draftConnection, boxById)}
                 className={styles.edgeDraft}
                 markerEnd="url(#flow-editor-arrow)"
               />
             ) : null}
           </svg>
 
+          {groupLayout.map(({ group, box }) => (
+            <section
+              key={group.id}
+              className={[styles.groupBox, selectedScreenId === group.id ? styles.groupBoxSelected : ''].join(' ')}
+              style={{ left: box.x, top: box.y, width: box.width, height: box.height }}
+              aria-label={`Flow group ${group.title}`}
+            >
+              <header className={styles.groupHeader} onClick={() => onSelectScreen(group.id)}>
+                <h3>{group.title}</h3>
+                {(group.history ?? []).map((history) => (
+                  <span key={history.id} className={styles.historyPill} title={`${history.mode} history: ${history.id}`}>
+                    {history.mode === 'deep' ? 'H*' : 'H'}
+                  </span>
+                ))}
+                <button
+                  type="button"
+                  className={styles.handleButton}
+                  onMouseDown={handleConnectionStart(group.id)}
+                  aria-label={`Start transition from ${group.title}`}
+                >
+                  Source
+                </button>
+                <button
+                  type="button"
+                  className={styles.handleButton}
+                  onMouseUp={handleConnectionEnd(group.id)}
+                  aria-label={`Connect transition into ${group.title}`}
+                >
+                  Target
+                </button>
+              </header>
+            </section>
+          ))}
+
           {screenLayout.map(({ screen, position }) => {
             const selected = selectedScreenId === screen.id;
             const active = activeScreenId === screen.id;
@@ -288,22 +344,22 @@ function toCanvasPoint(
 
 function createEdgeGeometry(
   transition: FlowTransitionEdge,
-  screenById: Map<string, { screen: FlowScreenNode; position: CanvasPoint }>,
+  boxById: Map<string, NodeBox>,
 ): {
   path: string;
   labelX: number;
   labelY: number;
 } | null {
-  const from = screenById.get(transition.from);
-  const to = screenById.get(transition.to);
+  const from = boxById.get(transition.from);
+  const to = boxById.get(transition.to);
   if (!from || !to) {
     return null;
   }
 
-  const startX = from.position.x + NODE_WIDTH;
-  const startY = from.position.y + NODE_HEIGHT / 2;
-  const endX = to.position.x;
-  const endY = to.position.y + NODE_HEIGHT / 2;
+  const startX = from.x + from.width;
+  const startY = from.y + from.height / 2;
+  const endX = to.x;
+  const endY = to.y + to.height / 2;
   const controlOffset = Math.max(80, Math.abs(endX - startX) / 2);
   const path = `M ${startX} ${startY} C ${startX + controlOffset} ${startY}, ${endX - controlOffset} ${endY}, ${endX} ${endY}`;
 
@@ -314,23 +370,80 @@ function createEdgeGeometry(
   };
 }
 
-function buildDraftPath(
-  draft: DraftConnection,
-  screenById: Map<string, { screen: FlowScreenNode; position: CanvasPoint }>,
-): string {
-  const source = screenById.get(draft.fromScreenId);
+function buildDraftPath(draft: DraftConnection, boxById: Map<string, NodeBox>): string {
+  const source = boxById.get(draft.fromScreenId);
   if (!source) {
     return '';
   }
 
-  const startX = source.position.x + NODE_WIDTH;
-  const startY = source.position.y + NODE_HEIGHT / 2;
+  const startX = source.x + source.width;
+  const startY = source.y + source.height / 2;
   const endX = draft.pointer.x;
   const endY = draft.pointer.y;
   const controlOffset = Math.max(70, Math.abs(endX - startX) / 2);
   return `M ${startX} ${startY} C ${startX + controlOffset} ${startY}, ${endX - controlOffset} ${endY}, ${endX} ${endY}`;
 }
 
+/**
+ * Sizes each group to enclose its screens and nested groups. Outer groups come first so inner
+ * boxes are painted on top of them.
+ */
+function layoutGroups(
+  groups: FlowGroupNode[],
+  screenLayout: Array<{ screen: FlowScreenNode; position: CanvasPoint }>,
+): GroupLayout[] {
+  const boxes = new Map<string, NodeBox | null>();
+
+  const measure = (group: FlowGroupNode, visiting: Set<string>): NodeBox | null => {
+    if (boxes.has(group.id)) return boxes.get(group.id) ?? null;
+    if (visiting.has(group.id)) return null;
+    visiting.add(group.id);
+
+    const members: NodeBox[] = screenLayout
+      .filter(({ screen }) => screen.parentId === group.id)
+      .map(({ position }) => ({ ...position, width: NODE_WIDTH, height: NODE_HEIGHT }));
+    for (const child of groups) {
+      if (child.parentId !== group.id) continue;
+      const childBox = measure(child, visiting);
+      if (childBox) members.push(childBox);
+    }
+
+    const box =
+      members.length === 0
+        ? null
+        : {
+            x: Math.min(...members.map((member) => member.x)) - GROUP_PADDING,
+            y: Math.min(...members.map((member) => member.y)) - GROUP_PADDING - GROUP_HEADER_HEIGHT,
+            width:
+              Math.max(...members.map((member) => member.x + member.width)) -
+              Math.min(...members.map((member) => member.x)) +
+              GROUP_PADDING * 2,
+            height:
+              Math.max(...members.map((member) => member.y + member.height)) -
+              Math.min(...members.map((member) => member.y)) +
+              GROUP_PADDING * 2 +
+              GROUP_HEADER_HEIGHT,
+          };
+    boxes.set(group.id, box);
+    return box;
+  };
+
+  const depth = (group: FlowGroupNode): number => {
+    let count = 0;
+    let parentId = group.parentId;
+    while (parentId && count < groups.length) {
+      count += 1;
+      parentId = groups.find((candidate) => candidate.id === parentId)?.parentId;
+    }
+    return count;
+  };
+
+  return groups
+    .map((group) => ({ group, box: measure(group, new Set()) }))
+    .filter((layout): layout is GroupLayout => layout.box !== null)
+    .sort((left, right) => depth(left.group) - depth(right.group));
+}
+
 function buildTransitionLabel(transition: FlowTransitionEdge): string {
   if (typeof transition.condition === 'string' && transition.condition.trim().length > 0) {
     return `${transition.onEvent} [${transition.condition}]`;
@@ -54,4 +54,38 @@ describe('FlowEditor', () => {
     expect(moveCall.position.x).toBeGreaterThan(200);
     expect(moveCall.position.y).toBeGreaterThan(200);
   });
+
+  it('renders compound groups around their screens and connects transitions from them', () => {
+    const contact = { ...createFlowScreen({ id: 'contact', title: 'Contact', uiPageId: 'contact-page', position: { x: 80, y: 120 } }), parentId: 'wizard' };
+    const review = createFlowScreen({ id: 'review', title: 'Review', uiPageId: 'review-page', position: { x: 480, y: 120 } });
+    const flow = {
+      ...createFlowGraph({ flowId: 'nested-flow', screens: [contact, review], initialScreenId: 'wizard', transitions: [] }),
+      groups: [{ id: 'wizard', title: 'Wizard', initialChildId: 'contact', history: [{ id: 'wizard-history', mode: 'deep' as const }] }],
+    };
+    const onCreateTransition = vi.fn();
+
+    render(
+      <FlowEditor
+        flow={flow}
+        activeScreenId="contact"
+        selectedScreenId={null}
+        selectedTransitionId={null}
+        onSelectScreen={() => undefined}
+        onSetActiveScreen={() => undefined}
+        onSelectTransition={() => undefined}
+        onCreateTransition={onCreateTransition}
+        onMoveScreen={() => undefined}
+      />,
+    );
+
+    const group = screen.getByLabelText('Flow group Wizard');
+    expect(group.textContent).toContain('H*');
+    expect(group.style.left).toBe('62px');
+    expect(group.style.width).toBe('256px');
+
+    fireEvent.mouseDown(screen.getByRole('button', { name: 'Start transition from Wizard' }), { clientX: 100, clientY: 100 });
+    fireEvent.mouseUp(screen.getByRole('button', { name: 'Connect transition into Review' }));
+
+    expect(onCreateTransition).toHaveBeenCalledWith({ from: 'wizard', to: 'review' });
+  });
 });
@@ -0,0 +1,34 @@
+import type { RuleTestCase } from '@platform/schema';
+import { runRuleTests } from '@platform/rules-engine';
+import { getConfigVersion } from '@/server/repository';
+import { noStoreJson, requirePolicy, withApiErrorHandling } from '@/app/api/_shared';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: Request, { params }: { params: Promise<{ versionId: string }> }) {
+  return withApiErrorHandling(async () => {
+    const { versionId } = await params;
+    const blocked = await requirePolicy({
+      stage: 'save',
+      requiredRole: 'Author',
+      metadata: { route: 'config-versions.rule-tests.post', versionId },
+    });
+    if (blocked) {
+      return blocked;
+    }
+
+    const version = await getConfigVersion(versionId);
+    if (!version) {
+      return noStoreJson({ ok: false, error: 'not_found' }, 404);
+    }
+
+    // An optional body runs unsaved cases against the stored rules.
+    const body = (await request.json().catch(() => null)) as null | { ruleTests?: unknown };
+    if (body?.ruleTests !== undefined && !Array.isArray(body.ruleTests)) {
+      return noStoreJson({ ok: false, error: 'ruleTests must be an array' }, 400);
+    }
+    const cases = (body?.ruleTests as RuleTestCase[] | undefined) ?? version.bundle.ruleTests ?? [];
+    const result = runRuleTests(version.bundle.rules, cases);
+    return noStoreJson({ ok: true, result });
+  });
+}
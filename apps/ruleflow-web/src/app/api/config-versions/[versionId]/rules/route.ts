@@ -1,4 +1,4 @@
-import type { RuleSet } from '@platform/schema';
+import type { RuleSet, RuleTestCase } from '@platform/schema';
 import { updateRules } from '@/server/repository';
 import { noStoreJson, requirePolicy, withApiErrorHandling } from '@/app/api/_shared';
 
@@ -16,13 +16,17 @@ export async function PATCH(request: Request, { params }: { params: Promise<{ ve
       return blocked;
     }
 
-    const body = (await request.json().catch(() => null)) as null | { rules?: unknown };
+    const body = (await request.json().catch(() => null)) as null | { rules?: unknown; ruleTests?: unknown };
     if (!body || !body.rules) {
       return noStoreJson({ ok: false, error: 'rules is required' }, 400);
     }
+    if (body.ruleTests !== undefined && !Array.isArray(body.ruleTests)) {
+      return noStoreJson({ ok: false, error: 'ruleTests must be an array' }, 400);
+    }
 
     const rules = body.rules as RuleSet;
-    const result = await updateRules({ versionId, rules });
+    const ruleTests = body.ruleTests as RuleTestCase[] | undefined;
+    const result = await updateRules({ versionId, rules, ...(ruleTests ? { ruleTests } : {}) });
     if (!result.ok) {
       const status = result.error === 'policy_failed' ? 403 : result.error === 'version_killed' ? 409 : 404;
       return noStoreJson(result, status);
@@ -0,0 +1,400 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import {
+  applyDecisionTable,
+  compileDecisionTable,
+  removeDecisionTable,
+  type DecisionTable,
+  type DecisionTableHitPolicy,
+  type RuleSet,
+} from '@platform/schema';
+import { validateDecisionTable } from '@platform/validator';
+import type { ConfigVersion } from '@/lib/demo/types';
+import { apiGet, apiPatch } from '@/lib/demo/api-client';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import { useToast } from '@/components/ui/toast';
+import {
+  HIT_POLICIES,
+  createDecisionTable,
+  createDecisionTableRow,
+  formatInputCell,
+  formatOutputCell,
+  nextColumnId,
+  parseInputCell,
+  parseOutputCell,
+} from '@/components/rules/decision-table-model';
+import { useBuilder } from '@/context/BuilderContext';
+import styles from './decision-tables.module.scss';
+
+type GetVersionResponse = { ok: true; version: ConfigVersion } | { ok: false; error: string };
+
+function CellInput({
+  value,
+  onCommit,
+  ariaLabel,
+}: {
+  value: string;
+  onCommit: (text: string) => void;
+  ariaLabel: string;
+}) {
+  const [text, setText] = useState(value);
+  useEffect(() => setText(value), [value]);
+  return (
+    <Input
+      value={text}
+      onChange={(event) => setText(event.target.value)}
+      onBlur={() => {
+        if (text !== value) onCommit(text);
+      }}
+      aria-label={ariaLabel}
+      className={styles.cellInput}
+    />
+  );
+}
+
+export default function DecisionTablesPage() {
+  const searchParams = useSearchParams();
+  const versionId = searchParams.get('versionId');
+  const { toast } = useToast();
+  const {
+    state: { rules },
+    dispatch,
+  } = useBuilder();
+
+  const [loading, setLoading] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  const [draft, setDraft] = useState<DecisionTable | null>(null);
+  const [newTableId, setNewTableId] = useState('');
+  const lastLoadedVersionId = useRef<string | null>(null);
+
+  const tables = rules.decisionTables ?? [];
+  const validation = useMemo(() => (draft ? validateDecisionTable(draft) : null), [draft]);
+  const compiled = useMemo(() => (draft ? compileDecisionTable(draft) : null), [draft]);
+  const hasErrors = validation?.issues.some((issue) => issue.severity === 'error') ?? false;
+
+  const loadFromStore = async () => {
+    if (!versionId) return;
+    setLoading(true);
+    try {
+      const response = await apiGet<GetVersionResponse>(`/api/config-versions/${encodeURIComponent(versionId)}`);
+      if (!response.ok) throw new Error(response.error);
+      const ruleSet = response.version.bundle.rules;
+      dispatch({ type: 'SET_RULES', rules: ruleSet });
+      setDraft(ruleSet.decisionTables?.[0] ?? null);
+      setDirty(false);
+      lastLoadedVersionId.current = versionId;
+    } catch (error) {
+      toast({ variant: 'error', title: 'Failed to load rules', description: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!versionId || versionId === lastLoadedVersionId.current) return;
+    void loadFromStore();
+  }, [versionId]);
+
+  const updateDraft = (next: DecisionTable) => {
+    setDraft(next);
+    setDirty(true);
+  };
+
+  const applyToRules = (): RuleSet | null => {
+    if (!draft) return null;
+    if (hasErrors) {
+      toast({ variant: 'error', title: 'Fix decision table errors first' });
+      return null;
+    }
+    const next = applyDecisionTable(rules, draft);
+    dispatch({ type: 'SET_RULES', rules: next });
+    return next;
+  };
+
+  const save = async () => {
+    if (!versionId) {
+      toast({ variant: 'error', title: 'No version selected', description: 'Open this page with ?versionId=...' });
+      return;
+    }
+    const next = applyToRules();
+    if (!next) return;
+    setLoading(true);
+    try {
+      const result = await apiPatch<{ ok: true } | { ok: false; error: string }>(
+        `/api/config-versions/${encodeURIComponent(versionId)}/rules`,
+        { rules: next },
+      );
+      if (!result.ok) throw new Error(result.error);
+      toast({ variant: 'success', title: 'Saved decision table', description: draft?.tableId });
+      setDirty(false);
+    } catch (error) {
+      toast({ variant: 'error', title: 'Save failed', description: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const addTable = () => {
+    const tableId = newTableId.trim() || nextColumnId(tables.map((table) => ({ id: table.tableId })), 'table');
+    if (tables.some((table) => table.tableId === tableId)) {
+      toast({ variant: 'error', title: 'Table already exists', description: tableId });
+      return;
+    }
+    updateDraft(createDecisionTable(tableId));
+    setNewTableId('');
+  };
+
+  const deleteTable = (tableId: string) => {
+    dispatch({ type: 'SET_RULES', rules: removeDecisionTable(rules, tableId) });
+    if (draft?.tableId === tableId) setDraft(null);
+    setDirty(true);
+  };
+
+  return (
+    <div className={styles.page}>
+      <Card>
+        <CardHeader>
+          <div className={styles.headerRow}>
+            <div>
+              <CardTitle>Decision Tables</CardTitle>
+              <p className={styles.subtext}>
+                Rows compile to rules grouped by table id. {versionId ? <span className="rfCodeInline">{versionId}</span> : 'Open with ?versionId=...'}
+              </p>
+            </div>
+            <div className={styles.actions}>
+              <Button variant="outline" size="sm" onClick={() => applyToRules()} disabled={!draft || hasErrors}>
+                Apply to Rules
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => void save()}
+                disabled={!versionId || loading || !draft || hasErrors || !dirty}
+                data-testid="decision-table-save-button"
+              >
+                {loading ? 'Working...' : 'Save'}
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+      </Card>
+
+      <div className={styles.workspace}>
+        <Card>
+          <CardContent className={styles.tableList}>
+            <div className={styles.addRow}>
+              <Input
+                placeholder="table-id"
+                value={newTableId}
+                onChange={(event) => setNewTableId(event.target.value)}
+                aria-label="New decision table id"
+              />
+              <Button size="sm" onClick={addTable} data-testid="decision-table-add">
+                Add
+              </Button>
+            </div>
+            {tables.length === 0 ? <p className={styles.subtext}>No decision tables yet.</p> : null}
+            {tables.map((table) => (
+              <div key={table.tableId} className={styles.tableListItem}>
+                <button
+                  type="button"
+                  className={table.tableId === draft?.tableId ? styles.tableLinkActive : styles.tableLink}
+                  onClick={() => {
+                    setDraft(table);
+                    setDirty(false);
+                  }}
+                >
+                  {table.tableId}
+                </button>
+                <Button size="sm" variant="outline" onClick={() => deleteTable(table.tableId)}>
+                  Remove
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        {draft ? (
+          <Card>
+            <CardContent className={styles.editor}>
+              <div className={styles.metaRow}>
+                <span className="rfCodeInline">{draft.tableId}</span>
+                <Select
+                  value={draft.hitPolicy}
+                  onChange={(event) => updateDraft({ ...draft, hitPolicy: event.target.value as DecisionTableHitPolicy })}
+                  aria-label="Hit policy"
+                >
+                  {HIT_POLICIES.map((policy) => (
+                    <option key={policy.value} value={policy.value}>
+                      {policy.label}
+                    </option>
+                  ))}
+                </Select>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() =>
+                    updateDraft({
+                      ...draft,
+                      inputs: [...draft.inputs, { id: nextColumnId(draft.inputs, 'input'), path: 'data.value' }],
+                    })
+                  }
+                >
+                  Add Input
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() =>
+                    updateDraft({
+                      ...draft,
+                      outputs: [...draft.outputs, { id: nextColumnId(draft.outputs, 'output'), path: 'data.result' }],
+                    })
+                  }
+                >
+                  Add Output
+                </Button>
+                <Button size="sm" onClick={() => updateDraft({ ...draft, rows: [...draft.rows, createDecisionTableRow(draft)] })}>
+                  Add Row
+                </Button>
+              </div>
+
+              <div className={styles.gridScroll}>
+                <table className={styles.grid} data-testid="decision-table-grid">
+                  <thead>
+                    <tr>
+                      <th>Row</th>
+                      {draft.hitPolicy === 'priority' ? <th>Priority</th> : null}
+                      {draft.inputs.map((input, index) => (
+                        <th key={input.id} className={styles.inputHeader}>
+                          <CellInput
+                            value={input.path}
+                            ariaLabel={`Input ${input.id} path`}
+                            onCommit={(path) =>
+                              updateDraft({
+                                ...draft,
+                                inputs: draft.inputs.map((candidate, i) => (i === index ? { ...candidate, path: path.trim() } : candidate)),
+                              })
+                            }
+                          />
+                        </th>
+                      ))}
+                      {draft.outputs.map((output, index) => (
+                        <th key={output.id} className={styles.outputHeader}>
+                          <CellInput
+                            value={output.path}
+                            ariaLabel={`Output ${output.id} path`}
+                            onCommit={(path) =>
+                              updateDraft({
+                                ...draft,
+                                outputs: draft.outputs.map((candidate, i) => (i === index ? { ...candidate, path: path.trim() } : candidate)),
+                              })
+                            }
+                          />
+                        </th>
+                      ))}
+                      <th />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {draft.rows.map((row, rowIndex) => {
+                      const updateRow = (patch: Partial<typeof row>) =>
+                        updateDraft({
+                          ...draft,
+                          rows: draft.rows.map((candidate, i) => (i === rowIndex ? { ...candidate, ...patch } : candidate)),
+                        });
+                      return (
+                        <tr key={row.id}>
+                          <td className={styles.rowId}>{row.id}</td>
+                          {draft.hitPolicy === 'priority' ? (
+                            <td>
+                              <CellInput
+                                value={String(row.priority ?? 0)}
+                                ariaLabel={`Row ${row.id} priority`}
+                                onCommit={(text) => updateRow({ priority: Number.parseInt(text, 10) || 0 })}
+                              />
+                            </td>
+                          ) : null}
+                          {draft.inputs.map((input) => (
+                            <td key={input.id}>
+                              <CellInput
+                                value={formatInputCell(row.inputs[input.id])}
+                                ariaLabel={`Row ${row.id} ${input.id}`}
+                                onCommit={(text) => {
+                                  const entry = parseInputCell(text);
+                                  const inputs = { ...row.inputs };
+                                  if (entry) inputs[input.id] = entry;
+                                  else delete inputs[input.id];
+                                  updateRow({ inputs });
+                                }}
+                              />
+                            </td>
+                          ))}
+                          {draft.outputs.map((output) => (
+                            <td key={output.id}>
+                              <CellInput
+                                value={formatOutputCell(row.outputs[output.id])}
+                                ariaLabel={`Row ${row.id} ${output.id}`}
+                                onCommit={(text) => {
+                                  const value = parseOutputCell(text);
+                                  const outputs = { ...row.outputs };
+                                  if (value !== undefined) outputs[output.id] = value;
+                                  else delete outputs[output.id];
+                                  updateRow({ outputs });
+                                }}
+                              />
+                            </td>
+                          ))}
+                          <td>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => updateDraft({ ...draft, rows: draft.rows.filter((_, i) => i !== rowIndex) })}
+                            >
+                              Remove
+                            </Button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              <p className={styles.subtext}>
+                Cells accept <span className="rfCodeInline">-</span> (any), <span className="rfCodeInline">&gt;= 10</span>,{' '}
+                <span className="rfCodeInline">[1..10]</span>, <span className="rfCodeInline">in [&quot;a&quot;,&quot;b&quot;]</span> or a plain value.
+              </p>
+
+              {validation && validation.issues.length > 0 ? (
+                <div className={styles.issues} data-testid="decision-table-issues">
+                  {validation.issues.map((issue) => (
+                    <p key={`${issue.path}-${issue.message}`} className={styles.issueLine}>
+                      <span className={styles.issuePath}>{issue.path || 'root'}</span> ({issue.severity}): {issue.message}
+                    </p>
+                  ))}
+                </div>
+              ) : (
+                <p className={styles.subtext}>No overlaps or gaps detected.</p>
+              )}
+
+              <details className={styles.advancedJson}>
+                <summary>Compiled rules (read-only)</summary>
+                <pre className={styles.jsonPreview}>{JSON.stringify(compiled, null, 2)}</pre>
+              </details>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardContent>
+              <p className={styles.subtext}>Select or add a decision table.</p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -6,7 +6,12 @@ import { useSearchParams } from 'next/navigation';
 import { apiGet, apiPatch } from '@/lib/demo/api-client';
 import type { ConfigVersion } from '@/lib/demo/types';
 import { normalizeUiPages } from '@/lib/demo/ui-pages';
-import { hasBlockingIssues, normalizeFlowSchema, validateFlowBuilderSchema } from '@/lib/builder/flow-api-validators';
+import {
+  buildFlowModelBadges,
+  hasBlockingIssues,
+  normalizeFlowSchema,
+  validateFlowBuilderSchema,
+} from '@/lib/builder/flow-api-validators';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -103,6 +108,7 @@ function FlowBuilderInner() {
   const nodeById = useMemo(() => new Map(nodePositions.map((node) => [node.id, node])), [nodePositions]);
   const validationIssues = useMemo(() => validateFlowBuilderSchema(flowDraft, pageIds), [flowDraft, pageIds]);
   const hasErrors = hasBlockingIssues(validationIssues);
+  const modelBadges = useMemo(() => buildFlowModelBadges(flowDraft), [flowDraft]);
 
   useEffect(() => {
     if (!versionId) return;
@@ -417,6 +423,20 @@ function FlowBuilderInner() {
                     <span className={styles.nodeTitle}>{node.id}</span>
                     <span className={styles.nodeSubtitle}>{state?.uiPageId}</span>
                     {flowDraft.initialState === node.id ? <span className={styles.nodePill}>Initial</span> : null}
+                    {modelBadges[node.id]?.length ? (
+                      <span className={styles.nodeBadges}>
+                        {modelBadges[node.id]!.map((badge) => (
+                          <span
+                            key={badge.label}
+                            className={badge.severity === 'error' ? styles.badgeError : styles.badgeWarn}
+                            title={badge.message}
+                            data-testid={`flow-node-badge-${node.id}`}
+                          >
+                            {badge.label}
+                          </span>
+                        ))}
+                      </span>
+                    ) : null}
                   </button>
                 );
               })}
@@ -37,6 +37,7 @@ export default function BuilderHomePage() {
           <Link href="/builder/screens">Open Screens</Link>
           <Link href="/builder/flow">Open Flow</Link>
           <Link href="/builder/rules">Open Rules</Link>
+          <Link href="/builder/decision-tables">Open Decision Tables</Link>
         </div>
       </header>
 
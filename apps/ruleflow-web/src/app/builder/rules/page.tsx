@@ -73,8 +73,8 @@ export default function RulesBuilderPage() {
   );
 
   const compiledRuleSet = useMemo(() => {
-    return draftsToRuleSet(ruleVersion, ruleDrafts);
-  }, [ruleDrafts, ruleVersion]);
+    return draftsToRuleSet(ruleVersion, ruleDrafts, rules);
+  }, [ruleDrafts, ruleVersion, rules]);
 
   const validation = useMemo(() => validateRulesSchema(compiledRuleSet), [compiledRuleSet]);
 
@@ -121,7 +121,7 @@ export default function RulesBuilderPage() {
   }, [ruleDrafts, selectedRuleDraftId]);
 
   const applyDrafts = (drafts: RuleDraft[], opts?: { dirty?: boolean; selectedId?: string | null }) => {
-    const nextRuleSet = draftsToRuleSet(ruleVersion, drafts);
+    const nextRuleSet = draftsToRuleSet(ruleVersion, drafts, rules);
     dispatch({ type: 'SET_RULES', rules: nextRuleSet });
     if (opts && 'selectedId' in opts) {
       setSelectedRuleDraftId(opts.selectedId ?? null);
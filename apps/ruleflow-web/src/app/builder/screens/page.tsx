@@ -12,6 +12,7 @@ const nav = [
   { href: "/builder/screens", label: "Screens" },
   { href: "/builder/flow", label: "Flow" },
   { href: "/builder/rules", label: "Rules" },
+  { href: "/builder/decision-tables", label: "Decision Tables" },
   { href: "/builder/api-mappings", label: "API Mappings" },
   { href: "/builder/legacy", label: "Legacy Builder" },
 ];
@@ -283,6 +283,7 @@ export function AppShell({ children }: { children: React.ReactNode }) {
       { id: 'open-flow-builder', label: 'Open Flow Builder', onRun: () => router.push(withActive('/builder/flow')) },
       { id: 'open-api-mappings-builder', label: 'Open API Mapping Builder', onRun: () => router.push(withActive('/builder/api-mappings')) },
       { id: 'open-rules', label: 'Open Rules Builder', onRun: () => router.push(withActive('/builder/rules')) },
+      { id: 'open-decision-tables', label: 'Open Decision Tables', onRun: () => router.push(withActive('/builder/decision-tables')) },
       { id: 'open-playground', label: 'Open Playground', onRun: () => router.push(withActive('/playground')) },
       { id: 'open-console', label: 'Open Console', onRun: () => router.push('/console') },
       { id: 'open-samples', label: 'Open Samples Gallery', onRun: () => router.push('/samples') },
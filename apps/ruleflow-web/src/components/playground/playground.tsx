@@ -86,6 +86,13 @@ function OperandView({ operand }: { operand: ExplainOperand }) {
       </span>
     );
   }
+  if (operand.kind === 'lookup') {
+    return (
+      <span className={styles.mono}>
+        lookup {operand.lookup}({renderValue(operand.key)})={renderValue(operand.value)}
+      </span>
+    );
+  }
   return <span className={styles.mono}>{renderValue(operand.value)}</span>;
 }
 
@@ -142,6 +149,29 @@ function ExplainNode({ explain, depth }: { explain: ConditionExplain; depth: num
     );
   }
 
+  if (explain.kind === 'some' || explain.kind === 'every' || explain.kind === 'none') {
+    const kindLabel = explain.kind.toUpperCase();
+    return (
+      <>
+        <div className={styles.explainRow} style={{ paddingLeft: indent }}>
+          <div className={styles.explainLeft}>
+            <span className={styles.explainKind}>{kindLabel}</span>
+            <span className={styles.mono}>{explain.path}</span>
+            <span className="rfHelperText" style={{ margin: 0 }}>
+              ({explain.elements.length} element{explain.elements.length === 1 ? '' : 's'})
+            </span>
+          </div>
+          <span className={cn(styles.pill, explain.result ? styles.pillOk : styles.pillWarn)}>{String(explain.result)}</span>
+        </div>
+        <div className={styles.explainChildren}>
+          {explain.elements.map((element) => (
+            <ExplainNode key={`${kindLabel}-${element.index}`} explain={element.explain} depth={depth + 1} />
+          ))}
+        </div>
+      </>
+    );
+  }
+
   return null;
 }
 
@@ -158,8 +188,10 @@ function ReadsList({ reads }: { reads: RuleRead[] }) {
   return (
     <ul className={styles.kvList}>
       {reads.map((read) => (
-        <li key={read.path} className={styles.kvItem}>
-          <span className={styles.mono}>{read.path}</span>
+        <li key={read.lookup ? `${read.path}|${renderValue(read.lookup.key)}` : read.path} className={styles.kvItem}>
+          <span className={styles.mono}>
+            {read.lookup ? `${read.path}(${renderValue(read.lookup.key)})${read.lookup.cached ? ' cached' : ''}` : read.path}
+          </span>
           <span className={styles.kvValue}>{renderValue(read.value)}</span>
         </li>
       ))}
@@ -210,6 +242,8 @@ export function Playground({
   const [context, setContext] = useState<ExecutionContext>(initialContext);
   const [data, setData] = useState<Record<string, JSONValue>>(initialData);
   const [trace, setTrace] = useState<RuntimeTrace | null>(null);
+  // Empty means "now"; otherwise rules are evaluated with the versions effective at this date.
+  const [asOfDate, setAsOfDate] = useState('');
   const runtimeFlags = useRuntimeFlags({
     env: 'prod',
     versionId: selectedVersionId || undefined,
@@ -351,6 +385,7 @@ export function Playground({
             data: runtimeData,
             killSwitch: { active: killSwitchActive, reason: killSwitchReason },
             fetchFn: demoFetch,
+            rulesAsOf: asOfDate || undefined,
           });
 
           if (autoAdvance.trace.flow.reason !== 'ok') break;
@@ -372,6 +407,7 @@ export function Playground({
         data: runtimeData,
         killSwitch: { active: killSwitchActive, reason: killSwitchReason },
         fetchFn: demoFetch,
+        rulesAsOf: asOfDate || undefined,
       });
       setStateId(result.nextStateId);
       setContext({
@@ -495,6 +531,19 @@ export function Playground({
               <label className="rfFieldLabel">Locale</label>
               <Input value={context.locale} onChange={(event) => setContext({ ...context, locale: event.target.value })} />
             </div>
+            <div className={styles.field}>
+              <label className="rfFieldLabel" htmlFor="playground-as-of">
+                Evaluate as of
+              </label>
+              <Input
+                id="playground-as-of"
+                type="date"
+                value={asOfDate}
+                onChange={(event) => setAsOfDate(event.target.value)}
+                title="Preview the rule versions effective on this date; leave empty for today"
+                data-testid="playground-as-of"
+              />
+            </div>
           </div>
 
           {killSwitchActive ? (
@@ -594,6 +643,9 @@ function TracePanel({
   const flow = trace.flow;
   const rules = trace.rules;
   const api = trace.api;
+  const versionSkips = (rules?.conflictResolution?.skipped ?? []).filter(
+    (skip) => skip.reason === 'not_effective' || skip.reason === 'superseded',
+  );
 
   return (
     <Card>
@@ -630,6 +682,15 @@ function TracePanel({
               <p>
                 Matched {rules.rulesMatched.length}/{rules.rulesConsidered.length} rules in {rules.durationMs}ms
               </p>
+              {rules.asOf ? <p className="rfHelperText">Rule versions as of {rules.asOf}</p> : null}
+              {versionSkips.length > 0 ? (
+                <p className="rfHelperText" data-testid="playground-version-skips">
+                  Not in effect:{' '}
+                  {versionSkips
+                    .map((skip) => `${skip.ruleId}${skip.version ? `@${skip.version}` : ''} (${skip.reason.replace('_', ' ')})`)
+                    .join(', ')}
+                </p>
+              ) : null}
               {rules.rulesMatched.length > 0 ? <p className="rfHelperText">Hits: {rules.rulesMatched.join(', ')}</p> : null}
               {rules.actionsApplied.length > 0 ? (
                 <p className="rfHelperText">
@@ -10,27 +10,11 @@ import {
   createConditionGroupDraft,
   createConditionNotDraft,
   createDefaultConditionDraft,
+  isUnaryOperator,
+  listConditionOperators,
 } from './rule-visual-model';
 import styles from './condition-builder.module.scss';
 
-export const CONDITION_OPERATORS: Array<{ value: RuleOperator; label: string }> = [
-  { value: 'eq', label: 'Equals' },
-  { value: 'neq', label: 'Not equals' },
-  { value: 'gt', label: 'Greater than' },
-  { value: 'gte', label: 'Greater or equal' },
-  { value: 'lt', label: 'Less than' },
-  { value: 'lte', label: 'Less or equal' },
-  { value: 'dateEq', label: 'Date equals' },
-  { value: 'dateBefore', label: 'Date before' },
-  { value: 'dateAfter', label: 'Date after' },
-  { value: 'dateBetween', label: 'Date between' },
-  { value: 'in', label: 'In list' },
-  { value: 'contains', label: 'Contains' },
-  { value: 'startsWith', label: 'Starts with' },
-  { value: 'endsWith', label: 'Ends with' },
-  { value: 'exists', label: 'Exists' },
-];
-
 function reorderByIds<T extends { id: string }>(items: T[], fromId: string, toId: string): T[] {
   const fromIndex = items.findIndex((item) => item.id === fromId);
   const toIndex = items.findIndex((item) => item.id === toId);
@@ -73,6 +57,8 @@ function OperandEditor({
           const mode = event.target.value as OperandDraft['kind'];
           if (mode === 'path') {
             onChange({ kind: 'path', path: 'data.value' });
+          } else if (mode === 'lookup') {
+            onChange({ kind: 'lookup', lookup: '', key: { kind: 'path', path: 'data.value' } });
           } else {
             onChange({ kind: 'value', valueText: '""' });
           }
@@ -80,6 +66,7 @@ function OperandEditor({
       >
         <option value="path">Path</option>
         <option value="value">Value</option>
+        <option value="lookup">Lookup</option>
       </Select>
 
       {operand.kind === 'path' ? (
@@ -108,6 +95,15 @@ function OperandEditor({
             placeholder={sourceData.source === 'custom' ? 'path' : 'field.path'}
           />
         </div>
+      ) : operand.kind === 'lookup' ? (
+        <>
+          <Input
+            value={operand.lookup}
+            onChange={(event) => onChange({ ...operand, lookup: event.target.value })}
+            placeholder="Registered lookup (e.g. sanctions)"
+          />
+          <OperandEditor label="Key" operand={operand.key} onChange={(key) => onChange({ ...operand, key })} />
+        </>
       ) : (
         <Input
           value={operand.valueText}
@@ -259,6 +255,45 @@ function ConditionNodeEditor({
     );
   }
 
+  if (node.kind === 'quantifier') {
+    return (
+      <div className={styles.conditionCard} data-testid="condition-node-quantifier">
+        <div className={styles.conditionHeader}>
+          <span className={styles.conditionTitle}>For each item</span>
+          <div className={styles.conditionHeaderControls}>
+            <Select
+              value={node.op}
+              onChange={(event) =>
+                onChange({ ...node, op: event.target.value as 'some' | 'every' | 'none' })
+              }
+            >
+              <option value="some">Some items match</option>
+              <option value="every">Every item matches</option>
+              <option value="none">No item matches</option>
+            </Select>
+            {!isRoot && onDelete ? (
+              <Button type="button" size="sm" variant="outline" onClick={onDelete}>
+                Remove
+              </Button>
+            ) : null}
+          </div>
+        </div>
+        <div className={styles.field}>
+          <p className={styles.fieldLabel}>Array path (use $item inside)</p>
+          <Input
+            value={node.path}
+            onChange={(event) => onChange({ ...node, path: event.target.value })}
+            placeholder="data.lineItems"
+          />
+        </div>
+        <ConditionNodeEditor
+          node={node.child}
+          onChange={(nextChild) => onChange({ ...node, child: nextChild })}
+        />
+      </div>
+    );
+  }
+
   return (
     <div className={styles.conditionCard} data-testid="condition-node-compare">
       <div className={styles.conditionHeader}>
@@ -280,13 +315,13 @@ function ConditionNodeEditor({
                 ...node,
                 op: event.target.value as RuleOperator,
                 right:
-                  event.target.value === 'exists'
+                  isUnaryOperator(event.target.value)
                     ? undefined
                     : node.right ?? { kind: 'value', valueText: '""' },
               })
             }
           >
-            {CONDITION_OPERATORS.map((operator) => (
+            {listConditionOperators().map((operator) => (
               <option key={operator.value} value={operator.value}>
                 {operator.label}
               </option>
@@ -298,7 +333,7 @@ function ConditionNodeEditor({
           operand={node.left}
           onChange={(nextOperand) => onChange({ ...node, left: nextOperand })}
         />
-        {node.op !== 'exists' ? (
+        {!isUnaryOperator(node.op) ? (
           <OperandEditor
             label="Right"
             operand={node.right ?? { kind: 'value', valueText: '""' }}
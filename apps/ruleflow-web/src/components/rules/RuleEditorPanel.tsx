@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import type { RuleOperator } from '@platform/schema';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -14,10 +14,15 @@ import type {
   RuleDraft,
 } from './rule-visual-model';
 import {
+  applyRuleText,
   createActionDraft,
   createConditionGroupDraft,
   createConditionNotDraft,
+  createConditionQuantifierDraft,
   createDefaultConditionDraft,
+  draftToRuleText,
+  isUnaryOperator,
+  listConditionOperators,
 } from './rule-visual-model';
 import styles from './rule-editor-panel.module.scss';
 
@@ -26,23 +31,7 @@ type RuleEditorPanelProps = {
   onRuleChange: (rule: RuleDraft) => void;
 };
 
-const OPERATORS: Array<{ value: RuleOperator; label: string }> = [
-  { value: 'eq', label: 'Equals' },
-  { value: 'neq', label: 'Not equals' },
-  { value: 'gt', label: 'Greater than' },
-  { value: 'gte', label: 'Greater or equal' },
-  { value: 'lt', label: 'Less than' },
-  { value: 'lte', label: 'Less or equal' },
-  { value: 'dateEq', label: 'Date equals' },
-  { value: 'dateBefore', label: 'Date before' },
-  { value: 'dateAfter', label: 'Date after' },
-  { value: 'dateBetween', label: 'Date between' },
-  { value: 'in', label: 'In list' },
-  { value: 'contains', label: 'Contains' },
-  { value: 'startsWith', label: 'Starts with' },
-  { value: 'endsWith', label: 'Ends with' },
-  { value: 'exists', label: 'Exists' },
-];
+type EditorView = 'visual' | 'text';
 
 function reorderByIds<T extends { id: string }>(items: T[], fromId: string, toId: string): T[] {
   const fromIndex = items.findIndex((item) => item.id === fromId);
@@ -88,6 +77,8 @@ function OperandEditor({
           const mode = event.target.value as OperandDraft['kind'];
           if (mode === 'path') {
             onChange({ kind: 'path', path: 'data.value' });
+          } else if (mode === 'lookup') {
+            onChange({ kind: 'lookup', lookup: '', key: { kind: 'path', path: 'data.value' } });
           } else {
             onChange({ kind: 'value', valueText: '""' });
           }
@@ -95,6 +86,7 @@ function OperandEditor({
       >
         <option value="path">Path</option>
         <option value="value">Value</option>
+        <option value="lookup">Lookup</option>
       </Select>
 
       {operand.kind === 'path' ? (
@@ -125,6 +117,21 @@ function OperandEditor({
             data-testid={`${testIdPrefix}-key`}
           />
         </div>
+      ) : operand.kind === 'lookup' ? (
+        <>
+          <Input
+            value={operand.lookup}
+            onChange={(event) => onChange({ ...operand, lookup: event.target.value })}
+            placeholder="Registered lookup (e.g. sanctions)"
+            data-testid={`${testIdPrefix}-lookup`}
+          />
+          <OperandEditor
+            label="Key"
+            operand={operand.key}
+            onChange={(key) => onChange({ ...operand, key })}
+            testIdPrefix={`${testIdPrefix}-key`}
+          />
+        </>
       ) : (
         <Input
           value={operand.valueText}
@@ -253,6 +260,16 @@ function ConditionNodeEditor({
           >
             Add NOT
           </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() =>
+              onChange({ ...node, children: [...node.children, createConditionQuantifierDraft('some')] })
+            }
+          >
+            Add For Each
+          </Button>
         </div>
       </div>
     );
@@ -277,6 +294,47 @@ function ConditionNodeEditor({
     );
   }
 
+  if (node.kind === 'quantifier') {
+    return (
+      <div className={styles.conditionCard} data-testid="condition-node-quantifier">
+        <div className={styles.conditionHeader}>
+          <span className={styles.conditionTitle}>For each item</span>
+          <div className={styles.conditionHeaderControls}>
+            <Select
+              value={node.op}
+              onChange={(event) =>
+                onChange({ ...node, op: event.target.value as 'some' | 'every' | 'none' })
+              }
+              data-testid="condition-quantifier-op"
+            >
+              <option value="some">Some items match</option>
+              <option value="every">Every item matches</option>
+              <option value="none">No item matches</option>
+            </Select>
+            {!isRoot && onDelete ? (
+              <Button type="button" size="sm" variant="outline" onClick={onDelete}>
+                Remove
+              </Button>
+            ) : null}
+          </div>
+        </div>
+        <div className={styles.field}>
+          <p className={styles.fieldLabel}>Array path (use $item inside)</p>
+          <Input
+            value={node.path}
+            onChange={(event) => onChange({ ...node, path: event.target.value })}
+            placeholder="data.lineItems"
+            data-testid="condition-quantifier-path"
+          />
+        </div>
+        <ConditionNodeEditor
+          node={node.child}
+          onChange={(nextChild) => onChange({ ...node, child: nextChild })}
+        />
+      </div>
+    );
+  }
+
   return (
     <div className={styles.conditionCard} data-testid="condition-node-compare">
       <div className={styles.conditionHeader}>
@@ -298,14 +356,14 @@ function ConditionNodeEditor({
                 ...node,
                 op: event.target.value as RuleOperator,
                 right:
-                  event.target.value === 'exists'
+                  isUnaryOperator(event.target.value)
                     ? undefined
                     : node.right ?? { kind: 'value', valueText: '""' },
               })
             }
             data-testid="condition-op-select"
           >
-            {OPERATORS.map((operator) => (
+            {listConditionOperators().map((operator) => (
               <option key={operator.value} value={operator.value}>
                 {operator.label}
               </option>
@@ -318,7 +376,7 @@ function ConditionNodeEditor({
           onChange={(nextOperand) => onChange({ ...node, left: nextOperand })}
           testIdPrefix="condition-left"
         />
-        {node.op !== 'exists' ? (
+        {!isUnaryOperator(node.op) ? (
           <OperandEditor
             label="Right"
             operand={node.right ?? { kind: 'value', valueText: '""' }}
@@ -435,8 +493,51 @@ function ActionEditor({
   );
 }
 
+function RuleTextEditor({ rule, onRuleChange }: { rule: RuleDraft; onRuleChange: (rule: RuleDraft) => void }) {
+  const [text, setText] = useState(() => draftToRuleText(rule));
+  const [error, setError] = useState<string | null>(null);
+
+  // Only reset the text when another rule is selected; edits made here flow back through onRuleChange.
+  useEffect(() => {
+    setText(draftToRuleText(rule));
+    setError(null);
+  }, [rule.id]);
+
+  return (
+    <div className={styles.block}>
+      <p className={styles.blockTitle}>Rule Text</p>
+      <p className={styles.helper}>
+        {'when <condition> then <actions>, e.g. data.age >= 18 and context.country in ["DE","FR"]. Use "and", "or", "not", "some data.items (...)".'}
+      </p>
+      <Textarea
+        value={text}
+        onChange={(event) => {
+          setText(event.target.value);
+          try {
+            onRuleChange(applyRuleText(rule, event.target.value));
+            setError(null);
+          } catch (parseError) {
+            setError(parseError instanceof Error ? parseError.message : String(parseError));
+          }
+        }}
+        rows={12}
+        spellCheck={false}
+        className={styles.codeInput}
+        aria-label="Rule text"
+        data-testid="rule-text-input"
+      />
+      {error ? (
+        <p className={styles.textError} role="alert" data-testid="rule-text-error">
+          {error}
+        </p>
+      ) : null}
+    </div>
+  );
+}
+
 export function RuleEditorPanel({ rule, onRuleChange }: RuleEditorPanelProps) {
   const [draggingActionId, setDraggingActionId] = useState<string | null>(null);
+  const [view, setView] = useState<EditorView>('visual');
 
   if (!rule) {
     return <p className={styles.empty}>Select a rule to edit details.</p>;
@@ -446,6 +547,28 @@ export function RuleEditorPanel({ rule, onRuleChange }: RuleEditorPanelProps) {
     <section className={styles.panel} aria-label="Rule editor">
       <div className={styles.header}>
         <h3 className={styles.title}>Rule Editor</h3>
+        <div className={styles.viewToggle} role="group" aria-label="Editor view">
+          <Button
+            type="button"
+            size="sm"
+            variant={view === 'visual' ? 'default' : 'outline'}
+            onClick={() => setView('visual')}
+            aria-pressed={view === 'visual'}
+            data-testid="rule-view-visual"
+          >
+            Visual
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant={view === 'text' ? 'default' : 'outline'}
+            onClick={() => setView('text')}
+            aria-pressed={view === 'text'}
+            data-testid="rule-view-text"
+          >
+            Text
+          </Button>
+        </div>
       </div>
 
       <div className={styles.block}>
@@ -528,70 +651,76 @@ export function RuleEditorPanel({ rule, onRuleChange }: RuleEditorPanelProps) {
         </div>
       </div>
 
-      <div className={styles.block}>
-        <p className={styles.blockTitle}>Condition Builder</p>
-        <p className={styles.helper}>Build nested AND / OR / NOT logic. Drag condition cards to reorder sibling conditions.</p>
-        <ConditionNodeEditor
-          node={rule.when}
-          onChange={(nextWhen) => onRuleChange({ ...rule, when: nextWhen })}
-          isRoot
-        />
-      </div>
+      {view === 'text' ? (
+        <RuleTextEditor rule={rule} onRuleChange={onRuleChange} />
+      ) : (
+        <>
+          <div className={styles.block}>
+            <p className={styles.blockTitle}>Condition Builder</p>
+            <p className={styles.helper}>Build nested AND / OR / NOT logic. Drag condition cards to reorder sibling conditions.</p>
+            <ConditionNodeEditor
+              node={rule.when}
+              onChange={(nextWhen) => onRuleChange({ ...rule, when: nextWhen })}
+              isRoot
+            />
+          </div>
 
-      <div className={styles.block}>
-        <div className={styles.actionsHeader}>
-          <p className={styles.blockTitle}>Actions Builder</p>
-          <Button
-            type="button"
-            size="sm"
-            variant="outline"
-            onClick={() => onRuleChange({ ...rule, actions: [...rule.actions, createActionDraft('setField')] })}
-            data-testid="action-add-button"
-          >
-            Add Action
-          </Button>
-        </div>
-        <p className={styles.helper}>Define what happens when this rule matches. Drag action cards to reorder execution.</p>
+          <div className={styles.block}>
+            <div className={styles.actionsHeader}>
+              <p className={styles.blockTitle}>Actions Builder</p>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => onRuleChange({ ...rule, actions: [...rule.actions, createActionDraft('setField')] })}
+                data-testid="action-add-button"
+              >
+                Add Action
+              </Button>
+            </div>
+            <p className={styles.helper}>Define what happens when this rule matches. Drag action cards to reorder execution.</p>
 
-        <div className={styles.actionList}>
-          {rule.actions.map((action) => (
-            <div
-              key={action.id}
-              draggable
-              className={styles.draggable}
-              onDragStart={() => setDraggingActionId(action.id)}
-              onDragEnd={() => setDraggingActionId(null)}
-              onDragOver={(event) => event.preventDefault()}
-              onDrop={(event) => {
-                event.preventDefault();
-                if (!draggingActionId || draggingActionId === action.id) return;
-                onRuleChange({
-                  ...rule,
-                  actions: reorderByIds(rule.actions, draggingActionId, action.id),
-                });
-              }}
-            >
-              <ActionEditor
-                action={action}
-                onChange={(nextAction) =>
-                  onRuleChange({
-                    ...rule,
-                    actions: rule.actions.map((candidate) =>
-                      candidate.id === action.id ? nextAction : candidate,
-                    ),
-                  })
-                }
-                onDelete={() =>
-                  onRuleChange({
-                    ...rule,
-                    actions: rule.actions.filter((candidate) => candidate.id !== action.id),
-                  })
-                }
-              />
+            <div className={styles.actionList}>
+              {rule.actions.map((action) => (
+                <div
+                  key={action.id}
+                  draggable
+                  className={styles.draggable}
+                  onDragStart={() => setDraggingActionId(action.id)}
+                  onDragEnd={() => setDraggingActionId(null)}
+                  onDragOver={(event) => event.preventDefault()}
+                  onDrop={(event) => {
+                    event.preventDefault();
+                    if (!draggingActionId || draggingActionId === action.id) return;
+                    onRuleChange({
+                      ...rule,
+                      actions: reorderByIds(rule.actions, draggingActionId, action.id),
+                    });
+                  }}
+                >
+                  <ActionEditor
+                    action={action}
+                    onChange={(nextAction) =>
+                      onRuleChange({
+                        ...rule,
+                        actions: rule.actions.map((candidate) =>
+                          candidate.id === action.id ? nextAction : candidate,
+                        ),
+                      })
+                    }
+                    onDelete={() =>
+                      onRuleChange({
+                        ...rule,
+                        actions: rule.actions.filter((candidate) => candidate.id !== action.id),
+                      })
+                    }
+                  />
+                </div>
+              ))}
             </div>
-          ))}
-        </div>
-      </div>
+          </div>
+        </>
+      )}
     </section>
   );
 }
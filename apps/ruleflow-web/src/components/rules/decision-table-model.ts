@@ -0,0 +1,104 @@
+import type {
+  DecisionTable,
+  DecisionTableEntry,
+  DecisionTableHitPolicy,
+  DecisionTableRow,
+  JSONValue,
+  RuleOperator,
+} from '@platform/schema';
+import { getRuleOperator } from '@platform/rules-engine';
+import { parseValueText } from './rule-visual-model';
+
+export const HIT_POLICIES: Array<{ value: DecisionTableHitPolicy; label: string }> = [
+  { value: 'unique', label: 'Unique (rows must not overlap)' },
+  { value: 'first', label: 'First (row order wins)' },
+  { value: 'priority', label: 'Priority (highest row priority wins)' },
+  { value: 'any', label: 'Any (overlaps must agree)' },
+  { value: 'collect', label: 'Collect (all matches, outputs as lists)' },
+];
+
+const SYMBOL_OPERATORS: Array<[string, RuleOperator]> = [
+  ['>=', 'gte'],
+  ['<=', 'lte'],
+  ['!=', 'neq'],
+  ['>', 'gt'],
+  ['<', 'lt'],
+  ['=', 'eq'],
+];
+
+const WILDCARD = '-';
+
+/**
+ * Parses a condition cell. Accepted forms: `-` or empty (any value), `>= 10` style comparisons,
+ * `[1..10]` ranges, `<operator> <value>` using any registered operator name, or a bare value
+ * compared with the column's default operator.
+ */
+export function parseInputCell(text: string): DecisionTableEntry | undefined {
+  const trimmed = text.trim();
+  if (!trimmed || trimmed === WILDCARD) return undefined;
+
+  const range = /^\[\s*(-?[\d.]+)\s*\.\.\s*(-?[\d.]+)\s*\]$/.exec(trimmed);
+  if (range) {
+    return { op: 'between', value: [Number(range[1]), Number(range[2])] };
+  }
+
+  for (const [symbol, op] of SYMBOL_OPERATORS) {
+    if (trimmed.startsWith(symbol)) {
+      return { op, value: parseValueText(trimmed.slice(symbol.length)) };
+    }
+  }
+
+  const named = /^([a-zA-Z][a-zA-Z0-9_.-]*)(?:\s+(.*))?$/.exec(trimmed);
+  const operator = named ? getRuleOperator(named[1] ?? '') : undefined;
+  if (named && operator) {
+    const rest = named[2]?.trim();
+    if (operator.arity === 1 && !rest) return { op: operator.name };
+    if (operator.arity === 2 && rest) return { op: operator.name, value: parseValueText(rest) };
+  }
+
+  return { value: parseValueText(trimmed) };
+}
+
+export function formatInputCell(entry: DecisionTableEntry | undefined): string {
+  if (!entry) return WILDCARD;
+  const value = entry.value;
+  if (entry.op === 'between' && Array.isArray(value) && value.length === 2) {
+    return `[${String(value[0])}..${String(value[1])}]`;
+  }
+  const symbol = SYMBOL_OPERATORS.find(([, op]) => op === entry.op)?.[0];
+  const valueText = value === undefined ? '' : JSON.stringify(value);
+  if (!entry.op) return valueText;
+  if (symbol) return `${symbol} ${valueText}`;
+  return valueText ? `${entry.op} ${valueText}` : entry.op;
+}
+
+export function parseOutputCell(text: string): JSONValue | undefined {
+  const trimmed = text.trim();
+  if (!trimmed || trimmed === WILDCARD) return undefined;
+  return parseValueText(trimmed);
+}
+
+export function formatOutputCell(value: JSONValue | undefined): string {
+  return value === undefined ? WILDCARD : JSON.stringify(value);
+}
+
+export function createDecisionTable(tableId: string): DecisionTable {
+  return {
+    tableId,
+    hitPolicy: 'unique',
+    inputs: [{ id: 'input1', label: 'Input', path: 'data.value' }],
+    outputs: [{ id: 'output1', label: 'Output', path: 'data.result' }],
+    rows: [{ id: 'row1', inputs: {}, outputs: {} }],
+  };
+}
+
+export function nextColumnId(existing: Array<{ id: string }>, prefix: string): string {
+  const ids = new Set(existing.map((item) => item.id));
+  let n = existing.length + 1;
+  while (ids.has(`${prefix}${n}`)) n += 1;
+  return `${prefix}${n}`;
+}
+
+export function createDecisionTableRow(table: DecisionTable): DecisionTableRow {
+  return { id: nextColumnId(table.rows, 'row'), inputs: {}, outputs: {} };
+}
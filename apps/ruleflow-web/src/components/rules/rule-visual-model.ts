@@ -9,10 +9,13 @@ import type {
   RuleScope,
   RuleSet,
 } from '@platform/schema';
+import { parseRuleText, printRuleText } from '@platform/schema';
+import { getRuleOperator, listRuleOperators } from '@platform/rules-engine';
 
 export type OperandDraft =
   | { kind: 'path'; path: string }
-  | { kind: 'value'; valueText: string };
+  | { kind: 'value'; valueText: string }
+  | { kind: 'lookup'; lookup: string; key: OperandDraft };
 
 export type ConditionDraft =
   | {
@@ -26,6 +29,13 @@ export type ConditionDraft =
       kind: 'not';
       child: ConditionDraft;
     }
+  | {
+      id: string;
+      kind: 'quantifier';
+      op: 'some' | 'every' | 'none';
+      path: string;
+      child: ConditionDraft;
+    }
   | {
       id: string;
       kind: 'compare';
@@ -81,6 +91,8 @@ export type RuleDraft = {
   ruleId: string;
   description: string;
   priority: number;
+  salience?: number;
+  group?: string;
   scope: ScopeDraft;
   when: ConditionDraft;
   actions: ActionDraft[];
@@ -88,6 +100,14 @@ export type RuleDraft = {
 
 let draftCounter = 0;
 
+export function listConditionOperators(): Array<{ value: RuleOperator; label: string }> {
+  return listRuleOperators().map((operator) => ({ value: operator.name, label: operator.label }));
+}
+
+export function isUnaryOperator(op: RuleOperator): boolean {
+  return getRuleOperator(op)?.arity === 1;
+}
+
 function nextDraftId(prefix: string): string {
   draftCounter += 1;
   return `${prefix}-${draftCounter}`;
@@ -120,6 +140,21 @@ export function createConditionNotDraft(): ConditionDraft {
   };
 }
 
+export function createConditionQuantifierDraft(op: 'some' | 'every' | 'none' = 'some'): ConditionDraft {
+  return {
+    id: nextDraftId('condition'),
+    kind: 'quantifier',
+    op,
+    path: 'data.items',
+    child: {
+      id: nextDraftId('condition'),
+      kind: 'compare',
+      op: 'exists',
+      left: { kind: 'path', path: '$item' },
+    },
+  };
+}
+
 export function createActionDraft(type: ActionType = 'setField'): ActionDraft {
   const id = nextDraftId('action');
   if (type === 'setField' || type === 'setContext' || type === 'addItem') {
@@ -207,6 +242,7 @@ export function parseValueText(valueText: string): JSONValue {
 function operandFromRule(operand: CompareCondition['left'] | CompareCondition['right']): OperandDraft {
   if (!operand) return { kind: 'value', valueText: '' };
   if ('path' in operand) return { kind: 'path', path: operand.path };
+  if ('lookup' in operand) return { kind: 'lookup', lookup: operand.lookup, key: operandFromRule(operand.key) };
   return { kind: 'value', valueText: valueToText(operand.value) };
 }
 
@@ -214,6 +250,9 @@ function operandToRule(operand: OperandDraft): CompareCondition['left'] {
   if (operand.kind === 'path') {
     return { path: operand.path.trim() || 'data.value' };
   }
+  if (operand.kind === 'lookup') {
+    return { lookup: operand.lookup.trim(), key: operandToRule(operand.key) };
+  }
   return { value: parseValueText(operand.valueText) };
 }
 
@@ -241,6 +280,17 @@ export function conditionFromRule(condition: RuleCondition): ConditionDraft {
       child: conditionFromRule(condition.not),
     };
   }
+  if ('some' in condition || 'every' in condition || 'none' in condition) {
+    const op = 'some' in condition ? 'some' : 'every' in condition ? 'every' : 'none';
+    const clause = 'some' in condition ? condition.some : 'every' in condition ? condition.every : condition.none;
+    return {
+      id: nextDraftId('condition'),
+      kind: 'quantifier',
+      op,
+      path: clause.path,
+      child: conditionFromRule(clause.when),
+    };
+  }
   return {
     id: nextDraftId('condition'),
     kind: 'compare',
@@ -258,11 +308,17 @@ export function conditionToRule(condition: ConditionDraft): RuleCondition {
   if (condition.kind === 'not') {
     return { not: conditionToRule(condition.child) };
   }
+  if (condition.kind === 'quantifier') {
+    const clause = { path: condition.path.trim() || 'data.items', when: conditionToRule(condition.child) };
+    if (condition.op === 'some') return { some: clause };
+    if (condition.op === 'every') return { every: clause };
+    return { none: clause };
+  }
   const compare: CompareCondition = {
     op: condition.op,
     left: operandToRule(condition.left),
   };
-  if (condition.op !== 'exists') {
+  if (!isUnaryOperator(condition.op)) {
     compare.right = operandToRule(condition.right ?? { kind: 'value', valueText: 'null' });
   }
   return compare;
@@ -355,6 +411,8 @@ export function ruleToDraft(rule: Rule): RuleDraft {
     ruleId: rule.ruleId,
     description: rule.description ?? '',
     priority: typeof rule.priority === 'number' ? rule.priority : 100,
+    ...(typeof rule.salience === 'number' ? { salience: rule.salience } : {}),
+    ...(rule.group ? { group: rule.group } : {}),
     scope: scopeFromRule(rule.scope),
     when: conditionFromRule(rule.when),
     actions: (rule.actions ?? []).map(actionFromRule),
@@ -367,6 +425,8 @@ export function draftToRule(rule: RuleDraft): Rule {
     ruleId: rule.ruleId.trim() || `RULE_${rule.id}`,
     ...(rule.description.trim() ? { description: rule.description.trim() } : {}),
     priority: Number.isFinite(rule.priority) ? rule.priority : 100,
+    ...(typeof rule.salience === 'number' ? { salience: rule.salience } : {}),
+    ...(rule.group ? { group: rule.group } : {}),
     when: conditionToRule(rule.when),
     ...(actions.length > 0 ? { actions } : {}),
     ...(scopeToRule(rule.scope) ? { scope: scopeToRule(rule.scope) } : {}),
@@ -377,13 +437,29 @@ export function rulesToDrafts(ruleSet: RuleSet): RuleDraft[] {
   return (ruleSet.rules ?? []).map(ruleToDraft);
 }
 
-export function draftsToRuleSet(version: string, drafts: RuleDraft[]): RuleSet {
+export function draftsToRuleSet(
+  version: string,
+  drafts: RuleDraft[],
+  base?: Pick<RuleSet, 'groups' | 'decisionTables'>,
+): RuleSet {
   return {
     version: version || '1.0.0',
     rules: drafts.map(draftToRule),
+    ...(base?.groups ? { groups: base.groups } : {}),
+    ...(base?.decisionTables?.length ? { decisionTables: base.decisionTables } : {}),
   };
 }
 
+export function draftToRuleText(rule: RuleDraft): string {
+  return printRuleText({ when: conditionToRule(rule.when), actions: rule.actions.map(actionToRule) });
+}
+
+/** Replaces the condition and actions of a draft from DSL text; throws `RuleDslError` on syntax errors. */
+export function applyRuleText(rule: RuleDraft, text: string): RuleDraft {
+  const parsed = parseRuleText(text);
+  return { ...rule, when: conditionFromRule(parsed.when), actions: parsed.actions.map(actionFromRule) };
+}
+
 export function createDefaultRuleDraft(): RuleDraft {
   const id = nextDraftId('rule');
   return {
@@ -414,7 +490,7 @@ function rehydrateConditionIds(condition: ConditionDraft): ConditionDraft {
       children: condition.children.map(rehydrateConditionIds),
     };
   }
-  if (condition.kind === 'not') {
+  if (condition.kind === 'not' || condition.kind === 'quantifier') {
     return {
       ...condition,
       id: nextDraftId('condition'),
@@ -1,10 +1,31 @@
 import type { ApiMapping, FlowSchema, JSONValue } from '@platform/schema';
-import { validateApiMapping, validateFlowSchema, type ValidationIssue } from '@platform/validator';
+import {
+  analyzeFlowSchema,
+  validateApiMapping,
+  validateFlowSchema,
+  type FlowAnalysisIssue,
+  type FlowAnalysisIssueKind,
+  type ValidationIssue,
+} from '@platform/validator';
 
 export type BuilderValidationIssue = ValidationIssue & {
   code?: string;
 };
 
+export type FlowModelBadge = {
+  label: string;
+  severity: FlowAnalysisIssue['severity'];
+  message: string;
+};
+
+const FLOW_MODEL_BADGE_LABELS: Record<FlowAnalysisIssueKind, string> = {
+  unreachable: 'Unreachable',
+  dead_end: 'Dead end',
+  stuck_event: 'Guard gap',
+  join_unreachable: 'Join unsafe',
+  timer_race: 'Timer race',
+};
+
 export function createDefaultFlowSchema(pageId: string): FlowSchema {
   return {
     version: '1.0.0',
@@ -125,6 +146,23 @@ export function validateFlowBuilderSchema(
   return dedupeIssues(issues);
 }
 
+/** Model-check findings grouped by state, one badge per issue kind with the messages joined. */
+export function buildFlowModelBadges(flow: FlowSchema): Record<string, FlowModelBadge[]> {
+  const badges: Record<string, FlowModelBadge[]> = {};
+  for (const issue of analyzeFlowSchema(flow).issues) {
+    const stateBadges = (badges[issue.stateId] ??= []);
+    const label = FLOW_MODEL_BADGE_LABELS[issue.kind];
+    const existing = stateBadges.find((badge) => badge.label === label);
+    if (!existing) {
+      stateBadges.push({ label, severity: issue.severity, message: issue.message });
+      continue;
+    }
+    existing.message = `${existing.message}\n${issue.message}`;
+    if (issue.severity === 'error') existing.severity = 'error';
+  }
+  return badges;
+}
+
 export function createDefaultApiMapping(apiId: string): ApiMapping {
   const safeId = apiId.trim() || 'newMapping';
   return {
@@ -1,4 +1,4 @@
-import type { ApiMapping, FlowSchema, RuleSet, UISchema } from '@platform/schema';
+import type { ApiMapping, FlowSchema, RuleSet, RuleTestCase, UISchema } from '@platform/schema';
 import type { ComponentDefinition } from '@platform/component-registry';
 import type { TranslationBundle } from '@platform/i18n';
 
@@ -22,6 +22,8 @@ export type ConfigBundle = {
   activeUiPageId?: string;
   flowSchema: FlowSchema;
   rules: RuleSet;
+  /** Golden cases run against `rules` before a version can be submitted for review. */
+  ruleTests?: RuleTestCase[];
   apiMappingsById: Record<string, ApiMapping>;
 };
 
@@ -1051,7 +1051,11 @@ export async function updateUiSchema(input: {
   return { ok: true as const };
 }
 
-export async function updateRules(input: { versionId: string; rules: ConfigBundle['rules'] }) {
+export async function updateRules(input: {
+  versionId: string;
+  rules: ConfigBundle['rules'];
+  ruleTests?: ConfigBundle['ruleTests'];
+}) {
   const session = getMockSession();
   const state = await loadState();
 
@@ -1063,7 +1067,11 @@ export async function updateRules(input: { versionId: string; rules: ConfigBundl
     updated = true;
     return updateVersionInPackage(pkg, input.versionId, (v) => ({
       ...v,
-      bundle: { ...v.bundle, rules: input.rules },
+      bundle: {
+        ...v.bundle,
+        rules: input.rules,
+        ...(input.ruleTests ? { ruleTests: input.ruleTests } : {}),
+      },
       updatedAt: nowIso(),
       updatedBy: session.user.name,
     }));
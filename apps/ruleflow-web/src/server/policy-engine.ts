@@ -1,4 +1,6 @@
 import type { RuleSet } from '@platform/schema';
+import { runRuleTests } from '@platform/rules-engine';
+import { analyzeRuleSet } from '@platform/validator';
 import { hasRole, type Role, type Session } from '@/lib/auth';
 import { clearOpaDecisionCacheForTests, evaluateOpaPolicy, OpaClientError } from '@/server/policy/opa-client';
 import { appendImmutableAuditEvent } from '@/server/immutable-audit';
@@ -110,6 +112,48 @@ const builtinPolicies: PolicyDefinition[] = [
       ];
     },
   },
+  {
+    key: 'policy.rules_static_analysis',
+    description: 'Rule sets submitted for review must not contain contradictory or ambiguous rules.',
+    stages: ['submit-for-review'],
+    evaluate(input) {
+      const bundle = input.nextBundle ?? input.currentBundle;
+      const rules = bundle?.rules;
+      if (!rules) return [];
+
+      // Warnings (shadowed rules, prioritized conflicts, read/write cycles) are surfaced in the editor only.
+      return analyzeRuleSet(rules)
+        .issues.filter((issue) => issue.severity === 'error')
+        .map((issue) => ({
+          policyKey: 'policy.rules_static_analysis',
+          code: 'rules_static_analysis',
+          stage: input.stage,
+          message: issue.message,
+          hint: `Fix the rule at ${issue.path}`,
+        }));
+    },
+  },
+  {
+    key: 'policy.rule_tests_pass',
+    description: 'Rule test cases stored with the version must pass before it is submitted for review.',
+    stages: ['submit-for-review'],
+    evaluate(input) {
+      const bundle = input.nextBundle ?? input.currentBundle;
+      if (!bundle?.rules || !bundle.ruleTests?.length) return [];
+
+      return runRuleTests(bundle.rules, bundle.ruleTests)
+        .results.filter((result) => !result.passed)
+        .map((result) => ({
+          policyKey: 'policy.rule_tests_pass',
+          code: 'rule_tests_failed',
+          stage: input.stage,
+          message: `Rule test "${result.id}" failed`,
+          hint: result.diffs
+            .map((diff) => `${diff.path}: expected ${JSON.stringify(diff.expected)}, got ${JSON.stringify(diff.actual)}`)
+            .join('; '),
+        }));
+    },
+  },
 ];
 
 const policyEngine = new PolicyEngine(builtinPolicies);
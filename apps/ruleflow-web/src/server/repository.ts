@@ -641,7 +641,11 @@ export async function updateUiSchema(input: {
   return result;
 }
 
-export async function updateRules(input: { versionId: string; rules: ConfigBundle['rules'] }) {
+export async function updateRules(input: {
+  versionId: string;
+  rules: ConfigBundle['rules'];
+  ruleTests?: ConfigBundle['ruleTests'];
+}) {
   const baseVersion = await getConfigVersion(input.versionId);
   if (!baseVersion) {
     return { ok: false as const, error: 'Version not found' };
@@ -654,11 +658,16 @@ export async function updateRules(input: { versionId: string; rules: ConfigBundl
   if (killBlocked) {
     return killBlocked;
   }
+  const applyRules = (bundle: ConfigBundle): ConfigBundle => ({
+    ...bundle,
+    rules: input.rules,
+    ...(input.ruleTests ? { ruleTests: input.ruleTests } : {}),
+  });
   const checks = await evaluatePolicyStage({
     stage: 'save',
     requiredRole: 'Author',
     currentBundle: baseVersion.bundle,
-    nextBundle: { ...baseVersion.bundle, rules: input.rules },
+    nextBundle: applyRules(baseVersion.bundle),
   });
   if (checks.length > 0) return policyFailure(checks);
 
@@ -668,7 +677,11 @@ export async function updateRules(input: { versionId: string; rules: ConfigBundl
       session: toRepoSession(),
       versionId: input.versionId,
       action: 'Updated rule set',
-      mutate: (bundle) => ({ ...bundle, rules: input.rules }),
+      mutate: (bundle) => ({
+        ...bundle,
+        rules: input.rules,
+        ...(input.ruleTests ? { ruleTests: input.ruleTests } : {}),
+      }),
     });
   }
   const result = await demo.updateRules(input);
@@ -676,9 +689,13 @@ export async function updateRules(input: { versionId: string; rules: ConfigBundl
   const rollbackErrors = await maybeRollbackOnPolicyFailure({
     stage: 'save',
     currentBundle: baseVersion.bundle,
-    nextBundle: { ...baseVersion.bundle, rules: input.rules },
+    nextBundle: applyRules(baseVersion.bundle),
     rollback: async () => {
-      await demo.updateRules({ versionId: input.versionId, rules: baseVersion.bundle.rules });
+      await demo.updateRules({
+        versionId: input.versionId,
+        rules: baseVersion.bundle.rules,
+        ruleTests: baseVersion.bundle.ruleTests ?? [],
+      });
     },
   });
   if (rollbackErrors) return policyFailure(rollbackErrors);
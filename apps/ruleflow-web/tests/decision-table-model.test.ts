@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createDecisionTable,
+  createDecisionTableRow,
+  formatInputCell,
+  formatOutputCell,
+  parseInputCell,
+  parseOutputCell,
+} from '../src/components/rules/decision-table-model';
+
+describe('decision table cell model', () => {
+  it('parses comparison, range, operator and wildcard cells', () => {
+    expect(parseInputCell('-')).toBeUndefined();
+    expect(parseInputCell('  ')).toBeUndefined();
+    expect(parseInputCell('>= 10')).toEqual({ op: 'gte', value: 10 });
+    expect(parseInputCell('!= "vip"')).toEqual({ op: 'neq', value: 'vip' });
+    expect(parseInputCell('[1..5]')).toEqual({ op: 'between', value: [1, 5] });
+    expect(parseInputCell('in ["a","b"]')).toEqual({ op: 'in', value: ['a', 'b'] });
+    expect(parseInputCell('isEmpty')).toEqual({ op: 'isEmpty' });
+    expect(parseInputCell('vip')).toEqual({ value: 'vip' });
+  });
+
+  it('formats cells so they parse back to the same entry', () => {
+    const cells = ['>= 10', '[1..5]', 'in ["a","b"]', 'isEmpty', '"vip"'];
+    for (const cell of cells) {
+      const entry = parseInputCell(cell);
+      expect(formatInputCell(entry)).toBe(cell);
+      expect(parseInputCell(formatInputCell(entry))).toEqual(entry);
+    }
+    expect(formatInputCell(undefined)).toBe('-');
+    expect(parseOutputCell(formatOutputCell({ rate: 0.2 }))).toEqual({ rate: 0.2 });
+    expect(parseOutputCell('-')).toBeUndefined();
+  });
+
+  it('creates tables and rows with unique ids', () => {
+    const table = createDecisionTable('pricing');
+    const row = createDecisionTableRow(table);
+    expect(row.id).toBe('row2');
+    expect(createDecisionTableRow({ ...table, rows: [...table.rows, row] }).id).toBe('row3');
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, expect, it } from 'vitest';
 import type { ApiMapping, FlowSchema } from '@platform/schema';
 import {
+  buildFlowModelBadges,
   createDefaultApiMapping,
   normalizeFlowSchema,
   parseJsonText,
@@ -63,4 +64,28 @@ describe('flow-api-validators', () => {
     expect(parseJsonText('42')).toBe(42);
     expect(parseJsonText('"hello"')).toBe('hello');
   });
+
+  it('groups flow model-check findings into badges per state', () => {
+    const flow: FlowSchema = {
+      version: '1.0.0',
+      flowId: 'badges',
+      initialState: 'start',
+      states: {
+        start: {
+          uiPageId: 'page-a',
+          on: { split: { target: 'start', fork: { branches: ['left', 'right'], joinState: 'done' } } },
+        },
+        left: { uiPageId: 'page-a', on: { finish: { target: 'done' } } },
+        right: { uiPageId: 'page-a', on: {} },
+        done: { uiPageId: 'page-b', on: {}, final: true },
+        stray: { uiPageId: 'page-b', on: {}, final: true },
+      },
+    };
+
+    const badges = buildFlowModelBadges(flow);
+    expect(badges.start).toEqual([expect.objectContaining({ label: 'Join unsafe', severity: 'error' })]);
+    expect(badges.right).toEqual([expect.objectContaining({ label: 'Dead end', severity: 'warning' })]);
+    expect(badges.stray).toEqual([expect.objectContaining({ label: 'Unreachable' })]);
+    expect(badges.left).toBeUndefined();
+  });
 });
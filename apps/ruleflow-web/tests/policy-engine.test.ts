@@ -172,6 +172,79 @@ describe('policy engine', () => {
     expect(errors).toEqual([]);
   });
 
+  it('blocks submit-for-review when static rule analysis finds errors', async () => {
+    const bundle = {
+      ...minimalBundle(),
+      rules: {
+        version: '1.0.0',
+        rules: [
+          {
+            ruleId: 'NEVER',
+            when: {
+              all: [
+                { op: 'gt', left: { path: 'data.amount' }, right: { value: 10 } },
+                { op: 'lt', left: { path: 'data.amount' }, right: { value: 5 } },
+              ],
+            },
+          },
+        ],
+      },
+    };
+
+    const errors = await evaluatePolicies(policyInput({ stage: 'submit-for-review', currentBundle: bundle }));
+    expect(errors).toEqual([
+      expect.objectContaining({
+        policyKey: 'policy.rules_static_analysis',
+        code: 'rules_static_analysis',
+        message: 'rule "NEVER" can never match: its condition is contradictory',
+        hint: 'Fix the rule at rules.0.when',
+      }),
+    ]);
+    expect(await evaluatePolicies(policyInput({ stage: 'save', currentBundle: bundle }))).toEqual([]);
+  });
+
+  it('blocks submit-for-review when stored rule tests fail', async () => {
+    const context = {
+      tenantId: 'tenant-1',
+      userId: 'u-1',
+      role: 'author',
+      roles: ['author'],
+      country: 'US',
+      locale: 'en-US',
+      timezone: 'UTC',
+      device: 'desktop' as const,
+      permissions: [],
+      featureFlags: {},
+    };
+    const bundle = {
+      ...minimalBundle(),
+      rules: {
+        version: '1.0.0',
+        rules: [
+          {
+            ruleId: 'FLAG_LARGE',
+            when: { op: 'gt' as const, left: { path: 'data.amount' }, right: { value: 100 } },
+            actions: [{ type: 'setField' as const, path: 'data.flagged', value: true }],
+          },
+        ],
+      },
+      ruleTests: [
+        { id: 'large', context, data: { amount: 500 }, expect: { matchedRuleIds: ['FLAG_LARGE'] } },
+        { id: 'small', context, data: { amount: 5 }, expect: { data: { flagged: true } } },
+      ],
+    };
+
+    const errors = await evaluatePolicies(policyInput({ stage: 'submit-for-review', currentBundle: bundle }));
+    expect(errors).toEqual([
+      expect.objectContaining({
+        policyKey: 'policy.rule_tests_pass',
+        code: 'rule_tests_failed',
+        message: 'Rule test "small" failed',
+        hint: 'data.flagged: expected true, got undefined',
+      }),
+    ]);
+  });
+
   it('returns explicit RBAC policy error when role is missing', () => {
     const errors = requireRole({ session: authorSession }, 'Approver', 'approve');
     expect(errors).toHaveLength(1);
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const repositoryMock = vi.hoisted(() => ({
+  getConfigStore: vi.fn(async () => ({ provider: 'postgres' })),
+  getConfigVersion: vi.fn(),
+  getStoreDiagnostics: vi.fn(async () => ({ provider: 'postgres', baseDir: null, canWriteToStore: true })),
+  isPersistenceError: vi.fn(() => false),
+}));
+
+vi.mock('@/server/repository', () => repositoryMock);
+
+const bundle = {
+  rules: {
+    version: '1.0.0',
+    rules: [
+      {
+        ruleId: 'HIGH_VALUE',
+        when: { op: 'gt', left: { path: 'data.amount' }, right: { value: 1000 } },
+        actions: [{ type: 'setField', path: 'data.review', value: true }],
+      },
+    ],
+  },
+  ruleTests: [
+    {
+      id: 'high-value',
+      context: {
+        tenantId: 'tenant-1',
+        userId: 'u-1',
+        role: 'author',
+        roles: ['author'],
+        country: 'US',
+        locale: 'en-US',
+        timezone: 'UTC',
+        device: 'desktop',
+        permissions: [],
+        featureFlags: {},
+      },
+      data: { amount: 5000 },
+      expect: { matchedRuleIds: ['HIGH_VALUE'], data: { review: true } },
+    },
+  ],
+};
+
+function postRuleTests(body?: unknown) {
+  return new Request('http://localhost/api/config-versions/ver-1/rule-tests', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    ...(body === undefined ? {} : { body: JSON.stringify(body) }),
+  });
+}
+
+describe('rule tests route', () => {
+  beforeEach(() => {
+    repositoryMock.getConfigVersion.mockReset();
+    repositoryMock.getConfigVersion.mockResolvedValue({ id: 'ver-1', bundle });
+  });
+
+  afterEach(() => {
+    delete process.env.RULEFLOW_MOCK_ROLES;
+  });
+
+  it('runs the stored rule tests of a version', async () => {
+    const route = await import('../src/app/api/config-versions/[versionId]/rule-tests/route');
+    const response = await route.POST(postRuleTests(), { params: Promise.resolve({ versionId: 'ver-1' }) });
+
+    expect(response.status).toBe(200);
+    const json = (await response.json()) as { ok: boolean; result: { passed: boolean; total: number } };
+    expect(json.ok).toBe(true);
+    expect(json.result).toMatchObject({ passed: true, total: 1 });
+  });
+
+  it('rejects a non-array ruleTests body and unknown versions', async () => {
+    const route = await import('../src/app/api/config-versions/[versionId]/rule-tests/route');
+    const invalid = await route.POST(postRuleTests({ ruleTests: {} }), { params: Promise.resolve({ versionId: 'ver-1' }) });
+    expect(invalid.status).toBe(400);
+
+    repositoryMock.getConfigVersion.mockResolvedValueOnce(null);
+    const missing = await route.POST(postRuleTests(), { params: Promise.resolve({ versionId: 'ver-9' }) });
+    expect(missing.status).toBe(404);
+  });
+
+  it('returns 403 when the caller is not an author', async () => {
+    process.env.RULEFLOW_MOCK_ROLES = 'Viewer';
+    const route = await import('../src/app/api/config-versions/[versionId]/rule-tests/route');
+    const response = await route.POST(postRuleTests(), { params: Promise.resolve({ versionId: 'ver-1' }) });
+
+    expect(response.status).toBe(403);
+    expect(repositoryMock.getConfigVersion).not.toHaveBeenCalled();
+  });
+});
@@ -2,8 +2,11 @@ import { describe, expect, it } from 'vitest';
 import type { RuleCondition } from '@platform/schema';
 import {
   actionToRule,
+  applyRuleText,
   conditionFromRule,
   conditionToRule,
+  draftToRule,
+  draftToRuleText,
   draftsToRuleSet,
   parseValueText,
   rulesToDrafts,
@@ -12,7 +15,7 @@ import {
 import { rulesVisualFixtureContext, rulesVisualFixtureData } from './fixtures/rules-visual.fixture';
 
 describe('rules visual model serialization', () => {
-  it('serializes nested all/any/not condition trees', () => {
+  it('serializes nested all/any/not/quantifier condition trees', () => {
     const source: RuleCondition = {
       all: [
         { op: 'eq', left: { path: 'context.country' }, right: { value: 'US' } },
@@ -22,6 +25,12 @@ describe('rules visual model serialization', () => {
             { not: { op: 'gt', left: { path: 'data.orderTotal' }, right: { value: 5000 } } },
           ],
         },
+        {
+          every: {
+            path: 'data.applicants',
+            when: { op: 'gte', left: { path: '$item.age' }, right: { value: 18 } },
+          },
+        },
       ],
     };
 
@@ -85,4 +94,37 @@ describe('rules visual model serialization', () => {
     const serialized = draftsToRuleSet('1.0.0', drafts);
     expect(serialized).toEqual(source);
   });
+
+  it('switches a draft between visual and text views without losing the rule', () => {
+    const [draft] = rulesToDrafts({
+      version: '1.0.0',
+      rules: [
+        {
+          ruleId: 'ADULT_EU',
+          priority: 10,
+          when: {
+            all: [
+              { op: 'gte', left: { path: 'data.age' }, right: { value: 18 } },
+              { op: 'in', left: { path: 'context.country' }, right: { value: ['DE', 'FR'] } },
+            ],
+          },
+          actions: [{ type: 'setField', path: 'data.eligible', value: true }],
+        },
+      ],
+    });
+    if (!draft) throw new Error('expected a draft');
+
+    const text = draftToRuleText(draft);
+    expect(text).toBe('when\n  data.age >= 18 and context.country in ["DE","FR"]\nthen\n  setField data.eligible = true');
+
+    const edited = applyRuleText(draft, text.replace('18', '21'));
+    expect(edited.id).toBe(draft.id);
+    expect(draftToRule(edited).when).toEqual({
+      all: [
+        { op: 'gte', left: { path: 'data.age' }, right: { value: 21 } },
+        { op: 'in', left: { path: 'context.country' }, right: { value: ['DE', 'FR'] } },
+      ],
+    });
+    expect(() => applyRuleText(draft, 'when data.age >=')).toThrow(/line 1, column 17/);
+  });
 });
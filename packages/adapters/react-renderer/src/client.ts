@@ -4,8 +4,8 @@ export {
   RenderPage,
   createAdapterRegistry,
   getDefaultAdapterRegistry,
+  hydratePage,
   isAdapterRegistered,
   listRegisteredAdapterPrefixes,
   registerAdapter,
-} from './dist/index.js';
-
+} from './index';
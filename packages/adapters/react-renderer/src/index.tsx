@@ -1,20 +1,48 @@
 'use client';
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { hydrateRoot, type Root } from 'react-dom/client';
 import type { I18nProvider } from '@platform/i18n';
 import { createFallbackI18nProvider } from '@platform/i18n';
-import { evaluateCondition } from '@platform/rules-engine';
-import { createDataSourceAdapter, type DataSourceAdapter } from '@platform/runtime';
+import {
+  createComputedBindingEvaluator,
+  evaluateCondition,
+  type ComputedBindingEvaluator,
+} from '@platform/rules-engine';
+import {
+  ComponentDataLoader,
+  createDataSourceAdapter,
+  getFieldState,
+  resolveDataSourceParams,
+  validateForm,
+  type ComponentDataState,
+  type DataSourceAdapter,
+  type FormFieldState,
+  type FormValidationResult,
+} from '@platform/runtime';
 import { UnsupportedComponentPlaceholder } from '@platform/ui-kit';
+import {
+  applyRepeaterAction,
+  expandRepeaterComponents,
+  readRepeaterItems,
+  scopeComponentToRepeaterItem,
+} from '@platform/schema';
 import type {
   ExecutionContext,
   JSONValue,
+  RepeaterAction,
+  RepeaterLayout,
+  Rule,
+  RuleSet,
   UIComponent,
   UIComponentDataSource,
   UIEventAction,
   UIGridItem,
   UISchema,
 } from '@platform/schema';
+import { DEFAULT_SSR_ROOT_ID, readSsrState } from './ssr-state';
+
+export { DEFAULT_SSR_ROOT_ID, getSsrStateElementId, readSsrState, type RenderPageSsrState } from './ssr-state';
 
 export type UIEventName = 'onChange' | 'onClick' | 'onSubmit';
 
@@ -57,6 +85,12 @@ export interface RendererProps {
   onChange?: RendererOnChange;
   onDataChange?: (data: Record<string, JSONValue>) => void;
   onContextChange?: (context: ExecutionContext) => void;
+  /** Rule set that `validations.rules` names are resolved against. */
+  validationRules?: Rule[] | RuleSet;
+  /** Called instead of the submit handlers when the page fails validation. */
+  onSubmitBlocked?: (result: FormValidationResult, component: UIComponent) => void;
+  /** Called after an item of a `repeater` layout was added, removed or moved, with the new data. */
+  onRepeaterAction?: (action: RepeaterAction, repeater: RepeaterLayout, data: Record<string, JSONValue>) => void;
   mode?: 'controlled' | 'internal';
   componentWrapper?: (component: UIComponent, rendered: React.ReactElement) => React.ReactElement;
 }
@@ -66,6 +100,11 @@ export interface AdapterContext {
   context: ExecutionContext;
   i18n: I18nProvider;
   bindings: BindingGroupValues;
+  validation: FormFieldState;
+  /** Load state of the component's `dataSource`; the loaded payload is also merged into `data`. */
+  dataSource?: ComponentDataState;
+  /** Fetches the component's `dataSource` again, bypassing the cache (e.g. to retry after an error). */
+  reloadDataSource?: () => void;
   events: {
     onChange?: (payloadOrValue: ChangeEventPayload | JSONValue, bindingPath?: string) => void;
     onClick?: (payload: ClickEventPayload) => void;
@@ -168,7 +207,10 @@ export function RenderPage(props: RendererProps): React.ReactElement {
   const mode = props.mode ?? 'controlled';
   const [localData, setLocalData] = useState(props.data);
   const [localContext, setLocalContext] = useState(props.context);
-  const [componentDataById, setComponentDataById] = useState<Record<string, JSONValue>>({});
+  const [dataSourceStates, setDataSourceStates] = useState<Record<string, ComponentDataState>>({});
+  const [touched, setTouched] = useState<ReadonlySet<string>>(() => new Set());
+  const [initialValues] = useState(() => ({ data: props.data, context: props.context }));
+  const [computedBindings] = useState(() => createComputedBindingEvaluator());
 
   useEffect(() => {
     if (mode !== 'internal') return;
@@ -180,48 +222,45 @@ export function RenderPage(props: RendererProps): React.ReactElement {
     setLocalContext(props.context);
   }, [mode, props.context]);
 
-  useEffect(() => {
-    const componentsWithDataSource = props.uiSchema.components.filter((component) => component.dataSource);
-    if (componentsWithDataSource.length === 0) {
-      setComponentDataById({});
-      return;
-    }
-
-    let cancelled = false;
-    const loadComponentData = async () => {
-      const next: Record<string, JSONValue> = {};
-      await Promise.all(
-        componentsWithDataSource.map(async (component) => {
-          const dataSource = component.dataSource;
-          if (!dataSource) return;
-          try {
-            const adapter = resolveDataSourceAdapter(dataSource, props);
-            await adapter.connect();
-            const payload = await adapter.fetch({
-              endpoint: dataSource.endpoint,
-              query: dataSource.query,
-              componentId: component.id,
-              type: dataSource.type,
-            });
-            next[component.id] = toJSONValue(payload);
-          } catch {
-            // Backward compatibility: silently ignore failed remote loads.
-          }
-        }),
-      );
+  const currentData = mode === 'internal' ? localData : props.data;
+  const currentContext = mode === 'internal' ? localContext : props.context;
 
-      if (cancelled) return;
-      setComponentDataById(next);
-    };
+  const dataLoader = useMemo(
+    () =>
+      new ComponentDataLoader<UIComponentDataSource>({
+        resolveAdapter: (config) => resolveDataSourceAdapter(config, props),
+      }),
+    [props.dataSourceAdapter, props.dataSourceAdapterFactory],
+  );
+  const dataSourceRequests = props.uiSchema.components.flatMap((component) =>
+    component.dataSource
+      ? [
+          {
+            componentId: component.id,
+            dataSource: component.dataSource,
+            params: resolveDataSourceParams(component.dataSource, currentData, currentContext),
+          },
+        ]
+      : [],
+  );
+  const dataSourceRequestKey = JSON.stringify(dataSourceRequests);
 
-    void loadComponentData();
+  useEffect(() => {
+    const unsubscribe = dataLoader.subscribe((componentId, state) =>
+      setDataSourceStates((previous) => ({ ...previous, [componentId]: state })),
+    );
     return () => {
-      cancelled = true;
+      unsubscribe();
+      dataLoader.dispose();
     };
-  }, [props.dataSourceAdapter, props.dataSourceAdapterFactory, props.uiSchema.components]);
+  }, [dataLoader]);
 
-  const currentData = mode === 'internal' ? localData : props.data;
-  const currentContext = mode === 'internal' ? localContext : props.context;
+  // Reloads only the sources whose parameters changed; the loader skips unchanged ones.
+  useEffect(() => {
+    for (const request of dataSourceRequests) {
+      void dataLoader.load(request.componentId, request.dataSource, request.params);
+    }
+  }, [dataLoader, dataSourceRequestKey]);
 
   const applyDataChange = (next: Record<string, JSONValue>) => {
     if (mode === 'internal') {
@@ -239,6 +278,25 @@ export function RenderPage(props: RendererProps): React.ReactElement {
 
   const componentMap = new Map(props.uiSchema.components.map((component) => [component.id, component]));
   const i18n = props.i18n ?? createFallbackI18nProvider();
+  const validateAgainst = (touchedIds: ReadonlySet<string>) =>
+    validateForm({
+      components: props.uiSchema.components,
+      layout: props.uiSchema.layout,
+      data: currentData,
+      context: currentContext,
+      rules: props.validationRules,
+      i18n,
+      touched: touchedIds,
+      initialData: initialValues.data,
+      initialContext: initialValues.context,
+    });
+  const validation = validateAgainst(touched);
+  const touch = (componentIds: string[]) => {
+    setTouched((previous) => {
+      if (componentIds.every((id) => previous.has(id))) return previous;
+      return new Set([...previous, ...componentIds]);
+    });
+  };
 
   let renderData = currentData;
   let renderContext = currentContext;
@@ -247,6 +305,7 @@ export function RenderPage(props: RendererProps): React.ReactElement {
   const renderComponent = (
     componentId: string,
     itemOverride?: Pick<UIGridItem, 'props' | 'bindings' | 'rules'>,
+    itemIndex?: number,
   ): React.ReactNode => {
     const sourceComponent = componentMap.get(componentId);
     if (!sourceComponent) {
@@ -257,7 +316,8 @@ export function RenderPage(props: RendererProps): React.ReactElement {
       );
     }
 
-    const component = mergeComponent(sourceComponent, itemOverride);
+    const merged = mergeComponent(sourceComponent, itemOverride);
+    const component = itemIndex === undefined ? merged : scopeComponentToRepeaterItem(merged, itemIndex);
     assertAccessibility(component);
     if (isResponsiveHidden(component, getActiveBreakpoint(), renderContext.device)) {
       return null;
@@ -289,12 +349,18 @@ export function RenderPage(props: RendererProps): React.ReactElement {
       },
     };
 
+    const dataSourceState = dataSourceStates[sourceComponent.id];
     const componentData = resolveDataForComponent(
       renderData,
       componentForAdapter,
-      componentDataById[component.id],
+      dataSourceState?.data === undefined ? undefined : toJSONValue(dataSourceState.data),
+    );
+    const bindings = resolveBindings(
+      componentForAdapter,
+      componentData,
+      renderContext,
+      computedBindings,
     );
-    const bindings = resolveBindings(componentForAdapter, componentData, renderContext);
     const events = buildEvents(componentForAdapter, {
       onEvent: props.onEvent,
       onAdapterEvent: props.onAdapterEvent,
@@ -303,6 +369,15 @@ export function RenderPage(props: RendererProps): React.ReactElement {
       onContextChange: applyContextChange,
       data: currentData,
       context: currentContext,
+      touch,
+      validateSubmit: () => {
+        const allIds = expandRepeaterComponents(props.uiSchema.components, props.uiSchema.layout, currentData).map(
+          (entry) => entry.id,
+        );
+        touch(allIds);
+        return validateAgainst(new Set(allIds));
+      },
+      onSubmitBlocked: props.onSubmitBlocked,
     });
     const rendered = (
       <div data-component-id={component.id}>
@@ -312,6 +387,15 @@ export function RenderPage(props: RendererProps): React.ReactElement {
           events,
           i18n,
           bindings,
+          validation: getFieldState(validation, component.id),
+          dataSource: dataSourceState,
+          ...(sourceComponent.dataSource
+            ? {
+                reloadDataSource: () => {
+                  void dataLoader.reload(sourceComponent.id);
+                },
+              }
+            : {}),
         })}
       </div>
     );
@@ -319,7 +403,7 @@ export function RenderPage(props: RendererProps): React.ReactElement {
     return React.cloneElement(wrapped, { key: component.id });
   };
 
-  const renderLayout = (node: UISchema['layout']): React.ReactElement => {
+  const renderLayout = (node: UISchema['layout'], itemIndex?: number): React.ReactElement => {
     if (props.uiSchema.layoutType === 'grid' && Array.isArray(props.uiSchema.items) && props.uiSchema.items.length > 0) {
       const activeBreakpoint = getActiveBreakpoint();
       const spec = resolveGridSpecForBreakpoint(props.uiSchema, activeBreakpoint);
@@ -374,7 +458,7 @@ export function RenderPage(props: RendererProps): React.ReactElement {
             {sortComponentIdsByFocus(node.componentIds, componentMap).map((componentId) => {
               const component = componentMap.get(componentId);
               const span = resolveResponsiveSpan(component, getActiveBreakpoint(), renderContext.device);
-              const rendered = renderComponent(componentId);
+              const rendered = renderComponent(componentId, undefined, itemIndex);
               if (!rendered) return null;
               if (!span) return rendered;
               return (
@@ -384,16 +468,16 @@ export function RenderPage(props: RendererProps): React.ReactElement {
               );
             })}
             {node.children?.map((child) => (
-              <div key={child.id}>{renderLayout(child)}</div>
+              <div key={child.id}>{renderLayout(child, itemIndex)}</div>
             ))}
           </div>
         );
       case 'stack':
         return (
           <div data-layout="stack" style={{ display: 'flex', flexDirection: node.direction === 'horizontal' ? 'row' : 'column', gap: 12 }}>
-            {sortComponentIdsByFocus(node.componentIds, componentMap).map((componentId) => renderComponent(componentId))}
+            {sortComponentIdsByFocus(node.componentIds, componentMap).map((componentId) => renderComponent(componentId, undefined, itemIndex))}
             {node.children?.map((child) => (
-              <div key={child.id}>{renderLayout(child)}</div>
+              <div key={child.id}>{renderLayout(child, itemIndex)}</div>
             ))}
           </div>
         );
@@ -403,7 +487,7 @@ export function RenderPage(props: RendererProps): React.ReactElement {
             {node.tabs.map((tab) => (
               <section key={tab.id}>
                 <h3>{tab.label}</h3>
-                {renderLayout(tab.child)}
+                {renderLayout(tab.child, itemIndex)}
               </section>
             ))}
           </div>
@@ -412,12 +496,64 @@ export function RenderPage(props: RendererProps): React.ReactElement {
         return (
           <section data-layout="section">
             {node.title && <h2>{node.title}</h2>}
-            {sortComponentIdsByFocus(node.componentIds, componentMap).map((componentId) => renderComponent(componentId))}
+            {sortComponentIdsByFocus(node.componentIds, componentMap).map((componentId) => renderComponent(componentId, undefined, itemIndex))}
             {node.children?.map((child) => (
-              <div key={child.id}>{renderLayout(child)}</div>
+              <div key={child.id}>{renderLayout(child, itemIndex)}</div>
             ))}
           </section>
         );
+      case 'repeater': {
+        const items = readRepeaterItems(renderData, node);
+        const runAction = (action: RepeaterAction) => {
+          const next = applyRepeaterAction(currentData, node, action);
+          if (next === currentData) return;
+          applyDataChange(next);
+          props.onRepeaterAction?.(action, node, next);
+        };
+        const canAdd = node.maxItems === undefined || items.length < node.maxItems;
+        const canRemove = items.length > (node.minItems ?? 0);
+        return (
+          <div data-layout="repeater" data-repeater-id={node.id}>
+            {items.map((_item, index) => {
+              const position = index + 1;
+              return (
+                <div key={index} data-repeater-item={index}>
+                  {renderLayout(node.template, index)}
+                  <div data-repeater-controls="">
+                    <button
+                      type="button"
+                      disabled={index === 0}
+                      aria-label={i18n.t('runtime.repeater.moveUp', { position }, { defaultText: `Move item ${position} up` })}
+                      onClick={() => runAction({ type: 'move', from: index, to: index - 1 })}
+                    >
+                      ↑
+                    </button>
+                    <button
+                      type="button"
+                      disabled={index === items.length - 1}
+                      aria-label={i18n.t('runtime.repeater.moveDown', { position }, { defaultText: `Move item ${position} down` })}
+                      onClick={() => runAction({ type: 'move', from: index, to: index + 1 })}
+                    >
+                      ↓
+                    </button>
+                    <button
+                      type="button"
+                      disabled={!canRemove}
+                      aria-label={i18n.t('runtime.repeater.remove', { position }, { defaultText: `Remove item ${position}` })}
+                      onClick={() => runAction({ type: 'remove', index })}
+                    >
+                      ×
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+            <button type="button" data-repeater-add="" disabled={!canAdd} onClick={() => runAction({ type: 'add' })}>
+              {i18n.t('runtime.repeater.add', undefined, { defaultText: 'Add item' })}
+            </button>
+          </div>
+        );
+      }
       default: {
         const fallback = node as {
           componentIds?: string[];
@@ -425,9 +561,9 @@ export function RenderPage(props: RendererProps): React.ReactElement {
         };
         return (
           <div data-layout="unknown">
-            {sortComponentIdsByFocus(fallback.componentIds, componentMap).map((componentId) => renderComponent(componentId))}
+            {sortComponentIdsByFocus(fallback.componentIds, componentMap).map((componentId) => renderComponent(componentId, undefined, itemIndex))}
             {fallback.children?.map((child) => (
-              <div key={child.id}>{renderLayout(child)}</div>
+              <div key={child.id}>{renderLayout(child, itemIndex)}</div>
             ))}
           </div>
         );
@@ -442,6 +578,32 @@ export function RenderPage(props: RendererProps): React.ReactElement {
   );
 }
 
+export interface HydratePageOptions extends Omit<RendererProps, 'data' | 'context'> {
+  /** Root id passed to `renderPageToString`/`renderPageToStream`. Defaults to `rf-root`. */
+  rootId?: string;
+  container?: Element;
+  onRecoverableError?: (error: unknown) => void;
+}
+
+/**
+ * Attaches `RenderPage` to markup from `@platform/react-renderer/server`, using the data and
+ * context the server serialized. The adapter registry and i18n provider must match the server's.
+ */
+export function hydratePage(options: HydratePageOptions): Root {
+  const { rootId = DEFAULT_SSR_ROOT_ID, container, onRecoverableError, ...props } = options;
+  const target = container ?? document.getElementById(rootId);
+  if (!target) {
+    throw new Error(`Hydration root "${rootId}" was not found.`);
+  }
+  const state = readSsrState(target.ownerDocument, rootId);
+  if (state.pageId !== props.uiSchema.pageId) {
+    throw new Error(`Server rendered page "${state.pageId}" but hydration was given "${props.uiSchema.pageId}".`);
+  }
+  return hydrateRoot(target, <RenderPage {...props} data={state.data} context={state.context} />, {
+    onRecoverableError,
+  });
+}
+
 function resolveDataSourceAdapter(
   dataSource: UIComponentDataSource,
   props: RendererProps,
@@ -888,6 +1050,9 @@ function buildEvents(
     onContextChange: (next: ExecutionContext) => void;
     data: Record<string, JSONValue>;
     context: ExecutionContext;
+    touch: (componentIds: string[]) => void;
+    validateSubmit: () => FormValidationResult;
+    onSubmitBlocked?: (result: FormValidationResult, component: UIComponent) => void;
   },
 ): AdapterContext['events'] {
   const emitSchemaEvent = (event: UIEventName) => {
@@ -911,6 +1076,7 @@ function buildEvents(
           options.onContextChange(next as unknown as ExecutionContext);
         }
       }
+      options.touch([component.id]);
       const normalizedPath = parsed ? `${parsed.target}.${parsed.path}` : resolvedBindingPath;
       options.onChange?.(normalizedPath, payload.value, payload.componentId);
       options.onAdapterEvent?.('onChange', payload, component);
@@ -921,6 +1087,11 @@ function buildEvents(
       emitSchemaEvent('onClick');
     },
     onSubmit: (payload) => {
+      const result = options.validateSubmit();
+      if (!result.valid) {
+        options.onSubmitBlocked?.(result, component);
+        return;
+      }
       options.onAdapterEvent?.('onSubmit', payload, component);
       emitSchemaEvent('onSubmit');
     },
@@ -953,6 +1124,7 @@ function resolveBindings(
   component: UIComponent,
   data: Record<string, JSONValue>,
   context: ExecutionContext,
+  computedBindings: ComputedBindingEvaluator,
 ): BindingGroupValues {
   const bindings = component.bindings;
   const out: BindingGroupValues = { data: {}, context: {}, computed: {} };
@@ -987,17 +1159,9 @@ function resolveBindings(
   }
 
   if (bindings.computed) {
-    for (const [key, path] of Object.entries(bindings.computed)) {
-      if (typeof path !== 'string' || path.trim().length === 0) continue;
-      const normalized = normalizeBindingPath(path, 'data');
-      const parsed = parseBindingPath(normalized, 'data');
-      if (!parsed) continue;
-      const source = parsed.target === 'context' ? (context as unknown as Record<string, JSONValue>) : data;
-      out.computed[key] = {
-        target: 'computed',
-        path: normalized,
-        value: getPath(source, parsed.path),
-      };
+    const computed = computedBindings.evaluate(bindings.computed, data, context);
+    for (const [key, entry] of Object.entries(computed)) {
+      out.computed[key] = { target: 'computed', path: entry.path, value: entry.value };
     }
   }
 
@@ -0,0 +1,67 @@
+import React from 'react';
+import {
+  renderToPipeableStream,
+  renderToString,
+  type PipeableStream,
+  type RenderToPipeableStreamOptions,
+} from 'react-dom/server';
+import { RenderPage, type RendererProps } from './index';
+import {
+  DEFAULT_SSR_ROOT_ID,
+  getSsrStateElementId,
+  serializeSsrState,
+  type RenderPageSsrState,
+} from './ssr-state';
+
+export { DEFAULT_SSR_ROOT_ID, getSsrStateElementId, type RenderPageSsrState } from './ssr-state';
+
+export interface RenderPageServerOptions {
+  /** Id of the element `hydratePage` mounts into. Defaults to `rf-root`. */
+  rootId?: string;
+}
+
+export interface RenderedPage {
+  html: string;
+  state: RenderPageSsrState;
+}
+
+/**
+ * Renders the page plus a JSON state script for `hydratePage`. Visibility rules and
+ * `setValueWhen` are applied during the render; remote `dataSource` loads are left to the client.
+ */
+export function renderPageToString(props: RendererProps, options: RenderPageServerOptions = {}): RenderedPage {
+  const state = toSsrState(props);
+  const html = renderToString(<SsrPage props={props} state={state} rootId={options.rootId ?? DEFAULT_SSR_ROOT_ID} />);
+  return { html, state };
+}
+
+/** Streaming variant of `renderPageToString` for Node responses; pipe it once the shell is ready. */
+export function renderPageToStream(
+  props: RendererProps,
+  options: RenderPageServerOptions & RenderToPipeableStreamOptions = {},
+): PipeableStream {
+  const { rootId, ...streamOptions } = options;
+  return renderToPipeableStream(
+    <SsrPage props={props} state={toSsrState(props)} rootId={rootId ?? DEFAULT_SSR_ROOT_ID} />,
+    streamOptions,
+  );
+}
+
+function SsrPage(input: { props: RendererProps; state: RenderPageSsrState; rootId: string }): React.ReactElement {
+  return (
+    <>
+      <div id={input.rootId} data-rf-ssr-root="">
+        <RenderPage {...input.props} />
+      </div>
+      <script
+        type="application/json"
+        id={getSsrStateElementId(input.rootId)}
+        dangerouslySetInnerHTML={{ __html: serializeSsrState(input.state) }}
+      />
+    </>
+  );
+}
+
+function toSsrState(props: RendererProps): RenderPageSsrState {
+  return { pageId: props.uiSchema.pageId, data: props.data, context: props.context };
+}
@@ -0,0 +1,32 @@
+import type { ExecutionContext, JSONValue } from '@platform/schema';
+
+export const DEFAULT_SSR_ROOT_ID = 'rf-root';
+
+/** Inputs the server rendered with; the client hydrates from exactly these so the markup matches. */
+export interface RenderPageSsrState {
+  pageId: string;
+  data: Record<string, JSONValue>;
+  context: ExecutionContext;
+}
+
+export function getSsrStateElementId(rootId: string): string {
+  return `${rootId}-state`;
+}
+
+// The state lands inside a <script> tag, so anything that could close it or start markup is escaped.
+export function serializeSsrState(state: RenderPageSsrState): string {
+  return JSON.stringify(state)
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+    .replace(/&/g, '\\u0026')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+}
+
+export function readSsrState(doc: Document, rootId: string = DEFAULT_SSR_ROOT_ID): RenderPageSsrState {
+  const element = doc.getElementById(getSsrStateElementId(rootId));
+  if (!element?.textContent) {
+    throw new Error(`Server-rendered state for "${rootId}" was not found.`);
+  }
+  return JSON.parse(element.textContent) as RenderPageSsrState;
+}
@@ -0,0 +1,116 @@
+// @vitest-environment jsdom
+import { act } from 'react';
+import { createRoot } from 'react-dom/client';
+import { describe, expect, it, vi } from 'vitest';
+import type { ExecutionContext, UISchema } from '@platform/schema';
+import { InMemoryAdapter, type DispatchRequest } from '@platform/runtime';
+import { createFallbackI18nProvider } from '@platform/i18n';
+import { RenderPage, registerAdapter, type AdapterContext } from '../src/index';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+const context: ExecutionContext = {
+  tenantId: 'tenant-1',
+  userId: 'user-1',
+  role: 'admin',
+  roles: ['admin'],
+  country: 'US',
+  locale: 'en-US',
+  timezone: 'UTC',
+  device: 'desktop',
+  permissions: [],
+  featureFlags: {},
+};
+
+const schema: UISchema = {
+  version: '1.0.0',
+  pageId: 'orders',
+  layout: { id: 'root', type: 'section', componentIds: ['statusFilter', 'ordersTable'] },
+  components: [
+    {
+      id: 'statusFilter',
+      type: 'input',
+      adapterHint: 'ds.filter',
+      bindings: { data: { value: 'data.filters.status' } },
+      accessibility: { ariaLabelKey: 'runtime.orders.filter.aria', keyboardNav: true, focusOrder: 1 },
+    },
+    {
+      id: 'ordersTable',
+      type: 'table',
+      adapterHint: 'ds.table',
+      dataSource: { type: 'rest', endpoint: '/orders', params: { status: 'data.filters.status' } },
+      accessibility: { ariaLabelKey: 'runtime.orders.table.aria', keyboardNav: true, focusOrder: 2 },
+    },
+  ],
+};
+
+describe('react-renderer data sources', () => {
+  it('loads component data sources, reloads when bound params change and cancels on unmount', async () => {
+    const captured: Record<string, AdapterContext> = {};
+    registerAdapter('ds.', (component, ctx) => {
+      captured[component.id] = ctx;
+      return <span data-testid={component.id}>{ctx.dataSource?.status ?? 'none'}</span>;
+    });
+    const pending: Array<{ request: DispatchRequest; resolve: (value: unknown) => void }> = [];
+    const adapter = new InMemoryAdapter({
+      '/orders': (request: DispatchRequest) => new Promise((resolve) => pending.push({ request, resolve })),
+    });
+    const fetchSpy = vi.spyOn(adapter, 'fetch');
+    const container = document.createElement('div');
+    const root = createRoot(container);
+    await act(async () => {
+      root.render(
+        <RenderPage
+          uiSchema={schema}
+          mode="internal"
+          data={{ filters: { status: 'open' } }}
+          context={context}
+          i18n={createFallbackI18nProvider()}
+          dataSourceAdapter={adapter}
+        />,
+      );
+    });
+
+    expect(captured.ordersTable?.dataSource?.status).toBe('loading');
+    expect(captured.statusFilter?.dataSource).toBeUndefined();
+    expect(pending[0]?.request.params).toEqual({ status: 'open' });
+    await act(async () => {
+      pending[0]?.resolve({ rows: [{ id: 'o-1' }] });
+    });
+    expect(captured.ordersTable?.dataSource).toMatchObject({ status: 'ready', data: { rows: [{ id: 'o-1' }] } });
+    expect(captured.ordersTable?.data.rows).toEqual([{ id: 'o-1' }]);
+
+    await act(async () => {
+      captured.statusFilter?.events.onChange?.('closed');
+    });
+    expect(pending[1]?.request.params).toEqual({ status: 'closed' });
+    expect(captured.ordersTable?.dataSource).toMatchObject({ status: 'loading', data: { rows: [{ id: 'o-1' }] } });
+    await act(async () => {
+      pending[1]?.resolve([]);
+    });
+    expect(captured.ordersTable?.dataSource?.status).toBe('empty');
+
+    expect(captured.statusFilter?.reloadDataSource).toBeUndefined();
+    await act(async () => {
+      captured.ordersTable?.reloadDataSource?.();
+    });
+    expect(pending[2]?.request.params).toEqual({ status: 'closed' });
+    await act(async () => {
+      pending[2]?.resolve([{ id: 'c-1' }]);
+    });
+    expect(captured.ordersTable?.dataSource).toMatchObject({ status: 'ready', data: [{ id: 'c-1' }] });
+
+    await act(async () => {
+      captured.statusFilter?.events.onChange?.('open');
+    });
+    expect(captured.ordersTable?.dataSource?.status).toBe('ready');
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+
+    await act(async () => {
+      captured.statusFilter?.events.onChange?.('archived');
+    });
+    const signal = pending[3]?.request.signal;
+    act(() => root.unmount());
+    expect(signal?.aborted).toBe(true);
+  });
+});
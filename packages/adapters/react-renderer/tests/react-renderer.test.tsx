@@ -3,6 +3,7 @@ import { describe, expect, it } from 'vitest';
 import { renderToStaticMarkup } from 'react-dom/server';
 import { executeStep } from '../../../core-runtime/src/index';
 import type { ExecutionContext, FlowSchema, JSONValue, Rule, UIComponent, UISchema } from '@platform/schema';
+import type { FormValidationResult } from '@platform/runtime';
 import { createFallbackI18nProvider } from '@platform/i18n';
 import { registerAdapter, RenderPage, type AdapterContext } from '../src/index';
 
@@ -270,7 +271,11 @@ describe('react-renderer', () => {
           bindings: {
             data: { value: 'data.orderTotal' },
             context: { role: 'context.role' },
-            computed: { roleCopy: 'context.role' },
+            computed: {
+              roleCopy: 'context.role',
+              gross: 'round(orderTotal * 1.19, 2)',
+              summary: "upper(context.role) + ': ' + computed.gross",
+            },
           },
           accessibility: {
             ariaLabelKey: 'runtime.orders.table.aria',
@@ -292,7 +297,9 @@ describe('react-renderer', () => {
 
     expect(captured?.bindings.data.value?.value).toBe(1200);
     expect(captured?.bindings.context.role?.value).toBe('admin');
-    expect(captured?.bindings.computed.roleCopy?.value).toBe('admin');
+    expect(captured?.bindings.computed.roleCopy).toEqual({ target: 'computed', path: 'context.role', value: 'admin' });
+    expect(captured?.bindings.computed.gross?.value).toBe(1428);
+    expect(captured?.bindings.computed.summary?.value).toBe('ADMIN: 1428');
   });
 
   it('dispatches binding changes from adapters', () => {
@@ -436,6 +443,64 @@ describe('react-renderer', () => {
     expect(seen?.validations?.required).toBe(true);
   });
 
+  it('exposes field validation to adapters and blocks invalid submits', () => {
+    const captured: Record<string, AdapterContext> = {};
+    registerAdapter('form.', (component, ctx) => {
+      captured[component.id] = ctx;
+      return <div>{ctx.validation.errors.map((error) => error.message).join(',')}</div>;
+    });
+
+    const schema: UISchema = {
+      version: '1.0.0',
+      pageId: 'form',
+      layout: { id: 'root', type: 'section', componentIds: ['email', 'send'] },
+      components: [
+        {
+          id: 'email',
+          type: 'input',
+          adapterHint: 'form.input',
+          bindings: { data: { value: 'data.email' } },
+          validations: { required: true, regex: '@' },
+          accessibility: { ariaLabelKey: 'runtime.email.aria', keyboardNav: true, focusOrder: 1 },
+        },
+        {
+          id: 'send',
+          type: 'submit',
+          adapterHint: 'form.submit',
+          events: { onSubmit: [{ type: 'submit' }] },
+          accessibility: { ariaLabelKey: 'runtime.send.aria', keyboardNav: true, focusOrder: 2 },
+        },
+      ],
+    };
+
+    const submitted: string[] = [];
+    const blocked: FormValidationResult[] = [];
+    const render = (data: Record<string, JSONValue>) =>
+      renderToStaticMarkup(
+        <RenderPage
+          uiSchema={schema}
+          data={data}
+          context={context}
+          i18n={createFallbackI18nProvider()}
+          onEvent={(event) => submitted.push(event)}
+          onSubmitBlocked={(result) => blocked.push(result)}
+        />,
+      );
+
+    expect(render({ email: 'nobody' })).toContain('Enter a value in the expected format');
+    expect(captured.email?.validation).toMatchObject({ valid: false, touched: false, dirty: false, required: true });
+
+    captured.send?.events.onSubmit?.({ componentId: 'send' });
+    expect(submitted).toEqual([]);
+    expect(blocked[0]?.errors.map((error) => error.code)).toEqual(['regex']);
+    expect(blocked[0]?.fields.email?.touched).toBe(true);
+
+    render({ email: 'someone@example.com' });
+    expect(captured.email?.validation.errors).toEqual([]);
+    captured.send?.events.onSubmit?.({ componentId: 'send' });
+    expect(submitted).toEqual(['onSubmit']);
+  });
+
   it('changes runtime rule outcomes after input binding updates', async () => {
     let captured: AdapterContext | null = null;
     registerAdapter('runtime.', (_component, ctx) => {
@@ -0,0 +1,138 @@
+// @vitest-environment jsdom
+import { act } from 'react';
+import { createRoot } from 'react-dom/client';
+import { describe, expect, it } from 'vitest';
+import type { ExecutionContext, JSONValue, RepeaterAction, UISchema } from '@platform/schema';
+import { createFallbackI18nProvider } from '@platform/i18n';
+import { RenderPage, registerAdapter, type AdapterContext } from '../src/index';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+const context: ExecutionContext = {
+  tenantId: 'tenant-1',
+  userId: 'user-1',
+  role: 'admin',
+  roles: ['admin'],
+  country: 'US',
+  locale: 'en-US',
+  timezone: 'UTC',
+  device: 'desktop',
+  permissions: [],
+  featureFlags: {},
+};
+
+const schema: UISchema = {
+  version: '1.0.0',
+  pageId: 'applicants',
+  layout: {
+    id: 'root',
+    type: 'section',
+    children: [
+      {
+        id: 'applicants',
+        type: 'repeater',
+        itemsPath: 'data.applicants',
+        newItem: { name: '', employed: false },
+        minItems: 1,
+        maxItems: 3,
+        template: { id: 'applicant', type: 'stack', componentIds: ['applicantName', 'employer'] },
+      },
+    ],
+  },
+  components: [
+    {
+      id: 'applicantName',
+      type: 'input',
+      adapterHint: 'rep.input',
+      bindings: { data: { value: 'data.applicants[$index].name' } },
+      validations: { required: true },
+      accessibility: { ariaLabelKey: 'runtime.applicant.name.aria', keyboardNav: true, focusOrder: 1 },
+    },
+    {
+      id: 'employer',
+      type: 'input',
+      adapterHint: 'rep.input',
+      bindings: { data: { value: 'data.applicants[$index].employer' } },
+      rules: {
+        visibleWhen: { op: 'eq', left: { path: 'data.applicants[$index].employed' }, right: { value: true } },
+        requiredWhen: { op: 'eq', left: { path: 'data.applicants[$index].employed' }, right: { value: true } },
+      },
+      accessibility: { ariaLabelKey: 'runtime.applicant.employer.aria', keyboardNav: true, focusOrder: 2 },
+    },
+  ],
+};
+
+describe('react-renderer repeater', () => {
+  it('renders the template per item with index-scoped bindings and applies add, move and remove', async () => {
+    const captured: Record<string, AdapterContext> = {};
+    registerAdapter('rep.', (component, ctx) => {
+      captured[component.id] = ctx;
+      return <span data-testid={component.id}>{String(ctx.bindings.data.value?.value ?? '')}</span>;
+    });
+    const changes: Array<{ action: RepeaterAction; data: Record<string, JSONValue> }> = [];
+    const container = document.createElement('div');
+    const root = createRoot(container);
+    await act(async () => {
+      root.render(
+        <RenderPage
+          uiSchema={schema}
+          mode="internal"
+          data={{ applicants: [{ name: 'Ada', employed: true, employer: 'ACME' }, { name: '', employed: false }] }}
+          context={context}
+          i18n={createFallbackI18nProvider()}
+          onRepeaterAction={(action, _repeater, data) => changes.push({ action, data })}
+        />,
+      );
+    });
+
+    const items = () => Array.from(container.querySelectorAll('[data-repeater-item]'));
+    const rendered = (id: string) =>
+      Array.from(container.querySelectorAll('[data-testid]')).find((node) => node.getAttribute('data-testid') === id);
+    const names = () =>
+      Array.from(container.querySelectorAll('[data-testid]'))
+        .filter((node) => node.getAttribute('data-testid')?.startsWith('applicantName'))
+        .map((node) => node.textContent);
+    expect(items()).toHaveLength(2);
+    expect(names()).toEqual(['Ada', '']);
+    expect(rendered('employer[0]')?.textContent).toBe('ACME');
+    expect(rendered('employer[1]')).toBeUndefined();
+    expect(captured['employer[0]']?.validation.required).toBe(true);
+    expect(captured['applicantName[1]']?.validation).toMatchObject({ required: true, valid: false });
+
+    await act(async () => {
+      captured['applicantName[1]']?.events.onChange?.('Grace');
+    });
+    expect(names()).toEqual(['Ada', 'Grace']);
+    expect(captured['applicantName[1]']?.validation.touched).toBe(true);
+
+    const button = (label: string) => container.querySelector<HTMLButtonElement>(`button[aria-label="${label}"]`)!;
+    await act(async () => {
+      button('Move item 2 up').click();
+    });
+    expect(names()).toEqual(['Grace', 'Ada']);
+    expect(rendered('employer[1]')?.textContent).toBe('ACME');
+
+    const add = container.querySelector<HTMLButtonElement>('[data-repeater-add]')!;
+    await act(async () => {
+      add.click();
+    });
+    expect(items()).toHaveLength(3);
+    expect(add.disabled).toBe(true);
+
+    await act(async () => {
+      button('Remove item 1').click();
+    });
+    expect(names()).toEqual(['Ada', '']);
+    expect(changes.map((change) => change.action)).toEqual([
+      { type: 'move', from: 1, to: 0 },
+      { type: 'add' },
+      { type: 'remove', index: 0 },
+    ]);
+    expect(changes[2]?.data.applicants).toEqual([
+      { name: 'Ada', employed: true, employer: 'ACME' },
+      { name: '', employed: false },
+    ]);
+
+    act(() => root.unmount());
+  });
+});
@@ -0,0 +1,145 @@
+// @vitest-environment jsdom
+import { act } from 'react';
+import { Writable } from 'node:stream';
+import { describe, expect, it, vi } from 'vitest';
+import type { ExecutionContext, UISchema } from '@platform/schema';
+import { createFallbackI18nProvider } from '@platform/i18n';
+import { hydratePage, registerAdapter } from '../src/index';
+import { renderPageToStream, renderPageToString } from '../src/server';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+const context: ExecutionContext = {
+  tenantId: 'tenant-1',
+  userId: 'user-1',
+  role: 'admin',
+  roles: ['admin'],
+  country: 'US',
+  locale: 'en-US',
+  timezone: 'UTC',
+  device: 'desktop',
+  permissions: [],
+  featureFlags: {},
+};
+
+const schema: UISchema = {
+  version: '1.0.0',
+  pageId: 'onboarding',
+  layout: { id: 'root', type: 'section', componentIds: ['greeting', 'promo', 'start'] },
+  components: [
+    {
+      id: 'greeting',
+      type: 'text',
+      adapterHint: 'ssr.text',
+      bindings: { data: { value: 'data.plan' } },
+      rules: {
+        setValueWhen: {
+          when: { op: 'eq', left: { path: 'data.country' }, right: { value: 'US' } },
+          value: 'Starter (US)',
+          path: 'data.plan',
+        },
+      },
+      accessibility: { ariaLabelKey: 'runtime.greeting.aria' },
+    },
+    {
+      id: 'promo',
+      type: 'text',
+      adapterHint: 'ssr.text',
+      rules: { visibleWhen: { op: 'eq', left: { path: 'data.showPromo' }, right: { value: true } } },
+      accessibility: { ariaLabelKey: 'runtime.promo.aria' },
+    },
+    {
+      id: 'start',
+      type: 'button',
+      adapterHint: 'ssr.button',
+      events: { onClick: [{ type: 'start' }] },
+      accessibility: { ariaLabelKey: 'runtime.start.aria', keyboardNav: true, focusOrder: 1 },
+    },
+  ],
+};
+
+registerAdapter('ssr.', (component, ctx) =>
+  component.type === 'button' ? (
+    <button type="button" onClick={() => ctx.events.onClick?.({ componentId: component.id })}>
+      {ctx.i18n.t(component.accessibility.ariaLabelKey)}
+    </button>
+  ) : (
+    <p>{String(ctx.bindings.data.value?.value ?? component.id)}</p>
+  ),
+);
+
+const data = { country: 'US', showPromo: false, note: '</script><script>alert(1)</script>' };
+
+describe('react-renderer ssr', () => {
+  it('renders rule-applied markup with serialized state and hydrates without mismatches', async () => {
+    const { html, state } = renderPageToString({ uiSchema: schema, data, context, i18n: createFallbackI18nProvider() });
+
+    expect(html).toContain('<p>Starter (US)</p>');
+    expect(html).not.toContain('data-component-id="promo"');
+    expect(html).toContain('<script type="application/json" id="rf-root-state">');
+    expect(html).not.toContain('</script><script>alert(1)');
+    expect(state).toEqual({ pageId: 'onboarding', data, context });
+
+    document.body.innerHTML = html;
+    const serverMarkup = document.getElementById('rf-root')?.innerHTML;
+    const onRecoverableError = vi.fn();
+    const onAdapterEvent = vi.fn();
+    let root: ReturnType<typeof hydratePage> | undefined;
+    await act(async () => {
+      root = hydratePage({
+        uiSchema: schema,
+        i18n: createFallbackI18nProvider(),
+        onRecoverableError,
+        onAdapterEvent,
+      });
+    });
+
+    expect(onRecoverableError).not.toHaveBeenCalled();
+    expect(document.getElementById('rf-root')?.innerHTML).toBe(serverMarkup);
+
+    await act(async () => {
+      document.querySelector('button')?.click();
+    });
+    expect(onAdapterEvent).toHaveBeenCalledWith('onClick', { componentId: 'start' }, expect.objectContaining({ id: 'start' }));
+    act(() => root?.unmount());
+  });
+
+  it('streams the same markup for node responses', async () => {
+    const chunks: string[] = [];
+    await new Promise<void>((resolve, reject) => {
+      const stream = renderPageToStream(
+        { uiSchema: schema, data, context, i18n: createFallbackI18nProvider() },
+        {
+          rootId: 'landing',
+          onAllReady: () => {
+            stream.pipe(
+              new Writable({
+                write(chunk, _encoding, callback) {
+                  chunks.push(String(chunk));
+                  callback();
+                },
+                final(callback) {
+                  resolve();
+                  callback();
+                },
+              }),
+            );
+          },
+          onError: reject,
+        },
+      );
+    });
+
+    const html = chunks.join('');
+    expect(html).toContain('<div id="landing" data-rf-ssr-root="">');
+    expect(html).toContain('<p>Starter (US)</p>');
+    expect(html).toContain('id="landing-state"');
+  });
+
+  it('refuses to hydrate a different page than the server rendered', () => {
+    document.body.innerHTML = renderPageToString({ uiSchema: schema, data, context }).html;
+    expect(() => hydratePage({ uiSchema: { ...schema, pageId: 'other' } })).toThrow(
+      'Server rendered page "onboarding" but hydration was given "other".',
+    );
+  });
+});
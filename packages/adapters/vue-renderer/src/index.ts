@@ -3,15 +3,42 @@ import type {
   ExecutionContext,
   JSONValue,
   LayoutNode,
+  RepeaterAction,
+  RepeaterLayout,
+  Rule,
   RuleCondition,
+  RuleSet,
   UIComponent,
+  UIComponentDataSource,
   UIEventAction,
   UIGridItem,
   UISchema,
 } from '@platform/schema';
+import {
+  applyRepeaterAction,
+  collectRepeaterLayouts,
+  parseRepeaterItemComponentId,
+  readRepeaterItems,
+  scopeComponentToRepeaterItem,
+} from '@platform/schema';
 import type { I18nProvider } from '@platform/i18n';
 import { createFallbackI18nProvider } from '@platform/i18n';
-import { createMemoizedConditionEvaluator } from '@platform/rules-engine';
+import {
+  createComputedBindingEvaluator,
+  createMemoizedConditionEvaluator,
+  type ComputedBindingEvaluator,
+} from '@platform/rules-engine';
+import {
+  ComponentDataLoader,
+  FormValidator,
+  createDataSourceAdapter,
+  getFieldState,
+  resolveDataSourceParams,
+  type ComponentDataState,
+  type DataSourceAdapter,
+  type FormFieldState,
+  type FormValidationResult,
+} from '@platform/runtime';
 
 export type UIEventName = 'onChange' | 'onClick' | 'onSubmit';
 
@@ -36,6 +63,9 @@ export interface VueAdapterContext {
   i18n: I18nProvider;
   bindings: BindingGroupValues;
   ruleState: { visible: boolean; disabled: boolean; required: boolean };
+  validation: FormFieldState;
+  /** Load state and payload of the component's `dataSource`. */
+  dataSource?: ComponentDataState;
   events: {
     onChangeAttrs: (bindingPath?: string) => string;
     onClickAttrs: () => string;
@@ -59,6 +89,10 @@ export interface RenderPageVueOptions {
   i18n?: I18nProvider;
   target?: HTMLElement | string;
   adapterRegistry?: VueAdapterRegistry;
+  dataSourceAdapter?: DataSourceAdapter;
+  dataSourceAdapterFactory?: (config: UIComponentDataSource) => DataSourceAdapter;
+  /** Set to false to render without starting `dataSource` loads, as `renderVue` does. */
+  loadDataSources?: boolean;
   onEvent?: (event: UIEventName, actions: UIEventAction[], component: UIComponent) => void;
   onAdapterEvent?: (
     event: UIEventName,
@@ -68,6 +102,12 @@ export interface RenderPageVueOptions {
   onDataChange?: (data: Record<string, JSONValue>) => void;
   onContextChange?: (context: ExecutionContext) => void;
   onChange?: (bindingPath: string, value: JSONValue, componentId: string) => void;
+  /** Rule set that `validations.rules` names are resolved against. */
+  validationRules?: Rule[] | RuleSet;
+  /** Called instead of the submit handlers when the page fails validation. */
+  onSubmitBlocked?: (result: FormValidationResult, component: UIComponent) => void;
+  /** Called after a repeater item was added, removed or moved, with the updated data. */
+  onRepeaterAction?: (action: RepeaterAction, repeater: RepeaterLayout, data: Record<string, JSONValue>) => void;
   onRenderMetrics?: (input: { durationMs: number; componentCount: number }) => void;
 }
 
@@ -75,6 +115,7 @@ export interface RenderPageVueResult {
   html: string;
   data: Record<string, JSONValue>;
   context: ExecutionContext;
+  validation: FormValidationResult;
   dispatcher: RendererEventDispatcher;
   dispatchEvent: (input: {
     event: UIEventName;
@@ -82,6 +123,10 @@ export interface RenderPageVueResult {
     value?: JSONValue;
     bindingPath?: string;
   }) => void;
+  /** Fetches the `dataSource` of one component (or of all of them) again, bypassing the cache. */
+  reloadDataSource: (componentId?: string) => void;
+  /** Cancels pending `dataSource` loads and realtime subscriptions. */
+  dispose: () => void;
 }
 
 export interface RendererEventDispatcher {
@@ -94,6 +139,7 @@ export interface RendererEventDispatcher {
   change: (componentId: string, value: JSONValue, bindingPath?: string) => void;
   click: (componentId: string) => void;
   submit: (componentId: string) => void;
+  repeater: (repeaterId: string, action: RepeaterAction) => void;
 }
 
 export interface VueHydrationSession {
@@ -111,6 +157,10 @@ type Runtime = {
   html: string;
   componentMap: Map<string, UIComponent>;
   target: HTMLElement | null;
+  validator: FormValidator;
+  validation: FormValidationResult;
+  computedBindings: ComputedBindingEvaluator;
+  dataSourceStates: Record<string, ComponentDataState>;
 };
 
 const defaultAdapterRegistry = createAdapterRegistry();
@@ -167,26 +217,74 @@ export function isAdapterRegistered(
 export function RenderPageVue(options: RenderPageVueOptions): RenderPageVueResult {
   const adapterRegistry = options.adapterRegistry ?? getDefaultAdapterRegistry();
   ensureDefaultAdapters(adapterRegistry);
+  const i18n = options.i18n ?? createFallbackI18nProvider();
   const runtime: Runtime = {
     options,
     adapterRegistry,
-    i18n: options.i18n ?? createFallbackI18nProvider(),
+    i18n,
     data: deepClone(options.data),
     context: deepClone(options.context),
     html: '',
     componentMap: new Map(options.uiSchema.components.map((component) => [component.id, component])),
     target: resolveTarget(options.target),
+    validator: new FormValidator({
+      components: options.uiSchema.components,
+      initialData: options.data,
+      initialContext: options.context,
+      rules: options.validationRules,
+      i18n,
+      layout: options.uiSchema.layout,
+    }),
+    validation: { valid: true, fields: {}, errors: [] },
+    computedBindings: createComputedBindingEvaluator(),
+    dataSourceStates: {},
+  };
+  const dataLoader = new ComponentDataLoader<UIComponentDataSource>({
+    resolveAdapter: (config) => resolveDataSourceAdapter(config, options),
+  });
+  let syncingDataSources = false;
+  let dataSourcesChangedDuringSync = false;
+  const unsubscribeDataLoader = dataLoader.subscribe((componentId, state) => {
+    runtime.dataSourceStates = { ...runtime.dataSourceStates, [componentId]: state };
+    if (syncingDataSources) dataSourcesChangedDuringSync = true;
+    else refresh();
+  });
+  // Starts loads for sources whose params changed; reports whether a state changed synchronously.
+  const syncDataSources = (): boolean => {
+    if (options.loadDataSources === false) return false;
+    syncingDataSources = true;
+    dataSourcesChangedDuringSync = false;
+    for (const component of options.uiSchema.components) {
+      if (!component.dataSource) continue;
+      const params = resolveDataSourceParams(component.dataSource, runtime.data, runtime.context);
+      void dataLoader.load(component.id, component.dataSource, params);
+    }
+    syncingDataSources = false;
+    return dataSourcesChangedDuringSync;
   };
-  runtime.html = renderRuntime(runtime);
+  const render = () => {
+    runtime.html = renderRuntime(runtime);
+    if (syncDataSources()) runtime.html = renderRuntime(runtime);
+  };
+  render();
   const dispatchCore = (input: {
     event: UIEventName;
     componentId: string;
     value?: JSONValue;
     bindingPath?: string;
   }) => {
-    const component = runtime.componentMap.get(input.componentId);
+    const component = resolveRuntimeComponent(runtime, input.componentId);
     if (!component) return;
+    if (input.event === 'onSubmit') {
+      const result = runtime.validator.submit(runtime.data, runtime.context);
+      if (!result.valid) {
+        runtime.options.onSubmitBlocked?.(result, component);
+        refresh();
+        return;
+      }
+    }
     if (input.event === 'onChange') {
+      runtime.validator.touch(component.id);
       const bindingPath = input.bindingPath ?? component.bindings?.data?.value ?? 'data.value';
       const parsed = parseBindingPath(bindingPath, 'data');
       const value = input.value ?? null;
@@ -203,19 +301,41 @@ export function RenderPageVue(options: RenderPageVueOptions): RenderPageVueResul
     }
     const actions = component.events?.[input.event];
     if (actions && actions.length > 0) runtime.options.onEvent?.(input.event, actions, component);
-    runtime.html = renderRuntime(runtime);
+    refresh();
+  };
+  const refresh = () => {
+    render();
     response.html = runtime.html;
     response.data = runtime.data;
     response.context = runtime.context;
+    response.validation = runtime.validation;
   };
-  const dispatcher = createVueEventDispatcher(dispatchCore);
+  const dispatchRepeaterAction = (repeaterId: string, action: RepeaterAction) => {
+    const repeater = collectRepeaterLayouts(runtime.options.uiSchema.layout).find((node) => node.id === repeaterId);
+    if (!repeater) return;
+    const next = applyRepeaterAction(runtime.data, repeater, action);
+    if (next === runtime.data) return;
+    runtime.data = next;
+    runtime.options.onDataChange?.(runtime.data);
+    runtime.options.onRepeaterAction?.(action, repeater, runtime.data);
+    refresh();
+  };
+  const dispatcher = createVueEventDispatcher(dispatchCore, dispatchRepeaterAction);
 
   const response: RenderPageVueResult = {
     html: runtime.html,
     data: runtime.data,
     context: runtime.context,
+    validation: runtime.validation,
     dispatcher,
     dispatchEvent: dispatchCore,
+    reloadDataSource: (componentId) => {
+      void dataLoader.reload(componentId);
+    },
+    dispose: () => {
+      unsubscribeDataLoader();
+      dataLoader.dispose();
+    },
   };
   return response;
 }
@@ -237,6 +357,7 @@ export function renderVue(options: VueRenderOptions): string {
     i18n: options.i18n,
     target: options.target,
     onRenderMetrics: options.onRenderMetrics,
+    loadDataSources: false,
   });
   return result.html;
 }
@@ -244,10 +365,16 @@ export function renderVue(options: VueRenderOptions): string {
 function renderRuntime(runtime: Runtime): string {
   const started = Date.now();
   const memoizedEvaluate = createMemoizedConditionEvaluator({ cacheSize: 512 });
-  const renderComponent = (componentId: string, override?: Pick<UIGridItem, 'props' | 'bindings' | 'rules'>): string => {
+  runtime.validation = runtime.validator.validate(runtime.data, runtime.context);
+  const renderComponent = (
+    componentId: string,
+    override?: Pick<UIGridItem, 'props' | 'bindings' | 'rules'>,
+    itemIndex?: number,
+  ): string => {
     const source = runtime.componentMap.get(componentId);
     if (!source) return `<div data-missing-component="true">Missing component: ${escapeHtml(componentId)}</div>`;
-    const component = mergeComponent(source, override);
+    const merged = mergeComponent(source, override);
+    const component = itemIndex === undefined ? merged : scopeComponentToRepeaterItem(merged, itemIndex);
     assertAccessibility(component);
     const applied = applySetValueRule(component, runtime.data, runtime.context, memoizedEvaluate);
     runtime.data = applied.data;
@@ -256,13 +383,15 @@ function renderRuntime(runtime: Runtime): string {
     if (!ruleState.visible) return '';
     const adapter = runtime.adapterRegistry.resolve(component.adapterHint);
     if (!adapter) return `<div data-unsupported="true">Unsupported adapter: ${escapeHtml(component.adapterHint)}</div>`;
-    const bindings = resolveBindings(component, runtime.data, runtime.context);
+    const bindings = resolveBindings(component, runtime.data, runtime.context, runtime.computedBindings);
     const html = adapter(component, {
       data: runtime.data,
       context: runtime.context,
       i18n: runtime.i18n,
       bindings,
       ruleState,
+      validation: getFieldState(runtime.validation, component.id),
+      dataSource: runtime.dataSourceStates[source.id],
       events: {
         onChangeAttrs: (bindingPath) => eventAttrs('onChange', component.id, bindingPath ?? component.bindings?.data?.value),
         onClickAttrs: () => eventAttrs('onClick', component.id),
@@ -272,7 +401,7 @@ function renderRuntime(runtime: Runtime): string {
     return `<div data-rf-component-id="${escapeHtml(component.id)}">${html}</div>`;
   };
 
-  const renderLayout = (node: LayoutNode): string => {
+  const renderLayout = (node: LayoutNode, itemIndex?: number): string => {
     if (runtime.options.uiSchema.layoutType === 'grid' && Array.isArray(runtime.options.uiSchema.items)) {
       const cols = runtime.options.uiSchema.grid?.columns ?? 12;
       const gap = runtime.options.uiSchema.grid?.gap ?? 12;
@@ -281,11 +410,19 @@ function renderRuntime(runtime: Runtime): string {
         .map((item) => `<div style="grid-column:${item.x + 1} / span ${item.w};grid-row:${item.y + 1} / span ${item.h}">${renderComponent(item.componentId, item)}</div>`)
         .join('')}</div>`;
     }
-    const components = node.componentIds?.map((id) => renderComponent(id)).join('') ?? '';
-    const children = node.children?.map((child) => renderLayout(child)).join('') ?? '';
+    if (node.type === 'repeater') {
+      const items = readRepeaterItems(runtime.data, node);
+      const rendered = items
+        .map((_item, index) => `<div data-repeater-item="${index}">${renderLayout(node.template, index)}${renderRepeaterControls(node, index, items.length, runtime.i18n)}</div>`)
+        .join('');
+      const canAdd = node.maxItems === undefined || items.length < node.maxItems;
+      return `<div data-layout="repeater" data-repeater-id="${escapeHtml(node.id)}">${rendered}${repeaterButton(node.id, { type: 'add' }, runtime.i18n.t('runtime.repeater.add', undefined, { defaultText: 'Add item' }), undefined, !canAdd, 'data-repeater-add=""')}</div>`;
+    }
+    const components = node.componentIds?.map((id) => renderComponent(id, undefined, itemIndex)).join('') ?? '';
+    const children = node.children?.map((child) => renderLayout(child, itemIndex)).join('') ?? '';
     if (node.type === 'grid') return `<div data-layout="grid" style="${buildLayoutStyle(node, runtime.i18n.direction)}">${components}${children}</div>`;
     if (node.type === 'stack') return `<div data-layout="stack" style="${buildLayoutStyle(node, runtime.i18n.direction)}">${components}${children}</div>`;
-    if (node.type === 'tabs') return `<div data-layout="tabs">${node.tabs.map((tab) => `<section><h3>${escapeHtml(tab.label)}</h3>${renderLayout(tab.child)}</section>`).join('')}</div>`;
+    if (node.type === 'tabs') return `<div data-layout="tabs">${node.tabs.map((tab) => `<section><h3>${escapeHtml(tab.label)}</h3>${renderLayout(tab.child, itemIndex)}</section>`).join('')}</div>`;
     return `<section data-layout="section" style="${buildLayoutStyle(node, runtime.i18n.direction)}">${node.title ? `<h2>${escapeHtml(node.title)}</h2>` : ''}${components}${children}</section>`;
   };
 
@@ -308,7 +445,7 @@ function ensureDefaultAdapters(adapterRegistry: VueAdapterRegistry): void {
     if (component.adapterHint === 'platform.textField') {
       const label = component.i18n?.labelKey ? ctx.i18n.t(component.i18n.labelKey) : String(component.props?.label ?? 'Text field');
       const value = ctx.bindings.data.value?.value ?? component.props?.value ?? '';
-      return `<label><span>${escapeHtml(label)}</span><input ${ctx.events.onChangeAttrs()} aria-label="${escapeHtml(aria)}" value="${escapeHtml(String(value ?? ''))}" ${ctx.ruleState.disabled ? 'disabled' : ''} /></label>`;
+      return `<label><span>${escapeHtml(label)}</span><input ${ctx.events.onChangeAttrs()} aria-label="${escapeHtml(aria)}" value="${escapeHtml(String(value ?? ''))}" ${ctx.ruleState.disabled ? 'disabled' : ''}${renderValidationAttrs(ctx.validation)} />${renderValidationMessage(ctx.validation)}</label>`;
     }
     if (component.adapterHint === 'platform.button') {
       const label = component.i18n?.labelKey ? ctx.i18n.t(component.i18n.labelKey) : String(component.props?.label ?? 'Button');
@@ -381,13 +518,23 @@ function safeEvaluate(
   }
 }
 
-function resolveBindings(component: UIComponent, data: Record<string, JSONValue>, context: ExecutionContext): BindingGroupValues {
+function resolveBindings(
+  component: UIComponent,
+  data: Record<string, JSONValue>,
+  context: ExecutionContext,
+  computedBindings: ComputedBindingEvaluator,
+): BindingGroupValues {
   const out: BindingGroupValues = { data: {}, context: {}, computed: {} };
   const bindings = component.bindings;
   if (!bindings) return out;
   readBindingGroup(bindings.data, 'data', data, context, out.data);
   readBindingGroup(bindings.context, 'context', data, context, out.context);
-  readBindingGroup(bindings.computed, 'data', data, context, out.computed, 'computed');
+  if (bindings.computed) {
+    const computed = computedBindings.evaluate(bindings.computed, data, context);
+    for (const [key, entry] of Object.entries(computed)) {
+      out.computed[key] = { target: 'computed', path: entry.path, value: entry.value };
+    }
+  }
   return out;
 }
 
@@ -397,7 +544,6 @@ function readBindingGroup(
   data: Record<string, JSONValue>,
   context: ExecutionContext,
   out: Record<string, BindingValue>,
-  targetOverride?: 'computed',
 ) {
   if (!source) return;
   for (const [key, raw] of Object.entries(source)) {
@@ -405,7 +551,7 @@ function readBindingGroup(
     if (!parsed) continue;
     const target = parsed.target === 'context' ? (context as unknown as Record<string, JSONValue>) : data;
     out[key] = {
-      target: targetOverride ?? parsed.target,
+      target: parsed.target,
       path: `${parsed.target}.${parsed.path}`,
       value: getPath(target, parsed.path),
     };
@@ -463,13 +609,49 @@ function setPath(obj: Record<string, JSONValue>, path: string, value: JSONValue)
     if (index === parts.length - 1) current[key] = value;
     else {
       const next = current[key];
-      if (!next || typeof next !== 'object' || Array.isArray(next)) current[key] = {};
+      if (!next || typeof next !== 'object') current[key] = {};
       current = current[key] as Record<string, JSONValue>;
     }
   }
   return root;
 }
 
+// Ids like `applicantName[1]` address the copy of a repeater template component for one item.
+function resolveRuntimeComponent(runtime: Runtime, componentId: string): UIComponent | undefined {
+  const direct = runtime.componentMap.get(componentId);
+  if (direct) return direct;
+  const item = parseRepeaterItemComponentId(componentId);
+  const template = item ? runtime.componentMap.get(item.componentId) : undefined;
+  return item && template ? scopeComponentToRepeaterItem(template, item.index) : undefined;
+}
+
+function renderRepeaterControls(repeater: RepeaterLayout, index: number, count: number, i18n: I18nProvider): string {
+  const position = index + 1;
+  const canRemove = count > (repeater.minItems ?? 0);
+  return `<div data-repeater-controls="">${[
+    repeaterButton(repeater.id, { type: 'move', from: index, to: index - 1 }, '↑', i18n.t('runtime.repeater.moveUp', { position }, { defaultText: `Move item ${position} up` }), index === 0),
+    repeaterButton(repeater.id, { type: 'move', from: index, to: index + 1 }, '↓', i18n.t('runtime.repeater.moveDown', { position }, { defaultText: `Move item ${position} down` }), index === count - 1),
+    repeaterButton(repeater.id, { type: 'remove', index }, '×', i18n.t('runtime.repeater.remove', { position }, { defaultText: `Remove item ${position}` }), !canRemove),
+  ].join('')}</div>`;
+}
+
+function repeaterButton(
+  repeaterId: string,
+  action: RepeaterAction,
+  text: string,
+  label: string | undefined,
+  disabled: boolean,
+  extraAttrs = '',
+): string {
+  return `<button type="button" data-rf-repeater="${escapeHtml(repeaterId)}" data-rf-repeater-action="${escapeHtml(JSON.stringify(action))}"${label ? ` aria-label="${escapeHtml(label)}"` : ''}${extraAttrs ? ` ${extraAttrs}` : ''}${disabled ? ' disabled' : ''}>${escapeHtml(text)}</button>`;
+}
+
+function resolveDataSourceAdapter(dataSource: UIComponentDataSource, options: RenderPageVueOptions): DataSourceAdapter {
+  if (options.dataSourceAdapterFactory) return options.dataSourceAdapterFactory(dataSource);
+  if (options.dataSourceAdapter) return options.dataSourceAdapter;
+  return createDataSourceAdapter(dataSource);
+}
+
 function eventAttrs(event: UIEventName, componentId: string, bindingPath?: string): string {
   return `data-rf-event="${event}" data-rf-component-id="${escapeHtml(componentId)}"${bindingPath ? ` data-rf-binding-path="${escapeHtml(bindingPath)}"` : ''}`;
 }
@@ -481,6 +663,7 @@ export function createVueEventDispatcher(
     value?: JSONValue;
     bindingPath?: string;
   }) => void,
+  dispatchRepeaterAction: (repeaterId: string, action: RepeaterAction) => void = () => undefined,
 ): RendererEventDispatcher {
   return {
     dispatch: dispatchEvent,
@@ -488,6 +671,7 @@ export function createVueEventDispatcher(
       dispatchEvent({ event: 'onChange', componentId, value, bindingPath }),
     click: (componentId) => dispatchEvent({ event: 'onClick', componentId }),
     submit: (componentId) => dispatchEvent({ event: 'onSubmit', componentId }),
+    repeater: dispatchRepeaterAction,
   };
 }
 
@@ -499,6 +683,15 @@ export function bindVueDomListeners(options: {
   const handler = (event: Event) => {
     const target = event.target;
     if (!(target instanceof Element)) return;
+    const repeaterButton = event.type === 'click' ? target.closest('[data-rf-repeater]') : null;
+    const repeaterId = repeaterButton?.getAttribute('data-rf-repeater');
+    if (repeaterButton && repeaterId) {
+      const action = parseRepeaterActionAttr(repeaterButton.getAttribute('data-rf-repeater-action'));
+      if (!action) return;
+      options.dispatcher.repeater(repeaterId, action);
+      options.rerender();
+      return;
+    }
     const source = target.closest('[data-rf-event]');
     if (!source) return;
     const eventName = source.getAttribute('data-rf-event') as UIEventName | null;
@@ -542,7 +735,23 @@ export function hydrateVue(options: {
     dispatcher: options.result.dispatcher,
     rerender,
   });
-  return { dispose, rerender, dispatcher: options.result.dispatcher };
+  return {
+    dispose: () => {
+      dispose();
+      options.result.dispose();
+    },
+    rerender,
+    dispatcher: options.result.dispatcher,
+  };
+}
+
+function parseRepeaterActionAttr(raw: string | null): RepeaterAction | null {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as RepeaterAction;
+  } catch {
+    return null;
+  }
 }
 
 function extractDomValue(target: Element): JSONValue {
@@ -622,6 +831,18 @@ function assertAccessibility(component: UIComponent): void {
   if (!Number.isInteger(meta.focusOrder) || (meta.focusOrder ?? 0) < 1) throw new Error(`focusOrder must be an integer >= 1 for component ${component.id}`);
 }
 
+function renderValidationAttrs(validation: FormFieldState): string {
+  const invalid = validation.touched && !validation.valid;
+  return `${validation.required ? ' required' : ''}${invalid ? ' aria-invalid="true"' : ''}`;
+}
+
+// Errors stay hidden until the field has been changed or a submit was attempted.
+function renderValidationMessage(validation: FormFieldState): string {
+  const first = validation.errors[0];
+  if (!validation.touched || !first) return '';
+  return `<span role="alert" data-rf-validation-code="${escapeHtml(first.code)}">${escapeHtml(first.message)}</span>`;
+}
+
 function escapeHtml(value: unknown): string {
   return String(value ?? '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\"/g, '&quot;').replace(/'/g, '&#39;');
 }
@@ -1,6 +1,7 @@
 import { describe, expect, it, vi } from 'vitest';
 import type { ExecutionContext, JSONValue, UISchema } from '@platform/schema';
 import { createProviderFromBundles } from '@platform/i18n';
+import { ComponentDataLoader, InMemoryAdapter, type DispatchRequest } from '@platform/runtime';
 import {
   RenderPageVue,
   createAdapterRegistry,
@@ -172,6 +173,44 @@ describe('vue-renderer', () => {
     );
   });
 
+  it('validates fields, tracks touched state and blocks invalid submits', () => {
+    const onEvent = vi.fn();
+    const onSubmitBlocked = vi.fn();
+    const formSchema: UISchema = {
+      ...schema,
+      components: schema.components.map((component) => {
+        if (component.id === 'nameField') return { ...component, validations: { required: true, min: 2 } };
+        if (component.id === 'saveButton') return { ...component, events: { onSubmit: [{ type: 'submit' }] } };
+        return component;
+      }),
+    };
+    const result = RenderPageVue({ uiSchema: formSchema, data: buildData(), context, onEvent, onSubmitBlocked });
+    expect(result.validation.fields.nameField).toMatchObject({ required: true, touched: false, valid: false });
+    expect(result.html).not.toContain('role="alert"');
+
+    result.dispatcher.submit('saveButton');
+    expect(onEvent).not.toHaveBeenCalled();
+    expect(onSubmitBlocked).toHaveBeenCalledWith(
+      expect.objectContaining({ valid: false }),
+      expect.objectContaining({ id: 'saveButton' }),
+    );
+    expect(result.html).toContain('aria-invalid="true"');
+    expect(result.html).toContain('This field is required');
+
+    result.dispatcher.change('nameField', 'A');
+    expect(result.validation.fields.nameField).toMatchObject({ touched: true, dirty: true });
+    expect(result.html).toContain('Enter at least 2 characters');
+
+    result.dispatcher.change('nameField', 'Alice');
+    result.dispatcher.submit('saveButton');
+    expect(result.validation.valid).toBe(true);
+    expect(onEvent).toHaveBeenCalledWith(
+      'onSubmit',
+      [{ type: 'submit' }],
+      expect.objectContaining({ id: 'saveButton' }),
+    );
+  });
+
   it('supports adapter registry registration and discovery', () => {
     const registry = createAdapterRegistry();
     registry.register('custom.', (component) => `<article>${component.id}</article>`);
@@ -207,6 +246,198 @@ describe('vue-renderer', () => {
     expect(listRegisteredAdapterPrefixes(registry)).toContain('custom.');
   });
 
+  it('evaluates computed binding expressions and updates them on change', () => {
+    const registry = createAdapterRegistry();
+    registry.register('custom.', (_component, ctx) => {
+      const { monthly, fullName, principal } = ctx.bindings.computed;
+      return `<output>${String(monthly?.value)}|${String(fullName?.value)}|${String(principal?.path)}</output>`;
+    });
+    const loanSchema: UISchema = {
+      version: '1.0.0',
+      pageId: 'loan-page',
+      layout: { id: 'root', type: 'section', componentIds: ['loanSummary'] },
+      components: [
+        {
+          id: 'loanSummary',
+          type: 'display',
+          adapterHint: 'custom.summary',
+          bindings: {
+            computed: {
+              monthly: 'round(principal * rate / 12, 2)',
+              fullName: "first + ' ' + last",
+              principal: 'data.principal',
+            },
+          },
+          accessibility: {
+            ariaLabelKey: 'runtime.loan.summary.aria',
+            keyboardNav: true,
+            focusOrder: 1,
+          },
+        },
+      ],
+    };
+
+    const result = RenderPageVue({
+      uiSchema: loanSchema,
+      data: { principal: 12000, rate: 0.05, first: 'Ada', last: 'Lovelace' },
+      context,
+      adapterRegistry: registry,
+    });
+    expect(result.html).toContain('<output>50|Ada Lovelace|data.principal</output>');
+
+    result.dispatchEvent({
+      event: 'onChange',
+      componentId: 'loanSummary',
+      bindingPath: 'data.principal',
+      value: 24000,
+    });
+    expect(result.html).toContain('<output>100|Ada Lovelace|data.principal</output>');
+  });
+
+  it('renders repeater items with index-scoped bindings and applies repeater actions', () => {
+    const registry = createAdapterRegistry();
+    registry.register('rep.', (component, ctx) => {
+      const invalid = ctx.validation.valid ? '' : ' aria-invalid="true"';
+      return `<span data-field="${component.id}"${invalid}>${String(ctx.bindings.data.value?.value ?? '')}</span>`;
+    });
+    const repeaterSchema: UISchema = {
+      version: '1.0.0',
+      pageId: 'applicants',
+      layout: {
+        id: 'root',
+        type: 'section',
+        children: [
+          {
+            id: 'applicants',
+            type: 'repeater',
+            itemsPath: 'data.applicants',
+            newItem: { name: '', employed: false },
+            maxItems: 3,
+            template: { id: 'applicant', type: 'stack', componentIds: ['applicantName', 'employer'] },
+          },
+        ],
+      },
+      components: [
+        {
+          id: 'applicantName',
+          type: 'input',
+          adapterHint: 'rep.input',
+          bindings: { data: { value: 'data.applicants[$index].name' } },
+          validations: { required: true },
+          accessibility: { ariaLabelKey: 'runtime.applicant.name.aria', keyboardNav: true, focusOrder: 1 },
+        },
+        {
+          id: 'employer',
+          type: 'input',
+          adapterHint: 'rep.input',
+          bindings: { data: { value: 'data.applicants[$index].employer' } },
+          rules: {
+            visibleWhen: { op: 'eq', left: { path: 'data.applicants[$index].employed' }, right: { value: true } },
+          },
+          accessibility: { ariaLabelKey: 'runtime.applicant.employer.aria', keyboardNav: true, focusOrder: 2 },
+        },
+      ],
+    };
+    const onRepeaterAction = vi.fn();
+    const result = RenderPageVue({
+      uiSchema: repeaterSchema,
+      data: { applicants: [{ name: 'Ada', employed: true, employer: 'ACME' }, { name: '', employed: false }] },
+      context,
+      adapterRegistry: registry,
+      onRepeaterAction,
+    });
+
+    expect(result.html).toContain('<span data-field="applicantName[0]">Ada</span>');
+    expect(result.html).toContain('<span data-field="employer[0]">ACME</span>');
+    expect(result.html).not.toContain('data-field="employer[1]"');
+    expect(result.html).toContain('<span data-field="applicantName[1]" aria-invalid="true"></span>');
+    expect(result.html).toContain('aria-label="Move item 2 up"');
+
+    result.dispatcher.change('applicantName[1]', 'Grace');
+    expect(result.data.applicants).toEqual([
+      { name: 'Ada', employed: true, employer: 'ACME' },
+      { name: 'Grace', employed: false },
+    ]);
+    expect(result.validation.valid).toBe(true);
+
+    result.dispatcher.repeater('applicants', { type: 'move', from: 1, to: 0 });
+    expect(result.html.indexOf('>Grace<')).toBeLessThan(result.html.indexOf('>Ada<'));
+    expect(result.html).toContain('<span data-field="employer[1]">ACME</span>');
+
+    result.dispatcher.repeater('applicants', { type: 'add' });
+    expect(result.html).toMatch(/<button[^>]*data-repeater-add=""[^>]* disabled>/);
+    result.dispatcher.repeater('applicants', { type: 'add' });
+    result.dispatcher.repeater('applicants', { type: 'remove', index: 0 });
+    expect(result.data.applicants).toEqual([
+      { name: 'Ada', employed: true, employer: 'ACME' },
+      { name: '', employed: false },
+    ]);
+    expect(onRepeaterAction.mock.calls.map(([action]) => action)).toEqual([
+      { type: 'move', from: 1, to: 0 },
+      { type: 'add' },
+      { type: 'remove', index: 0 },
+    ]);
+  });
+
+  it('loads component data sources and reloads them when bound params change', async () => {
+    const registry = createAdapterRegistry();
+    registry.register('ds.', (component, ctx) => {
+      const rows = Array.isArray(ctx.dataSource?.data) ? ctx.dataSource.data.length : 0;
+      return `<output data-ds="${component.id}">${ctx.dataSource?.status ?? 'none'}:${rows}</output>`;
+    });
+    const pending: Array<{ request: DispatchRequest; resolve: (value: unknown) => void }> = [];
+    const adapter = new InMemoryAdapter({
+      '/orders': (request: DispatchRequest) => new Promise((resolve) => pending.push({ request, resolve })),
+    });
+    const ordersSchema: UISchema = {
+      version: '1.0.0',
+      pageId: 'orders',
+      layout: { id: 'root', type: 'section', componentIds: ['ordersTable'] },
+      components: [
+        {
+          id: 'ordersTable',
+          type: 'table',
+          adapterHint: 'ds.table',
+          dataSource: { type: 'rest', endpoint: '/orders', params: { status: 'data.status' } },
+          accessibility: { ariaLabelKey: 'runtime.orders.table.aria', keyboardNav: true, focusOrder: 1 },
+        },
+      ],
+    };
+
+    const result = RenderPageVue({
+      uiSchema: ordersSchema,
+      data: { status: 'open' },
+      context,
+      adapterRegistry: registry,
+      dataSourceAdapter: adapter,
+    });
+    expect(result.html).toContain('<output data-ds="ordersTable">loading:0</output>');
+    await vi.waitFor(() => expect(pending).toHaveLength(1));
+    expect(pending[0]?.request.params).toEqual({ status: 'open' });
+    pending[0]?.resolve([{ id: 'o-1' }, { id: 'o-2' }]);
+    await vi.waitFor(() => expect(result.html).toContain('ready:2'));
+
+    result.reloadDataSource('ordersTable');
+    await vi.waitFor(() => expect(pending).toHaveLength(2));
+    expect(result.html).toContain('loading:2');
+    pending[1]?.resolve([{ id: 'o-3' }]);
+    await vi.waitFor(() => expect(result.html).toContain('ready:1'));
+
+    result.dispatcher.change('ordersTable', 'closed', 'data.status');
+    expect(result.html).toContain('loading:1');
+    await vi.waitFor(() => expect(pending).toHaveLength(3));
+    result.dispose();
+    expect(pending[2]?.request.signal?.aborted).toBe(true);
+    pending[2]?.resolve([]);
+    await Promise.resolve();
+    expect(result.html).toContain('loading:1');
+
+    const loadSpy = vi.spyOn(ComponentDataLoader.prototype, 'load');
+    renderVue({ uiSchema: ordersSchema, data: { status: 'open' }, context });
+    expect(loadSpy).not.toHaveBeenCalled();
+    loadSpy.mockRestore();
+  });
+
   it('throws on accessibility violations', () => {
     const badSchema: UISchema = {
       version: '1.0.0',
@@ -1,10 +1,11 @@
 ﻿import type {
   ApiMapping,
   ExecutionContext,
+  HttpMethod,
   JSONValue,
   MappingSource,
 } from '@platform/schema';
-import type { ApiTrace } from '@platform/observability';
+import type { ApiAttemptTrace, ApiMappedError, ApiTrace, GraphQLErrorTrace } from '@platform/observability';
 import {
   emitBusinessMetric,
   withExternalCallInstrumentation,
@@ -27,6 +28,9 @@ export interface CallApiInput {
       headers?: Record<string, JSONValue>;
     };
     correlationId?: string;
+    timeoutMs?: number;
+    /** Sent on every attempt after the mapped headers, e.g. a W3C `traceparent`. */
+    headers?: Record<string, string>;
   };
 }
 
@@ -52,36 +56,239 @@ export async function callApi(input: CallApiInput): Promise<CallApiResult> {
   };
 
   try {
-    const request = await buildRequest(
+    let request = await buildRequest(
       input.mapping,
       data,
       context,
       input.options?.resolveSecret ?? resolveSecretFromEnv,
       input.options?.requestFilter ?? defaultRequestFilter,
     );
+    if (input.mapping.type === 'graphql') {
+      request = toGraphQLRequest(input.mapping, request);
+    }
+    if (input.options?.headers) {
+      request = withExtraHeaders(request, input.options.headers);
+    }
     trace.request = request.traceRequest;
 
     const url = appendQuery(input.mapping.endpoint, request.transport.query);
+    const retry = resolveRetryPolicy(input.mapping);
+    const timeoutMs = input.mapping.errorHandling?.timeoutMs ?? input.options?.timeoutMs;
+    const attempts: ApiAttemptTrace[] = [];
+    trace.attempts = attempts;
+
+    let outcome: AttemptOutcome | undefined;
+    for (let attempt = 1; attempt <= retry.maxAttempts; attempt += 1) {
+      const attemptStarted = Date.now();
+      outcome = await executeAttempt({
+        url,
+        mapping: input.mapping,
+        headers: request.transport.headers,
+        body: request.transport.body,
+        fetchFn,
+        timeoutMs,
+        attempt,
+        tenantId: input.context.tenantId,
+        correlationId: input.options?.correlationId,
+      });
+      if (outcome.ok && input.mapping.type === 'graphql') {
+        outcome = checkGraphQLErrors(outcome);
+      }
+      const shouldRetry = attempt < retry.maxAttempts && isRetryable(outcome, input.mapping, retry.retryOn);
+      const retryDelayMs = shouldRetry ? computeBackoffDelay(attempt, retry) : undefined;
+      attempts.push({
+        attempt,
+        startedAt: new Date(attemptStarted).toISOString(),
+        durationMs: Date.now() - attemptStarted,
+        status: outcome.status,
+        error: outcome.error,
+        timedOut: outcome.timedOut || undefined,
+        outcome: outcome.ok ? 'success' : shouldRetry ? 'retry' : 'failed',
+        retryDelayMs,
+      });
+      if (!shouldRetry) break;
+      await sleep(retryDelayMs ?? 0);
+    }
+
+    if (outcome?.status !== undefined) {
+      trace.response = {
+        status: outcome.status,
+        body: outcome.body,
+      };
+    }
+
+    // Error bodies are never written through `responseMap`; `errorHandling` describes what a failure records.
+    if (outcome?.ok) {
+      applyResponseMap(input.mapping, outcome.body, data, context);
+    } else if (outcome) {
+      trace.error = outcome.error;
+      if (outcome.graphqlErrors) {
+        trace.graphqlErrors = outcome.graphqlErrors;
+      }
+      trace.mappedError = mapApiError(input.mapping, outcome);
+      if (input.mapping.errorHandling) {
+        writeMappedError(input.mapping, trace.mappedError, data, context);
+      }
+    }
+  } catch (error) {
+    trace.error = error instanceof Error ? error.message : String(error);
+  }
+
+  trace.durationMs = Date.now() - started;
+  emitBusinessMetric({
+    name: 'api.call.duration_ms',
+    value: trace.durationMs,
+    unit: 'ms',
+    attributes: {
+      tenant_id: input.context.tenantId,
+      api_id: input.mapping.apiId,
+      method: input.mapping.method,
+      success: !trace.error,
+      status: trace.response?.status ?? 0,
+    },
+  });
+
+  return { data, context, trace };
+}
+
+const IDEMPOTENT_METHODS = new Set<HttpMethod>(['GET', 'PUT', 'DELETE']);
+const DEFAULT_RETRYABLE_STATUS = [408, 429, 500, 502, 503, 504];
+const DEFAULT_MAX_BACKOFF_MS = 10_000;
+
+interface AttemptOutcome {
+  ok: boolean;
+  status?: number;
+  body?: unknown;
+  error?: string;
+  timedOut?: boolean;
+  graphqlErrors?: GraphQLErrorTrace[];
+}
+
+type BuiltRequest = Awaited<ReturnType<typeof buildRequest>>;
+
+interface ResolvedRetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitter: boolean;
+  retryOn?: number[];
+}
+
+function resolveRetryPolicy(mapping: ApiMapping): ResolvedRetryPolicy {
+  const retry = mapping.errorHandling?.retry;
+  return {
+    maxAttempts: Math.max(1, Math.floor(retry?.maxAttempts ?? 1)),
+    baseDelayMs: Math.max(0, retry?.backoffMs ?? 0),
+    maxDelayMs: Math.max(0, retry?.maxBackoffMs ?? DEFAULT_MAX_BACKOFF_MS),
+    jitter: retry?.jitter ?? true,
+    retryOn: retry?.retryOn,
+  };
+}
+
+// Idempotent methods (and GraphQL queries) retry on network failures and transient
+// statuses; any request retries on the status codes listed in `retry.retryOn`.
+function isRetryable(outcome: AttemptOutcome, mapping: ApiMapping, retryOn: number[] | undefined): boolean {
+  if (outcome.ok || outcome.graphqlErrors) return false;
+  if (outcome.status !== undefined && retryOn?.includes(outcome.status)) return true;
+  const idempotent =
+    mapping.type === 'graphql' ? !isGraphQLMutation(mapping.query ?? '') : IDEMPOTENT_METHODS.has(mapping.method);
+  if (!idempotent) return false;
+  if (outcome.status === undefined) return true;
+  return retryOn === undefined && DEFAULT_RETRYABLE_STATUS.includes(outcome.status);
+}
+
+// GraphQL variables come from `requestMap.body`; headers and query params map as for REST.
+function toGraphQLRequest(mapping: ApiMapping, request: BuiltRequest): BuiltRequest {
+  if (!mapping.query || mapping.query.trim().length === 0) {
+    throw new Error(`GraphQL mapping ${mapping.apiId} is missing a query`);
+  }
+  const variables = request.transport.body ?? {};
+  if (mapping.method === 'GET') {
+    const query: Record<string, JSONValue> = {
+      ...(request.transport.query ?? {}),
+      query: mapping.query,
+      variables: JSON.stringify(variables),
+      ...(mapping.operationName ? { operationName: mapping.operationName } : {}),
+    };
+    return {
+      transport: { ...request.transport, body: undefined, query },
+      traceRequest: { ...request.traceRequest, body: undefined, query },
+    };
+  }
+  const body: Record<string, JSONValue> = {
+    query: mapping.query,
+    variables,
+    ...(mapping.operationName ? { operationName: mapping.operationName } : {}),
+  };
+  return {
+    transport: { ...request.transport, body },
+    traceRequest: { ...request.traceRequest, body },
+  };
+}
+
+function isGraphQLMutation(query: string): boolean {
+  return /^\s*mutation\b/.test(query.replace(/#[^\n]*/g, ''));
+}
+
+function checkGraphQLErrors(outcome: AttemptOutcome): AttemptOutcome {
+  const body = outcome.body;
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return outcome;
+  const errors = (body as Record<string, unknown>).errors;
+  if (!Array.isArray(errors) || errors.length === 0) return outcome;
+  const graphqlErrors = errors.map((entry): GraphQLErrorTrace => {
+    const record = entry && typeof entry === 'object' ? (entry as Record<string, unknown>) : {};
+    const extensions =
+      record.extensions && typeof record.extensions === 'object' ? (record.extensions as Record<string, unknown>) : {};
+    return {
+      message: typeof record.message === 'string' ? record.message : 'Unknown GraphQL error',
+      path: Array.isArray(record.path) ? (record.path as Array<string | number>) : undefined,
+      code: typeof extensions.code === 'string' ? extensions.code : undefined,
+    };
+  });
+  return {
+    ...outcome,
+    ok: false,
+    error: `GraphQL error: ${graphqlErrors[0]?.message}`,
+    graphqlErrors,
+  };
+}
+
+async function executeAttempt(input: {
+  url: string;
+  mapping: ApiMapping;
+  headers?: Record<string, JSONValue>;
+  body?: Record<string, JSONValue>;
+  fetchFn: typeof fetch;
+  timeoutMs?: number;
+  attempt: number;
+  tenantId: string;
+  correlationId?: string;
+}): Promise<AttemptOutcome> {
+  const controller = typeof AbortController === 'function' ? new AbortController() : undefined;
+  const timer =
+    controller && input.timeoutMs !== undefined
+      ? setTimeout(() => controller.abort(), input.timeoutMs)
+      : undefined;
+  try {
     const response = await withExternalCallInstrumentation({
       name: `http.${input.mapping.method.toLowerCase()}.${input.mapping.apiId}`,
       module: 'api-orchestrator',
-      tenantId: input.context.tenantId,
-      correlationId: input.options?.correlationId,
+      tenantId: input.tenantId,
+      correlationId: input.correlationId,
       attributes: {
         endpoint: input.mapping.endpoint,
         api_id: input.mapping.apiId,
+        attempt: input.attempt,
       },
       fn: async () =>
-        await fetchFn(url, {
+        await input.fetchFn(input.url, {
           method: input.mapping.method,
           headers: {
             'content-type': 'application/json',
-            ...(request.transport.headers ?? {}),
+            ...(input.headers ?? {}),
           } as Record<string, string>,
-          body:
-            request.transport.body && input.mapping.method !== 'GET'
-              ? JSON.stringify(request.transport.body)
-              : undefined,
+          body: input.body && input.mapping.method !== 'GET' ? JSON.stringify(input.body) : undefined,
+          signal: controller?.signal,
         }),
     });
 
@@ -93,31 +300,104 @@ export async function callApi(input: CallApiInput): Promise<CallApiResult> {
       responseBody = await response.text();
     }
 
-    trace.response = {
-      status: response.status,
-      body: responseBody,
-    };
-
-    applyResponseMap(input.mapping, responseBody, data, context);
+    if (response.status < 200 || response.status >= 300) {
+      return { ok: false, status: response.status, body: responseBody, error: `HTTP ${response.status}` };
+    }
+    return { ok: true, status: response.status, body: responseBody };
   } catch (error) {
-    trace.error = error instanceof Error ? error.message : String(error);
+    if (controller?.signal.aborted) {
+      return { ok: false, error: `Request timed out after ${input.timeoutMs}ms`, timedOut: true };
+    }
+    return { ok: false, error: error instanceof Error ? error.message : String(error) };
+  } finally {
+    if (timer !== undefined) clearTimeout(timer);
   }
+}
 
-  trace.durationMs = Date.now() - started;
-  emitBusinessMetric({
-    name: 'api.call.duration_ms',
-    value: trace.durationMs,
-    unit: 'ms',
-    attributes: {
-      tenant_id: input.context.tenantId,
-      api_id: input.mapping.apiId,
-      method: input.mapping.method,
-      success: !trace.error,
-      status: trace.response?.status ?? 0,
-    },
-  });
+// Lookup order: error code from the response body, exact status, status class
+// ("4xx"), "timeout"/"network" for transport failures, then "default".
+function mapApiError(mapping: ApiMapping, outcome: AttemptOutcome): ApiMappedError {
+  const map = mapping.errorHandling?.map ?? {};
+  const bodyCode = extractErrorBodyCode(outcome.body);
+  const candidates: string[] = [];
+  if (bodyCode) candidates.push(bodyCode);
+  if (outcome.status !== undefined) {
+    candidates.push(String(outcome.status), `${Math.floor(outcome.status / 100)}xx`);
+  } else {
+    candidates.push(outcome.timedOut ? 'timeout' : 'network');
+  }
+  candidates.push('default');
 
-  return { data, context, trace };
+  const matched = candidates.find((candidate) => map[candidate] !== undefined);
+  const fallbackCode =
+    outcome.status !== undefined ? `HTTP_${outcome.status}` : outcome.timedOut ? 'TIMEOUT' : 'NETWORK_ERROR';
+  return {
+    code: matched ? (map[matched] as string) : fallbackCode,
+    status: outcome.status,
+    message: extractErrorBodyMessage(outcome.body) ?? outcome.error ?? 'API call failed',
+  };
+}
+
+function extractErrorBodyCode(body: unknown): string | undefined {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return undefined;
+  const record = body as Record<string, unknown>;
+  const graphqlError = firstGraphQLError(record);
+  const extensions = graphqlError?.extensions;
+  if (extensions && typeof extensions === 'object' && typeof (extensions as Record<string, unknown>).code === 'string') {
+    return (extensions as Record<string, string>).code;
+  }
+  const nested = record.error && typeof record.error === 'object' ? (record.error as Record<string, unknown>) : {};
+  const code = record.code ?? record.errorCode ?? nested.code;
+  return typeof code === 'string' || typeof code === 'number' ? String(code) : undefined;
+}
+
+function extractErrorBodyMessage(body: unknown): string | undefined {
+  if (typeof body === 'string') return body.trim().length > 0 ? body.slice(0, 512) : undefined;
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return undefined;
+  const record = body as Record<string, unknown>;
+  const graphqlError = firstGraphQLError(record);
+  if (typeof graphqlError?.message === 'string') return graphqlError.message;
+  const nested = record.error && typeof record.error === 'object' ? (record.error as Record<string, unknown>) : {};
+  const message = record.message ?? nested.message ?? (typeof record.error === 'string' ? record.error : undefined);
+  return typeof message === 'string' ? message : undefined;
+}
+
+function firstGraphQLError(record: Record<string, unknown>): Record<string, unknown> | undefined {
+  if (!Array.isArray(record.errors)) return undefined;
+  const first: unknown = record.errors[0];
+  return first && typeof first === 'object' ? (first as Record<string, unknown>) : undefined;
+}
+
+function writeMappedError(
+  mapping: ApiMapping,
+  error: ApiMappedError,
+  data: Record<string, JSONValue>,
+  context: ExecutionContext,
+): void {
+  const errorPath = mapping.errorHandling?.errorPath ?? `data.apiErrors.${mapping.apiId}`;
+  const value: JSONValue = {
+    code: error.code,
+    message: error.message,
+    ...(error.status !== undefined ? { status: error.status } : {}),
+  };
+  if (errorPath.startsWith('context.')) {
+    setPath(context as unknown as Record<string, JSONValue>, errorPath.slice('context.'.length), value);
+  } else {
+    setPath(data, errorPath.startsWith('data.') ? errorPath.slice('data.'.length) : errorPath, value);
+  }
+}
+
+// Same curve as `@platform/runtime`'s data source retries, kept local so this package does not depend on the runtime.
+function computeBackoffDelay(attempt: number, retry: ResolvedRetryPolicy): number {
+  const exp = retry.baseDelayMs * Math.pow(2, Math.max(0, attempt - 1));
+  const capped = Math.min(retry.maxDelayMs, exp);
+  if (!retry.jitter) return capped;
+  return Math.floor(capped * (0.75 + Math.random() * 0.5));
+}
+
+function sleep(ms: number): Promise<void> {
+  if (ms <= 0) return Promise.resolve();
+  return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
 async function buildRequest(
@@ -170,6 +450,14 @@ async function buildRequest(
   };
 }
 
+function withExtraHeaders(request: BuiltRequest, headers: Record<string, string>): BuiltRequest {
+  const lowered = Object.fromEntries(Object.entries(headers).map(([key, value]) => [key.toLowerCase(), value]));
+  return {
+    transport: { ...request.transport, headers: { ...(request.transport.headers ?? {}), ...lowered } },
+    traceRequest: { ...request.traceRequest, headers: redactHeaders({ ...(request.traceRequest.headers ?? {}), ...lowered }) },
+  };
+}
+
 async function resolveMap(
   map: Record<string, MappingSource> | undefined,
   data: Record<string, JSONValue>,
@@ -310,7 +598,11 @@ function applyResponseMap(
   data: Record<string, JSONValue>,
   context: ExecutionContext,
 ): void {
-  const responseData = responseBody as Record<string, JSONValue>;
+  const responseData = (
+    mapping.type === 'graphql' && responseBody && typeof responseBody === 'object'
+      ? (responseBody as Record<string, unknown>).data
+      : responseBody
+  ) as Record<string, JSONValue>;
   if (mapping.responseMap.data) {
     for (const [target, path] of Object.entries(mapping.responseMap.data)) {
       const value = resolveResponsePath(responseData, path);
@@ -171,4 +171,225 @@ describe('api-orchestrator', () => {
       payload: { safe: true },
     });
   });
+
+  it('retries idempotent requests with backoff and records every attempt', async () => {
+    const mapping: ApiMapping = {
+      version: '1.0.0',
+      apiId: 'flaky',
+      type: 'rest',
+      method: 'GET',
+      endpoint: 'https://api.example.com/flaky',
+      requestMap: {},
+      responseMap: { data: { status: 'response.status' } },
+      errorHandling: { retry: { maxAttempts: 3, backoffMs: 1, jitter: false } },
+    };
+    let calls = 0;
+    const result = await callApi({
+      mapping,
+      context,
+      data: {},
+      fetchFn: async () => {
+        calls += 1;
+        if (calls === 1) throw new Error('socket hang up');
+        if (calls === 2) return new Response('unavailable', { status: 503 });
+        return new Response(JSON.stringify({ status: 'ok' }), {
+          status: 200,
+          headers: { 'content-type': 'application/json' },
+        });
+      },
+    });
+
+    expect(calls).toBe(3);
+    expect(result.data.status).toBe('ok');
+    expect(result.trace.error).toBeUndefined();
+    expect(result.trace.attempts?.map((attempt) => attempt.outcome)).toEqual(['retry', 'retry', 'success']);
+    expect(result.trace.attempts?.map((attempt) => attempt.retryDelayMs)).toEqual([1, 2, undefined]);
+    expect(result.trace.attempts?.[0]?.error).toBe('socket hang up');
+    expect(result.trace.attempts?.[1]?.status).toBe(503);
+  });
+
+  it('only retries non-idempotent requests on configured status codes', async () => {
+    const base: ApiMapping = {
+      version: '1.0.0',
+      apiId: 'submit',
+      type: 'rest',
+      method: 'POST',
+      endpoint: 'https://api.example.com/submit',
+      requestMap: {},
+      responseMap: { data: {} },
+      errorHandling: { retry: { maxAttempts: 3, backoffMs: 1, jitter: false } },
+    };
+    let calls = 0;
+    const fetchFn = async () => {
+      calls += 1;
+      return new Response('busy', { status: 429 });
+    };
+
+    await callApi({ mapping: base, context, data: {}, fetchFn });
+    expect(calls).toBe(1);
+
+    calls = 0;
+    const withRetryOn: ApiMapping = {
+      ...base,
+      errorHandling: { retry: { maxAttempts: 3, backoffMs: 1, jitter: false, retryOn: [429] } },
+    };
+    const result = await callApi({ mapping: withRetryOn, context, data: {}, fetchFn });
+    expect(calls).toBe(3);
+    expect(result.trace.attempts?.map((attempt) => attempt.outcome)).toEqual(['retry', 'retry', 'failed']);
+  });
+
+  it('aborts attempts that exceed the per-attempt timeout', async () => {
+    const mapping: ApiMapping = {
+      version: '1.0.0',
+      apiId: 'slow',
+      type: 'rest',
+      method: 'GET',
+      endpoint: 'https://api.example.com/slow',
+      requestMap: {},
+      responseMap: { data: {} },
+      errorHandling: {
+        timeoutMs: 5,
+        map: { timeout: 'UPSTREAM_TIMEOUT' },
+      },
+    };
+    let signal: AbortSignal | undefined;
+    const result = await callApi({
+      mapping,
+      context,
+      data: {},
+      fetchFn: (_url, init) => {
+        signal = init?.signal ?? undefined;
+        return new Promise<Response>((_resolve, reject) => {
+          init?.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+        });
+      },
+    });
+
+    expect(signal?.aborted).toBe(true);
+    expect(result.trace.attempts?.[0]?.timedOut).toBe(true);
+    expect(result.trace.error).toBe('Request timed out after 5ms');
+    expect(result.data.apiErrors).toEqual({
+      slow: { code: 'UPSTREAM_TIMEOUT', message: 'Request timed out after 5ms' },
+    });
+  });
+
+  it('maps error statuses and body codes to configured error codes', async () => {
+    const mapping: ApiMapping = {
+      version: '1.0.0',
+      apiId: 'payments',
+      type: 'rest',
+      method: 'POST',
+      endpoint: 'https://api.example.com/payments',
+      requestMap: {},
+      responseMap: { data: { paymentId: 'response.id' } },
+      errorHandling: {
+        map: { '400': 'BAD_REQUEST', INSUFFICIENT_FUNDS: 'PAYMENT_DECLINED', '5xx': 'SERVER_ERROR' },
+        errorPath: 'context.paymentError',
+      },
+    };
+    const reply = (status: number, body: unknown) => async () =>
+      new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+
+    const declined = await callApi({
+      mapping,
+      context,
+      data: {},
+      fetchFn: reply(400, { error: { code: 'INSUFFICIENT_FUNDS', message: 'Balance too low' } }),
+    });
+    expect(declined.trace.mappedError).toEqual({ code: 'PAYMENT_DECLINED', status: 400, message: 'Balance too low' });
+    expect((declined.context as unknown as Record<string, unknown>).paymentError).toEqual({
+      code: 'PAYMENT_DECLINED',
+      message: 'Balance too low',
+      status: 400,
+    });
+    expect(declined.data.paymentId).toBeUndefined();
+
+    const invalid = await callApi({ mapping, context, data: {}, fetchFn: reply(400, { id: 'ignored' }) });
+    expect(invalid.trace.mappedError?.code).toBe('BAD_REQUEST');
+    expect(invalid.trace.error).toBe('HTTP 400');
+    expect(invalid.data.paymentId).toBeUndefined();
+
+    const outage = await callApi({ mapping, context, data: {}, fetchFn: reply(502, {}) });
+    expect(outage.trace.mappedError?.code).toBe('SERVER_ERROR');
+  });
+
+  it('executes graphql mappings with variables and resolves responses under data', async () => {
+    const mapping: ApiMapping = {
+      version: '1.0.0',
+      apiId: 'customer',
+      type: 'graphql',
+      method: 'POST',
+      endpoint: 'https://api.example.com/graphql',
+      query: 'query Customer($id: ID!) { customer(id: $id) { name tier } }',
+      operationName: 'Customer',
+      requestMap: {
+        body: { id: { from: 'data.customerId' } },
+        headers: { 'x-tenant': { from: 'context.tenantId' } },
+      },
+      responseMap: { data: { customerName: 'response.customer.name', tier: 'customer.tier' } },
+    };
+    let capturedBody: unknown;
+    const result = await callApi({
+      mapping,
+      context,
+      data: { customerId: 'c-1' },
+      fetchFn: async (_url, init) => {
+        capturedBody = JSON.parse(String(init?.body));
+        return new Response(JSON.stringify({ data: { customer: { name: 'Acme', tier: 'gold' } } }), {
+          status: 200,
+          headers: { 'content-type': 'application/json' },
+        });
+      },
+    });
+
+    expect(capturedBody).toEqual({
+      query: mapping.query,
+      operationName: 'Customer',
+      variables: { id: 'c-1' },
+    });
+    expect(result.data.customerName).toBe('Acme');
+    expect(result.data.tier).toBe('gold');
+    expect(result.trace.graphqlErrors).toBeUndefined();
+  });
+
+  it('surfaces graphql errors as typed failures', async () => {
+    const mapping: ApiMapping = {
+      version: '1.0.0',
+      apiId: 'customer',
+      type: 'graphql',
+      method: 'POST',
+      endpoint: 'https://api.example.com/graphql',
+      query: 'query Customer($id: ID!) { customer(id: $id) { name } }',
+      requestMap: { body: { id: { from: 'data.customerId' } } },
+      responseMap: { data: { customerName: 'response.customer.name' } },
+      errorHandling: {
+        map: { NOT_FOUND: 'CUSTOMER_NOT_FOUND' },
+        retry: { maxAttempts: 3, backoffMs: 1, jitter: false },
+      },
+    };
+    let calls = 0;
+    const result = await callApi({
+      mapping,
+      context,
+      data: { customerId: 'missing' },
+      fetchFn: async () => {
+        calls += 1;
+        return new Response(
+          JSON.stringify({
+            data: { customer: null },
+            errors: [{ message: 'Customer not found', path: ['customer'], extensions: { code: 'NOT_FOUND' } }],
+          }),
+          { status: 200, headers: { 'content-type': 'application/json' } },
+        );
+      },
+    });
+
+    expect(calls).toBe(1);
+    expect(result.trace.error).toBe('GraphQL error: Customer not found');
+    expect(result.trace.graphqlErrors).toEqual([
+      { message: 'Customer not found', path: ['customer'], code: 'NOT_FOUND' },
+    ]);
+    expect(result.trace.mappedError).toEqual({ code: 'CUSTOMER_NOT_FOUND', status: 200, message: 'Customer not found' });
+    expect(result.data.customerName).toBeUndefined();
+  });
 });
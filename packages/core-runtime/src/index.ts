@@ -1,14 +1,28 @@
 import type {
   ApiMapping,
   ExecutionContext,
+  FlowActionConfig,
   FlowSchema,
   JSONValue,
   Rule,
   RuleSet,
   UISchema,
 } from '@platform/schema';
-import { logRuntimeTrace, type RulesTrace, type RuntimeTrace } from '@platform/observability';
-import { transition } from '@platform/flow-engine';
+import {
+  buildRuntimeSpanTree,
+  createRuntimeTraceIds,
+  deriveChildSpanId,
+  exportOpenTelemetrySpans,
+  formatTraceparent,
+  logRuntimeTrace,
+  type ApiTrace,
+  type FlowActionTrace,
+  type FlowTrace,
+  type OTelSpan,
+  type RulesTrace,
+  type RuntimeTrace,
+} from '@platform/observability';
+import { stepFlowSession, transition, type FlowSession } from '@platform/flow-engine';
 import { evaluateRules } from '@platform/rules-engine';
 import { callApi } from '@platform/api-orchestrator';
 import { assertApiMapping, assertFlowSchema, assertRulesSchema, assertUISchema } from '@platform/validator';
@@ -18,8 +32,19 @@ export interface ExecuteStepInput {
   uiSchemasById: Record<string, UISchema>;
   rules: Rule[] | RuleSet;
   apiMappingsById: Record<string, ApiMapping>;
-  stateId: string;
+  /** Single-state mode. Ignored when `session` is supplied. */
+  stateId?: string;
+  /**
+   * Session mode: parallel branches, delayed transitions and history guards are resolved by the
+   * flow engine and the updated session is returned for the caller to persist.
+   */
+  session?: FlowSession;
+  /** Clock for session mode; timers with `dueAt <= nowMs` fire before the event. Defaults to `Date.now()`. */
+  nowMs?: number;
+  /** In session mode an empty event only fires due timers. */
   event: string;
+  /** Passed to the rules engine as `options.asOf` to preview effective-dated rule versions. Defaults to now. */
+  rulesAsOf?: string | number;
   context: ExecutionContext;
   data: Record<string, JSONValue>;
   fetchFn?: typeof fetch;
@@ -56,13 +81,30 @@ export interface ExecuteStepInput {
 export interface ExecuteStepResult {
   nextStateId: string;
   uiSchema: UISchema;
+  /** Every active state with its UI schema; more than one while parallel branches are open. */
+  activeStates: ActiveStateView[];
   updatedContext: ExecutionContext;
   updatedData: Record<string, JSONValue>;
+  /** Present in session mode. */
+  session?: FlowSession;
+  /** One trace per transition taken; `trace.flow` is the last of them. */
+  flowTraces: FlowTrace[];
+  /** Set by a `navigate` action; `uiSchema` already reflects a `pageId` target. */
+  navigation?: { url?: string; pageId?: string };
   trace: RuntimeTrace;
+  /** `trace` as an OpenTelemetry span tree; also handed to registered exporters. */
+  spans: OTelSpan[];
+}
+
+export interface ActiveStateView {
+  stateId: string;
+  uiPageId: string;
+  uiSchema: UISchema;
 }
 
 export async function executeStep(input: ExecuteStepInput): Promise<ExecuteStepResult> {
   const started = Date.now();
+  const traceIds = createRuntimeTraceIds(input.correlationId, started);
   // `executeStep` runs in both Node and browsers. Guard `process.env` for client bundles.
   const validateEnv = typeof process !== 'undefined' ? process.env.RULEFLOW_VALIDATE : undefined;
   const shouldValidate = input.validate ?? validateEnv !== '0';
@@ -97,94 +139,230 @@ export async function executeStep(input: ExecuteStepInput): Promise<ExecuteStepR
     event: filtered.event,
   });
 
-  const flowResult = transition({
-    flow: input.flow,
-    stateId: input.stateId,
-    event: filtered.event,
-    context: filtered.context,
-    data: filtered.data,
-  });
+  const flowStep = resolveFlowStep(input, filtered);
 
-  enforceAccessControl({
-    access: input.accessControl,
-    context: filtered.context,
-    uiPageId: flowResult.uiPageId,
-    apiId: flowResult.apiId,
-  });
+  for (const state of flowStep.activeStates) {
+    enforceAccessControl({
+      access: input.accessControl,
+      context: filtered.context,
+      uiPageId: state.uiPageId,
+    });
+  }
+  for (const action of flowStep.actions) {
+    enforceAccessControl({
+      access: input.accessControl,
+      context: filtered.context,
+      apiId: action.type === 'callApi' ? action.apiId : undefined,
+      uiPageId: action.type === 'navigate' ? action.pageId : undefined,
+    });
+  }
 
   let updatedData = filtered.data;
   let updatedContext = filtered.context;
-  let rulesTrace: RulesTrace | undefined;
-  let apiTrace: RuntimeTrace['api'] | undefined;
+  const rulesTraces: RulesTrace[] = [];
+  const apiTraces: ApiTrace[] = [];
+  let navigation: ExecuteStepResult['navigation'];
+  const actionTraces: FlowActionTrace[] = [];
 
-  if (flowResult.actionsToRun.includes('evaluateRules')) {
-    const rulesResult = evaluateRules({
-      rules: input.rules,
-      context: updatedContext,
-      data: updatedData,
-      options: {
-        logTrace: input.logTraces,
-        correlationId: input.correlationId,
-        versionId: input.versionId,
-        traceLogger: (trace) => input.ruleTraceLogger?.(trace),
-      },
-    });
-    updatedData = rulesResult.data;
-    updatedContext = rulesResult.context;
-    rulesTrace = rulesResult.trace;
-  }
+  for (const action of flowStep.actions) {
+    const actionStarted = Date.now();
+    const entry: FlowActionTrace = {
+      index: actionTraces.length,
+      type: action.type,
+      startedAt: new Date(actionStarted).toISOString(),
+      durationMs: 0,
+      status: 'ok',
+    };
 
-  if (flowResult.actionsToRun.includes('callApi')) {
-    const apiId = flowResult.apiId;
-    if (apiId && input.apiMappingsById[apiId]) {
-      const apiResult = await callApi({
-        mapping: input.apiMappingsById[apiId],
-        context: updatedContext,
-        data: updatedData,
-        fetchFn: input.fetchFn,
-        options: {
-          resolveSecret: input.resolveSecret,
-          correlationId: input.correlationId,
-        },
-      });
-      updatedData = apiResult.data;
-      updatedContext = apiResult.context;
-      apiTrace = apiResult.trace;
+    switch (action.type) {
+      case 'evaluateRules': {
+        const rulesResult = evaluateRules({
+          rules: input.rules,
+          context: updatedContext,
+          data: updatedData,
+          options: {
+            logTrace: input.logTraces,
+            asOf: input.rulesAsOf,
+            correlationId: input.correlationId,
+            versionId: input.versionId,
+            traceLogger: (trace) => input.ruleTraceLogger?.(trace),
+          },
+        });
+        updatedData = rulesResult.data;
+        updatedContext = rulesResult.context;
+        rulesTraces.push(rulesResult.trace);
+        entry.rulesMatched = rulesResult.trace.rulesMatched;
+        break;
+      }
+      case 'callApi': {
+        entry.apiId = action.apiId;
+        const mapping = input.apiMappingsById[action.apiId];
+        if (!mapping) {
+          entry.status = 'skipped';
+          entry.reason = `No API mapping for "${action.apiId}"`;
+          break;
+        }
+        const apiResult = await callApi({
+          mapping,
+          context: updatedContext,
+          data: updatedData,
+          fetchFn: input.fetchFn,
+          options: {
+            resolveSecret: input.resolveSecret,
+            correlationId: input.correlationId,
+            headers: {
+              traceparent: formatTraceparent(traceIds.traceId, deriveChildSpanId(traceIds.spanId, `api:${apiTraces.length}`)),
+            },
+          },
+        });
+        updatedData = apiResult.data;
+        updatedContext = apiResult.context;
+        apiTraces.push(apiResult.trace);
+        break;
+      }
+      case 'setContext':
+        entry.path = action.path;
+        updatedContext = setContextPath(updatedContext, action.path, action.value);
+        break;
+      case 'navigate':
+        if (!action.url && !action.pageId) {
+          entry.status = 'skipped';
+          entry.reason = 'No url or pageId; the target state page is shown';
+          break;
+        }
+        navigation = {
+          ...(action.url ? { url: action.url } : {}),
+          ...(action.pageId ? { pageId: action.pageId } : {}),
+        };
+        entry.url = action.url;
+        entry.pageId = action.pageId;
+        break;
     }
+
+    entry.durationMs = Date.now() - actionStarted;
+    actionTraces.push(entry);
   }
 
-  const uiSchema = input.uiSchemasById[flowResult.uiPageId];
+  const activeStates = flowStep.activeStates.map((state): ActiveStateView => {
+    const uiSchema = input.uiSchemasById[state.uiPageId];
+    if (!uiSchema) {
+      throw new Error(`UISchema not found for pageId: ${state.uiPageId}`);
+    }
+    return { ...state, uiSchema };
+  });
+  const primary = activeStates.find((state) => state.stateId === flowStep.primaryStateId);
+  if (!primary) {
+    throw new Error('Flow has no active state');
+  }
+  const uiSchema = navigation?.pageId ? input.uiSchemasById[navigation.pageId] : primary.uiSchema;
   if (!uiSchema) {
-    throw new Error(`UISchema not found for pageId: ${flowResult.uiPageId}`);
+    throw new Error(`UISchema not found for pageId: ${navigation?.pageId}`);
   }
   const trace: RuntimeTrace = {
     startedAt: new Date(started).toISOString(),
     durationMs: Date.now() - started,
-    flow: flowResult.trace,
-    rules: rulesTrace,
-    api: apiTrace,
+    flow: flowStep.traces[flowStep.traces.length - 1] ?? idleFlowTrace(filtered.event, primary, started),
+    rules: rulesTraces[rulesTraces.length - 1],
+    ...(rulesTraces.length > 0 ? { rulesEvaluations: rulesTraces } : {}),
+    api: apiTraces[apiTraces.length - 1],
+    ...(apiTraces.length > 0 ? { apis: apiTraces } : {}),
+    actions: actionTraces,
     context: {
       correlationId: input.correlationId,
       tenantId: updatedContext.tenantId,
       userId: updatedContext.userId,
       versionId: input.versionId,
+      traceId: traceIds.traceId,
+      spanId: traceIds.spanId,
     },
   };
+  const spans = buildRuntimeSpanTree(trace);
 
   if (input.traceLogger) {
     input.traceLogger(trace);
   }
   const traceEnv = typeof process !== 'undefined' ? process.env.RULEFLOW_TRACE : undefined;
   if (input.logTraces || traceEnv === '1') {
+    // Logging exports the same span tree.
     logRuntimeTrace(trace);
+  } else {
+    exportOpenTelemetrySpans(spans);
   }
 
   return {
-    nextStateId: flowResult.nextStateId,
+    nextStateId: primary.stateId,
     uiSchema,
+    activeStates,
     updatedContext,
     updatedData,
+    ...(flowStep.session ? { session: flowStep.session } : {}),
+    flowTraces: flowStep.traces,
+    ...(navigation ? { navigation } : {}),
     trace,
+    spans,
+  };
+}
+
+function resolveFlowStep(
+  input: ExecuteStepInput,
+  filtered: { event: string; data: Record<string, JSONValue>; context: ExecutionContext },
+): {
+  primaryStateId: string;
+  activeStates: Array<{ stateId: string; uiPageId: string }>;
+  actions: FlowActionConfig[];
+  traces: FlowTrace[];
+  session?: FlowSession;
+} {
+  if (input.session) {
+    const result = stepFlowSession({
+      flow: input.flow,
+      session: input.session,
+      event: filtered.event || undefined,
+      context: filtered.context,
+      data: filtered.data,
+      nowMs: input.nowMs,
+    });
+    const activeStateIds = result.session.activeStateIds;
+    return {
+      primaryStateId: result.enteredStateIds.find((stateId) => activeStateIds.includes(stateId)) ?? activeStateIds[0] ?? '',
+      activeStates: activeStateIds.map((stateId) => ({
+        stateId,
+        uiPageId: input.flow.states[stateId]?.uiPageId ?? stateId,
+      })),
+      actions: result.transitions.flatMap((step) => step.actions),
+      traces: result.traces,
+      session: result.session,
+    };
+  }
+
+  if (!input.stateId) {
+    throw new Error('executeStep requires either stateId or session');
+  }
+  const flowResult = transition({
+    flow: input.flow,
+    stateId: input.stateId,
+    event: filtered.event,
+    context: filtered.context,
+    data: filtered.data,
+  });
+  return {
+    primaryStateId: flowResult.nextStateId,
+    activeStates: [{ stateId: flowResult.nextStateId, uiPageId: flowResult.uiPageId }],
+    actions: flowResult.actions,
+    traces: [flowResult.trace],
+  };
+}
+
+function idleFlowTrace(event: string, state: ActiveStateView, started: number): FlowTrace {
+  return {
+    startedAt: new Date(started).toISOString(),
+    durationMs: 0,
+    event,
+    fromStateId: state.stateId,
+    toStateId: state.stateId,
+    uiPageId: state.uiPageId,
+    reason: 'no_transition',
+    actionsToRun: [],
   };
 }
 
@@ -262,8 +440,28 @@ function enforceAccessControl(input: {
   }
 }
 
+function setContextPath(context: ExecutionContext, path: string, value: JSONValue): ExecutionContext {
+  const segments = (path.startsWith('context.') ? path.slice('context.'.length) : path).split('.');
+  const key = segments.pop();
+  if (!key || segments.some((segment) => !segment) || [...segments, key].some(isUnsafeKey)) {
+    throw new Error(`Invalid setContext path: ${path}`);
+  }
+  const root: Record<string, JSONValue> = { ...(context as unknown as Record<string, JSONValue>) };
+  let cursor = root;
+  for (const segment of segments) {
+    const current = cursor[segment];
+    const next: Record<string, JSONValue> =
+      current && typeof current === 'object' && !Array.isArray(current) ? { ...current } : {};
+    cursor[segment] = next;
+    cursor = next;
+  }
+  cursor[key] = value;
+  return root as unknown as ExecutionContext;
+}
+
 function isUnsafeKey(value: string): boolean {
   return value === '__proto__' || value === 'constructor' || value === 'prototype';
 }
 
+export { createFlowSession, type FlowSession } from '@platform/flow-engine';
 export * from './orchestrator';
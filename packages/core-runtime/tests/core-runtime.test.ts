@@ -1,6 +1,11 @@
-﻿import { describe, expect, it } from 'vitest';
+﻿import os from 'node:os';
+import path from 'node:path';
+import { mkdtemp, readFile } from 'node:fs/promises';
+import { describe, expect, it } from 'vitest';
 import type { ApiMapping, ExecutionContext, FlowSchema, Rule, UISchema } from '@platform/schema';
-import { executeStep } from '../src/index';
+import { buildRuntimeSpanTree, registerOpenTelemetryExporter } from '@platform/observability';
+import { createFileOtlpExporter } from '@platform/observability/otlp-file-exporter';
+import { createFlowSession, executeStep } from '../src/index';
 
 const context: ExecutionContext = {
   tenantId: 't1',
@@ -106,6 +111,54 @@ describe('core-runtime', () => {
     expect(result.uiSchema.pageId).toBe('page-done');
   });
 
+  it('exports a span tree and propagates traceparent to api calls', async () => {
+    const tracesFilePath = path.join(await mkdtemp(path.join(os.tmpdir(), 'runtime-otlp-')), 'traces.jsonl');
+    const exporter = createFileOtlpExporter({ tracesFilePath });
+    const dispose = registerOpenTelemetryExporter(exporter);
+    const sentHeaders: Array<Record<string, string>> = [];
+    const fetchFn = async (_url: string | URL | Request, init?: RequestInit) => {
+      sentHeaders.push(init?.headers as Record<string, string>);
+      return new Response(JSON.stringify({ orderId: 'o-1', status: 'submitted' }), {
+        status: 200,
+        headers: { 'content-type': 'application/json' },
+      });
+    };
+
+    const result = await executeStep({
+      flow,
+      uiSchemasById,
+      rules,
+      apiMappingsById: { submitOrder: apiMapping },
+      stateId: 'start',
+      event: 'submit',
+      context,
+      data: {},
+      fetchFn: fetchFn as typeof fetch,
+      correlationId: 'corr-1',
+    }).finally(dispose);
+    await exporter.flush();
+
+    const [root, flowSpan, rulesSpan, apiSpan] = result.spans;
+    expect(result.spans.map((span) => span.name)).toEqual([
+      'runtime.execute_step',
+      'flow.transition',
+      'rules.evaluate',
+      'http.post.submitOrder',
+    ]);
+    expect(new Set(result.spans.map((span) => span.traceId))).toEqual(new Set([result.trace.context?.traceId]));
+    expect([flowSpan, rulesSpan, apiSpan].map((span) => span?.parentSpanId)).toEqual([root?.spanId, root?.spanId, root?.spanId]);
+    expect(rulesSpan?.events).toEqual([
+      expect.objectContaining({ name: 'rule.evaluated', attributes: { 'ruleflow.rule_id': 'SET_READY', 'ruleflow.rule.matched': true } }),
+    ]);
+    expect(sentHeaders[0]?.traceparent).toBe(`00-${root?.traceId}-${apiSpan?.spanId}-01`);
+
+    const exported = (await readFile(tracesFilePath, 'utf8')).trim().split('\n').map((line) => JSON.parse(line));
+    const exportedSpans = exported.flatMap((payload) => payload.resourceSpans[0].scopeSpans[0].spans);
+    expect(exportedSpans.map((span: { spanId: string }) => span.spanId)).toEqual(
+      expect.arrayContaining(result.spans.map((span) => span.spanId)),
+    );
+  });
+
   it('fails fast when validation fails', async () => {
     const invalidSchemas: Record<string, UISchema> = {
       'page-start': {
@@ -253,4 +306,190 @@ describe('core-runtime', () => {
     });
     expect(result.updatedData.hasCtrl).toBeUndefined();
   });
+
+  it('runs parallel branches and timers through a serializable flow session', async () => {
+    const parallelFlow: FlowSchema = {
+      version: '1.0.0',
+      flowId: 'parallel',
+      initialState: 'start',
+      states: {
+        start: {
+          uiPageId: 'page-start',
+          on: {},
+          transitions: [
+            {
+              onEvent: 'begin',
+              target: 'done',
+              actions: ['evaluateRules'],
+              fork: { id: 'checks', branches: ['review', 'payment'], joinState: 'done' },
+            },
+          ],
+        },
+        review: { uiPageId: 'page-review', on: { approve: { target: 'done' } } },
+        payment: {
+          uiPageId: 'page-payment',
+          on: {},
+          transitions: [{ target: 'done', delayMs: 1000, actions: ['callApi'], apiId: 'submitOrder' }],
+        },
+        done: { uiPageId: 'page-done', on: {} },
+      },
+    };
+    const schemas: Record<string, UISchema> = {
+      ...uiSchemasById,
+      'page-review': { ...uiSchemasById['page-start']!, pageId: 'page-review' },
+      'page-payment': { ...uiSchemasById['page-start']!, pageId: 'page-payment' },
+    };
+    const base = {
+      flow: parallelFlow,
+      uiSchemasById: schemas,
+      rules,
+      apiMappingsById: { submitOrder: apiMapping },
+      context,
+      fetchFn: async () =>
+        new Response(JSON.stringify({ orderId: 'o-4', status: 'paid' }), {
+          status: 200,
+          headers: { 'content-type': 'application/json' },
+        }),
+    };
+
+    const forked = await executeStep({
+      ...base,
+      session: createFlowSession({ flow: parallelFlow, nowMs: 0 }),
+      event: 'begin',
+      data: {},
+      nowMs: 0,
+    });
+    expect(forked.activeStates.map((state) => [state.stateId, state.uiSchema.pageId])).toEqual([
+      ['payment', 'page-payment'],
+      ['review', 'page-review'],
+    ]);
+    expect(forked.updatedData.status).toBe('ready');
+    expect(forked.session?.timers.map((timer) => timer.dueAt)).toEqual([1000]);
+
+    const timed = await executeStep({
+      ...base,
+      session: JSON.parse(JSON.stringify(forked.session)),
+      event: '',
+      data: forked.updatedData,
+      nowMs: 1000,
+    });
+    expect(timed.flowTraces.map((trace) => trace.event)).toEqual(['__timer__']);
+    expect(timed.updatedData.orderId).toBe('o-4');
+    expect(timed.activeStates.map((state) => state.stateId)).toEqual(['review']);
+
+    const joined = await executeStep({
+      ...base,
+      session: timed.session,
+      event: 'approve',
+      data: timed.updatedData,
+      nowMs: 1500,
+    });
+    expect(joined.nextStateId).toBe('done');
+    expect(joined.uiSchema.pageId).toBe('page-done');
+    expect(joined.session?.parallelContexts).toEqual([]);
+  });
+
+  it('runs structured transition actions in order with per-action traces', async () => {
+    const actionFlow: FlowSchema = {
+      ...flow,
+      states: {
+        ...flow.states,
+        start: {
+          uiPageId: 'page-start',
+          on: {
+            submit: {
+              target: 'done',
+              actions: [
+                { type: 'setContext', path: 'context.locale', value: 'de-DE' },
+                'evaluateRules',
+                { type: 'callApi', apiId: 'submitOrder' },
+                { type: 'callApi', apiId: 'missing' },
+                { type: 'navigate', pageId: 'page-start' },
+              ],
+            },
+          },
+        },
+      },
+    };
+    const localeRules: Rule[] = [
+      {
+        ruleId: 'GERMAN',
+        when: { op: 'eq', left: { path: 'context.locale' }, right: { value: 'de-DE' } },
+        actions: [{ type: 'setField', path: 'data.status', value: 'bereit' }],
+      },
+    ];
+    let requestBody: unknown;
+
+    const result = await executeStep({
+      flow: actionFlow,
+      uiSchemasById,
+      rules: localeRules,
+      apiMappingsById: { submitOrder: apiMapping },
+      stateId: 'start',
+      event: 'submit',
+      context,
+      data: {},
+      fetchFn: async (_url, init) => {
+        requestBody = JSON.parse(String(init?.body));
+        return new Response(JSON.stringify({ orderId: 'o-5', status: 'submitted' }), {
+          status: 200,
+          headers: { 'content-type': 'application/json' },
+        });
+      },
+    });
+
+    expect(requestBody).toEqual({ status: 'bereit' });
+    expect(result.updatedContext.locale).toBe('de-DE');
+    expect(result.nextStateId).toBe('done');
+    expect(result.uiSchema.pageId).toBe('page-start');
+    expect(result.navigation).toEqual({ pageId: 'page-start' });
+    expect(result.trace.actions?.map((action) => [action.type, action.status])).toEqual([
+      ['setContext', 'ok'],
+      ['evaluateRules', 'ok'],
+      ['callApi', 'ok'],
+      ['callApi', 'skipped'],
+      ['navigate', 'ok'],
+    ]);
+    expect(result.trace.actions?.[1]?.rulesMatched).toEqual(['GERMAN']);
+  });
+
+  it('keeps the rules trace of every evaluation in a step', async () => {
+    const twiceFlow: FlowSchema = {
+      ...flow,
+      states: {
+        ...flow.states,
+        start: {
+          uiPageId: 'page-start',
+          on: {
+            submit: {
+              target: 'done',
+              actions: ['evaluateRules', { type: 'setContext', path: 'context.locale', value: 'de-DE' }, 'evaluateRules'],
+            },
+          },
+        },
+      },
+    };
+    const localeRules: Rule[] = [
+      {
+        ruleId: 'GERMAN',
+        when: { op: 'eq', left: { path: 'context.locale' }, right: { value: 'de-DE' } },
+        actions: [{ type: 'setField', path: 'data.status', value: 'bereit' }],
+      },
+    ];
+
+    const result = await executeStep({
+      flow: twiceFlow,
+      uiSchemasById,
+      rules: localeRules,
+      apiMappingsById: {},
+      stateId: 'start',
+      event: 'submit',
+      context,
+      data: {},
+    });
+
+    expect(result.trace.rulesEvaluations?.map((trace) => trace.rulesMatched)).toEqual([[], ['GERMAN']]);
+    expect(result.trace.rules).toBe(result.trace.rulesEvaluations?.[1]);
+    expect(buildRuntimeSpanTree(result.trace).filter((span) => span.name === 'rules.evaluate')).toHaveLength(2);
+  });
 });
@@ -1,15 +1,18 @@
 import type {
   ExecutionContext,
+  FlowActionConfig,
   FlowForkConfig,
   FlowSchema,
   FlowState,
   FlowTransition,
   FlowTransitionHistoryCondition,
   JSONValue,
+  Rule,
+  RuleSet,
 } from '@platform/schema';
 import type { FlowTrace } from '@platform/observability';
 import { emitBusinessMetric } from '@platform/observability';
-import { evaluateCondition } from '@platform/rules-engine';
+import { evaluateCondition, evaluateRules } from '@platform/rules-engine';
 
 export interface TransitionInput {
   flow: FlowSchema;
@@ -24,7 +27,11 @@ export interface TransitionResult {
   nextStateId: string;
   uiPageId: string;
   actionsToRun: string[];
+  /** Exit actions, the transition's own actions, then entry actions, with shorthand expanded. */
+  actions: FlowActionConfig[];
   apiId?: string;
+  enteredStateIds: string[];
+  exitedStateIds: string[];
   trace: FlowTrace;
 }
 
@@ -51,11 +58,14 @@ export interface FlowParallelContext {
 }
 
 export interface FlowSession {
+  /** Active leaf states; their ancestors are implicitly active. */
   activeStateIds: string[];
   history: string[];
   timers: FlowTimerEntry[];
   parallelContexts: FlowParallelContext[];
   nowMs: number;
+  /** Leaf states that were active under each compound state when it was last exited. */
+  stateHistory?: Record<string, string[]>;
 }
 
 export interface CreateFlowSessionInput {
@@ -80,6 +90,19 @@ export interface StepFlowSessionResult {
   apiIds: string[];
   enteredStateIds: string[];
   exitedStateIds: string[];
+  /** Transitions taken during the step, in firing order (due timers first, then the event). */
+  transitions: FlowSessionTransition[];
+}
+
+export interface FlowSessionTransition {
+  sourceStateId: string;
+  /** `on:<event>` for `state.on` entries, `tx:<index>` for `state.transitions` entries. */
+  transitionKey: string;
+  event: string;
+  enteredStateIds: string[];
+  actionsToRun: string[];
+  actions: FlowActionConfig[];
+  apiId?: string;
 }
 
 export interface FlowBreakpoint {
@@ -101,6 +124,130 @@ export interface FlowDebuggerStepResult {
   hitBreakpoints: FlowBreakpoint[];
 }
 
+export interface FlowSimulationFixture {
+  id: string;
+  context: ExecutionContext;
+  data: Record<string, JSONValue>;
+}
+
+export interface SimulateFlowInput {
+  flow: FlowSchema;
+  /** Run for every `evaluateRules` action along a path; matched rules are recorded per step. */
+  rules?: Rule[] | RuleSet;
+  fixtures: FlowSimulationFixture[];
+  /** Longest event sequence explored per path. */
+  maxDepth: number;
+  /** Exploration stops once this many paths are recorded. Defaults to 1000. */
+  maxPaths?: number;
+}
+
+export interface FlowSimulationStep {
+  /** The event sent, or `__timer__` when the clock advanced to the next due timer. */
+  event: string;
+  nowMs: number;
+  transitions: FlowSessionTransition[];
+  activeStateIds: string[];
+  matchedRuleIds: string[];
+}
+
+export interface FlowSimulationPath {
+  fixtureId: string;
+  steps: FlowSimulationStep[];
+  activeStateIds: string[];
+  /** `final` when every active state is final, `stuck` when no event or timer moves the flow. */
+  end: 'final' | 'stuck' | 'depth';
+}
+
+export interface FlowSimulationEdge {
+  from: string;
+  to: string;
+  event: string;
+}
+
+export interface FlowCoverageReport {
+  states: { visited: string[]; unvisited: string[] };
+  /** Transitions are identified as `<stateId>:<transitionKey>`. */
+  transitions: { exercised: string[]; unexercised: string[] };
+  rules: { matched: string[]; unmatched: string[] };
+}
+
+export interface FlowSimulationResult {
+  paths: FlowSimulationPath[];
+  edges: FlowSimulationEdge[];
+  coverage: FlowCoverageReport;
+  /** True when `maxPaths` cut exploration short. */
+  truncated: boolean;
+}
+
+export interface FlowJournalDelta {
+  /** Top-level keys added or changed since the previous entry. */
+  set: Record<string, JSONValue>;
+  unset: string[];
+}
+
+export interface FlowJournalEntry {
+  /** Assigned by the journal store; replay falls back to the 1-based position. */
+  sequence?: number;
+  /** `start` records `createFlowSession`, every later entry one `stepFlowSession` call. */
+  kind: 'start' | 'step';
+  flowId: string;
+  flowVersion: string;
+  /** Hash of the flow definition, so edits that keep the version label are still detected. */
+  flowFingerprint: string;
+  initialStateId?: string;
+  event?: string;
+  nowMs: number;
+  dataDelta: FlowJournalDelta;
+  contextDelta: FlowJournalDelta;
+  traces: FlowTrace[];
+}
+
+export interface CreateFlowJournalEntryInput {
+  flow: FlowSchema;
+  /** Data and context seen by the previous entry; omit to record the session start. */
+  previous?: { data: Record<string, JSONValue>; context: ExecutionContext };
+  data: Record<string, JSONValue>;
+  context: ExecutionContext;
+  nowMs: number;
+  initialStateId?: string;
+  event?: string;
+  traces?: FlowTrace[];
+}
+
+/** Structural view of the `persistence-dal` journal methods. */
+export interface FlowJournalStore<TTenant> {
+  appendFlowJournalEntry(
+    tenant: TTenant,
+    input: { sessionId: string; payload: Record<string, unknown> },
+  ): Promise<{ sequence: number }>;
+  listFlowJournal(tenant: TTenant, sessionId: string): Promise<Array<{ sequence: number; payload: Record<string, unknown> }>>;
+}
+
+export interface ReplayFlowJournalInput {
+  flow: FlowSchema;
+  entries: FlowJournalEntry[];
+  /** Stop after the entry with this sequence to rebuild an intermediate session. */
+  untilSequence?: number;
+}
+
+export interface FlowJournalDivergence {
+  sequence: number;
+  kind: 'flow_changed' | 'trace_mismatch';
+  message: string;
+  recorded?: FlowTrace;
+  replayed?: FlowTrace;
+}
+
+export interface ReplayFlowJournalResult {
+  session: FlowSession;
+  data: Record<string, JSONValue>;
+  context: ExecutionContext;
+  /** Sequence of the last entry applied. */
+  sequence: number;
+  traces: FlowTrace[];
+  divergences: FlowJournalDivergence[];
+}
+
 export class FlowDebugger {
   private snapshots: FlowDebuggerSnapshot[];
   private pointer: number;
@@ -204,20 +351,22 @@ export function transition(input: TransitionInput): TransitionResult {
     reason: 'error',
     actionsToRun: [],
   };
+  const unchanged = {
+    nextStateId: input.stateId,
+    actionsToRun: [],
+    actions: [],
+    enteredStateIds: [],
+    exitedStateIds: [],
+  };
 
   if (!state) {
     trace.errorMessage = `Unknown state: ${input.stateId}`;
     trace.durationMs = Date.now() - started;
     emitFlowMetrics(trace, input.context.tenantId);
-    return {
-      nextStateId: input.stateId,
-      uiPageId: trace.uiPageId,
-      actionsToRun: [],
-      trace,
-    };
+    return { ...unchanged, uiPageId: trace.uiPageId, trace };
   }
 
-  const decision = resolveTransitionForState({
+  const decision = resolveTransitionWithBubbling({
     flow: input.flow,
     stateId: input.stateId,
     event: input.event,
@@ -232,22 +381,25 @@ export function transition(input: TransitionInput): TransitionResult {
     trace.errorMessage = decision.errorMessage;
     trace.durationMs = Date.now() - started;
     emitFlowMetrics(trace, input.context.tenantId);
-    return {
-      nextStateId: input.stateId,
-      uiPageId: state.uiPageId,
-      actionsToRun: [],
-      trace,
-    };
+    return { ...unchanged, uiPageId: state.uiPageId, trace };
   }
 
   const transitionDef = decision.candidate.transition;
-  const nextStateId = transitionDef.target;
+  const domain = transitionDomain(input.flow, decision.candidate.sourceStateId, transitionDef.target);
+  const exit = planExit(input.flow, [input.stateId], exitRootFor(input.flow, decision.candidate.sourceStateId, domain));
+  const entry = planEntry(input.flow, transitionDef.target, domain, {});
+  const nextStateId = entry.leafStateIds[0] ?? transitionDef.target;
   const nextState = input.flow.states[nextStateId];
+  const actions = [
+    ...collectStateActions(input.flow, exit.exitedStateIds, 'exit'),
+    ...normalizeFlowActions(transitionDef),
+    ...collectStateActions(input.flow, entry.enteredStateIds, 'entry'),
+  ];
 
   trace.reason = 'ok';
   trace.guardResult = true;
   trace.toStateId = nextStateId;
-  trace.actionsToRun = transitionDef.actions ?? [];
+  trace.actionsToRun = actions.map((action) => action.type);
   trace.uiPageId = nextState?.uiPageId ?? state.uiPageId;
   trace.durationMs = Date.now() - started;
   emitFlowMetrics(trace, input.context.tenantId);
@@ -256,26 +408,52 @@ export function transition(input: TransitionInput): TransitionResult {
     nextStateId,
     uiPageId: trace.uiPageId,
     actionsToRun: trace.actionsToRun,
+    actions,
     apiId: transitionDef.apiId,
+    enteredStateIds: entry.enteredStateIds,
+    exitedStateIds: exit.exitedStateIds,
     trace,
   };
 }
 
+/**
+ * Expands shorthand action names into structured actions. `'callApi'` needs the transition's
+ * `apiId` and `'setContext'` has no payload, so either is dropped when it cannot run.
+ */
+export function normalizeFlowActions(transition: Pick<FlowTransition, 'actions' | 'apiId'>): FlowActionConfig[] {
+  const out: FlowActionConfig[] = [];
+  for (const action of transition.actions ?? []) {
+    if (typeof action !== 'string') {
+      out.push(action);
+      continue;
+    }
+    if (action === 'evaluateRules') out.push({ type: 'evaluateRules' });
+    if (action === 'callApi' && transition.apiId) out.push({ type: 'callApi', apiId: transition.apiId });
+    if (action === 'navigate') out.push({ type: 'navigate' });
+  }
+  return out;
+}
+
 export function createFlowSession(input: CreateFlowSessionInput): FlowSession {
   const initialStateId =
     input.initialStateId ??
     (input.flow.states[input.flow.initialState] ? input.flow.initialState : Object.keys(input.flow.states)[0] ?? '');
   const nowMs = input.nowMs ?? Date.now();
   const baseSession: FlowSession = {
-    activeStateIds: initialStateId ? [initialStateId] : [],
-    history: initialStateId ? [initialStateId] : [],
+    activeStateIds: [],
+    history: [],
     timers: [],
     parallelContexts: [],
     nowMs,
   };
 
   if (initialStateId) {
-    scheduleTimersForState(input.flow, baseSession, initialStateId, nowMs);
+    const entry = planEntry(input.flow, initialStateId, undefined, {});
+    for (const stateId of entry.enteredStateIds) {
+      baseSession.history.push(stateId);
+      scheduleTimersForState(input.flow, baseSession, stateId, nowMs);
+    }
+    baseSession.activeStateIds = uniqueSorted(entry.leafStateIds);
   }
 
   return baseSession;
@@ -291,17 +469,31 @@ export function stepFlowSession(input: StepFlowSessionInput): StepFlowSessionRes
   const apiIds: string[] = [];
   const enteredStateIds: string[] = [];
   const exitedStateIds: string[] = [];
+  const transitions: FlowSessionTransition[] = [];
 
-  processDueTimers({ flow: input.flow, session, context: input.context, data: input.data, traces, actionsToRun, apiIds, enteredStateIds, exitedStateIds });
+  processDueTimers({
+    flow: input.flow,
+    session,
+    context: input.context,
+    data: input.data,
+    traces,
+    actionsToRun,
+    apiIds,
+    enteredStateIds,
+    exitedStateIds,
+    transitions,
+  });
 
   if (input.event) {
     const stateOrder = [...session.activeStateIds].sort((a, b) => a.localeCompare(b));
     for (const stateId of stateOrder) {
+      // An ancestor transition taken for an earlier leaf may already have exited this one.
+      if (!session.activeStateIds.includes(stateId)) continue;
       const started = Date.now();
       const state = input.flow.states[stateId];
       if (!state) continue;
       const baseTrace = createBaseTrace(stateId, input.event, started, state.uiPageId);
-      const decision = resolveTransitionForState({
+      const decision = resolveTransitionWithBubbling({
         flow: input.flow,
         stateId,
         event: input.event,
@@ -324,7 +516,7 @@ export function stepFlowSession(input: StepFlowSessionInput): StepFlowSessionRes
         session,
         context: input.context,
         data: input.data,
-        sourceStateId: stateId,
+        sourceStateId: decision.candidate.sourceStateId,
         candidate: decision.candidate,
         event: input.event,
         started,
@@ -334,6 +526,7 @@ export function stepFlowSession(input: StepFlowSessionInput): StepFlowSessionRes
       if (apply.apiId) apiIds.push(apply.apiId);
       enteredStateIds.push(...apply.enteredStateIds);
       exitedStateIds.push(...apply.exitedStateIds);
+      transitions.push(toSessionTransition(decision.candidate, input.event, apply));
     }
   }
 
@@ -346,6 +539,319 @@ export function stepFlowSession(input: StepFlowSessionInput): StepFlowSessionRes
     apiIds,
     enteredStateIds: uniqueSorted(enteredStateIds),
     exitedStateIds: uniqueSorted(exitedStateIds),
+    transitions,
+  };
+}
+
+/**
+ * Explores every event sequence up to `maxDepth` from each fixture by driving `stepFlowSession`,
+ * including a branch that advances the clock to the next due timer. Only `evaluateRules` actions
+ * are executed (API calls and context writes are not), so guards see rule output but not API data.
+ */
+export function simulateFlow(input: SimulateFlowInput): FlowSimulationResult {
+  const maxPaths = input.maxPaths ?? 1000;
+  const paths: FlowSimulationPath[] = [];
+  const edges = new Map<string, FlowSimulationEdge>();
+  const visitedStates = new Set<string>();
+  const exercised = new Set<string>();
+  const matchedRules = new Set<string>();
+  let truncated = false;
+
+  const explore = (
+    fixtureId: string,
+    session: FlowSession,
+    context: ExecutionContext,
+    data: Record<string, JSONValue>,
+    steps: FlowSimulationStep[],
+  ): void => {
+    if (paths.length >= maxPaths) {
+      truncated = true;
+      return;
+    }
+    const finish = (end: FlowSimulationPath['end']) => {
+      paths.push({ fixtureId, steps, activeStateIds: [...session.activeStateIds], end });
+    };
+    if (session.activeStateIds.every((stateId) => input.flow.states[stateId]?.final)) return finish('final');
+    if (steps.length >= input.maxDepth) return finish('depth');
+
+    const moves: Array<{ event: string; nowMs: number }> = availableEvents(input.flow, session).map((event) => ({
+      event,
+      nowMs: session.nowMs,
+    }));
+    if (session.timers.length > 0) {
+      moves.push({ event: '__timer__', nowMs: Math.min(...session.timers.map((timer) => timer.dueAt)) });
+    }
+
+    let advanced = false;
+    for (const move of moves) {
+      const step = stepFlowSession({
+        flow: input.flow,
+        session,
+        context,
+        data,
+        ...(move.event === '__timer__' ? {} : { event: move.event }),
+        nowMs: move.nowMs,
+      });
+      if (step.transitions.length === 0) continue;
+      advanced = true;
+
+      let nextContext = context;
+      let nextData = data;
+      const matchedRuleIds: string[] = [];
+      for (const transition of step.transitions) {
+        exercised.add(`${transition.sourceStateId}:${transition.transitionKey}`);
+        for (const target of transitionTargets(input.flow, transition)) {
+          const edge = { from: transition.sourceStateId, to: target, event: transition.event };
+          edges.set(`${edge.from}|${edge.to}|${edge.event}`, edge);
+        }
+        if (!input.rules) continue;
+        for (const action of transition.actions) {
+          if (action.type !== 'evaluateRules') continue;
+          const rulesResult = evaluateRules({ rules: input.rules, context: nextContext, data: nextData });
+          nextContext = rulesResult.context;
+          nextData = rulesResult.data;
+          matchedRuleIds.push(...rulesResult.trace.rulesMatched);
+        }
+      }
+      matchedRuleIds.forEach((ruleId) => matchedRules.add(ruleId));
+      step.session.history.forEach((stateId) => visitedStates.add(stateId));
+
+      explore(fixtureId, step.session, nextContext, nextData, [
+        ...steps,
+        {
+          event: move.event,
+          nowMs: move.nowMs,
+          transitions: step.transitions,
+          activeStateIds: [...step.session.activeStateIds],
+          matchedRuleIds,
+        },
+      ]);
+    }
+    if (!advanced) finish('stuck');
+  };
+
+  for (const fixture of input.fixtures) {
+    const session = createFlowSession({ flow: input.flow, nowMs: 0 });
+    session.history.forEach((stateId) => visitedStates.add(stateId));
+    explore(fixture.id, session, fixture.context, fixture.data, []);
+  }
+
+  const stateIds = Object.keys(input.flow.states);
+  // History pseudo-states are never entered themselves; their edges point at the restored child.
+  const coveredStateIds = stateIds.filter((stateId) => !input.flow.states[stateId]!.history);
+  const transitionIds = stateIds.flatMap((stateId) => {
+    const state = input.flow.states[stateId]!;
+    return [
+      ...Object.keys(state.on ?? {}).map((event) => `${stateId}:on:${event}`),
+      ...(state.transitions ?? []).map((_transition, index) => `${stateId}:tx:${index}`),
+    ];
+  });
+  const ruleList = input.rules ? (Array.isArray(input.rules) ? input.rules : input.rules.rules) : [];
+  const ruleIds = ruleList.map((rule) => rule.ruleId);
+
+  return {
+    paths,
+    edges: Array.from(edges.values()),
+    coverage: {
+      states: {
+        visited: coveredStateIds.filter((stateId) => visitedStates.has(stateId)),
+        unvisited: coveredStateIds.filter((stateId) => !visitedStates.has(stateId)),
+      },
+      transitions: {
+        exercised: transitionIds.filter((id) => exercised.has(id)),
+        unexercised: transitionIds.filter((id) => !exercised.has(id)),
+      },
+      rules: {
+        matched: ruleIds.filter((ruleId) => matchedRules.has(ruleId)),
+        unmatched: ruleIds.filter((ruleId) => !matchedRules.has(ruleId)),
+      },
+    },
+    truncated,
+  };
+}
+
+/** Draws the explored edges; states the simulation never reached are dashed. */
+export function renderFlowSimulation(result: FlowSimulationResult, format: 'mermaid' | 'dot' = 'mermaid'): string {
+  const { visited, unvisited } = result.coverage.states;
+  const label = (event: string) => (event === '__timer__' ? 'timer' : event);
+
+  if (format === 'dot') {
+    const quote = (value: string) => JSON.stringify(value);
+    return [
+      'digraph flow {',
+      '  rankdir=LR;',
+      ...visited.map((stateId) => `  ${quote(stateId)};`),
+      ...unvisited.map((stateId) => `  ${quote(stateId)} [style=dashed];`),
+      ...result.edges.map((edge) => `  ${quote(edge.from)} -> ${quote(edge.to)} [label=${quote(label(edge.event))}];`),
+      '}',
+    ].join('\n');
+  }
+
+  const nodeId = (stateId: string) => stateId.replace(/[^A-Za-z0-9_]/g, '_');
+  const declarations = [...visited, ...unvisited]
+    .filter((stateId) => nodeId(stateId) !== stateId)
+    .map((stateId) => `  state "${stateId}" as ${nodeId(stateId)}`);
+  return [
+    'stateDiagram-v2',
+    ...declarations,
+    ...result.edges.map((edge) => `  ${nodeId(edge.from)} --> ${nodeId(edge.to)} : ${label(edge.event)}`),
+    ...(unvisited.length > 0
+      ? ['  classDef unvisited stroke-dasharray: 5 5', `  class ${unvisited.map(nodeId).join(',')} unvisited`]
+      : []),
+  ].join('\n');
+}
+
+/** Captures one journal entry; data and context are stored as top-level deltas against `previous`. */
+export function createFlowJournalEntry(input: CreateFlowJournalEntryInput): FlowJournalEntry {
+  return {
+    kind: input.previous ? 'step' : 'start',
+    flowId: input.flow.flowId,
+    flowVersion: input.flow.version,
+    flowFingerprint: flowFingerprint(input.flow),
+    ...(input.initialStateId ? { initialStateId: input.initialStateId } : {}),
+    ...(input.event ? { event: input.event } : {}),
+    nowMs: input.nowMs,
+    dataDelta: diffRecord(input.previous?.data ?? {}, input.data),
+    contextDelta: diffRecord(
+      (input.previous?.context ?? {}) as unknown as Record<string, JSONValue>,
+      input.context as unknown as Record<string, JSONValue>,
+    ),
+    traces: (input.traces ?? []).map((trace) => ({ ...trace, actionsToRun: [...trace.actionsToRun] })),
+  };
+}
+
+export async function appendFlowJournal<TTenant>(
+  store: FlowJournalStore<TTenant>,
+  tenant: TTenant,
+  sessionId: string,
+  entry: FlowJournalEntry,
+): Promise<FlowJournalEntry> {
+  const { sequence: _sequence, ...payload } = entry;
+  const stored = await store.appendFlowJournalEntry(tenant, {
+    sessionId,
+    payload: JSON.parse(JSON.stringify(payload)) as Record<string, unknown>,
+  });
+  return { ...entry, sequence: stored.sequence };
+}
+
+export async function loadFlowJournal<TTenant>(
+  store: FlowJournalStore<TTenant>,
+  tenant: TTenant,
+  sessionId: string,
+): Promise<FlowJournalEntry[]> {
+  const rows = await store.listFlowJournal(tenant, sessionId);
+  return [...rows]
+    .sort((left, right) => left.sequence - right.sequence)
+    .map((row) => ({ ...(row.payload as unknown as FlowJournalEntry), sequence: row.sequence }));
+}
+
+/**
+ * Rebuilds the session by re-running `createFlowSession`/`stepFlowSession` with the journaled
+ * clock, data and context. Trace timing fields are ignored when comparing; everything else must
+ * match. A journal written against a different flow definition is reported at the first entry
+ * carrying each stale fingerprint.
+ */
+export function replayFlowJournal(input: ReplayFlowJournalInput): ReplayFlowJournalResult {
+  const [start, ...steps] = input.entries;
+  if (!start || start.kind !== 'start') {
+    throw new Error('Flow journal must begin with a start entry.');
+  }
+
+  const fingerprint = flowFingerprint(input.flow);
+  const divergences: FlowJournalDivergence[] = [];
+  const reported = new Set<string>();
+  const checkFlow = (entry: FlowJournalEntry, sequence: number) => {
+    if (entry.flowFingerprint === fingerprint || reported.has(entry.flowFingerprint)) return;
+    reported.add(entry.flowFingerprint);
+    const changed = entry.flowVersion === input.flow.version ? 'definition changed' : 'version changed';
+    divergences.push({
+      sequence,
+      kind: 'flow_changed',
+      message: `entry ${sequence} was recorded against ${entry.flowId}@${entry.flowVersion}; replaying ${input.flow.flowId}@${input.flow.version} (${changed})`,
+    });
+  };
+
+  let data = applyDelta({}, start.dataDelta);
+  let context = applyDelta({}, start.contextDelta) as unknown as ExecutionContext;
+  let session = createFlowSession({ flow: input.flow, initialStateId: start.initialStateId, nowMs: start.nowMs });
+  let sequence = start.sequence ?? 1;
+  checkFlow(start, sequence);
+  const traces: FlowTrace[] = [];
+
+  for (const [index, entry] of steps.entries()) {
+    const entrySequence = entry.sequence ?? index + 2;
+    if (input.untilSequence !== undefined && entrySequence > input.untilSequence) break;
+    sequence = entrySequence;
+    checkFlow(entry, sequence);
+    data = applyDelta(data, entry.dataDelta);
+    context = applyDelta(context as unknown as Record<string, JSONValue>, entry.contextDelta) as unknown as ExecutionContext;
+
+    const result = stepFlowSession({ flow: input.flow, session, context, data, event: entry.event, nowMs: entry.nowMs });
+    session = result.session;
+    traces.push(...result.traces);
+
+    const count = Math.max(entry.traces.length, result.traces.length);
+    for (let traceIndex = 0; traceIndex < count; traceIndex += 1) {
+      const recorded = entry.traces[traceIndex];
+      const replayed = result.traces[traceIndex];
+      const mismatch = describeTraceMismatch(recorded, replayed);
+      if (!mismatch) continue;
+      divergences.push({
+        sequence,
+        kind: 'trace_mismatch',
+        message: `entry ${sequence} trace ${traceIndex}: ${mismatch}`,
+        ...(recorded ? { recorded } : {}),
+        ...(replayed ? { replayed } : {}),
+      });
+    }
+  }
+
+  return { session, data, context, sequence, traces, divergences };
+}
+
+function availableEvents(flow: FlowSchema, session: FlowSession): string[] {
+  const events = new Set<string>();
+  for (const leafId of session.activeStateIds) {
+    for (const stateId of [leafId, ...ancestorsOf(flow, leafId)]) {
+      const state = flow.states[stateId];
+      if (!state) continue;
+      Object.keys(state.on ?? {}).forEach((event) => events.add(event));
+      for (const transition of state.transitions ?? []) {
+        if (transition.onEvent && (transition.delayMs === undefined || transition.delayMs < 0)) events.add(transition.onEvent);
+      }
+    }
+  }
+  return Array.from(events).sort((a, b) => a.localeCompare(b));
+}
+
+function transitionTargets(flow: FlowSchema, transition: FlowSessionTransition): string[] {
+  const state = flow.states[transition.sourceStateId];
+  const definition = transition.transitionKey.startsWith('on:')
+    ? state?.on[transition.transitionKey.slice('on:'.length)]
+    : state?.transitions?.[Number(transition.transitionKey.slice('tx:'.length))];
+  if (!definition) return [];
+  const targets = definition.fork ? definition.fork.branches : [definition.target];
+  return targets.flatMap((target) => {
+    const historyParent = flow.states[target]?.history ? flow.states[target]?.parent : undefined;
+    if (!historyParent) return [target];
+    const restored = transition.enteredStateIds.filter((stateId) => flow.states[stateId]?.parent === historyParent);
+    return restored.length > 0 ? restored : [historyParent];
+  });
+}
+
+function toSessionTransition(
+  candidate: TransitionCandidate,
+  event: string,
+  apply: { actionsToRun: string[]; actions: FlowActionConfig[]; apiId?: string; enteredStateIds: string[] },
+): FlowSessionTransition {
+  return {
+    sourceStateId: candidate.sourceStateId,
+    transitionKey: candidate.key,
+    event,
+    enteredStateIds: [...apply.enteredStateIds],
+    actionsToRun: [...apply.actionsToRun],
+    actions: apply.actions,
+    ...(apply.apiId ? { apiId: apply.apiId } : {}),
   };
 }
 
@@ -382,6 +888,7 @@ function processDueTimers(params: {
   apiIds: string[];
   enteredStateIds: string[];
   exitedStateIds: string[];
+  transitions: FlowSessionTransition[];
 }): void {
   let guard = 0;
   while (guard < 1000) {
@@ -394,7 +901,7 @@ function processDueTimers(params: {
 
     for (const timer of due) {
       removeTimer(params.session, timer.id);
-      if (!params.session.activeStateIds.includes(timer.stateId)) continue;
+      if (!isStateActive(params.flow, params.session, timer.stateId)) continue;
       const state = params.flow.states[timer.stateId];
       if (!state) continue;
       const started = Date.now();
@@ -417,6 +924,7 @@ function processDueTimers(params: {
       if (apply.apiId) params.apiIds.push(apply.apiId);
       params.enteredStateIds.push(...apply.enteredStateIds);
       params.exitedStateIds.push(...apply.exitedStateIds);
+      params.transitions.push(toSessionTransition(candidate, '__timer__', apply));
     }
   }
 }
@@ -433,6 +941,7 @@ function applyTransitionDecision(params: {
 }): {
   trace: FlowTrace;
   actionsToRun: string[];
+  actions: FlowActionConfig[];
   apiId?: string;
   enteredStateIds: string[];
   exitedStateIds: string[];
@@ -445,16 +954,26 @@ function applyTransitionDecision(params: {
     trace.reason = 'error';
     trace.errorMessage = `Unknown state: ${sourceStateId}`;
     trace.durationMs = Date.now() - started;
-    return { trace, actionsToRun: [], enteredStateIds: [], exitedStateIds: [] };
+    return { trace, actionsToRun: [], actions: [], enteredStateIds: [], exitedStateIds: [] };
   }
 
   const transitionDef = candidate.transition;
-  const exitedStateIds: string[] = [];
+  const stateHistory = { ...(session.stateHistory ?? {}) };
+  const domain = transitionDef.fork ? sourceState.parent : transitionDomain(flow, sourceStateId, transitionDef.target);
+  const exit = planExit(flow, session.activeStateIds, exitRootFor(flow, sourceStateId, domain));
+  const exitedStateIds = [...exit.exitedStateIds];
   const enteredStateIds: string[] = [];
 
-  removeActiveState(session, sourceStateId);
-  exitedStateIds.push(sourceStateId);
-  removeTimersForState(session, sourceStateId);
+  for (const stateId of exit.exitedLeafIds) {
+    removeActiveState(session, stateId);
+  }
+  for (const stateId of exit.exitedStateIds) {
+    removeTimersForState(session, stateId);
+  }
+  Object.assign(stateHistory, exit.history);
+  session.stateHistory = stateHistory;
+
+  const transitionActions = normalizeFlowActions(transitionDef);
 
   if (transitionDef.fork) {
     const fork = normalizeFork(transitionDef.fork);
@@ -469,22 +988,21 @@ function applyTransitionDecision(params: {
 
     for (const branchState of fork.branches) {
       if (!flow.states[branchState]) continue;
-      addActiveState(session, branchState);
-      enteredStateIds.push(branchState);
-      session.history.push(branchState);
-      scheduleTimersForState(flow, session, branchState, session.nowMs);
+      enteredStateIds.push(...enterState(flow, session, branchState, flow.states[branchState]?.parent));
     }
 
+    const actions = withStateActions(flow, exitedStateIds, transitionActions, enteredStateIds);
     trace.reason = 'ok';
     trace.guardResult = true;
     trace.toStateId = fork.branches.join('|');
     trace.uiPageId = flow.states[fork.branches[0] ?? '']?.uiPageId ?? sourceState.uiPageId;
-    trace.actionsToRun = transitionDef.actions ?? [];
+    trace.actionsToRun = actions.map((action) => action.type);
     trace.durationMs = Date.now() - started;
 
     return {
       trace,
-      actionsToRun: transitionDef.actions ?? [],
+      actionsToRun: trace.actionsToRun,
+      actions,
       apiId: transitionDef.apiId,
       enteredStateIds,
       exitedStateIds,
@@ -492,26 +1010,27 @@ function applyTransitionDecision(params: {
   }
 
   const targetStateId = transitionDef.target;
-  const joinResult = maybeResolveParallelJoin(flow, session, sourceStateId, targetStateId, enteredStateIds, exitedStateIds);
+  const joinResult = maybeResolveParallelJoin(flow, session, exit.exitedStateIds, targetStateId, enteredStateIds, exitedStateIds);
   if (!joinResult.handled) {
     if (flow.states[targetStateId]) {
-      addActiveState(session, targetStateId);
-      enteredStateIds.push(targetStateId);
-      session.history.push(targetStateId);
-      scheduleTimersForState(flow, session, targetStateId, session.nowMs);
+      enteredStateIds.push(...enterState(flow, session, targetStateId, domain));
     }
   }
 
+  const actions = withStateActions(flow, exitedStateIds, transitionActions, enteredStateIds);
+  const toStateId = joinResult.joinStateId ?? targetStateId;
+  const shownStateId = enteredStateIds.find((stateId) => session.activeStateIds.includes(stateId)) ?? toStateId;
   trace.reason = 'ok';
   trace.guardResult = true;
-  trace.toStateId = joinResult.joinStateId ?? targetStateId;
-  trace.actionsToRun = transitionDef.actions ?? [];
-  trace.uiPageId = flow.states[trace.toStateId]?.uiPageId ?? sourceState.uiPageId;
+  trace.toStateId = toStateId;
+  trace.actionsToRun = actions.map((action) => action.type);
+  trace.uiPageId = flow.states[shownStateId]?.uiPageId ?? sourceState.uiPageId;
   trace.durationMs = Date.now() - started;
 
   return {
     trace,
-    actionsToRun: transitionDef.actions ?? [],
+    actionsToRun: trace.actionsToRun,
+    actions,
     apiId: transitionDef.apiId,
     enteredStateIds,
     exitedStateIds,
@@ -521,18 +1040,19 @@ function applyTransitionDecision(params: {
 function maybeResolveParallelJoin(
   flow: FlowSchema,
   session: FlowSession,
-  branchStateId: string,
+  exitingStateIds: string[],
   targetStateId: string,
   enteredStateIds: string[],
   exitedStateIds: string[],
 ): { handled: boolean; joinStateId?: string } {
-  const contexts = session.parallelContexts.filter((ctx) => ctx.branches.includes(branchStateId));
+  const contexts = session.parallelContexts.filter((ctx) => ctx.branches.some((branch) => exitingStateIds.includes(branch)));
   if (contexts.length === 0) return { handled: false };
 
   for (const context of contexts) {
     if (targetStateId !== context.joinState) {
       return { handled: false };
     }
+    const branchStateId = context.branches.find((branch) => exitingStateIds.includes(branch)) ?? '';
 
     if (!context.completedBranches.includes(branchStateId)) {
       context.completedBranches.push(branchStateId);
@@ -540,26 +1060,20 @@ function maybeResolveParallelJoin(
 
     if (context.joinType === 'or') {
       for (const remaining of context.branches) {
-        if (remaining !== branchStateId && session.activeStateIds.includes(remaining)) {
-          removeActiveState(session, remaining);
-          removeTimersForState(session, remaining);
-          exitedStateIds.push(remaining);
-        }
+        if (remaining === branchStateId || !isStateActive(flow, session, remaining)) continue;
+        const exit = planExit(flow, session.activeStateIds, remaining);
+        for (const stateId of exit.exitedLeafIds) removeActiveState(session, stateId);
+        for (const stateId of exit.exitedStateIds) removeTimersForState(session, stateId);
+        exitedStateIds.push(...exit.exitedStateIds);
       }
-      addActiveState(session, context.joinState);
-      enteredStateIds.push(context.joinState);
-      session.history.push(context.joinState);
-      scheduleTimersForState(flow, session, context.joinState, session.nowMs);
+      enteredStateIds.push(...enterState(flow, session, context.joinState, flow.states[context.joinState]?.parent));
       session.parallelContexts = session.parallelContexts.filter((entry) => entry.id !== context.id);
       return { handled: true, joinStateId: context.joinState };
     }
 
     const complete = context.branches.every((branch) => context.completedBranches.includes(branch));
     if (complete) {
-      addActiveState(session, context.joinState);
-      enteredStateIds.push(context.joinState);
-      session.history.push(context.joinState);
-      scheduleTimersForState(flow, session, context.joinState, session.nowMs);
+      enteredStateIds.push(...enterState(flow, session, context.joinState, flow.states[context.joinState]?.parent));
       session.parallelContexts = session.parallelContexts.filter((entry) => entry.id !== context.id);
       return { handled: true, joinStateId: context.joinState };
     }
@@ -618,6 +1132,24 @@ function resolveTransitionForState(input: {
   return { reason: hadGuardFailure ? 'guard_failed' : 'no_transition' };
 }
 
+/** Tries the state first, then each ancestor, so compound states handle events their children ignore. */
+function resolveTransitionWithBubbling(input: {
+  flow: FlowSchema;
+  stateId: string;
+  event: string;
+  context: ExecutionContext;
+  data: Record<string, JSONValue>;
+  history: string[];
+}): ReturnType<typeof resolveTransitionForState> {
+  let fallback: ReturnType<typeof resolveTransitionForState> | undefined;
+  for (const stateId of [input.stateId, ...ancestorsOf(input.flow, input.stateId)]) {
+    const decision = resolveTransitionForState({ ...input, stateId });
+    if (decision.candidate || decision.reason === 'error') return decision;
+    if (!fallback || fallback.reason === 'no_transition') fallback = decision;
+  }
+  return fallback ?? { reason: 'no_transition' };
+}
+
 function getCandidatesForEvent(state: FlowState, stateId: string, event: string): TransitionCandidate[] {
   const candidates: TransitionCandidate[] = [];
   const transitionFromOn = state.on[event];
@@ -687,6 +1219,149 @@ function matchesHistory(condition: FlowTransitionHistoryCondition | undefined, h
   return true;
 }
 
+function ancestorsOf(flow: FlowSchema, stateId: string): string[] {
+  const out: string[] = [];
+  let current = flow.states[stateId]?.parent;
+  while (current && flow.states[current] && current !== stateId && !out.includes(current)) {
+    out.push(current);
+    current = flow.states[current]?.parent;
+  }
+  return out;
+}
+
+function childStateIds(flow: FlowSchema, parentId: string): string[] {
+  return Object.entries(flow.states)
+    .filter(([, state]) => state.parent === parentId && !state.history)
+    .map(([stateId]) => stateId);
+}
+
+function isWithin(flow: FlowSchema, stateId: string, ancestorId: string): boolean {
+  return stateId === ancestorId || ancestorsOf(flow, stateId).includes(ancestorId);
+}
+
+function isStateActive(flow: FlowSchema, session: FlowSession, stateId: string): boolean {
+  return session.activeStateIds.some((active) => isWithin(flow, active, stateId));
+}
+
+/** Innermost state that strictly contains both ends of a transition, or undefined for the root. */
+function transitionDomain(flow: FlowSchema, sourceStateId: string, targetStateId: string): string | undefined {
+  const targetAncestors = ancestorsOf(flow, targetStateId);
+  return ancestorsOf(flow, sourceStateId).find((stateId) => targetAncestors.includes(stateId));
+}
+
+function exitRootFor(flow: FlowSchema, sourceStateId: string, domain: string | undefined): string {
+  const chain = [sourceStateId, ...ancestorsOf(flow, sourceStateId)];
+  const domainIndex = domain ? chain.indexOf(domain) : -1;
+  return domainIndex > 0 ? chain[domainIndex - 1] ?? sourceStateId : chain[chain.length - 1] ?? sourceStateId;
+}
+
+function planExit(
+  flow: FlowSchema,
+  activeLeafIds: string[],
+  exitRoot: string,
+): { exitedStateIds: string[]; exitedLeafIds: string[]; history: Record<string, string[]> } {
+  const exitedLeafIds = activeLeafIds.filter((stateId) => isWithin(flow, stateId, exitRoot));
+  const exited: string[] = [];
+  for (const leaf of exitedLeafIds) {
+    const chain = [leaf, ...ancestorsOf(flow, leaf)];
+    for (const stateId of chain.slice(0, chain.indexOf(exitRoot) + 1)) {
+      if (!exited.includes(stateId)) exited.push(stateId);
+    }
+  }
+  if (exited.length === 0) exited.push(exitRoot);
+
+  const depth = (stateId: string) => ancestorsOf(flow, stateId).length;
+  const exitedStateIds = exited.sort((a, b) => depth(b) - depth(a));
+  const history: Record<string, string[]> = {};
+  for (const stateId of exitedStateIds) {
+    const leaves = exitedLeafIds.filter((leaf) => leaf !== stateId && isWithin(flow, leaf, stateId));
+    if (leaves.length > 0) history[stateId] = leaves;
+  }
+  return { exitedStateIds, exitedLeafIds, history };
+}
+
+function planEntry(
+  flow: FlowSchema,
+  targetStateId: string,
+  domain: string | undefined,
+  stateHistory: Record<string, string[]>,
+): { enteredStateIds: string[]; leafStateIds: string[] } {
+  const target = flow.states[targetStateId];
+  const historyParent = target?.history ? target.parent : undefined;
+  const anchor = historyParent ?? targetStateId;
+  const chain = [anchor, ...ancestorsOf(flow, anchor)];
+  const domainIndex = domain ? chain.indexOf(domain) : -1;
+  const enteredStateIds = chain.slice(0, domainIndex < 0 ? chain.length : domainIndex).reverse();
+  const leafStateIds: string[] = [];
+
+  const recorded = historyParent
+    ? (stateHistory[historyParent] ?? []).filter((stateId) => flow.states[stateId] && isWithin(flow, stateId, historyParent))
+    : [];
+  if (historyParent && recorded.length > 0 && target?.history === 'deep') {
+    for (const leaf of recorded) {
+      const leafChain = [leaf, ...ancestorsOf(flow, leaf)];
+      for (const stateId of leafChain.slice(0, leafChain.indexOf(historyParent)).reverse()) {
+        if (!enteredStateIds.includes(stateId)) enteredStateIds.push(stateId);
+      }
+      leafStateIds.push(leaf);
+    }
+  } else if (historyParent && recorded[0]) {
+    const leafChain = [recorded[0], ...ancestorsOf(flow, recorded[0])];
+    const child = leafChain[leafChain.indexOf(historyParent) - 1] ?? recorded[0];
+    enteredStateIds.push(child);
+    descendToInitialLeaf(flow, child, enteredStateIds, leafStateIds);
+  } else {
+    descendToInitialLeaf(flow, anchor, enteredStateIds, leafStateIds);
+  }
+
+  return { enteredStateIds, leafStateIds };
+}
+
+function descendToInitialLeaf(flow: FlowSchema, stateId: string, enteredStateIds: string[], leafStateIds: string[]): void {
+  let current = stateId;
+  const visited = new Set<string>();
+  while (!visited.has(current)) {
+    visited.add(current);
+    const children = childStateIds(flow, current);
+    const initial = flow.states[current]?.initial;
+    const next = initial && children.includes(initial) ? initial : children[0];
+    if (!next) break;
+    enteredStateIds.push(next);
+    current = next;
+  }
+  leafStateIds.push(current);
+}
+
+/** Enters `stateId` (below `domain`), activating its leaves and scheduling timers; returns the states entered. */
+function enterState(flow: FlowSchema, session: FlowSession, stateId: string, domain: string | undefined): string[] {
+  const entry = planEntry(flow, stateId, domain, session.stateHistory ?? {});
+  for (const entered of entry.enteredStateIds) {
+    session.history.push(entered);
+    scheduleTimersForState(flow, session, entered, session.nowMs);
+  }
+  for (const leaf of entry.leafStateIds) {
+    addActiveState(session, leaf);
+  }
+  return entry.enteredStateIds;
+}
+
+function collectStateActions(flow: FlowSchema, stateIds: string[], key: 'entry' | 'exit'): FlowActionConfig[] {
+  return stateIds.flatMap((stateId) => normalizeFlowActions({ actions: flow.states[stateId]?.[key] }));
+}
+
+function withStateActions(
+  flow: FlowSchema,
+  exitedStateIds: string[],
+  transitionActions: FlowActionConfig[],
+  enteredStateIds: string[],
+): FlowActionConfig[] {
+  return [
+    ...collectStateActions(flow, exitedStateIds, 'exit'),
+    ...transitionActions,
+    ...collectStateActions(flow, enteredStateIds, 'entry'),
+  ];
+}
+
 function scheduleTimersForState(flow: FlowSchema, session: FlowSession, stateId: string, nowMs: number): void {
   const state = flow.states[stateId];
   if (!state) return;
@@ -757,9 +1432,79 @@ function cloneSession(session: FlowSession): FlowSession {
       completedBranches: [...context.completedBranches],
     })),
     nowMs: session.nowMs,
+    ...(session.stateHistory
+      ? {
+          stateHistory: Object.fromEntries(
+            Object.entries(session.stateHistory).map(([stateId, leaves]) => [stateId, [...leaves]]),
+          ),
+        }
+      : {}),
   };
 }
 
 function uniqueSorted(values: string[]): string[] {
   return Array.from(new Set(values)).sort((a, b) => a.localeCompare(b));
 }
+
+const REPLAYED_TRACE_FIELDS = [
+  'event',
+  'fromStateId',
+  'toStateId',
+  'uiPageId',
+  'guardResult',
+  'reason',
+  'actionsToRun',
+  'errorMessage',
+] as const;
+
+function describeTraceMismatch(recorded: FlowTrace | undefined, replayed: FlowTrace | undefined): string | undefined {
+  if (!recorded) return `replay produced an extra trace for "${replayed?.event}" from "${replayed?.fromStateId}"`;
+  if (!replayed) return `recorded trace for "${recorded.event}" from "${recorded.fromStateId}" was not replayed`;
+  const fields = REPLAYED_TRACE_FIELDS.filter(
+    (field) => JSON.stringify(recorded[field]) !== JSON.stringify(replayed[field]),
+  );
+  if (fields.length === 0) return undefined;
+  return fields
+    .map((field) => `${field} recorded ${JSON.stringify(recorded[field])}, replayed ${JSON.stringify(replayed[field])}`)
+    .join('; ');
+}
+
+function diffRecord(previous: Record<string, JSONValue>, next: Record<string, JSONValue>): FlowJournalDelta {
+  const set: Record<string, JSONValue> = {};
+  for (const [key, value] of Object.entries(next)) {
+    if (value === undefined) continue;
+    if (JSON.stringify(previous[key]) !== JSON.stringify(value)) set[key] = JSON.parse(JSON.stringify(value)) as JSONValue;
+  }
+  const unset = Object.keys(previous).filter((key) => previous[key] !== undefined && next[key] === undefined);
+  return { set, unset };
+}
+
+function applyDelta(base: Record<string, JSONValue>, delta: FlowJournalDelta): Record<string, JSONValue> {
+  const next: Record<string, JSONValue> = { ...base };
+  for (const key of delta.unset) delete next[key];
+  for (const [key, value] of Object.entries(delta.set)) next[key] = JSON.parse(JSON.stringify(value)) as JSONValue;
+  return next;
+}
+
+function flowFingerprint(flow: FlowSchema): string {
+  const input = JSON.stringify(sortKeys(flow));
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i += 1) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return Object.fromEntries(
+      Object.keys(record)
+        .sort((a, b) => a.localeCompare(b))
+        .map((key) => [key, sortKeys(record[key])]),
+    );
+  }
+  return value;
+}
@@ -1,6 +1,19 @@
 import { describe, expect, it } from 'vitest';
 import type { ExecutionContext, FlowSchema } from '@platform/schema';
-import { FlowDebugger, createFlowSession, stepFlowSession, transition } from '../src/index';
+import {
+  FlowDebugger,
+  appendFlowJournal,
+  createFlowJournalEntry,
+  createFlowSession,
+  loadFlowJournal,
+  normalizeFlowActions,
+  renderFlowSimulation,
+  replayFlowJournal,
+  simulateFlow,
+  stepFlowSession,
+  transition,
+} from '../src/index';
+import type { FlowJournalStore } from '../src/index';
 
 const context: ExecutionContext = {
   tenantId: 't1',
@@ -57,6 +70,27 @@ describe('flow-engine', () => {
     expect(result.actionsToRun).toEqual(['evaluateRules']);
   });
 
+  it('expands shorthand actions next to structured ones', () => {
+    expect(
+      normalizeFlowActions({
+        apiId: 'submitOrder',
+        actions: [
+          { type: 'setContext', path: 'context.locale', value: 'de-DE' },
+          'evaluateRules',
+          'callApi',
+          'setContext',
+          { type: 'navigate', url: '/done' },
+        ],
+      }),
+    ).toEqual([
+      { type: 'setContext', path: 'context.locale', value: 'de-DE' },
+      { type: 'evaluateRules' },
+      { type: 'callApi', apiId: 'submitOrder' },
+      { type: 'navigate', url: '/done' },
+    ]);
+    expect(normalizeFlowActions({ actions: ['callApi'] })).toEqual([]);
+  });
+
   it('blocks transition when guard fails', () => {
     const result = transition({
       flow,
@@ -178,6 +212,9 @@ describe('flow-engine', () => {
     });
     session = begin.session;
     expect(session.activeStateIds).toEqual(['branchA', 'branchB']);
+    expect(begin.transitions).toEqual([
+      { sourceStateId: 'start', transitionKey: 'tx:0', event: 'begin', enteredStateIds: ['branchA', 'branchB'], actionsToRun: [], actions: [] },
+    ]);
 
     const completeA = stepFlowSession({
       flow: parallelFlow,
@@ -322,4 +359,224 @@ describe('flow-engine', () => {
     const rewind = debuggerSession.timeTravel(1);
     expect(rewind.session.activeStateIds).toEqual(['review']);
   });
+
+  it('journals session steps and replays them deterministically', async () => {
+    const rows: Array<{ sequence: number; payload: Record<string, unknown> }> = [];
+    const store: FlowJournalStore<string> = {
+      appendFlowJournalEntry: async (_tenant, input) => {
+        const row = { sequence: rows.length + 1, payload: input.payload };
+        rows.push(row);
+        return row;
+      },
+      listFlowJournal: async () => [...rows].reverse(),
+    };
+
+    let session = createFlowSession({ flow, nowMs: 0 });
+    let previous = { data: { ready: false } as Record<string, boolean>, context };
+    await appendFlowJournal(store, 't1', 's-1', createFlowJournalEntry({ flow, ...previous, nowMs: 0 }));
+    for (const [nowMs, ready] of [
+      [10, false],
+      [20, true],
+    ] as const) {
+      const data = { ready };
+      const step = stepFlowSession({ flow, session, context, data, event: 'next', nowMs });
+      session = step.session;
+      await appendFlowJournal(
+        store,
+        't1',
+        's-1',
+        createFlowJournalEntry({ flow, previous, data, context, event: 'next', nowMs, traces: step.traces }),
+      );
+      previous = { data, context };
+    }
+
+    const entries = await loadFlowJournal(store, 't1', 's-1');
+    expect(entries.map((entry) => entry.sequence)).toEqual([1, 2, 3]);
+    expect(entries[2]?.dataDelta).toEqual({ set: { ready: true }, unset: [] });
+
+    const replay = replayFlowJournal({ flow, entries });
+    expect(replay.session).toEqual(session);
+    expect(replay.data).toEqual({ ready: true });
+    expect(replay.divergences).toEqual([]);
+    expect(replayFlowJournal({ flow, entries, untilSequence: 2 }).session.activeStateIds).toEqual(['start']);
+
+    const editedFlow: FlowSchema = {
+      ...flow,
+      version: '1.1.0',
+      states: { ...flow.states, start: { uiPageId: 'page-start', on: { next: { target: 'review' } } } },
+    };
+    const drifted = replayFlowJournal({ flow: editedFlow, entries });
+    expect(drifted.divergences.map((divergence) => [divergence.sequence, divergence.kind])).toEqual([
+      [1, 'flow_changed'],
+      [2, 'trace_mismatch'],
+      [3, 'trace_mismatch'],
+    ]);
+    expect(drifted.divergences[0]?.message).toBe(
+      'entry 1 was recorded against demo@1.0.0; replaying demo@1.1.0 (version changed)',
+    );
+    expect(drifted.divergences[1]?.message).toContain('reason recorded "guard_failed", replayed "ok"');
+  });
+
+  it('simulates event paths per fixture and reports coverage', () => {
+    const onboarding: FlowSchema = {
+      version: '1.0.0',
+      flowId: 'onboarding',
+      initialState: 'start',
+      states: {
+        start: { uiPageId: 'page-start', on: { begin: { target: 'review', actions: ['evaluateRules'] } } },
+        review: {
+          uiPageId: 'page-review',
+          on: {
+            approve: { target: 'done', guard: { op: 'gte', left: { path: 'data.score' }, right: { value: 50 } } },
+            reject: { target: 'rejected' },
+          },
+          transitions: [{ target: 'expired', delayMs: 1000 }],
+        },
+        done: { uiPageId: 'page-done', on: {}, final: true },
+        rejected: { uiPageId: 'page-rejected', on: {}, final: true },
+        expired: { uiPageId: 'page-expired', on: {}, final: true },
+        'manual-check': { uiPageId: 'page-manual', on: { back: { target: 'review' } } },
+      },
+    };
+
+    const result = simulateFlow({
+      flow: onboarding,
+      rules: [
+        {
+          ruleId: 'SCORE_HIGH_INCOME',
+          when: { op: 'gt', left: { path: 'data.income' }, right: { value: 1000 } },
+          actions: [{ type: 'setField', path: 'data.score', value: 80 }],
+        },
+        { ruleId: 'NEVER', when: { op: 'eq', left: { path: 'data.income' }, right: { value: -1 } } },
+      ],
+      fixtures: [
+        { id: 'high-income', context, data: { income: 5000 } },
+        { id: 'low-income', context, data: { income: 10 } },
+      ],
+      maxDepth: 4,
+    });
+
+    expect(result.truncated).toBe(false);
+    expect(result.paths.map((path) => [path.fixtureId, path.steps.map((step) => step.event).join(' > '), path.end])).toEqual([
+      ['high-income', 'begin > approve', 'final'],
+      ['high-income', 'begin > reject', 'final'],
+      ['high-income', 'begin > __timer__', 'final'],
+      ['low-income', 'begin > reject', 'final'],
+      ['low-income', 'begin > __timer__', 'final'],
+    ]);
+    expect(result.paths[0]?.steps[0]?.matchedRuleIds).toEqual(['SCORE_HIGH_INCOME']);
+    expect(result.paths[0]?.steps[1]?.nowMs).toBe(0);
+    expect(result.paths[2]?.steps[1]?.nowMs).toBe(1000);
+    expect(result.coverage).toEqual({
+      states: { visited: ['start', 'review', 'done', 'rejected', 'expired'], unvisited: ['manual-check'] },
+      transitions: {
+        exercised: ['start:on:begin', 'review:on:approve', 'review:on:reject', 'review:tx:0'],
+        unexercised: ['manual-check:on:back'],
+      },
+      rules: { matched: ['SCORE_HIGH_INCOME'], unmatched: ['NEVER'] },
+    });
+
+    const mermaid = renderFlowSimulation(result);
+    expect(mermaid.split('\n')).toEqual([
+      'stateDiagram-v2',
+      '  state "manual-check" as manual_check',
+      '  start --> review : begin',
+      '  review --> done : approve',
+      '  review --> rejected : reject',
+      '  review --> expired : timer',
+      '  classDef unvisited stroke-dasharray: 5 5',
+      '  class manual_check unvisited',
+    ]);
+    expect(renderFlowSimulation(result, 'dot')).toContain('"manual-check" [style=dashed];');
+    expect(renderFlowSimulation(result, 'dot')).toContain('"review" -> "expired" [label="timer"];');
+
+    const capped = simulateFlow({ flow: onboarding, fixtures: [{ id: 'any', context, data: {} }], maxDepth: 1, maxPaths: 1 });
+    expect(capped.paths).toHaveLength(1);
+    expect(capped.paths[0]?.end).toBe('depth');
+    expect(capped.truncated).toBe(false);
+  });
+
+  describe('compound states', () => {
+    const wizardFlow: FlowSchema = {
+      version: '1.0.0',
+      flowId: 'wizard',
+      initialState: 'application',
+      states: {
+        application: {
+          uiPageId: 'application',
+          initial: 'personal',
+          on: { cancel: { target: 'cancelled' }, pause: { target: 'paused' } },
+          entry: [{ type: 'setContext', path: 'context.section', value: 'application' }],
+          exit: ['evaluateRules'],
+        },
+        personal: { uiPageId: 'personal-page', parent: 'application', on: { next: { target: 'finance' } } },
+        finance: {
+          uiPageId: 'finance',
+          parent: 'application',
+          initial: 'income',
+          on: {},
+          exit: [{ type: 'navigate', url: '/finance-done' }],
+        },
+        income: { uiPageId: 'income-page', parent: 'finance', on: { next: { target: 'expenses' } } },
+        expenses: { uiPageId: 'expenses-page', parent: 'finance', on: {} },
+        resumeShallow: { uiPageId: 'resume', parent: 'application', history: 'shallow', on: {} },
+        resumeDeep: { uiPageId: 'resume', parent: 'application', history: 'deep', on: {} },
+        paused: {
+          uiPageId: 'paused-page',
+          on: { resume: { target: 'resumeDeep' }, restart: { target: 'resumeShallow' } },
+        },
+        cancelled: { uiPageId: 'cancelled-page', on: {} },
+      },
+    };
+
+    it('enters the initial leaf and bubbles unhandled events to the parent', () => {
+      const session = createFlowSession({ flow: wizardFlow, nowMs: 0 });
+      expect(session.activeStateIds).toEqual(['personal']);
+      expect(session.history).toEqual(['application', 'personal']);
+
+      const result = transition({ flow: wizardFlow, stateId: 'income', event: 'cancel', context, data: {} });
+      expect(result.nextStateId).toBe('cancelled');
+      expect(result.exitedStateIds).toEqual(['income', 'finance', 'application']);
+      expect(result.actions).toEqual([{ type: 'navigate', url: '/finance-done' }, { type: 'evaluateRules' }]);
+    });
+
+    it('runs entry actions outermost first when a transition enters a compound state', () => {
+      const result = transition({ flow: wizardFlow, stateId: 'paused', event: 'restart', context, data: {} });
+      expect(result.nextStateId).toBe('personal');
+      expect(result.enteredStateIds).toEqual(['application', 'personal']);
+      expect(result.actions).toEqual([{ type: 'setContext', path: 'context.section', value: 'application' }]);
+    });
+
+    it('restores shallow and deep history in a session', () => {
+      let session = createFlowSession({ flow: wizardFlow, nowMs: 0 });
+      const step = (event: string) => {
+        session = stepFlowSession({ flow: wizardFlow, session, context, data: {}, event, nowMs: 1 }).session;
+        return session.activeStateIds;
+      };
+
+      expect(step('next')).toEqual(['income']);
+      expect(step('next')).toEqual(['expenses']);
+      expect(step('pause')).toEqual(['paused']);
+      expect(session.stateHistory).toEqual({ application: ['expenses'], finance: ['expenses'] });
+
+      expect(step('resume')).toEqual(['expenses']);
+      step('pause');
+      expect(step('restart')).toEqual(['income']);
+    });
+
+    it('simulates history targets as the restored child state', () => {
+      const result = simulateFlow({ flow: wizardFlow, fixtures: [{ id: 'any', context, data: {} }], maxDepth: 4 });
+      expect(result.edges.filter((edge) => edge.from === 'paused')).toEqual([
+        { from: 'paused', to: 'finance', event: 'restart' },
+        { from: 'paused', to: 'finance', event: 'resume' },
+        { from: 'paused', to: 'personal', event: 'restart' },
+        { from: 'paused', to: 'personal', event: 'resume' },
+      ]);
+      expect(result.coverage.states).toEqual({
+        visited: ['application', 'personal', 'finance', 'income', 'expenses', 'paused', 'cancelled'],
+        unvisited: [],
+      });
+      expect(renderFlowSimulation(result)).not.toMatch(/resume(Shallow|Deep)|unvisited/);
+    });
+  });
 });
@@ -109,6 +109,20 @@ export const PLATFORM_BUNDLES: TranslationBundle[] = [
       'company.loanAmount.aria': 'Loan amount input',
       'company.riskBadge.label': 'Risk',
       'company.riskBadge.aria': 'Risk level badge',
+      'validation.required': 'This field is required',
+      'validation.min': 'Must be at least {min}',
+      'validation.max': 'Must be at most {max}',
+      'validation.minLength': 'Enter at least {min} characters',
+      'validation.maxLength': 'Enter at most {max} characters',
+      'validation.regex': 'Enter a value in the expected format',
+      'validation.minDate': 'Choose a date on or after {minDate}',
+      'validation.maxDate': 'Choose a date on or before {maxDate}',
+      'validation.minTime': 'Choose a time at or after {minTime}',
+      'validation.maxTime': 'Choose a time at or before {maxTime}',
+      'repeater.add': 'Add item',
+      'repeater.remove': 'Remove item {position}',
+      'repeater.moveUp': 'Move item {position} up',
+      'repeater.moveDown': 'Move item {position} down',
     },
   },
   {
@@ -132,6 +146,20 @@ export const PLATFORM_BUNDLES: TranslationBundle[] = [
       'revenue.chart.aria': 'Umsatzdiagramm',
       'customViz.label': 'Benutzerdefinierte Visualisierung',
       'customViz.aria': 'Benutzerdefinierte Visualisierung',
+      'validation.required': 'Dieses Feld ist erforderlich',
+      'validation.min': 'Muss mindestens {min} sein',
+      'validation.max': 'Darf höchstens {max} sein',
+      'validation.minLength': 'Mindestens {min} Zeichen eingeben',
+      'validation.maxLength': 'Höchstens {max} Zeichen eingeben',
+      'validation.regex': 'Wert im erwarteten Format eingeben',
+      'validation.minDate': 'Datum am oder nach dem {minDate} wählen',
+      'validation.maxDate': 'Datum am oder vor dem {maxDate} wählen',
+      'validation.minTime': 'Uhrzeit ab {minTime} wählen',
+      'validation.maxTime': 'Uhrzeit bis {maxTime} wählen',
+      'repeater.add': 'Eintrag hinzufügen',
+      'repeater.remove': 'Eintrag {position} entfernen',
+      'repeater.moveUp': 'Eintrag {position} nach oben verschieben',
+      'repeater.moveDown': 'Eintrag {position} nach unten verschieben',
     },
   },
   {
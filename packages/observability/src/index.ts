@@ -2,17 +2,26 @@ import type { RuleAction, JSONValue } from '@platform/schema';
 
 export type ExplainOperand =
   | { kind: 'path'; path: string; value: JSONValue | undefined }
-  | { kind: 'value'; value: JSONValue };
+  | { kind: 'value'; value: JSONValue }
+  | { kind: 'lookup'; lookup: string; key: JSONValue | undefined; value: JSONValue | undefined };
 
 export type ConditionExplain =
   | { kind: 'all'; result: boolean; children: ConditionExplain[] }
   | { kind: 'any'; result: boolean; children: ConditionExplain[] }
   | { kind: 'not'; result: boolean; child: ConditionExplain }
-  | { kind: 'compare'; result: boolean; op: string; left: ExplainOperand; right?: ExplainOperand };
+  | { kind: 'compare'; result: boolean; op: string; left: ExplainOperand; right?: ExplainOperand; detail?: string }
+  | {
+      kind: 'some' | 'every' | 'none';
+      result: boolean;
+      path: string;
+      elements: Array<{ index: number; result: boolean; explain: ConditionExplain }>;
+    };
 
 export interface RuleRead {
   path: string;
   value: JSONValue | undefined;
+  /** Set for lookup calls; `path` is then `lookup.<name>`. */
+  lookup?: { name: string; key: JSONValue | undefined; cached: boolean; durationMs: number };
 }
 
 export interface RuleActionDiff {
@@ -24,15 +33,52 @@ export interface RuleActionDiff {
   after: JSONValue | undefined;
 }
 
+export interface RulesPassTrace {
+  pass: number;
+  rulesEvaluated: string[];
+  rulesMatched: string[];
+  changedPaths: string[];
+}
+
+export interface RulesAgendaEntryTrace {
+  ruleId: string;
+  group: string;
+  priority: number;
+  salience: number;
+  specificity: number;
+}
+
+export interface RulesSkipTrace {
+  ruleId: string;
+  /**
+   * `not_effective`: the rule's effective window does not contain `asOf`; `superseded`: another
+   * version of the same `ruleId` is in effect.
+   */
+  reason: 'scope_mismatch' | 'group_resolved' | 'not_effective' | 'superseded';
+  group?: string;
+  resolvedBy?: string;
+  version?: string;
+}
+
+export interface RulesConflictResolutionTrace {
+  strategy: string;
+  order: RulesAgendaEntryTrace[];
+  skipped: RulesSkipTrace[];
+}
+
 export interface RulesTrace {
   startedAt: string;
   durationMs: number;
+  /** Instant rule versions were selected for, when `options.asOf` was given. */
+  asOf?: string;
   rulesConsidered: string[];
   rulesMatched: string[];
   conditionResults: Record<string, boolean>;
   conditionExplains?: Record<string, ConditionExplain>;
   readsByRuleId?: Record<string, RuleRead[]>;
   actionDiffs?: RuleActionDiff[];
+  passes?: RulesPassTrace[];
+  conflictResolution?: RulesConflictResolutionTrace;
   actionsApplied: Array<{ ruleId: string; action: RuleAction }>;
   events: Array<{ ruleId: string; event: string; payload?: JSONValue }>;
   errors: Array<{ ruleId?: string; message: string }>;
@@ -72,7 +118,47 @@ export interface ApiTrace {
     status: number;
     body?: unknown;
   };
+  attempts?: ApiAttemptTrace[];
+  graphqlErrors?: GraphQLErrorTrace[];
+  mappedError?: ApiMappedError;
+  error?: string;
+}
+
+export interface FlowActionTrace {
+  index: number;
+  type: string;
+  startedAt: string;
+  durationMs: number;
+  status: 'ok' | 'skipped';
+  apiId?: string;
+  path?: string;
+  url?: string;
+  pageId?: string;
+  rulesMatched?: string[];
+  reason?: string;
+}
+
+export interface ApiAttemptTrace {
+  attempt: number;
+  startedAt: string;
+  durationMs: number;
+  status?: number;
   error?: string;
+  timedOut?: boolean;
+  outcome: 'success' | 'retry' | 'failed';
+  retryDelayMs?: number;
+}
+
+export interface GraphQLErrorTrace {
+  message: string;
+  path?: Array<string | number>;
+  code?: string;
+}
+
+export interface ApiMappedError {
+  code: string;
+  status?: number;
+  message: string;
 }
 
 export interface RuntimeTrace {
@@ -80,12 +166,21 @@ export interface RuntimeTrace {
   durationMs: number;
   flow: FlowTrace;
   rules?: RulesTrace;
+  /** Every rules evaluation during the step, in order; `rules` is the last of them. */
+  rulesEvaluations?: RulesTrace[];
   api?: ApiTrace;
+  /** Every API call made during the step, in order; `api` is the last of them. */
+  apis?: ApiTrace[];
+  /** One entry per transition action, in the order they ran. */
+  actions?: FlowActionTrace[];
   context?: {
     correlationId?: string;
     tenantId?: string;
     userId?: string;
     versionId?: string;
+    /** W3C trace id and root span id of the step; API call span ids derive from `spanId`. */
+    traceId?: string;
+    spanId?: string;
   };
 }
 
@@ -234,6 +329,11 @@ export function toOpenTelemetryTraceExportPayload(spans: OTelSpan[]): {
         endTimeUnixNano: string;
         attributes?: Array<{ key: string; value: { stringValue?: string; intValue?: string; doubleValue?: number; boolValue?: boolean } }>;
         status?: { code: string; message?: string };
+        events?: Array<{
+          name: string;
+          timeUnixNano: string;
+          attributes?: Array<{ key: string; value: { stringValue?: string; intValue?: string; doubleValue?: number; boolValue?: boolean } }>;
+        }>;
       }>;
     }>;
   }>;
@@ -257,6 +357,11 @@ export function toOpenTelemetryTraceExportPayload(spans: OTelSpan[]): {
               endTimeUnixNano: span.endTimeUnixNano,
               attributes: attrsToOtel(span.attributes),
               status: span.status ? { code: span.status.code, message: span.status.message } : undefined,
+              events: span.events?.map((event) => ({
+                name: event.name,
+                timeUnixNano: event.timeUnixNano,
+                attributes: attrsToOtel(event.attributes),
+              })),
             })),
           },
         ],
@@ -409,6 +514,97 @@ export async function withExternalCallInstrumentation<T>(input: {
   }
 }
 
+/** Trace id from the correlation id (random without one) and a root span id unique to the step start. */
+export function createRuntimeTraceIds(correlationId: string | undefined, startedAtMs: number): { traceId: string; spanId: string } {
+  if (!correlationId) return { traceId: generateTraceId(), spanId: generateSpanId() };
+  return {
+    traceId: correlationToTraceId(correlationId),
+    spanId: fnv1aHex(`${correlationId}:${startedAtMs}`, 16),
+  };
+}
+
+/** Span ids for children are derived from the parent so callers can propagate them before the span exists. */
+export function deriveChildSpanId(parentSpanId: string, key: string): string {
+  return fnv1aHex(`${parentSpanId}:${key}`, 16);
+}
+
+export function formatTraceparent(traceId: string, spanId: string, sampled = true): string {
+  return `00-${traceId}-${spanId}-${sampled ? '01' : '00'}`;
+}
+
+/**
+ * Root `runtime.execute_step` span with children for the flow transition, rule evaluation
+ * (one event per rule considered) and each API call. API span ids match the `traceparent`
+ * headers sent by `executeStep`.
+ */
+export function buildRuntimeSpanTree(trace: RuntimeTrace): OTelSpan[] {
+  const context = inferLogContext(trace, 'core-runtime');
+  const traceId =
+    trace.context?.traceId ?? (context.correlationId ? correlationToTraceId(context.correlationId) : generateTraceId());
+  const rootSpanId = trace.context?.spanId ?? generateSpanId();
+  const child = (key: string) => ({ traceId, spanId: deriveChildSpanId(rootSpanId, key), parentSpanId: rootSpanId });
+  const spans: OTelSpan[] = [{ ...spanFromRuntimeTrace(trace, context), traceId, spanId: rootSpanId }];
+
+  spans.push({
+    ...child('flow'),
+    name: 'flow.transition',
+    kind: 'INTERNAL',
+    ...spanTimes(trace.flow.startedAt, trace.flow.durationMs),
+    attributes: {
+      'ruleflow.module': 'flow-engine',
+      'ruleflow.flow.event': trace.flow.event,
+      'ruleflow.flow.from_state': trace.flow.fromStateId,
+      'ruleflow.flow.to_state': trace.flow.toStateId,
+      'ruleflow.flow.reason': trace.flow.reason,
+      ...(trace.flow.guardResult !== undefined ? { 'ruleflow.flow.guard_result': trace.flow.guardResult } : {}),
+    },
+    status: trace.flow.reason === 'error' ? { code: 'ERROR', message: trace.flow.errorMessage } : { code: 'OK' },
+  });
+
+  (trace.rulesEvaluations ?? (trace.rules ? [trace.rules] : [])).forEach((rules, index) => {
+    const { startTimeUnixNano } = spanTimes(rules.startedAt, rules.durationMs);
+    spans.push({
+      ...spanFromRulesTrace(rules, context),
+      ...child(index === 0 ? 'rules' : `rules:${index}`),
+      events: [
+        ...rules.rulesConsidered.map((ruleId) => ({
+          name: 'rule.evaluated',
+          timeUnixNano: startTimeUnixNano,
+          attributes: {
+            'ruleflow.rule_id': ruleId,
+            'ruleflow.rule.matched': rules.conditionResults[ruleId] ?? rules.rulesMatched.includes(ruleId),
+          },
+        })),
+        ...rules.errors.map((error) => ({
+          name: 'rule.error',
+          timeUnixNano: startTimeUnixNano,
+          attributes: { 'ruleflow.rule_id': error.ruleId ?? 'unknown', 'exception.message': error.message },
+        })),
+      ],
+    });
+  });
+
+  (trace.apis ?? (trace.api ? [trace.api] : [])).forEach((api, index) => {
+    spans.push({
+      ...child(`api:${index}`),
+      name: `http.${api.method.toLowerCase()}.${api.apiId}`,
+      kind: 'CLIENT',
+      ...spanTimes(api.startedAt, api.durationMs),
+      attributes: {
+        'ruleflow.module': 'api-orchestrator',
+        'ruleflow.api_id': api.apiId,
+        'http.request.method': api.method,
+        'url.full': api.endpoint,
+        'ruleflow.api.attempts': api.attempts?.length ?? 1,
+        ...(api.response ? { 'http.response.status_code': api.response.status } : {}),
+      },
+      status: api.error ? { code: 'ERROR', message: api.error } : { code: 'OK' },
+    });
+  });
+
+  return spans;
+}
+
 export function formatRulesTrace(trace: RulesTrace): string {
   return `RulesTrace: ${trace.rulesMatched.length}/${trace.rulesConsidered.length} matched in ${trace.durationMs}ms`;
 }
@@ -457,7 +653,7 @@ export function logRuntimeTrace(trace: RuntimeTrace, logger: TraceLogger<Runtime
       has_api: Boolean(trace.api),
     },
   });
-  exportOpenTelemetrySpans([spanFromRuntimeTrace(trace, context)]);
+  exportOpenTelemetrySpans(buildRuntimeSpanTree(trace));
   logger(withLogContext(formatRuntimeTrace(trace), context), trace);
 }
 
@@ -507,6 +703,12 @@ function spanFromRuntimeTrace(trace: RuntimeTrace, context: LogContext): OTelSpa
   };
 }
 
+function spanTimes(startedAt: string, durationMs: number): { startTimeUnixNano: string; endTimeUnixNano: string } {
+  const parsed = Date.parse(startedAt);
+  const startedMs = Number.isFinite(parsed) ? parsed : Date.now() - durationMs;
+  return { startTimeUnixNano: toUnixNano(startedMs), endTimeUnixNano: toUnixNano(startedMs + durationMs) };
+}
+
 function defaultTraceLogger(message: string, trace: unknown): void {
   // eslint-disable-next-line no-console
   console.info(`[RuleFlow] ${message}`, trace);
@@ -0,0 +1,133 @@
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto';
+import { appendFile, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import {
+  toOpenTelemetryMetricExportPayload,
+  toOpenTelemetryTraceExportPayload,
+  type OTelExporter,
+} from './index';
+
+export type OtlpTraceExportPayload = ReturnType<typeof toOpenTelemetryTraceExportPayload>;
+
+/** Root span attributes carrying the HMAC-SHA256 signature of an export request and the key it was made with. */
+export const OTLP_TRACE_SIGNATURE_ATTRIBUTE = 'ruleflow.trace.signature';
+export const OTLP_TRACE_SIGNING_KEY_ID_ATTRIBUTE = 'ruleflow.trace.signing_key_id';
+
+export interface FileOtlpExporterOptions {
+  /** Receives one OTLP/JSON `ExportTraceServiceRequest` per line. */
+  tracesFilePath: string;
+  /** Metrics are dropped unless a file is given. */
+  metricsFilePath?: string;
+  /** Signs every trace export request (see `signOtlpTracePayload`) before it is written. */
+  signingKey?: string | Buffer;
+}
+
+export interface FileOtlpExporter extends OTelExporter {
+  /**
+   * Resolves once every export issued so far has been written. Rejects with the first write
+   * error since the previous flush; later exports are still written.
+   */
+  flush(): Promise<void>;
+}
+
+// Node-only; kept out of the package root so browser bundles of `@platform/observability` stay fs-free.
+export function createFileOtlpExporter(options: FileOtlpExporterOptions): FileOtlpExporter {
+  let pending: Promise<void> = Promise.resolve();
+  let failure: unknown;
+  const append = (filePath: string, payload: unknown): Promise<void> => {
+    pending = pending.then(async () => {
+      try {
+        await mkdir(path.dirname(filePath), { recursive: true });
+        await appendFile(filePath, `${JSON.stringify(payload)}\n`, 'utf8');
+      } catch (error) {
+        // Exports are fire-and-forget (`void exporter.exportSpans(...)`), so errors wait for `flush()`.
+        failure ??= error;
+      }
+    });
+    return pending;
+  };
+
+  const { tracesFilePath, metricsFilePath, signingKey } = options;
+  return {
+    exportSpans: (spans) => {
+      const payload = toOpenTelemetryTraceExportPayload(spans);
+      return append(tracesFilePath, signingKey ? signOtlpTracePayload(payload, signingKey) : payload);
+    },
+    ...(metricsFilePath
+      ? { exportMetrics: (metrics) => append(metricsFilePath, toOpenTelemetryMetricExportPayload(metrics)) }
+      : {}),
+    flush: () =>
+      pending.then(() => {
+        if (failure === undefined) return;
+        const error = failure;
+        failure = undefined;
+        throw error;
+      }),
+  };
+}
+
+/**
+ * Adds an HMAC-SHA256 signature over the whole export request (every span, event and resource
+ * attribute) to its root span, so a stored trace can be checked for tampering with
+ * `verifyOtlpTracePayload`.
+ */
+export function signOtlpTracePayload(payload: OtlpTraceExportPayload, key: string | Buffer): OtlpTraceExportPayload {
+  const unsigned = stripSignature(payload);
+  const root = findRootSpan(unsigned);
+  if (!root) return unsigned;
+  const signature = computeSignature(unsigned, key);
+  root.attributes = [
+    ...(root.attributes ?? []),
+    { key: OTLP_TRACE_SIGNATURE_ATTRIBUTE, value: { stringValue: signature } },
+    { key: OTLP_TRACE_SIGNING_KEY_ID_ATTRIBUTE, value: { stringValue: signingKeyId(key) } },
+  ];
+  return unsigned;
+}
+
+/** True when the payload carries a signature made with `key` and nothing it covers has changed. */
+export function verifyOtlpTracePayload(payload: OtlpTraceExportPayload, key: string | Buffer): boolean {
+  const signature = findRootSpan(payload)
+    ?.attributes?.find((attribute) => attribute.key === OTLP_TRACE_SIGNATURE_ATTRIBUTE)?.value.stringValue;
+  if (!signature) return false;
+  const expected = Buffer.from(computeSignature(stripSignature(payload), key), 'base64');
+  const actual = Buffer.from(signature, 'base64');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+type OtlpSpan = OtlpTraceExportPayload['resourceSpans'][number]['scopeSpans'][number]['spans'][number];
+
+function findRootSpan(payload: OtlpTraceExportPayload): OtlpSpan | undefined {
+  const spans = payload.resourceSpans.flatMap((resource) => resource.scopeSpans.flatMap((scope) => scope.spans));
+  return spans.find((span) => !span.parentSpanId) ?? spans[0];
+}
+
+function stripSignature(payload: OtlpTraceExportPayload): OtlpTraceExportPayload {
+  const copy = JSON.parse(JSON.stringify(payload)) as OtlpTraceExportPayload;
+  const root = findRootSpan(copy);
+  if (root) {
+    root.attributes = (root.attributes ?? []).filter(
+      (attribute) => attribute.key !== OTLP_TRACE_SIGNATURE_ATTRIBUTE && attribute.key !== OTLP_TRACE_SIGNING_KEY_ID_ATTRIBUTE,
+    );
+  }
+  return copy;
+}
+
+function computeSignature(payload: OtlpTraceExportPayload, key: string | Buffer): string {
+  return createHmac('sha256', key).update(stableStringify(payload)).digest('base64');
+}
+
+function signingKeyId(key: string | Buffer): string {
+  return createHash('sha256').update(key).digest('hex').slice(0, 12);
+}
+
+// Key order is fixed so a re-serialized payload still verifies.
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([name, entry]) => `${JSON.stringify(name)}:${stableStringify(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -1,7 +1,9 @@
 import { describe, expect, it, vi } from 'vitest';
 import type { RulesTrace, RuntimeTrace } from '../src/index';
 import {
+  buildRuntimeSpanTree,
   createExternalCallSpan,
+  createRuntimeTraceIds,
   formatRulesTrace,
   formatRuntimeTrace,
   logRulesTrace,
@@ -10,6 +12,7 @@ import {
   registerOpenTelemetryExporter,
   setLogLevelResolver,
   shouldLog,
+  toOpenTelemetryTraceExportPayload,
 } from '../src/index';
 
 describe('observability', () => {
@@ -96,4 +99,77 @@ describe('observability', () => {
     expect(span.name).toBe('postgres.query');
     expect(span.status?.code).toBe('OK');
   });
+
+  it('builds a deterministic runtime span tree from the correlation id', () => {
+    const ids = createRuntimeTraceIds('corr-1', Date.parse('2026-02-08T00:00:00Z'));
+    expect(ids).toEqual(createRuntimeTraceIds('corr-1', Date.parse('2026-02-08T00:00:00Z')));
+    expect(ids.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(ids.spanId).toMatch(/^[0-9a-f]{16}$/);
+
+    const trace: RuntimeTrace = {
+      startedAt: '2026-02-08T00:00:00Z',
+      durationMs: 40,
+      flow: {
+        startedAt: '2026-02-08T00:00:00Z',
+        durationMs: 1,
+        event: 'next',
+        fromStateId: 'start',
+        toStateId: 'review',
+        uiPageId: 'page',
+        reason: 'ok',
+        actionsToRun: ['evaluateRules', 'callApi'],
+      },
+      rules: {
+        startedAt: '2026-02-08T00:00:00.002Z',
+        durationMs: 3,
+        rulesConsidered: ['a', 'b'],
+        rulesMatched: ['a'],
+        conditionResults: { a: true, b: false },
+        actionsApplied: [],
+        events: [],
+        errors: [],
+      },
+      apis: [
+        {
+          startedAt: '2026-02-08T00:00:00.010Z',
+          durationMs: 20,
+          apiId: 'lookup',
+          method: 'GET',
+          endpoint: 'https://api.example.com/lookup',
+          request: {},
+          response: { status: 503 },
+          error: 'HTTP 503',
+        },
+      ],
+      context: { correlationId: 'corr-1', ...ids },
+    };
+
+    const spans = buildRuntimeSpanTree(trace);
+    expect(spans.map((span) => [span.name, span.parentSpanId])).toEqual([
+      ['runtime.execute_step', undefined],
+      ['flow.transition', ids.spanId],
+      ['rules.evaluate', ids.spanId],
+      ['http.get.lookup', ids.spanId],
+    ]);
+    expect(spans[0]?.spanId).toBe(ids.spanId);
+    expect(spans[3]).toMatchObject({
+      kind: 'CLIENT',
+      startTimeUnixNano: String(Date.parse('2026-02-08T00:00:00.010Z') * 1_000_000),
+      attributes: { 'http.response.status_code': 503 },
+      status: { code: 'ERROR', message: 'HTTP 503' },
+    });
+
+    const payload = toOpenTelemetryTraceExportPayload(spans);
+    const rulesSpan = payload.resourceSpans[0]?.scopeSpans[0]?.spans[2];
+    expect(rulesSpan?.events?.map((event) => event.attributes)).toEqual([
+      [
+        { key: 'ruleflow.rule_id', value: { stringValue: 'a' } },
+        { key: 'ruleflow.rule.matched', value: { boolValue: true } },
+      ],
+      [
+        { key: 'ruleflow.rule_id', value: { stringValue: 'b' } },
+        { key: 'ruleflow.rule.matched', value: { boolValue: false } },
+      ],
+    ]);
+  });
 });
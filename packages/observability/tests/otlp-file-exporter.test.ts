@@ -0,0 +1,76 @@
+import { mkdtemp, readFile, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import type { OTelSpan } from '../src/index';
+import { toOpenTelemetryTraceExportPayload } from '../src/index';
+import {
+  OTLP_TRACE_SIGNATURE_ATTRIBUTE,
+  createFileOtlpExporter,
+  signOtlpTracePayload,
+  verifyOtlpTracePayload,
+  type OtlpTraceExportPayload,
+} from '../src/otlp-file-exporter';
+
+const spans: OTelSpan[] = [
+  {
+    traceId: '0af7651916cd43dd8448eb211c80319c',
+    spanId: 'b7ad6b7169203331',
+    name: 'runtime.execute_step',
+    startTimeUnixNano: '1770508800000000000',
+    endTimeUnixNano: '1770508800020000000',
+    attributes: { 'ruleflow.flow.event': 'submit' },
+  },
+  {
+    traceId: '0af7651916cd43dd8448eb211c80319c',
+    spanId: '00f067aa0ba902b7',
+    parentSpanId: 'b7ad6b7169203331',
+    name: 'rules.evaluate',
+    startTimeUnixNano: '1770508800001000000',
+    endTimeUnixNano: '1770508800002000000',
+    events: [{ name: 'rule.evaluated', timeUnixNano: '1770508800001000000', attributes: { 'ruleflow.rule_id': 'a' } }],
+  },
+];
+
+describe('file otlp exporter', () => {
+  it('keeps writing after a failed export and reports the failure on flush', async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), 'otlp-exporter-'));
+    const blocker = path.join(dir, 'blocker');
+    await writeFile(blocker, '');
+    const tracesFilePath = path.join(dir, 'traces.jsonl');
+    const broken = createFileOtlpExporter({ tracesFilePath: path.join(blocker, 'traces.jsonl') });
+
+    await expect(broken.exportSpans?.(spans)).resolves.toBeUndefined();
+    await expect(broken.flush()).rejects.toThrow();
+    await expect(broken.flush()).resolves.toBeUndefined();
+
+    const exporter = createFileOtlpExporter({ tracesFilePath });
+    void exporter.exportSpans?.(spans);
+    void exporter.exportSpans?.(spans);
+    await exporter.flush();
+    expect((await readFile(tracesFilePath, 'utf8')).trim().split('\n')).toHaveLength(2);
+  });
+
+  it('signs exported traces so tampering is detected', async () => {
+    const tracesFilePath = path.join(await mkdtemp(path.join(os.tmpdir(), 'otlp-signed-')), 'traces.jsonl');
+    const exporter = createFileOtlpExporter({ tracesFilePath, signingKey: 'trace-secret' });
+    void exporter.exportSpans?.(spans);
+    await exporter.flush();
+
+    const written = JSON.parse((await readFile(tracesFilePath, 'utf8')).trim()) as OtlpTraceExportPayload;
+    const root = written.resourceSpans[0]?.scopeSpans[0]?.spans[0];
+    expect(root?.attributes?.map((attribute) => attribute.key)).toContain(OTLP_TRACE_SIGNATURE_ATTRIBUTE);
+    expect(verifyOtlpTracePayload(written, 'trace-secret')).toBe(true);
+    expect(verifyOtlpTracePayload(written, 'other-secret')).toBe(false);
+    expect(verifyOtlpTracePayload(toOpenTelemetryTraceExportPayload(spans), 'trace-secret')).toBe(false);
+
+    const tampered = JSON.parse(JSON.stringify(written)) as OtlpTraceExportPayload;
+    const event = tampered.resourceSpans[0]?.scopeSpans[0]?.spans[1]?.events?.[0];
+    if (event?.attributes?.[0]) event.attributes[0].value = { stringValue: 'b' };
+    expect(verifyOtlpTracePayload(tampered, 'trace-secret')).toBe(false);
+
+    // Signing twice replaces the previous signature instead of stacking another one.
+    const resigned = signOtlpTracePayload(written, 'trace-secret');
+    expect(resigned).toEqual(written);
+  });
+});
@@ -4,7 +4,9 @@ import { assertLifecycleTransition } from '../lifecycle';
 import { assertTenantAccess, createVersionId, deepClone, nowIso } from '../helpers';
 import { withExternalCallInstrumentation } from '@platform/observability';
 import type {
+  AppendFlowJournalInput,
   DalConfigRecord,
+  DalFlowJournalEntry,
   DalVersionRecord,
   PersistenceDal,
   SaveConfigInput,
@@ -14,6 +16,8 @@ import type {
 
 type PersistedModel = {
   tenants: Record<string, Record<string, DalConfigRecord>>;
+  /** Flow journals keyed by tenant, then session id. */
+  flowJournals?: Record<string, Record<string, DalFlowJournalEntry[]>>;
 };
 
 const LOCK_NAME = '.configs.lock';
@@ -137,6 +141,32 @@ export class DemoFileDalAdapter implements PersistenceDal {
     }, context.tenantId);
   }
 
+  async appendFlowJournalEntry(context: TenantContext, input: AppendFlowJournalInput): Promise<DalFlowJournalEntry> {
+    return await this.withLocked(async () => {
+      const state = await this.readState(context.tenantId);
+      const journals = state.flowJournals ?? {};
+      const tenantJournals = journals[context.tenantId] ?? {};
+      const entries = tenantJournals[input.sessionId] ?? [];
+      const entry: DalFlowJournalEntry = {
+        sessionId: input.sessionId,
+        sequence: entries.length + 1,
+        payload: deepClone(input.payload),
+        recordedAt: nowIso(),
+      };
+      state.flowJournals = {
+        ...journals,
+        [context.tenantId]: { ...tenantJournals, [input.sessionId]: [...entries, entry] },
+      };
+      await this.writeState(context.tenantId, state);
+      return deepClone(entry);
+    }, context.tenantId);
+  }
+
+  async listFlowJournal(context: TenantContext, sessionId: string): Promise<DalFlowJournalEntry[]> {
+    const state = await this.readState(context.tenantId);
+    return deepClone(state.flowJournals?.[context.tenantId]?.[sessionId] ?? []);
+  }
+
   private async withLocked<T>(fn: () => Promise<T>, tenantId: string): Promise<T> {
     await this.acquireLock(tenantId);
     try {
@@ -218,7 +248,13 @@ function safeParse(raw: string): PersistedModel {
     if (!tenants || typeof tenants !== 'object' || Array.isArray(tenants)) {
       return { tenants: {} };
     }
-    return { tenants: tenants as PersistedModel['tenants'] };
+    const flowJournals = (parsed as { flowJournals?: unknown }).flowJournals;
+    return {
+      tenants: tenants as PersistedModel['tenants'],
+      ...(flowJournals && typeof flowJournals === 'object' && !Array.isArray(flowJournals)
+        ? { flowJournals: flowJournals as NonNullable<PersistedModel['flowJournals']> }
+        : {}),
+    };
   } catch {
     return { tenants: {} };
   }
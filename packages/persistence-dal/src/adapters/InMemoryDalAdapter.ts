@@ -1,7 +1,9 @@
 import { assertLifecycleTransition } from '../lifecycle';
 import { assertTenantAccess, createVersionId, deepClone, nowIso } from '../helpers';
 import type {
+  AppendFlowJournalInput,
   DalConfigRecord,
+  DalFlowJournalEntry,
   DalVersionRecord,
   PersistenceDal,
   SaveConfigInput,
@@ -13,6 +15,7 @@ type TenantStore = Map<string, DalConfigRecord>;
 
 export class InMemoryDalAdapter implements PersistenceDal {
   private readonly store = new Map<string, TenantStore>();
+  private readonly journals = new Map<string, DalFlowJournalEntry[]>();
 
   async getConfig(context: TenantContext, configId: string): Promise<DalConfigRecord | null> {
     const tenant = this.store.get(context.tenantId);
@@ -101,6 +104,23 @@ export class InMemoryDalAdapter implements PersistenceDal {
     return deepClone(nextVersion);
   }
 
+  async appendFlowJournalEntry(context: TenantContext, input: AppendFlowJournalInput): Promise<DalFlowJournalEntry> {
+    const key = journalKey(context.tenantId, input.sessionId);
+    const entries = this.journals.get(key) ?? [];
+    const entry: DalFlowJournalEntry = {
+      sessionId: input.sessionId,
+      sequence: entries.length + 1,
+      payload: deepClone(input.payload),
+      recordedAt: nowIso(),
+    };
+    this.journals.set(key, [...entries, entry]);
+    return deepClone(entry);
+  }
+
+  async listFlowJournal(context: TenantContext, sessionId: string): Promise<DalFlowJournalEntry[]> {
+    return deepClone(this.journals.get(journalKey(context.tenantId, sessionId)) ?? []);
+  }
+
   private getTenantStore(tenantId: string): TenantStore {
     const existing = this.store.get(tenantId);
     if (existing) return existing;
@@ -110,6 +130,10 @@ export class InMemoryDalAdapter implements PersistenceDal {
   }
 }
 
+function journalKey(tenantId: string, sessionId: string): string {
+  return `${tenantId}\u0000${sessionId}`;
+}
+
 function nextVersionLabel(previous?: string): string {
   if (!previous) return '0.1.0';
   const match = /^(\d+)\.(\d+)\.(\d+)$/.exec(previous);
@@ -2,7 +2,9 @@ import { assertLifecycleTransition } from '../lifecycle';
 import { assertTenantAccess, createVersionId, deepClone, nowIso } from '../helpers';
 import { withExternalCallInstrumentation } from '@platform/observability';
 import type {
+  AppendFlowJournalInput,
   DalConfigRecord,
+  DalFlowJournalEntry,
   DalVersionRecord,
   PersistenceDal,
   SaveConfigInput,
@@ -17,16 +19,40 @@ type MongoCollectionLike = {
   replaceOne(filter: Record<string, unknown>, replacement: DalConfigRecord, options?: Record<string, unknown>): Promise<void>;
 };
 
+type MongoJournalDocument = DalFlowJournalEntry & { tenantId: string };
+
+type MongoJournalCollectionLike = {
+  find(filter: Record<string, unknown>): {
+    sort(spec: Record<string, 1 | -1>): { toArray(): Promise<MongoJournalDocument[]> };
+  };
+  countDocuments(filter: Record<string, unknown>): Promise<number>;
+  insertOne(doc: MongoJournalDocument): Promise<void>;
+  createIndex(spec: Record<string, 1 | -1>, options?: Record<string, unknown>): Promise<unknown>;
+};
+
+type MongoDbLike = {
+  collection(name: string): unknown;
+};
+
+type MongoClientLike = {
+  connect(): Promise<void>;
+  db(name: string): MongoDbLike;
+  close(): Promise<void>;
+};
+
 export class MongoDalAdapter implements PersistenceDal {
   private readonly collectionName: string;
+  private readonly journalCollectionName: string;
   private readonly dbName: string;
   private readonly uri: string;
-  private collectionPromise: Promise<MongoCollectionLike> | null = null;
+  private clientPromise: Promise<MongoClientLike> | null = null;
+  private journalIndexPromise: Promise<unknown> | null = null;
 
-  constructor(options: { uri: string; dbName?: string; collectionName?: string }) {
+  constructor(options: { uri: string; dbName?: string; collectionName?: string; journalCollectionName?: string }) {
     this.uri = options.uri;
     this.dbName = options.dbName ?? 'ruleflow';
     this.collectionName = options.collectionName ?? 'configs';
+    this.journalCollectionName = options.journalCollectionName ?? 'flow_journal';
   }
 
   async getConfig(context: TenantContext, configId: string): Promise<DalConfigRecord | null> {
@@ -145,53 +171,95 @@ export class MongoDalAdapter implements PersistenceDal {
     return deepClone(nextVersion);
   }
 
+  async appendFlowJournalEntry(context: TenantContext, input: AppendFlowJournalInput): Promise<DalFlowJournalEntry> {
+    const collection = await this.getJournalCollection();
+    const filter = { tenantId: context.tenantId, sessionId: input.sessionId };
+    const count = await this.instrumentCollectionCall(context, 'mongo.count_documents', () =>
+      collection.countDocuments(filter),
+      this.journalCollectionName,
+    );
+    const entry: DalFlowJournalEntry = {
+      sessionId: input.sessionId,
+      sequence: count + 1,
+      payload: deepClone(input.payload),
+      recordedAt: nowIso(),
+    };
+    // The unique (tenantId, sessionId, sequence) index rejects a concurrent append that raced for the same slot.
+    await this.instrumentCollectionCall(context, 'mongo.insert_one', () =>
+      collection.insertOne({ ...deepClone(entry), tenantId: context.tenantId }),
+      this.journalCollectionName,
+    );
+    return entry;
+  }
+
+  async listFlowJournal(context: TenantContext, sessionId: string): Promise<DalFlowJournalEntry[]> {
+    const collection = await this.getJournalCollection();
+    const rows = await this.instrumentCollectionCall(context, 'mongo.find', () =>
+      collection.find({ tenantId: context.tenantId, sessionId }).sort({ sequence: 1 }).toArray(),
+      this.journalCollectionName,
+    );
+    return rows.map((row) => ({
+      sessionId: row.sessionId,
+      sequence: row.sequence,
+      payload: deepClone(row.payload),
+      recordedAt: row.recordedAt,
+    }));
+  }
+
   async close(): Promise<void> {
-    const collection = await this.getCollection();
-    const maybe = collection as unknown as { client?: { close?: () => Promise<void> } };
-    if (maybe.client?.close) {
-      await maybe.client.close();
-    }
+    if (!this.clientPromise) return;
+    const client = await this.clientPromise;
+    this.clientPromise = null;
+    await client.close();
   }
 
   private async getCollection(): Promise<MongoCollectionLike> {
-    if (!this.collectionPromise) {
-      this.collectionPromise = this.createCollection();
+    const client = await this.getClient();
+    return client.db(this.dbName).collection(this.collectionName) as MongoCollectionLike;
+  }
+
+  private async getJournalCollection(): Promise<MongoJournalCollectionLike> {
+    const client = await this.getClient();
+    const collection = client.db(this.dbName).collection(this.journalCollectionName) as MongoJournalCollectionLike;
+    if (!this.journalIndexPromise) {
+      this.journalIndexPromise = collection.createIndex({ tenantId: 1, sessionId: 1, sequence: 1 }, { unique: true });
+    }
+    await this.journalIndexPromise;
+    return collection;
+  }
+
+  private async getClient(): Promise<MongoClientLike> {
+    if (!this.clientPromise) {
+      this.clientPromise = this.createClient();
     }
-    return await this.collectionPromise;
+    return await this.clientPromise;
   }
 
   private async instrumentCollectionCall<T>(
     context: TenantContext,
     callName: string,
     fn: () => Promise<T>,
+    collection = this.collectionName,
   ): Promise<T> {
     return await withExternalCallInstrumentation({
       name: callName,
       module: 'persistence-dal',
       tenantId: context.tenantId,
-      attributes: { backend: 'mongodb', db: this.dbName, collection: this.collectionName },
+      attributes: { backend: 'mongodb', db: this.dbName, collection },
       fn,
     });
   }
 
-  private async createCollection(): Promise<MongoCollectionLike> {
+  private async createClient(): Promise<MongoClientLike> {
     const dynamicImport = new Function('specifier', 'return import(specifier)') as (
       specifier: string,
     ) => Promise<unknown>;
     const mod = (await dynamicImport('mongodb')) as {
-      MongoClient: new (uri: string) => {
-        connect(): Promise<void>;
-        db(name: string): {
-          collection(name: string): MongoCollectionLike;
-        };
-      };
+      MongoClient: new (uri: string) => MongoClientLike;
     };
     const client = new mod.MongoClient(this.uri);
     await client.connect();
-    const collection = client.db(this.dbName).collection(this.collectionName);
-    const wrapped = collection as MongoCollectionLike & { client?: typeof client };
-    wrapped.client = client;
-    return wrapped;
+    return client;
   }
 }
 
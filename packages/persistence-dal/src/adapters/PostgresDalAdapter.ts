@@ -2,7 +2,9 @@ import { assertLifecycleTransition } from '../lifecycle';
 import { assertTenantAccess, createVersionId, deepClone } from '../helpers';
 import { withExternalCallInstrumentation } from '@platform/observability';
 import type {
+  AppendFlowJournalInput,
   DalConfigRecord,
+  DalFlowJournalEntry,
   DalVersionRecord,
   PersistenceDal,
   SaveConfigInput,
@@ -94,6 +96,12 @@ type PostgresTenantRepository = {
       branding?: Record<string, unknown> | null;
     };
   }): Promise<{ ok: true }>;
+  appendFlowJournalEntry(input: {
+    tenantId: string;
+    sessionId: string;
+    payload: Record<string, unknown>;
+  }): Promise<DalFlowJournalEntry>;
+  listFlowJournal(input: { tenantId: string; sessionId: string }): Promise<DalFlowJournalEntry[]>;
 };
 
 export class PostgresDalAdapter implements PersistenceDal {
@@ -242,6 +250,24 @@ export class PostgresDalAdapter implements PersistenceDal {
     return next;
   }
 
+  async appendFlowJournalEntry(context: TenantContext, input: AppendFlowJournalInput): Promise<DalFlowJournalEntry> {
+    const entry = await this.instrumentRepoCall(context, 'postgres.append_flow_journal_entry', () =>
+      this.repo.appendFlowJournalEntry({
+        tenantId: context.tenantId,
+        sessionId: input.sessionId,
+        payload: input.payload,
+      }),
+    );
+    return toDalJournalEntry(entry);
+  }
+
+  async listFlowJournal(context: TenantContext, sessionId: string): Promise<DalFlowJournalEntry[]> {
+    const entries = await this.instrumentRepoCall(context, 'postgres.list_flow_journal', () =>
+      this.repo.listFlowJournal({ tenantId: context.tenantId, sessionId }),
+    );
+    return entries.map(toDalJournalEntry);
+  }
+
   private async patchVersionStatusViaImport(
     context: TenantContext,
     versionId: string,
@@ -330,3 +356,12 @@ function nextVersionLabel(previous?: string): string {
   if (!match) return `${previous}-next`;
   return `${match[1]}.${match[2]}.${Number(match[3]) + 1}`;
 }
+
+function toDalJournalEntry(entry: DalFlowJournalEntry): DalFlowJournalEntry {
+  return {
+    sessionId: entry.sessionId,
+    sequence: entry.sequence,
+    payload: deepClone(entry.payload),
+    recordedAt: entry.recordedAt,
+  };
+}
@@ -42,11 +42,27 @@ export interface TransitionVersionInput {
   notes?: string;
 }
 
+export interface DalFlowJournalEntry {
+  sessionId: string;
+  /** Position within the session, starting at 1 and assigned by the adapter on append. */
+  sequence: number;
+  payload: Record<string, unknown>;
+  recordedAt: string;
+}
+
+export interface AppendFlowJournalInput {
+  sessionId: string;
+  payload: Record<string, unknown>;
+}
+
 export interface PersistenceDal {
   getConfig(context: TenantContext, configId: string): Promise<DalConfigRecord | null>;
   saveConfig(context: TenantContext, input: SaveConfigInput): Promise<DalConfigRecord>;
   listConfigs(context: TenantContext): Promise<DalConfigRecord[]>;
   listVersions(context: TenantContext, configId: string): Promise<DalVersionRecord[]>;
   transitionVersion(context: TenantContext, input: TransitionVersionInput): Promise<DalVersionRecord>;
+  /** Append-only: entries are never updated or removed once written. */
+  appendFlowJournalEntry(context: TenantContext, input: AppendFlowJournalInput): Promise<DalFlowJournalEntry>;
+  listFlowJournal(context: TenantContext, sessionId: string): Promise<DalFlowJournalEntry[]>;
   close?(): Promise<void>;
 }
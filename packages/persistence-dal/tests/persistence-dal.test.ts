@@ -55,6 +55,24 @@ describe('persistence-dal', () => {
     expect(versions.length).toBe(20);
   });
 
+  it('appends flow journal entries in sequence per tenant session', async () => {
+    const baseDir = await mkdtemp(path.join(os.tmpdir(), 'dal-journal-'));
+    for (const dal of [new InMemoryDalAdapter(), new DemoFileDalAdapter(baseDir)]) {
+      const ctx = { tenantId: 'tenant-a' };
+      await Promise.all(
+        Array.from({ length: 5 }, (_, i) =>
+          dal.appendFlowJournalEntry(ctx, { sessionId: 's-1', payload: { index: i } }),
+        ),
+      );
+      await dal.appendFlowJournalEntry({ tenantId: 'tenant-b' }, { sessionId: 's-1', payload: { index: 99 } });
+
+      const entries = await dal.listFlowJournal(ctx, 's-1');
+      expect(entries.map((entry) => entry.sequence)).toEqual([1, 2, 3, 4, 5]);
+      expect(entries.some((entry) => entry.payload.index === 99)).toBe(false);
+      expect(await dal.listFlowJournal(ctx, 's-2')).toEqual([]);
+    }
+  });
+
   it('emits external-call metrics for demo file adapter operations', async () => {
     const baseDir = await mkdtemp(path.join(os.tmpdir(), 'dal-metrics-'));
     const dal = new DemoFileDalAdapter(baseDir);
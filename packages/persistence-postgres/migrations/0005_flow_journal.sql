@@ -0,0 +1,33 @@
+-- Append-only flow event journal used for incident replay.
+-- Only SELECT and INSERT policies exist, so UPDATE and DELETE match no rows under forced RLS.
+
+CREATE TABLE IF NOT EXISTS flow_journal_entries (
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  session_id TEXT NOT NULL,
+  sequence INTEGER NOT NULL CHECK (sequence > 0),
+  payload JSONB NOT NULL,
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (tenant_id, session_id, sequence)
+);
+
+ALTER TABLE flow_journal_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE flow_journal_entries FORCE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS tenant_required_flow_journal_entries ON flow_journal_entries;
+CREATE POLICY tenant_required_flow_journal_entries ON flow_journal_entries
+  AS RESTRICTIVE
+  FOR ALL
+  USING (tenant_id = app_current_tenant_required())
+  WITH CHECK (tenant_id = app_current_tenant_required());
+
+DROP POLICY IF EXISTS flow_journal_entries_read ON flow_journal_entries;
+CREATE POLICY flow_journal_entries_read ON flow_journal_entries
+  FOR SELECT
+  USING (tenant_id = app_current_tenant());
+
+DROP POLICY IF EXISTS flow_journal_entries_append ON flow_journal_entries;
+CREATE POLICY flow_journal_entries_append ON flow_journal_entries
+  FOR INSERT
+  WITH CHECK (tenant_id = app_current_tenant());
+
+REVOKE ALL ON TABLE flow_journal_entries FROM PUBLIC;
@@ -17,6 +17,7 @@ import type {
   RepoConsoleSnapshot,
   RepoExecutionTrace,
   RepoFeatureFlag,
+  RepoFlowJournalEntry,
   RepoKillSwitch,
   RepoSession,
   RiskLevel,
@@ -123,6 +124,14 @@ type TraceRow = {
   created_at: string;
 };
 
+type FlowJournalRow = {
+  tenant_id: string;
+  session_id: string;
+  sequence: number;
+  payload: unknown;
+  recorded_at: string;
+};
+
 export interface PostgresRepositoryOptions {
   connectionString?: string;
   pool?: SqlPool;
@@ -857,6 +866,40 @@ export class PostgresTenantRepository {
     });
   }
 
+  async appendFlowJournalEntry(input: { tenantId: string; sessionId: string; payload: JsonRecord }): Promise<RepoFlowJournalEntry> {
+    return await this.withTenantTransaction(input.tenantId, async (client) => {
+      // The primary key on (tenant_id, session_id, sequence) makes a racing append fail instead of reusing a slot.
+      const result = await client.query<FlowJournalRow>(
+        `
+          INSERT INTO flow_journal_entries (tenant_id, session_id, sequence, payload)
+          SELECT $1, $2, COALESCE(MAX(sequence), 0) + 1, $3::jsonb
+          FROM flow_journal_entries
+          WHERE tenant_id = $1 AND session_id = $2
+          RETURNING tenant_id, session_id, sequence, payload, recorded_at
+        `,
+        [input.tenantId, input.sessionId, JSON.stringify(input.payload)],
+      );
+      const row = result.rows[0];
+      if (!row) throw new Error('Flow journal write failed');
+      return mapFlowJournalEntry(row);
+    });
+  }
+
+  async listFlowJournal(input: { tenantId: string; sessionId: string }): Promise<RepoFlowJournalEntry[]> {
+    return await this.withTenantTransaction(input.tenantId, async (client) => {
+      const result = await client.query<FlowJournalRow>(
+        `
+          SELECT tenant_id, session_id, sequence, payload, recorded_at
+          FROM flow_journal_entries
+          WHERE tenant_id = $1 AND session_id = $2
+          ORDER BY sequence ASC
+        `,
+        [input.tenantId, input.sessionId],
+      );
+      return result.rows.map(mapFlowJournalEntry);
+    });
+  }
+
   async exportTenantBundle(input: { tenantId: string }): Promise<GitOpsPayload> {
     const snapshot = await this.getConsoleSnapshot(input.tenantId);
     const featureFlags = await this.listFeatureFlags({ tenantId: input.tenantId });
@@ -1352,3 +1395,13 @@ function mapTrace(row: TraceRow): RepoExecutionTrace {
     createdAt: row.created_at,
   };
 }
+
+function mapFlowJournalEntry(row: FlowJournalRow): RepoFlowJournalEntry {
+  return {
+    tenantId: row.tenant_id,
+    sessionId: row.session_id,
+    sequence: Number(row.sequence),
+    payload: toRecord(row.payload),
+    recordedAt: row.recorded_at,
+  };
+}
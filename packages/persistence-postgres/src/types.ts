@@ -122,6 +122,14 @@ export interface RepoExecutionTrace {
   createdAt: string;
 }
 
+export interface RepoFlowJournalEntry {
+  tenantId: string;
+  sessionId: string;
+  sequence: number;
+  payload: JsonRecord;
+  recordedAt: string;
+}
+
 export interface RepoConsoleSnapshot {
   tenantId: string;
   packages: RepoConfigPackage[];
@@ -92,4 +92,13 @@ describe('postgres migrations', () => {
     const migration = await readMigration('0004_kill_scope_component.sql');
     expect(migration).toContain("ALTER TYPE kill_scope ADD VALUE 'COMPONENT'");
   });
+
+  it('adds an append-only, tenant-guarded flow journal table', async () => {
+    const migration = await readMigration('0005_flow_journal.sql');
+    expect(migration).toContain('CREATE TABLE IF NOT EXISTS flow_journal_entries');
+    expect(migration).toContain('PRIMARY KEY (tenant_id, session_id, sequence)');
+    expect(migration).toContain('ALTER TABLE flow_journal_entries FORCE ROW LEVEL SECURITY');
+    expect(migration).toContain('CREATE POLICY tenant_required_flow_journal_entries ON flow_journal_entries');
+    expect(migration).not.toMatch(/FOR (UPDATE|DELETE)/);
+  });
 });
@@ -0,0 +1,81 @@
+import { performance } from 'node:perf_hooks';
+import type { ExecutionContext, JSONValue, Rule } from '@platform/schema';
+import { compileRuleSet, evaluateRules } from '../src/index';
+
+const context: ExecutionContext = {
+  tenantId: 'tenant-a',
+  userId: 'user-1',
+  role: 'admin',
+  roles: ['admin'],
+  country: 'US',
+  locale: 'en-US',
+  timezone: 'America/New_York',
+  device: 'desktop',
+  permissions: ['read'],
+  featureFlags: { demo: true },
+};
+
+const tiers = ['bronze', 'silver', 'gold', 'platinum'];
+
+// Pricing-style rule set: every rule keys on one SKU, so only a handful match any given order.
+function buildRules(count: number): Rule[] {
+  return Array.from({ length: count }, (_, index) => ({
+    ruleId: `PRICE_${index}`,
+    priority: index % 50,
+    scope: index % 3 === 0 ? { countries: ['US'] } : index % 3 === 1 ? { countries: ['DE'] } : undefined,
+    when: {
+      all: [
+        { op: 'eq', left: { path: 'data.sku' }, right: { value: `SKU-${index % 500}` } },
+        { op: 'eq', left: { path: 'data.tier' }, right: { value: tiers[index % tiers.length] } },
+        { op: 'gte', left: { path: 'data.quantity' }, right: { value: index % 10 } },
+      ],
+    },
+    actions: [{ type: 'setField', path: `data.price.${index}`, value: index }],
+  }));
+}
+
+const options = { timeoutMs: 60000, maxRules: 10000, maxDepth: 10, memoizeConditionEvaluations: false };
+
+function buildData(iteration: number): Record<string, JSONValue> {
+  return { sku: `SKU-${iteration % 500}`, tier: tiers[iteration % tiers.length] ?? 'bronze', quantity: 5, price: {} };
+}
+
+function runScenario(name: string, iterations: number, evaluate: (data: Record<string, JSONValue>) => number): number {
+  let matched = 0;
+  const started = performance.now();
+  for (let iteration = 0; iteration < iterations; iteration += 1) {
+    matched += evaluate(buildData(iteration));
+  }
+  const durationMs = performance.now() - started;
+  process.stdout.write(
+    `${name.padEnd(18)} duration=${durationMs.toFixed(2)}ms perEval=${(durationMs / iterations).toFixed(3)}ms matched=${matched}\n`,
+  );
+  return durationMs;
+}
+
+function main(): void {
+  const rules = buildRules(5000);
+  const iterations = 50;
+  process.stdout.write(`compiled rule set benchmark (5k rules, ${iterations} evaluations)\n`);
+
+  const compileStarted = performance.now();
+  const compiled = compileRuleSet(rules);
+  process.stdout.write(
+    `compile            duration=${(performance.now() - compileStarted).toFixed(2)}ms indexedRules=${compiled.stats.indexedRules} scopeBuckets=${compiled.stats.scopeBuckets}\n`,
+  );
+
+  const interpreted = runScenario('interpreted', iterations, (data) =>
+    evaluateRules({ rules, context, data, options }).trace.rulesMatched.length,
+  );
+  const explained = runScenario('compiled-explain', iterations, (data) =>
+    compiled.evaluate({ context, data, options }).trace.rulesMatched.length,
+  );
+  const fast = runScenario('compiled-fast', iterations, (data) =>
+    compiled.evaluate({ context, data, options: { ...options, explain: false } }).trace.rulesMatched.length,
+  );
+  process.stdout.write(
+    `speedup            explain=${(interpreted / explained).toFixed(2)}x fast=${(interpreted / fast).toFixed(2)}x\n`,
+  );
+}
+
+main();
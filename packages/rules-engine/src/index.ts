@@ -1,12 +1,17 @@
 ﻿import type {
+  EveryCondition,
   ExecutionContext,
   JSONValue,
+  NoneCondition,
+  QuantifierClause,
   Rule,
   RuleAction,
   RuleCondition,
   RuleOperand,
   RuleSet,
   RuleScope,
+  RuleTestCase,
+  SomeCondition,
 } from '@platform/schema';
 import {
   emitBusinessMetric,
@@ -15,6 +20,8 @@ import {
   type ExplainOperand,
   type RuleActionDiff,
   type RuleRead,
+  type RulesAgendaEntryTrace,
+  type RulesSkipTrace,
   type RulesTrace,
   type TraceLogger,
 } from '@platform/observability';
@@ -29,7 +36,14 @@ export interface EvaluateRulesInput {
     maxDepth?: number;
     memoizeConditionEvaluations?: boolean;
     memoCacheSize?: number;
-    mode?: 'apply' | 'predicate';
+    mode?: 'apply' | 'predicate' | 'chain';
+    maxChainIterations?: number;
+    conflictResolution?: string;
+    /**
+     * Instant (ISO string or epoch ms) used to pick the version of each `ruleId` whose
+     * `effectiveFrom`/`effectiveTo` window contains it. Defaults to the start of the evaluation.
+     */
+    asOf?: string | number;
     correlationId?: string;
     versionId?: string;
     logTrace?: boolean;
@@ -44,10 +58,60 @@ export interface EvaluateRulesResult {
   trace: RulesTrace;
 }
 
+export interface CompiledRuleSetEvaluateInput extends Omit<EvaluateRulesInput, 'rules' | 'options'> {
+  options?: EvaluateRulesInput['options'] & {
+    /**
+     * `false` leaves `trace.conditionExplains` out, which lets the equality index reject rules and
+     * compiled conditions run without building explain trees. Defaults to `true`.
+     */
+    explain?: boolean;
+  };
+}
+
+export interface CompiledRuleSetStats {
+  rules: number;
+  /** Rules with a conjunctive `eq` test against a literal that the discrimination index can reject. */
+  indexedRules: number;
+  indexedPaths: string[];
+  scopeBuckets: number;
+  /** Rules whose condition runs as a compiled closure; the rest (quantifiers, custom operators) are interpreted. */
+  compiledConditions: number;
+}
+
+export interface CompiledRuleSet {
+  stats: CompiledRuleSetStats;
+  evaluate(input: CompiledRuleSetEvaluateInput): EvaluateRulesResult;
+}
+
+export interface RuleTestDiff {
+  /** `matchedRuleIds`, `errors`, or a `data.*` path. */
+  path: string;
+  expected: JSONValue | undefined;
+  actual: JSONValue | undefined;
+}
+
+export interface RuleTestCaseResult {
+  id: string;
+  description?: string;
+  passed: boolean;
+  durationMs: number;
+  matchedRuleIds: string[];
+  errors: string[];
+  diffs: RuleTestDiff[];
+}
+
+export interface RuleTestSuiteResult {
+  passed: boolean;
+  total: number;
+  failed: number;
+  results: RuleTestCaseResult[];
+}
+
 export interface RulesEngineLimits {
   timeoutMs: number;
   maxRules: number;
   maxDepth: number;
+  maxChainIterations: number;
 }
 
 export interface RulesEngineActionPolicy {
@@ -65,6 +129,17 @@ export interface RulesEngineConfig {
   limits?: Partial<RulesEngineLimits>;
   actionPolicy?: Partial<RulesEngineActionPolicy>;
   performance?: Partial<RulesEnginePerformancePolicy>;
+  conflictResolution?: string;
+}
+
+export interface RuleAgendaEntry extends RulesAgendaEntryTrace {
+  rule: Rule;
+}
+
+export interface ConflictResolutionStrategy {
+  compare: (a: RuleAgendaEntry, b: RuleAgendaEntry) => number;
+  /** When true, only the first matched rule of each group fires. */
+  exclusiveGroups?: boolean;
 }
 
 export interface RuleActionHandlerContext {
@@ -79,21 +154,177 @@ export type RuleActionHandler = (
   ctx: RuleActionHandlerContext,
 ) => void;
 
+export interface AsyncRuleActionHandlerContext extends RuleActionHandlerContext {
+  /** Aborted when the evaluation's `timeoutMs` budget runs out while the handler is pending. */
+  signal: AbortSignal;
+}
+
+/** Only `evaluateRulesAsync` awaits these; `evaluateRules` reports the action as an error. */
+export type AsyncRuleActionHandler = (action: RuleAction, ctx: AsyncRuleActionHandlerContext) => Promise<void>;
+
+export interface RuleLookupContext {
+  context: ExecutionContext;
+  data: Record<string, JSONValue>;
+  ruleId: string;
+  /** Aborted when the call exceeds the lookup's `timeoutMs` or the evaluation's remaining budget. */
+  signal: AbortSignal;
+}
+
+export interface RuleLookupDefinition {
+  resolve: (key: JSONValue | undefined, ctx: RuleLookupContext) => Promise<JSONValue | undefined>;
+  /** Per-call limit; the remaining `RulesEngineLimits.timeoutMs` budget of the evaluation always applies too. */
+  timeoutMs?: number;
+  /**
+   * Keeps results across evaluations for this long, keyed by tenant and key. Within one evaluation
+   * each tenant/key pair is resolved once regardless.
+   */
+  cacheTtlMs?: number;
+  /** Entries kept by the cross-evaluation cache. Defaults to 256. */
+  cacheSize?: number;
+}
+
+export interface RuleOperatorContext {
+  data: Record<string, JSONValue>;
+  context: ExecutionContext;
+}
+
+export interface RuleOperatorDefinition {
+  /** 1 = left operand only, 2 = left and right operands. */
+  arity: 1 | 2;
+  evaluate: (left: JSONValue | undefined, right: JSONValue | undefined, ctx: RuleOperatorContext) => boolean;
+  /** Optional human-readable detail recorded on the compare node of ConditionExplain. */
+  explain?: (left: JSONValue | undefined, right: JSONValue | undefined, result: boolean) => string;
+  label?: string;
+}
+
+export interface RuleOperatorDescriptor {
+  name: string;
+  arity: 1 | 2;
+  label: string;
+  builtIn: boolean;
+}
+
+/**
+ * Compiled computed binding: a literal, a `$path` read or a `$transform` call whose arguments
+ * are themselves binding expressions. `$path` is always prefixed with `data.`, `context.` or
+ * `computed.` (a sibling entry of the same `bindings.computed` map).
+ */
+export type BindingExpression =
+  | string
+  | number
+  | boolean
+  | null
+  | { $path: string }
+  | { $transform: string; args: BindingExpression[] };
+
+export class BindingExpressionError extends Error {
+  constructor(
+    message: string,
+    readonly offset: number,
+  ) {
+    super(`${message} at column ${offset + 1}`);
+    this.name = 'BindingExpressionError';
+  }
+}
+
+export interface ComputedBindingValue {
+  value: JSONValue | undefined;
+  /** Normalized path when the expression is a single read, otherwise the trimmed source. */
+  path: string;
+  /** Paths the value was computed from, e.g. `data.principal` or `computed.monthly`. */
+  dependencies: string[];
+  /** Parse error or cycle that left the value undefined. */
+  error?: string;
+}
+
+export interface ComputedBindingEvaluatorStats {
+  evaluations: number;
+  cacheHits: number;
+}
+
+export interface ComputedBindingEvaluator {
+  evaluate(
+    computed: Record<string, string>,
+    data: Record<string, JSONValue>,
+    context: ExecutionContext,
+  ): Record<string, ComputedBindingValue>;
+  stats(): ComputedBindingEvaluatorStats;
+}
+
 const DEFAULT_TIMEOUT_MS = 50;
 const DEFAULT_MAX_RULES = 1000;
 const DEFAULT_MAX_DEPTH = 10;
+const DEFAULT_MAX_CHAIN_ITERATIONS = 10;
 const DEFAULT_PATH_CACHE_SIZE = 500;
 const DEFAULT_CONDITION_MEMO_SIZE = 2048;
+const DEFAULT_COMPUTED_BINDING_CACHE_SIZE = 500;
+const MAX_TRANSFORM_ARGS = 8;
+const MAX_BINDING_EXPRESSION_LENGTH = 2000;
+// A whole binding written as one path, e.g. `data.customer-name`; such sources were plain reads
+// before expressions existed, so hyphens inside segments are part of the key, not subtraction.
+const PLAIN_BINDING_PATH_PATTERN = /^[A-Za-z_$][\w$-]*(?:\.[\w$-]+|\[\d+\])*$/;
+const MAX_BINDING_EXPRESSION_DEPTH = 32;
+// Transforms callable by name from binding expressions; `plus` backs the `+` operator.
+const BINDING_EXPRESSION_FUNCTIONS = new Set([
+  'add',
+  'subtract',
+  'multiply',
+  'divide',
+  'mod',
+  'abs',
+  'round',
+  'floor',
+  'ceil',
+  'trim',
+  'lower',
+  'upper',
+  'concat',
+  'plus',
+  'plusDays',
+]);
+const DEFAULT_CONFLICT_RESOLUTION = 'priority-salience';
+const DEFAULT_RULE_GROUP = 'default';
+const ITEM_PATH = '$item';
+
+interface ConditionScope {
+  maxDepth: number;
+  deadline?: number;
+  timeoutMs?: number;
+  /** Current element while evaluating the body of a some/every/none quantifier. */
+  item?: { value: JSONValue };
+  /** Lookup results by `lookupId`; only set by `evaluateRulesAsync`. */
+  lookups?: Map<string, ResolvedLookup>;
+}
+
+interface ResolvedLookup {
+  value: JSONValue | undefined;
+  cached: boolean;
+  durationMs: number;
+}
+
+interface RegisteredLookup {
+  definition: RuleLookupDefinition;
+  cache: LruCache<string, { value: JSONValue | undefined; expiresAt: number }> | null;
+}
+
+/** Per-evaluation state for `evaluateRulesAsync`: lookup calls already started, by `lookupId`. */
+interface AsyncRulesSession {
+  lookupCalls: Map<string, Promise<ResolvedLookup>>;
+}
+
+type RulesRun<T> = Generator<Promise<unknown>, T, unknown>;
 
 const DEFAULT_RULES_ENGINE_CONFIG: Readonly<{
   limits: RulesEngineLimits;
   actionPolicy: RulesEngineActionPolicy;
   performance: RulesEnginePerformancePolicy;
+  conflictResolution: string;
 }> = {
   limits: {
     timeoutMs: DEFAULT_TIMEOUT_MS,
     maxRules: DEFAULT_MAX_RULES,
     maxDepth: DEFAULT_MAX_DEPTH,
+    maxChainIterations: DEFAULT_MAX_CHAIN_ITERATIONS,
   },
   actionPolicy: {
     allowCustomActions: false,
@@ -104,12 +335,207 @@ const DEFAULT_RULES_ENGINE_CONFIG: Readonly<{
     conditionMemoSize: DEFAULT_CONDITION_MEMO_SIZE,
     memoizeConditionEvaluations: true,
   },
+  conflictResolution: DEFAULT_CONFLICT_RESOLUTION,
+};
+
+const BUILT_IN_ACTION_TYPES = new Set<string>([
+  'setField',
+  'setContext',
+  'removeField',
+  'addItem',
+  'mapField',
+  'throwError',
+  'emitEvent',
+]);
+
+const comparePriorityThenSalience = (a: RuleAgendaEntry, b: RuleAgendaEntry): number => {
+  const priorityDiff = b.priority - a.priority;
+  if (priorityDiff !== 0) return priorityDiff;
+  const salienceDiff = b.salience - a.salience;
+  if (salienceDiff !== 0) return salienceDiff;
+  return a.ruleId.localeCompare(b.ruleId);
+};
+
+const BUILT_IN_CONFLICT_RESOLUTION_STRATEGIES: Record<string, ConflictResolutionStrategy> = {
+  'priority-salience': { compare: comparePriorityThenSalience },
+  'first-match': { compare: comparePriorityThenSalience, exclusiveGroups: true },
+  specificity: {
+    compare: (a, b) => {
+      const specificityDiff = b.specificity - a.specificity;
+      if (specificityDiff !== 0) return specificityDiff;
+      return comparePriorityThenSalience(a, b);
+    },
+    exclusiveGroups: true,
+  },
+};
+
+const CORE_RULE_OPERATORS: ReadonlyArray<{ name: string; arity: 1 | 2; label: string }> = [
+  { name: 'eq', arity: 2, label: 'Equals' },
+  { name: 'neq', arity: 2, label: 'Not equals' },
+  { name: 'gt', arity: 2, label: 'Greater than' },
+  { name: 'gte', arity: 2, label: 'Greater or equal' },
+  { name: 'lt', arity: 2, label: 'Less than' },
+  { name: 'lte', arity: 2, label: 'Less or equal' },
+  { name: 'before', arity: 2, label: 'Before' },
+  { name: 'after', arity: 2, label: 'After' },
+  { name: 'on', arity: 2, label: 'On' },
+  { name: 'plusDays', arity: 2, label: 'Plus days' },
+  { name: 'dateEq', arity: 2, label: 'Date equals' },
+  { name: 'dateBefore', arity: 2, label: 'Date before' },
+  { name: 'dateAfter', arity: 2, label: 'Date after' },
+  { name: 'dateBetween', arity: 2, label: 'Date between' },
+  { name: 'in', arity: 2, label: 'In list' },
+  { name: 'contains', arity: 2, label: 'Contains' },
+  { name: 'startsWith', arity: 2, label: 'Starts with' },
+  { name: 'endsWith', arity: 2, label: 'Ends with' },
+  { name: 'exists', arity: 1, label: 'Exists' },
+];
+
+const DEFAULT_FUZZY_THRESHOLD = 0.8;
+const DEFAULT_LOOKUP_CACHE_SIZE = 256;
+const MAX_REGEX_PATTERN_LENGTH = 256;
+const MAX_REGEX_SUBJECT_LENGTH = 1000;
+
+const BUILT_IN_RULE_OPERATORS: Record<string, RuleOperatorDefinition> = {
+  matchesRegex: {
+    arity: 2,
+    label: 'Matches regex',
+    evaluate: (left, right) => {
+      const pattern = toRegExp(right);
+      return (
+        typeof left === 'string' && left.length <= MAX_REGEX_SUBJECT_LENGTH && pattern !== null && pattern.test(left)
+      );
+    },
+    explain: (_left, right) => {
+      const pattern = toRegExp(right);
+      return pattern ? `pattern ${String(pattern)}` : 'invalid or unsafe pattern';
+    },
+  },
+  between: {
+    arity: 2,
+    label: 'Between',
+    evaluate: (left, right) => {
+      const range = toNumberRange(right);
+      return typeof left === 'number' && range !== null && left >= range[0] && left <= range[1];
+    },
+    explain: (_left, right) => {
+      const range = toNumberRange(right);
+      return range ? `inclusive range [${range[0]}, ${range[1]}]` : 'right operand must be [min, max]';
+    },
+  },
+  lengthGt: {
+    arity: 2,
+    label: 'Length greater than',
+    evaluate: (left, right) => {
+      const length = lengthOf(left);
+      return length !== null && typeof right === 'number' && length > right;
+    },
+    explain: (left) => `length ${lengthOf(left) ?? 'n/a'}`,
+  },
+  isEmpty: {
+    arity: 1,
+    label: 'Is empty',
+    evaluate: (left) => isEmptyValue(left),
+  },
+  anyOf: {
+    arity: 2,
+    label: 'Any of',
+    evaluate: (left, right) =>
+      Array.isArray(right) && toArray(left).some((item) => right.some((candidate) => deepEqual(item, candidate))),
+  },
+  allOf: {
+    arity: 2,
+    label: 'All of',
+    evaluate: (left, right) =>
+      Array.isArray(left) && Array.isArray(right) && right.every((item) => left.some((candidate) => deepEqual(item, candidate))),
+  },
+  validIban: {
+    arity: 1,
+    label: 'Valid IBAN',
+    evaluate: (left) => typeof left === 'string' && isValidIban(left),
+  },
+  validLuhn: {
+    arity: 1,
+    label: 'Passes Luhn check',
+    evaluate: (left) => (typeof left === 'string' || typeof left === 'number') && passesLuhn(String(left)),
+  },
+  fuzzyMatch: {
+    arity: 2,
+    label: 'Fuzzy match',
+    evaluate: (left, right) => {
+      const target = toFuzzyTarget(right);
+      return typeof left === 'string' && target !== null && similarity(left, target.value) >= target.threshold;
+    },
+    explain: (left, right) => {
+      const target = toFuzzyTarget(right);
+      if (typeof left !== 'string' || !target) return 'fuzzyMatch requires string operands';
+      return `similarity ${similarity(left, target.value).toFixed(2)} (threshold ${target.threshold})`;
+    },
+  },
 };
 
 let configuredRulesEngine: RulesEngineConfig = {};
 const customActionHandlers = new Map<string, RuleActionHandler>();
+const asyncActionHandlers = new Map<string, AsyncRuleActionHandler>();
+const ruleLookups = new Map<string, RegisteredLookup>();
+const conflictResolutionStrategies = new Map<string, ConflictResolutionStrategy>(
+  Object.entries(BUILT_IN_CONFLICT_RESOLUTION_STRATEGIES),
+);
+const ruleOperators = new Map<string, RuleOperatorDefinition>(Object.entries(BUILT_IN_RULE_OPERATORS));
 
 export function evaluateRules(input: EvaluateRulesInput): EvaluateRulesResult {
+  return runRules(input);
+}
+
+/**
+ * `evaluateRules` for rule sets that use lookup operands or async action handlers. Lookups a
+ * condition needs are resolved before the condition runs, so `conditionExplains` and
+ * `readsByRuleId` show the values it saw; a failed or timed-out lookup is an error of that rule.
+ */
+export async function evaluateRulesAsync(input: EvaluateRulesInput): Promise<EvaluateRulesResult> {
+  const run = runRulesSteps(input, undefined, { lookupCalls: new Map() });
+  let step = run.next();
+  while (!step.done) {
+    const settled = await step.value.then(
+      (value) => ({ ok: true as const, value }),
+      (error: unknown) => ({ ok: false as const, error }),
+    );
+    step = settled.ok ? run.next(settled.value) : run.throw(settled.error);
+  }
+  return step.value;
+}
+
+/**
+ * Precomputes what `evaluateRules` derives on every call: agenda order per conflict strategy,
+ * scope buckets, condition memo keys, an index of conjunctive equality tests and compiled
+ * condition closures. The rules must not be mutated after compiling.
+ */
+export function compileRuleSet(rules: Rule[] | RuleSet): CompiledRuleSet {
+  const index = new CompiledRuleIndex(Array.isArray(rules) ? rules : rules.rules);
+  return {
+    stats: index.stats(),
+    evaluate: (input) =>
+      runRules({ ...input, rules }, { index, explain: input.options?.explain ?? true }),
+  };
+}
+
+function runRules(
+  input: EvaluateRulesInput,
+  compiled?: { index: CompiledRuleIndex; explain: boolean },
+): EvaluateRulesResult {
+  const step = runRulesSteps(input, compiled).next();
+  if (!step.done) {
+    throw new Error('Synchronous rule evaluation cannot wait for lookups or async actions');
+  }
+  return step.value;
+}
+
+// Yields a promise wherever async work is needed; without a session it never yields.
+function* runRulesSteps(
+  input: EvaluateRulesInput,
+  compiled?: { index: CompiledRuleIndex; explain: boolean },
+  session?: AsyncRulesSession,
+): RulesRun<EvaluateRulesResult> {
   const started = Date.now();
   const rulesArray = Array.isArray(input.rules) ? input.rules : input.rules.rules;
   const runtimeConfig = resolveRulesEngineConfig();
@@ -121,6 +547,7 @@ export function evaluateRules(input: EvaluateRulesInput): EvaluateRulesResult {
     input.options?.memoizeConditionEvaluations ?? runtimeConfig.performance.memoizeConditionEvaluations;
   const memoCacheSize = input.options?.memoCacheSize ?? runtimeConfig.performance.conditionMemoSize;
   const mode = input.options?.mode ?? 'apply';
+  const maxChainIterations = input.options?.maxChainIterations ?? runtimeConfig.limits.maxChainIterations;
   const conditionMemo = memoizeConditionEvaluations
     ? new LruCache<string, { result: boolean; explain: ConditionExplain; reads: RuleRead[] }>(memoCacheSize)
     : null;
@@ -132,7 +559,7 @@ export function evaluateRules(input: EvaluateRulesInput): EvaluateRulesResult {
     rulesConsidered: [],
     rulesMatched: [],
     conditionResults: {},
-    conditionExplains: {},
+    ...(compiled?.explain === false ? {} : { conditionExplains: {} }),
     readsByRuleId: {},
     actionDiffs: [],
     actionsApplied: [],
@@ -146,70 +573,232 @@ export function evaluateRules(input: EvaluateRulesInput): EvaluateRulesResult {
     },
   };
 
+  let asOfMs = started;
+  if (input.options?.asOf !== undefined) {
+    const parsed = typeof input.options.asOf === 'number' ? input.options.asOf : Date.parse(input.options.asOf);
+    if (Number.isFinite(parsed)) {
+      asOfMs = parsed;
+      trace.asOf = new Date(parsed).toISOString();
+    } else {
+      trace.errors.push({ message: `Invalid asOf: ${String(input.options.asOf)}, using the evaluation start time` });
+    }
+  }
+
   const data = deepClone(input.data);
   const context = deepClone(input.context);
 
-  const scoped = rulesArray.filter((rule) => matchesScope(rule.scope, context));
-  const sorted = scoped.sort((a, b) => {
-    const priorityDiff = (b.priority ?? 0) - (a.priority ?? 0);
-    if (priorityDiff !== 0) return priorityDiff;
-    return a.ruleId.localeCompare(b.ruleId);
-  });
+  const strategyName = input.options?.conflictResolution ?? runtimeConfig.conflictResolution;
+  let strategy = conflictResolutionStrategies.get(strategyName);
+  if (!strategy) {
+    trace.errors.push({
+      message: `Unknown conflict resolution strategy: ${strategyName}, using ${DEFAULT_CONFLICT_RESOLUTION}`,
+    });
+    strategy = BUILT_IN_CONFLICT_RESOLUTION_STRATEGIES[DEFAULT_CONFLICT_RESOLUTION]!;
+  }
+  const groupPolicies = Array.isArray(input.rules) ? undefined : input.rules.groups;
+  const skippedRuleIds = new Set<string>();
+  const conflictResolution: NonNullable<RulesTrace['conflictResolution']> = {
+    strategy: conflictResolutionStrategies.has(strategyName) ? strategyName : DEFAULT_CONFLICT_RESOLUTION,
+    order: [],
+    skipped: [],
+  };
+  trace.conflictResolution = conflictResolution;
+
+  const agenda = compiled
+    ? compiled.index.agenda(strategy, context, conflictResolution.skipped, asOfMs)
+    : buildAgenda(rulesArray, strategy, context, conflictResolution.skipped, asOfMs);
+  const matcher = compiled && !compiled.explain ? compiled.index.createMatcher() : undefined;
+  const sorted = agenda.map((entry) => entry.rule);
+  conflictResolution.order = agenda.map((entry) => ({
+    ruleId: entry.ruleId,
+    group: entry.group,
+    priority: entry.priority,
+    salience: entry.salience,
+    specificity: entry.specificity,
+  }));
+
+  const isExclusiveGroup = (group: string): boolean =>
+    strategy.exclusiveGroups === true || groupPolicies?.[group]?.exclusive === true;
+  const firedByGroup = new Map<string, string>();
 
   trace.rulesConsidered = sorted.map((rule) => rule.ruleId);
 
-  for (let i = 0; i < sorted.length; i += 1) {
-    if (i >= maxRules) {
-      trace.errors.push({ message: `Max rules limit reached: ${maxRules}` });
-      break;
-    }
-    if (Date.now() - started > timeoutMs) {
-      trace.errors.push({ message: `Rules evaluation timeout after ${timeoutMs}ms` });
-      break;
+  // Rules whose recorded reads overlap a path written since their last evaluation.
+  const dirty = new Set<string>();
+  // Chain-mode refraction: rules that fired and still match, keyed to the paths they matched on.
+  // A rule fires again only after its condition turned false or once it matches on other paths.
+  const fired = new Map<string, string>();
+  const rulesById = new Map(sorted.map((rule) => [rule.ruleId, rule]));
+  const refreshRefraction = (written: string[]): void => {
+    for (const ruleId of Array.from(fired.keys())) {
+      const rule = rulesById.get(ruleId);
+      const reads = trace.readsByRuleId![ruleId] ?? [];
+      if (!rule || !readsOverlap(reads, written)) continue;
+      try {
+        const scope: ConditionScope = { maxDepth, deadline: started + timeoutMs, timeoutMs };
+        if (!evaluateConditionExplain(rule.when, context, data, scope).result) fired.delete(ruleId);
+      } catch {
+        // Lookups are not resolved here; the rule stays refracted until it is evaluated again.
+      }
     }
+  };
+  const matchedRuleIds = new Set<string>();
+  let halted = false;
+
+  const runPass = function* (
+    rules: Rule[],
+  ): RulesRun<{ rulesEvaluated: string[]; rulesMatched: string[]; changedPaths: string[] }> {
+    const rulesEvaluated: string[] = [];
+    const rulesMatched: string[] = [];
+    const changedPaths = new Set<string>();
+    for (let i = 0; i < rules.length; i += 1) {
+      if (i >= maxRules) {
+        trace.errors.push({ message: `Max rules limit reached: ${maxRules}` });
+        halted = true;
+        break;
+      }
+      if (Date.now() - started > timeoutMs) {
+        trace.errors.push({ message: `Rules evaluation timeout after ${timeoutMs}ms` });
+        halted = true;
+        break;
+      }
 
-    const rule = sorted[i];
-    if (!rule) continue;
-    try {
-      const memoKey = conditionMemo ? `${mutationEpoch}:${stableSerialize(rule.when)}` : '';
-      const cached = conditionMemo ? conditionMemo.get(memoKey) : undefined;
-      const explained = cached
-        ? {
-            result: cached.result,
-            explain: deepClone(cached.explain),
-            reads: deepClone(cached.reads),
-          }
-        : evaluateConditionExplain(rule.when, context, data, { maxDepth });
-      if (!cached && conditionMemo) {
-        conditionMemo.set(memoKey, {
-          result: explained.result,
-          explain: deepClone(explained.explain),
-          reads: deepClone(explained.reads),
-        });
+      const rule = rules[i];
+      if (!rule) continue;
+      dirty.delete(rule.ruleId);
+      const group = rule.group ?? DEFAULT_RULE_GROUP;
+      const exclusive = isExclusiveGroup(group);
+      const resolvedBy = exclusive ? firedByGroup.get(group) : undefined;
+      if (resolvedBy !== undefined && resolvedBy !== rule.ruleId) {
+        if (!skippedRuleIds.has(rule.ruleId)) {
+          skippedRuleIds.add(rule.ruleId);
+          conflictResolution.skipped.push({ ruleId: rule.ruleId, reason: 'group_resolved', group, resolvedBy });
+        }
+        continue;
       }
-      trace.conditionResults[rule.ruleId] = explained.result;
-      trace.conditionExplains![rule.ruleId] = explained.explain;
-      trace.readsByRuleId![rule.ruleId] = explained.reads;
-      if (explained.result) {
-        trace.rulesMatched.push(rule.ruleId);
-        if (mode === 'apply') {
-          const actions = rule.actions ?? [];
-          let hadMutatingAction = false;
-          for (const action of actions) {
-            applyAction(action, { data, context, trace, ruleId: rule.ruleId }, runtimeConfig.actionPolicy);
-            hadMutatingAction = true;
+      rulesEvaluated.push(rule.ruleId);
+      try {
+        const conditionScope: ConditionScope = { maxDepth, deadline: started + timeoutMs, timeoutMs };
+        if (session) {
+          conditionScope.lookups = (yield resolveConditionLookups(
+            rule.when,
+            context,
+            data,
+            conditionScope,
+            rule.ruleId,
+            session,
+          )) as Map<string, ResolvedLookup>;
+        }
+        // Memo keys do not cover lookup results.
+        const memo = conditionScope.lookups?.size ? null : conditionMemo;
+        let explained: { result: boolean; explain?: ConditionExplain; reads: RuleRead[] };
+        if (matcher) {
+          explained = matcher(rule, context, data, conditionScope, mutationEpoch);
+        } else {
+          const memoKey = memo
+            ? `${mutationEpoch}:${compiled?.index.conditionKey(rule) ?? stableSerialize(rule.when)}`
+            : '';
+          const cached = memo ? memo.get(memoKey) : undefined;
+          const evaluated = cached
+            ? {
+                result: cached.result,
+                explain: deepClone(cached.explain),
+                reads: deepClone(cached.reads),
+              }
+            : evaluateConditionExplain(rule.when, context, data, conditionScope);
+          if (!cached && memo) {
+            memo.set(memoKey, {
+              result: evaluated.result,
+              explain: deepClone(evaluated.explain),
+              reads: deepClone(evaluated.reads),
+            });
+          }
+          explained = evaluated;
+        }
+        trace.conditionResults[rule.ruleId] = explained.result;
+        if (trace.conditionExplains && explained.explain) {
+          trace.conditionExplains[rule.ruleId] = explained.explain;
+        }
+        trace.readsByRuleId![rule.ruleId] = explained.reads;
+        if (explained.result) {
+          if (exclusive && !firedByGroup.has(group)) {
+            firedByGroup.set(group, rule.ruleId);
           }
-          if (hadMutatingAction) {
-            mutationEpoch += 1;
+          rulesMatched.push(rule.ruleId);
+          if (!matchedRuleIds.has(rule.ruleId)) {
+            matchedRuleIds.add(rule.ruleId);
+            trace.rulesMatched.push(rule.ruleId);
           }
+          let refracted = false;
+          if (mode === 'chain') {
+            const factKey = toFactKey(explained.reads);
+            refracted = fired.get(rule.ruleId) === factKey;
+            fired.set(rule.ruleId, factKey);
+          }
+          if (mode !== 'predicate' && !refracted) {
+            const actions = rule.actions ?? [];
+            const diffStart = trace.actionDiffs?.length ?? 0;
+            let hadMutatingAction = false;
+            let hadCustomAction = false;
+            for (const action of actions) {
+              const pending = applyAction(
+                action,
+                { data, context, trace, ruleId: rule.ruleId },
+                runtimeConfig.actionPolicy,
+                session ? started + timeoutMs : undefined,
+              );
+              if (pending) yield pending;
+              hadMutatingAction = true;
+              if (!BUILT_IN_ACTION_TYPES.has(action.type)) {
+                hadCustomAction = true;
+              }
+            }
+            if (hadMutatingAction) {
+              mutationEpoch += 1;
+            }
+            if (mode === 'chain') {
+              const written = collectChangedPaths(trace.actionDiffs?.slice(diffStart) ?? []);
+              if (hadCustomAction) {
+                // Custom handlers mutate without diffs, so every rule has to be re-checked.
+                written.push('*');
+              }
+              for (const path of written) changedPaths.add(path);
+              markDirtyRules(sorted, trace.readsByRuleId!, written, dirty);
+              refreshRefraction(written);
+            }
+          }
+        } else {
+          fired.delete(rule.ruleId);
+        }
+      } catch (error) {
+        trace.errors.push({ ruleId: rule.ruleId, message: toErrorMessage(error) });
+        if (isThrowError(error)) {
+          halted = true;
+          break;
         }
       }
-    } catch (error) {
-      trace.errors.push({ ruleId: rule.ruleId, message: toErrorMessage(error) });
-      if (isThrowError(error)) {
+    }
+    return { rulesEvaluated, rulesMatched, changedPaths: Array.from(changedPaths) };
+  };
+
+  if (mode === 'chain') {
+    trace.passes = [];
+    let pending: Rule[] = sorted;
+    for (let pass = 1; ; pass += 1) {
+      if (pass > maxChainIterations) {
+        trace.errors.push({
+          message: `Rule chaining did not reach a fixpoint after ${maxChainIterations} passes`,
+        });
         break;
       }
+      const result = yield* runPass(pending);
+      trace.passes.push({ pass, ...result });
+      if (halted) break;
+      pending = sorted.filter((rule) => dirty.has(rule.ruleId));
+      if (pending.length === 0) break;
     }
+  } else {
+    yield* runPass(sorted);
   }
 
   trace.durationMs = Date.now() - started;
@@ -248,12 +837,16 @@ export function evaluateCondition(
   condition: RuleCondition,
   context: ExecutionContext,
   data: Record<string, JSONValue>,
-  options?: { maxDepth?: number },
+  options?: { maxDepth?: number; timeoutMs?: number },
 ): boolean {
   const runtimeConfig = resolveRulesEngineConfig();
   updatePathCacheLimit(runtimeConfig.performance.pathCacheSize);
   const maxDepth = options?.maxDepth ?? runtimeConfig.limits.maxDepth;
-  return evalCondition(condition, context, data, 0, maxDepth);
+  const timeoutMs = options?.timeoutMs;
+  return evalCondition(condition, context, data, 0, {
+    maxDepth,
+    ...(timeoutMs !== undefined ? { deadline: Date.now() + timeoutMs, timeoutMs } : {}),
+  });
 }
 
 export function createMemoizedConditionEvaluator(options?: {
@@ -273,19 +866,223 @@ export function createMemoizedConditionEvaluator(options?: {
   };
 }
 
+/**
+ * Parses a computed binding such as `principal * rate / 12` or `first + ' ' + last` into
+ * `$transform` calls. Supports number, string, `true`/`false`/`null` literals, paths
+ * (`data.` is implied), `+ - * / %`, unary minus, parentheses and the transform functions
+ * (`round(x, 2)`, `concat(a, b)`, ...). Anything else is rejected with a `BindingExpressionError`.
+ * A source that is a single path is always a plain read, so `data.customer-name` reads that key;
+ * write `total - discount` with spaces to subtract.
+ */
+export function parseBindingExpression(source: string): BindingExpression {
+  if (source.length > MAX_BINDING_EXPRESSION_LENGTH) {
+    throw new BindingExpressionError(
+      `Expression is longer than ${MAX_BINDING_EXPRESSION_LENGTH} characters`,
+      MAX_BINDING_EXPRESSION_LENGTH,
+    );
+  }
+  const trimmed = source.trim();
+  if (trimmed.includes('-') && PLAIN_BINDING_PATH_PATTERN.test(trimmed)) {
+    return { $path: normalizeExpressionPath(trimmed) };
+  }
+  return new BindingExpressionParser(source).parse();
+}
+
+/** Paths an expression reads, in first-use order. */
+export function collectBindingExpressionDependencies(expression: BindingExpression): string[] {
+  const paths = new Set<string>();
+  const visit = (node: BindingExpression) => {
+    if (node === null || typeof node !== 'object') return;
+    if ('$path' in node) {
+      paths.add(node.$path);
+      return;
+    }
+    node.args.forEach(visit);
+  };
+  visit(expression);
+  return [...paths];
+}
+
+export function evaluateBindingExpression(
+  expression: BindingExpression,
+  context: ExecutionContext,
+  data: Record<string, JSONValue>,
+  computed: Record<string, JSONValue | undefined> = {},
+): JSONValue | undefined {
+  return evalBindingExpression(expression, { context, data, computed });
+}
+
+/** Keys of `bindings.computed` entries that reference each other in a loop, one list per cycle. */
+export function findComputedBindingCycles(computed: Record<string, string>): string[][] {
+  const graph = new Map<string, string[]>();
+  for (const [key, source] of Object.entries(computed)) {
+    if (typeof source !== 'string' || source.trim().length === 0) continue;
+    try {
+      const dependencies = collectBindingExpressionDependencies(parseBindingExpression(source));
+      graph.set(key, computedKeysOf(dependencies));
+    } catch {
+      graph.set(key, []);
+    }
+  }
+  return orderComputedBindings(graph).cycles;
+}
+
+/**
+ * Evaluates `bindings.computed` maps in dependency order. Compiled expressions are cached by
+ * source, and each value is only recomputed when one of the values it reads has changed.
+ * Entries that fail to parse or sit on a cycle resolve to `undefined` with an `error`.
+ */
+export function createComputedBindingEvaluator(options?: { cacheSize?: number }): ComputedBindingEvaluator {
+  const cacheSize = options?.cacheSize ?? DEFAULT_COMPUTED_BINDING_CACHE_SIZE;
+  const compiled = new LruCache<string, CompiledBindingExpression>(cacheSize);
+  const results = new LruCache<string, { snapshot: string; value: JSONValue | undefined }>(cacheSize);
+  const stats: ComputedBindingEvaluatorStats = { evaluations: 0, cacheHits: 0 };
+
+  const compile = (source: string): CompiledBindingExpression => {
+    const cached = compiled.get(source);
+    if (cached) return cached;
+    let entry: CompiledBindingExpression;
+    try {
+      const expression = parseBindingExpression(source);
+      entry = {
+        expression,
+        path:
+          expression !== null && typeof expression === 'object' && '$path' in expression
+            ? expression.$path
+            : source,
+        dependencies: collectBindingExpressionDependencies(expression),
+      };
+    } catch (error) {
+      entry = { path: source, dependencies: [], error: toErrorMessage(error) };
+    }
+    compiled.set(source, entry);
+    return entry;
+  };
+
+  return {
+    evaluate(computed, data, context) {
+      const entries = new Map<string, CompiledBindingExpression>();
+      for (const [key, source] of Object.entries(computed)) {
+        if (typeof source !== 'string' || source.trim().length === 0) continue;
+        entries.set(key, compile(source.trim()));
+      }
+      const graph = new Map([...entries].map(([key, entry]) => [key, computedKeysOf(entry.dependencies)]));
+      const { order, cycles } = orderComputedBindings(graph);
+      const cyclic = new Map(cycles.flatMap((cycle) => cycle.map((key) => [key, cycle] as const)));
+
+      const values: Record<string, JSONValue | undefined> = {};
+      const out: Record<string, ComputedBindingValue> = {};
+      const scope: BindingExpressionScope = { context, data, computed: values };
+      for (const key of order) {
+        const entry = entries.get(key)!;
+        const cycle = cyclic.get(key);
+        if (entry.expression === undefined || cycle) {
+          const error = cycle ? `Computed binding cycle: ${[...cycle, cycle[0]].join(' -> ')}` : entry.error;
+          out[key] = { value: undefined, path: entry.path, dependencies: entry.dependencies, error };
+          continue;
+        }
+        const source = computed[key]!.trim();
+        const snapshot = stableSerialize(
+          entry.dependencies.map((path) => readBindingPath(path, scope) ?? null),
+        );
+        const previous = results.get(source);
+        let value: JSONValue | undefined;
+        if (previous && previous.snapshot === snapshot) {
+          stats.cacheHits += 1;
+          value = previous.value;
+        } else {
+          stats.evaluations += 1;
+          value = evalBindingExpression(entry.expression, scope);
+          results.set(source, { snapshot, value });
+        }
+        values[key] = value;
+        out[key] = { value, path: entry.path, dependencies: entry.dependencies };
+      }
+      return out;
+    },
+    stats: () => ({ ...stats }),
+  };
+}
+
+/**
+ * Runs golden test cases against a rule set. Each case evaluates its own copy of `data`;
+ * an exception from `evaluateRules` is reported as an error of that case.
+ */
+export function runRuleTests(
+  rules: Rule[] | RuleSet,
+  cases: RuleTestCase[],
+  options?: EvaluateRulesInput['options'],
+): RuleTestSuiteResult {
+  const results = cases.map((testCase): RuleTestCaseResult => {
+    const started = Date.now();
+    let matchedRuleIds: string[] = [];
+    let errors: string[] = [];
+    let data: Record<string, JSONValue> = {};
+    try {
+      const result = evaluateRules({
+        rules,
+        context: testCase.context,
+        data: cloneValue(testCase.data) as Record<string, JSONValue>,
+        options,
+      });
+      matchedRuleIds = result.trace.rulesMatched;
+      errors = result.trace.errors.map((error) => error.message);
+      data = result.data;
+    } catch (error) {
+      errors = [toErrorMessage(error)];
+    }
+
+    const diffs: RuleTestDiff[] = [];
+    const expected = testCase.expect;
+    if (expected.matchedRuleIds) {
+      const expectedIds = [...expected.matchedRuleIds].sort();
+      const actualIds = [...matchedRuleIds].sort();
+      if (!deepEqual(expectedIds, actualIds)) {
+        diffs.push({ path: 'matchedRuleIds', expected: expectedIds, actual: actualIds });
+      }
+    }
+    if (expected.data) {
+      collectRuleTestDataDiffs(expected.data, data, 'data', diffs);
+    }
+    // Unexpected errors fail a case even when `expect.errors` is omitted.
+    const expectedErrors = expected.errors ?? [];
+    if (!deepEqual(expectedErrors, errors)) {
+      diffs.push({ path: 'errors', expected: expectedErrors, actual: errors });
+    }
+
+    return {
+      id: testCase.id,
+      ...(testCase.description ? { description: testCase.description } : {}),
+      passed: diffs.length === 0,
+      durationMs: Date.now() - started,
+      matchedRuleIds,
+      errors,
+      diffs,
+    };
+  });
+
+  const failed = results.filter((result) => !result.passed).length;
+  return { passed: failed === 0, total: results.length, failed, results };
+}
+
 function evaluateConditionExplain(
   condition: RuleCondition,
   context: ExecutionContext,
   data: Record<string, JSONValue>,
-  options?: { maxDepth?: number },
+  options: Omit<ConditionScope, 'maxDepth' | 'item'> & { maxDepth?: number },
 ): { result: boolean; explain: ConditionExplain; reads: RuleRead[] } {
   const runtimeConfig = resolveRulesEngineConfig();
-  const maxDepth = options?.maxDepth ?? runtimeConfig.limits.maxDepth;
+  const maxDepth = options.maxDepth ?? runtimeConfig.limits.maxDepth;
   const reads: RuleRead[] = [];
-  const explain = evalConditionExplain(condition, context, data, reads, 0, maxDepth);
+  const explain = evalConditionExplain(condition, context, data, reads, 0, {
+    maxDepth,
+    deadline: options.deadline,
+    timeoutMs: options.timeoutMs,
+    lookups: options.lookups,
+  });
   const deduped = new Map<string, RuleRead>();
   for (const read of reads) {
-    deduped.set(read.path, read);
+    deduped.set(read.lookup ? lookupId(read.lookup.name, read.lookup.key) : read.path, read);
   }
   return { result: explain.result, explain, reads: Array.from(deduped.values()) };
 }
@@ -296,31 +1093,46 @@ function evalConditionExplain(
   data: Record<string, JSONValue>,
   reads: RuleRead[],
   depth: number,
-  maxDepth: number,
+  scope: ConditionScope,
 ): ConditionExplain {
-  if (depth > maxDepth) {
-    throw new Error(`Max condition depth exceeded: ${maxDepth}`);
+  if (depth > scope.maxDepth) {
+    throw new Error(`Max condition depth exceeded: ${scope.maxDepth}`);
   }
 
   if ('all' in condition) {
-    const children = condition.all.map((child) => evalConditionExplain(child, context, data, reads, depth + 1, maxDepth));
+    const children = condition.all.map((child) => evalConditionExplain(child, context, data, reads, depth + 1, scope));
     const result = children.every((child) => child.result);
     return { kind: 'all', result, children };
   }
 
   if ('any' in condition) {
-    const children = condition.any.map((child) => evalConditionExplain(child, context, data, reads, depth + 1, maxDepth));
+    const children = condition.any.map((child) => evalConditionExplain(child, context, data, reads, depth + 1, scope));
     const result = children.some((child) => child.result);
     return { kind: 'any', result, children };
   }
 
   if ('not' in condition) {
-    const child = evalConditionExplain(condition.not, context, data, reads, depth + 1, maxDepth);
+    const child = evalConditionExplain(condition.not, context, data, reads, depth + 1, scope);
     return { kind: 'not', result: !child.result, child };
   }
 
-  const left = resolveOperandExplain(condition.left, context, data, reads);
-  const right = condition.right ? resolveOperandExplain(condition.right, context, data, reads) : undefined;
+  if ('some' in condition || 'every' in condition || 'none' in condition) {
+    const quantifier = toQuantifier(condition);
+    const collection = resolveOperandExplain({ path: quantifier.clause.path }, context, data, reads, scope);
+    const elements = asCollection(collection.value).map((item, index) => {
+      assertWithinDeadline(scope);
+      const explain = evalConditionExplain(quantifier.clause.when, context, data, reads, depth + 1, {
+        ...scope,
+        item: { value: item },
+      });
+      return { index, result: explain.result, explain };
+    });
+    const result = quantify(quantifier.kind, elements.map((element) => element.result));
+    return { kind: quantifier.kind, result, path: quantifier.clause.path, elements };
+  }
+
+  const left = resolveOperandExplain(condition.left, context, data, reads, scope);
+  const right = condition.right ? resolveOperandExplain(condition.right, context, data, reads, scope) : undefined;
 
   const leftValue = left.kind === 'path' ? left.value : left.value;
   const rightValue = right ? (right.kind === 'path' ? right.value : right.value) : undefined;
@@ -353,7 +1165,7 @@ function evalConditionExplain(
     case 'dateAfter':
     case 'dateBetween':
     case 'plusDays':
-      result = compareDates(condition.op, leftValue, rightValue, context.locale);
+      result = compareDates(condition.op as DateOperator, leftValue, rightValue, context.locale);
       break;
     case 'in':
       result = Array.isArray(rightValue) && rightValue.some((item) => deepEqual(item, leftValue));
@@ -376,8 +1188,15 @@ function evalConditionExplain(
     case 'exists':
       result = leftValue !== undefined;
       break;
-    default:
-      result = false;
+    default: {
+      const operator = ruleOperators.get(condition.op);
+      if (!operator) {
+        return { kind: 'compare', result: false, op: condition.op, left, right, detail: `Unknown operator: ${condition.op}` };
+      }
+      result = operator.evaluate(leftValue, rightValue, { context, data });
+      const detail = operator.explain?.(leftValue, rightValue, result);
+      return { kind: 'compare', result, op: condition.op, left, right, ...(detail ? { detail } : {}) };
+    }
   }
 
   return { kind: 'compare', result, op: condition.op, left, right };
@@ -388,13 +1207,28 @@ function resolveOperandExplain(
   context: ExecutionContext,
   data: Record<string, JSONValue>,
   reads: RuleRead[],
+  scope: ConditionScope,
 ): ExplainOperand {
   if ('value' in operand) {
     const value = resolveDynamicValue(operand.value, context, data);
     return { kind: 'value', value: value === undefined ? null : value };
   }
+  if ('lookup' in operand) {
+    const key = resolveOperandExplain(operand.key, context, data, reads, scope).value;
+    const resolved = readLookup(operand.lookup, key, scope);
+    reads.push({
+      path: `lookup.${operand.lookup}`,
+      value: cloneValue(resolved.value),
+      lookup: { name: operand.lookup, key: cloneValue(key), cached: resolved.cached, durationMs: resolved.durationMs },
+    });
+    return { kind: 'lookup', lookup: operand.lookup, key, value: resolved.value };
+  }
 
   const path = operand.path;
+  if (isItemPath(path)) {
+    // Element reads are covered by the read recorded for the quantified collection.
+    return { kind: 'path', path, value: resolveItemPath(path, scope) };
+  }
   let value: JSONValue | undefined;
   if (path.startsWith('context.')) {
     value = getPath(context as unknown as Record<string, JSONValue>, path.slice('context.'.length));
@@ -413,28 +1247,49 @@ function evalCondition(
   context: ExecutionContext,
   data: Record<string, JSONValue>,
   depth: number,
-  maxDepth: number,
+  scope: ConditionScope,
 ): boolean {
-  if (depth > maxDepth) {
-    throw new Error(`Max condition depth exceeded: ${maxDepth}`);
+  if (depth > scope.maxDepth) {
+    throw new Error(`Max condition depth exceeded: ${scope.maxDepth}`);
   }
 
   if ('all' in condition) {
-    return condition.all.every((child) => evalCondition(child, context, data, depth + 1, maxDepth));
+    return condition.all.every((child) => evalCondition(child, context, data, depth + 1, scope));
   }
 
   if ('any' in condition) {
-    return condition.any.some((child) => evalCondition(child, context, data, depth + 1, maxDepth));
+    return condition.any.some((child) => evalCondition(child, context, data, depth + 1, scope));
   }
 
   if ('not' in condition) {
-    return !evalCondition(condition.not, context, data, depth + 1, maxDepth);
+    return !evalCondition(condition.not, context, data, depth + 1, scope);
   }
 
-  const left = resolveOperand(condition.left, context, data);
-  const right = condition.right ? resolveOperand(condition.right, context, data) : undefined;
+  if ('some' in condition || 'every' in condition || 'none' in condition) {
+    const quantifier = toQuantifier(condition);
+    const items = asCollection(resolveOperand({ path: quantifier.clause.path }, context, data, scope));
+    const test = (item: JSONValue): boolean => {
+      assertWithinDeadline(scope);
+      return evalCondition(quantifier.clause.when, context, data, depth + 1, { ...scope, item: { value: item } });
+    };
+    if (quantifier.kind === 'some') return items.some(test);
+    if (quantifier.kind === 'every') return items.every(test);
+    return !items.some(test);
+  }
 
-  switch (condition.op) {
+  const left = resolveOperand(condition.left, context, data, scope);
+  const right = condition.right ? resolveOperand(condition.right, context, data, scope) : undefined;
+  return compareValues(condition.op, left, right, context, data);
+}
+
+function compareValues(
+  op: string,
+  left: JSONValue | undefined,
+  right: JSONValue | undefined,
+  context: ExecutionContext,
+  data: Record<string, JSONValue>,
+): boolean {
+  switch (op) {
     case 'eq':
       return deepEqual(left, right);
     case 'neq':
@@ -455,7 +1310,7 @@ function evalCondition(
     case 'dateAfter':
     case 'dateBetween':
     case 'plusDays':
-      return compareDates(condition.op, left, right, context.locale);
+      return compareDates(op as DateOperator, left, right, context.locale);
     case 'in':
       return Array.isArray(right) && right.some((item) => deepEqual(item, left));
     case 'contains':
@@ -472,8 +1327,10 @@ function evalCondition(
       return typeof left === 'string' && typeof right === 'string' && left.endsWith(right);
     case 'exists':
       return left !== undefined;
-    default:
-      return false;
+    default: {
+      const operator = ruleOperators.get(op);
+      return operator ? operator.evaluate(left, right, { context, data }) : false;
+    }
   }
 }
 
@@ -481,18 +1338,328 @@ function resolveOperand(
   operand: RuleOperand,
   context: ExecutionContext,
   data: Record<string, JSONValue>,
+  scope?: ConditionScope,
 ): JSONValue | undefined {
   if ('value' in operand) {
     return resolveDynamicValue(operand.value, context, data);
   }
+  if ('lookup' in operand) {
+    return readLookup(operand.lookup, resolveOperand(operand.key, context, data, scope), scope).value;
+  }
   const path = operand.path;
+  if (isItemPath(path)) {
+    return resolveItemPath(path, scope);
+  }
   if (path.startsWith('context.')) {
     return getPath(context as unknown as Record<string, JSONValue>, path.slice('context.'.length));
   }
   if (path.startsWith('data.')) {
     return getPath(data, path.slice('data.'.length));
   }
-  return getPath(data, path);
+  return getPath(data, path);
+}
+
+function toQuantifier(
+  condition: SomeCondition | EveryCondition | NoneCondition,
+): { kind: 'some' | 'every' | 'none'; clause: QuantifierClause } {
+  if ('some' in condition) return { kind: 'some', clause: condition.some };
+  if ('every' in condition) return { kind: 'every', clause: condition.every };
+  return { kind: 'none', clause: condition.none };
+}
+
+function quantify(kind: 'some' | 'every' | 'none', results: boolean[]): boolean {
+  if (kind === 'some') return results.some(Boolean);
+  if (kind === 'every') return results.every(Boolean);
+  return !results.some(Boolean);
+}
+
+// Missing or non-array collections quantify over zero elements.
+function asCollection(value: JSONValue | undefined): JSONValue[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function isItemPath(path: string): boolean {
+  return path === ITEM_PATH || path.startsWith(`${ITEM_PATH}.`);
+}
+
+function resolveItemPath(path: string, scope: ConditionScope | undefined): JSONValue | undefined {
+  if (!scope?.item) return undefined;
+  if (path === ITEM_PATH) return scope.item.value;
+  const item = scope.item.value;
+  if (item === null || typeof item !== 'object') return undefined;
+  return getPath(item as Record<string, JSONValue>, path.slice(ITEM_PATH.length + 1));
+}
+
+function assertWithinDeadline(scope: ConditionScope): void {
+  if (scope.deadline !== undefined && Date.now() > scope.deadline) {
+    throw new Error(`Rules evaluation timeout after ${scope.timeoutMs ?? 0}ms`);
+  }
+}
+
+function lookupId(name: string, key: JSONValue | undefined): string {
+  return `${name}|${stableSerialize(key)}`;
+}
+
+function readLookup(name: string, key: JSONValue | undefined, scope: ConditionScope | undefined): ResolvedLookup {
+  const resolved = scope?.lookups?.get(lookupId(name, key));
+  if (!resolved) {
+    throw new Error(scope?.lookups ? `Lookup "${name}" was not resolved` : `Lookup "${name}" requires evaluateRulesAsync`);
+  }
+  return resolved;
+}
+
+/**
+ * Resolves every lookup `condition` can read against the current data, including lookups inside
+ * quantifier bodies. Lookups keyed by another lookup are fetched in a later round, once their key is known.
+ */
+async function resolveConditionLookups(
+  condition: RuleCondition,
+  context: ExecutionContext,
+  data: Record<string, JSONValue>,
+  scope: ConditionScope,
+  ruleId: string,
+  session: AsyncRulesSession,
+): Promise<Map<string, ResolvedLookup>> {
+  const lookups = new Map<string, ResolvedLookup>();
+  const lookupScope: ConditionScope = { ...scope, lookups };
+  for (let round = 0; round <= scope.maxDepth; round += 1) {
+    const requests = new Map<string, { name: string; key: JSONValue | undefined }>();
+    collectLookupRequests(condition, context, data, 0, lookupScope, requests);
+    if (requests.size === 0) break;
+    const resolved = await Promise.all(
+      Array.from(requests, async ([id, request]) => {
+        const inFlight = session.lookupCalls.get(id);
+        if (inFlight) {
+          const earlier = await inFlight;
+          return [id, { value: cloneValue(earlier.value), cached: true, durationMs: 0 }] as const;
+        }
+        const call = callLookup(request.name, request.key, { context, data, ruleId }, scope.deadline);
+        session.lookupCalls.set(id, call);
+        return [id, await call] as const;
+      }),
+    );
+    for (const [id, lookup] of resolved) lookups.set(id, lookup);
+  }
+  return lookups;
+}
+
+function collectLookupRequests(
+  condition: RuleCondition,
+  context: ExecutionContext,
+  data: Record<string, JSONValue>,
+  depth: number,
+  scope: ConditionScope,
+  requests: Map<string, { name: string; key: JSONValue | undefined }>,
+): void {
+  // Evaluation reports the depth error itself.
+  if (depth > scope.maxDepth) return;
+  if ('all' in condition || 'any' in condition) {
+    const children = 'all' in condition ? condition.all : condition.any;
+    for (const child of children) collectLookupRequests(child, context, data, depth + 1, scope, requests);
+    return;
+  }
+  if ('not' in condition) {
+    collectLookupRequests(condition.not, context, data, depth + 1, scope, requests);
+    return;
+  }
+  if ('some' in condition || 'every' in condition || 'none' in condition) {
+    const quantifier = toQuantifier(condition);
+    for (const item of asCollection(resolveOperand({ path: quantifier.clause.path }, context, data, scope))) {
+      collectLookupRequests(quantifier.clause.when, context, data, depth + 1, { ...scope, item: { value: item } }, requests);
+    }
+    return;
+  }
+  collectOperandLookups(condition.left, context, data, scope, requests);
+  if (condition.right) collectOperandLookups(condition.right, context, data, scope, requests);
+}
+
+function collectOperandLookups(
+  operand: RuleOperand,
+  context: ExecutionContext,
+  data: Record<string, JSONValue>,
+  scope: ConditionScope,
+  requests: Map<string, { name: string; key: JSONValue | undefined }>,
+): void {
+  if (!('lookup' in operand)) return;
+  let key: JSONValue | undefined;
+  try {
+    key = resolveOperand(operand.key, context, data, scope);
+  } catch {
+    // The key is itself an unresolved lookup.
+    collectOperandLookups(operand.key, context, data, scope, requests);
+    return;
+  }
+  const id = lookupId(operand.lookup, key);
+  if (!scope.lookups?.has(id)) requests.set(id, { name: operand.lookup, key });
+}
+
+async function callLookup(
+  name: string,
+  key: JSONValue | undefined,
+  ctx: { context: ExecutionContext; data: Record<string, JSONValue>; ruleId: string },
+  deadline: number | undefined,
+): Promise<ResolvedLookup> {
+  const registered = ruleLookups.get(name);
+  if (!registered) {
+    throw new Error(`Unknown lookup: ${name}`);
+  }
+  const cacheKey = `${ctx.context.tenantId}|${stableSerialize(key)}`;
+  const hit = registered.cache?.get(cacheKey);
+  if (hit && hit.expiresAt > Date.now()) {
+    return { value: cloneValue(hit.value), cached: true, durationMs: 0 };
+  }
+
+  const limitMs = Math.min(
+    registered.definition.timeoutMs ?? Number.POSITIVE_INFINITY,
+    deadline === undefined ? Number.POSITIVE_INFINITY : Math.max(0, deadline - Date.now()),
+  );
+  const callStarted = Date.now();
+  const value = cloneValue(
+    await withTimeout(
+      (signal) => registered.definition.resolve(cloneValue(key), { ...ctx, signal }),
+      limitMs,
+      `Lookup "${name}" timed out after ${limitMs}ms`,
+    ),
+  );
+  if (registered.cache && registered.definition.cacheTtlMs !== undefined) {
+    registered.cache.set(cacheKey, { value: cloneValue(value), expiresAt: Date.now() + registered.definition.cacheTtlMs });
+  }
+  return { value, cached: false, durationMs: Date.now() - callStarted };
+}
+
+async function withTimeout<T>(run: (signal: AbortSignal) => Promise<T>, limitMs: number, message: string): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    const pending = run(controller.signal);
+    if (!Number.isFinite(limitMs)) return await pending;
+    return await Promise.race([
+      pending,
+      new Promise<never>((_resolve, reject) => {
+        timer = setTimeout(() => {
+          controller.abort();
+          reject(new Error(message));
+        }, limitMs);
+      }),
+    ]);
+  } finally {
+    if (timer !== undefined) clearTimeout(timer);
+  }
+}
+
+function buildAgenda(
+  rules: Rule[],
+  strategy: ConflictResolutionStrategy,
+  context: ExecutionContext,
+  skipped: RulesSkipTrace[],
+  asOfMs: number,
+): RuleAgendaEntry[] {
+  const effective = selectEffectiveRules(rules, asOfMs, skipped);
+  const agenda: RuleAgendaEntry[] = [];
+  for (const rule of rules) {
+    if (effective && !effective.has(rule)) continue;
+    if (!matchesScope(rule.scope, context)) {
+      skipped.push({ ruleId: rule.ruleId, reason: 'scope_mismatch' });
+      continue;
+    }
+    agenda.push(toAgendaEntry(rule));
+  }
+  return agenda.sort(strategy.compare);
+}
+
+/**
+ * Picks the version of each `ruleId` in effect at `asOfMs`. Windows are `[effectiveFrom, effectiveTo)`;
+ * when several versions are in effect the latest `effectiveFrom` wins, then the higher `version`,
+ * then the later declaration. Only `ruleId`s where some rule declares a window are versioned; other
+ * rules sharing a `ruleId` all run. Returns undefined when every rule is kept.
+ */
+function selectEffectiveRules(rules: Rule[], asOfMs: number, skipped: RulesSkipTrace[]): Set<Rule> | undefined {
+  const versioned = collectVersionedRuleIds(rules);
+  if (versioned.size === 0) return undefined;
+  const selected = new Map<string, Rule>();
+  const effective = new Set<Rule>();
+  let filtered = false;
+  for (const rule of rules) {
+    if (!versioned.has(rule.ruleId)) {
+      effective.add(rule);
+      continue;
+    }
+    if (!isEffectiveAt(rule, asOfMs)) {
+      filtered = true;
+      continue;
+    }
+    const current = selected.get(rule.ruleId);
+    if (current) filtered = true;
+    if (!current || compareRuleVersions(rule, current) >= 0) selected.set(rule.ruleId, rule);
+  }
+  if (!filtered) return undefined;
+
+  for (const rule of selected.values()) effective.add(rule);
+  for (const rule of rules) {
+    if (effective.has(rule)) continue;
+    skipped.push({
+      ruleId: rule.ruleId,
+      reason: isEffectiveAt(rule, asOfMs) ? 'superseded' : 'not_effective',
+      ...(rule.version !== undefined ? { version: rule.version } : {}),
+    });
+  }
+  return effective;
+}
+
+function collectVersionedRuleIds(rules: Rule[]): Set<string> {
+  const versioned = new Set<string>();
+  for (const rule of rules) {
+    if (rule.effectiveFrom !== undefined || rule.effectiveTo !== undefined) versioned.add(rule.ruleId);
+  }
+  return versioned;
+}
+
+// Unparseable bounds make the rule ineffective rather than always-on.
+function isEffectiveAt(rule: Rule, asOfMs: number): boolean {
+  const from = rule.effectiveFrom === undefined ? Number.NEGATIVE_INFINITY : Date.parse(rule.effectiveFrom);
+  const to = rule.effectiveTo === undefined ? Number.POSITIVE_INFINITY : Date.parse(rule.effectiveTo);
+  return from <= asOfMs && asOfMs < to;
+}
+
+function compareRuleVersions(a: Rule, b: Rule): number {
+  const fromA = a.effectiveFrom === undefined ? Number.NEGATIVE_INFINITY : Date.parse(a.effectiveFrom);
+  const fromB = b.effectiveFrom === undefined ? Number.NEGATIVE_INFINITY : Date.parse(b.effectiveFrom);
+  if (fromA !== fromB) return fromA < fromB ? -1 : 1;
+  const partsA = (a.version ?? '').split('.');
+  const partsB = (b.version ?? '').split('.');
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i += 1) {
+    const left = partsA[i] ?? '';
+    const right = partsB[i] ?? '';
+    const numeric = Number(left) - Number(right);
+    if (Number.isFinite(numeric) && numeric !== 0) return numeric;
+    if (!Number.isFinite(numeric) && left !== right) return left.localeCompare(right);
+  }
+  return 0;
+}
+
+function toAgendaEntry(rule: Rule): RuleAgendaEntry {
+  return {
+    rule,
+    ruleId: rule.ruleId,
+    group: rule.group ?? DEFAULT_RULE_GROUP,
+    priority: rule.priority ?? 0,
+    salience: rule.salience ?? 0,
+    specificity: scopeSpecificity(rule.scope),
+  };
+}
+
+// Each constrained scope dimension scores 1 plus 1/n for its n allowed values,
+// so more dimensions and shorter allow-lists both rank a rule as narrower.
+function scopeSpecificity(scope: RuleScope | undefined): number {
+  if (!scope) return 0;
+  const dimensions = [scope.countries, scope.tenants, scope.orgs, scope.programs, scope.issuers, scope.roles];
+  let score = 0;
+  for (const values of dimensions) {
+    if (values && values.length > 0) {
+      score += 1 + 1 / values.length;
+    }
+  }
+  return score;
 }
 
 function matchesScope(scope: RuleScope | undefined, context: ExecutionContext): boolean {
@@ -527,6 +1694,57 @@ function matchesScope(scope: RuleScope | undefined, context: ExecutionContext):
   return true;
 }
 
+function collectChangedPaths(diffs: RuleActionDiff[]): string[] {
+  const paths: string[] = [];
+  for (const diff of diffs) {
+    if (deepEqual(diff.before, diff.after)) continue;
+    paths.push(normalizeReadPath(`${diff.target}.${diff.path}`));
+  }
+  return paths;
+}
+
+function markDirtyRules(
+  rules: Rule[],
+  readsByRuleId: Record<string, RuleRead[]>,
+  changedPaths: string[],
+  dirty: Set<string>,
+): void {
+  if (changedPaths.length === 0) return;
+  const wildcard = changedPaths.includes('*');
+  for (const rule of rules) {
+    if (wildcard) {
+      dirty.add(rule.ruleId);
+      continue;
+    }
+    const reads = readsByRuleId[rule.ruleId];
+    if (reads && readsOverlap(reads, changedPaths)) dirty.add(rule.ruleId);
+  }
+}
+
+function readsOverlap(reads: RuleRead[], changedPaths: string[]): boolean {
+  if (changedPaths.includes('*')) return true;
+  return reads.some((read) => {
+    const readPath = normalizeReadPath(read.path);
+    return changedPaths.some((changed) => pathsOverlap(readPath, changed));
+  });
+}
+
+function toFactKey(reads: RuleRead[]): string {
+  return Array.from(new Set(reads.map((read) => normalizeReadPath(read.path))))
+    .sort()
+    .join('|');
+}
+
+function normalizeReadPath(path: string): string {
+  const normalized = path.replace(/\[(\d+)\]/g, '.$1');
+  if (normalized.startsWith('data.') || normalized.startsWith('context.')) return normalized;
+  return `data.${normalized}`;
+}
+
+function pathsOverlap(a: string, b: string): boolean {
+  return a === b || a.startsWith(`${b}.`) || b.startsWith(`${a}.`);
+}
+
 function applyAction(
   action: RuleAction,
   ctx: {
@@ -536,7 +1754,8 @@ function applyAction(
     ruleId: string;
   },
   actionPolicy: RulesEngineActionPolicy,
-): void {
+  asyncDeadline?: number,
+): Promise<void> | void {
   switch (action.type) {
     case 'setField': {
       const path = stripPrefix(action.path, 'data.');
@@ -610,7 +1829,7 @@ function applyAction(
       break;
     }
     default: {
-      executeCustomAction(action, ctx, actionPolicy);
+      return executeCustomAction(action, ctx, actionPolicy, asyncDeadline);
     }
   }
 }
@@ -657,7 +1876,10 @@ function deepClone<T>(value: T): T {
 
 function getPath(obj: Record<string, JSONValue>, path: string): JSONValue | undefined {
   if (!path) return obj as unknown as JSONValue;
-  const parts = tokenizePath(path);
+  return readTokens(obj, tokenizePath(path));
+}
+
+function readTokens(obj: Record<string, JSONValue>, parts: Array<string | number>): JSONValue | undefined {
   let current: JSONValue | undefined = obj;
   for (const part of parts) {
     if (part === undefined) return undefined;
@@ -754,6 +1976,27 @@ function tokenizePath(path: string): Array<string | number> {
   return tokens;
 }
 
+function collectRuleTestDataDiffs(
+  expected: Record<string, JSONValue>,
+  actual: Record<string, JSONValue>,
+  path: string,
+  diffs: RuleTestDiff[],
+): void {
+  for (const [key, expectedValue] of Object.entries(expected)) {
+    const actualValue = actual[key];
+    const childPath = `${path}.${key}`;
+    if (isPlainRecord(expectedValue) && isPlainRecord(actualValue)) {
+      collectRuleTestDataDiffs(expectedValue, actualValue, childPath, diffs);
+    } else if (!deepEqual(expectedValue, actualValue)) {
+      diffs.push({ path: childPath, expected: expectedValue, actual: actualValue });
+    }
+  }
+}
+
+function isPlainRecord(value: JSONValue | undefined): value is Record<string, JSONValue> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
 function deepEqual(a: JSONValue | undefined, b: JSONValue | undefined): boolean {
   if (a === b) return true;
   if (typeof a !== typeof b) return false;
@@ -771,8 +2014,145 @@ function deepEqual(a: JSONValue | undefined, b: JSONValue | undefined): boolean
   return false;
 }
 
+// `matchesRegex` runs synchronously, so `timeoutMs` cannot interrupt catastrophic backtracking.
+// Long patterns and quantified groups that contain another quantifier (`(a+)+`) or an alternation
+// (`(a|aa)+`) are rejected instead, and subjects are capped at `MAX_REGEX_SUBJECT_LENGTH`.
+function toRegExp(value: JSONValue | undefined): RegExp | null {
+  const [pattern, flags] = Array.isArray(value) ? value : [value];
+  if (typeof pattern !== 'string' || pattern.length > MAX_REGEX_PATTERN_LENGTH) return null;
+  if (hasUnsafeRepetition(pattern)) return null;
+  try {
+    return new RegExp(pattern, typeof flags === 'string' ? flags : undefined);
+  } catch {
+    return null;
+  }
+}
+
+function hasUnsafeRepetition(pattern: string): boolean {
+  // One entry per open group: whether a quantifier or an alternation appeared inside it.
+  const groups: Array<{ quantified: boolean; alternation: boolean }> = [];
+  let inClass = false;
+  for (let index = 0; index < pattern.length; index += 1) {
+    const char = pattern[index];
+    if (char === '\\') {
+      index += 1;
+      continue;
+    }
+    if (inClass) {
+      if (char === ']') inClass = false;
+      continue;
+    }
+    if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push({ quantified: false, alternation: false });
+    } else if (char === '|') {
+      const group = groups[groups.length - 1];
+      if (group) group.alternation = true;
+    } else if (char === ')') {
+      const inside = groups.pop() ?? { quantified: false, alternation: false };
+      const quantified = isQuantifierAt(pattern, index + 1);
+      if (quantified && (inside.quantified || inside.alternation)) return true;
+      const parent = groups[groups.length - 1];
+      if (parent && (quantified || inside.quantified)) parent.quantified = true;
+    } else if (isQuantifierAt(pattern, index) && groups.length > 0) {
+      groups[groups.length - 1]!.quantified = true;
+    }
+  }
+  return false;
+}
+
+function isQuantifierAt(pattern: string, index: number): boolean {
+  const char = pattern[index];
+  if (char === '*' || char === '+') return true;
+  // Exact counts such as `{3}` do not multiply backtracking paths.
+  return char === '{' && /^\{\d+,\d*\}/.test(pattern.slice(index));
+}
+
+function toNumberRange(value: JSONValue | undefined): [number, number] | null {
+  if (!Array.isArray(value) || value.length !== 2) return null;
+  const [min, max] = value;
+  return typeof min === 'number' && typeof max === 'number' ? [min, max] : null;
+}
+
+function lengthOf(value: JSONValue | undefined): number | null {
+  if (typeof value === 'string' || Array.isArray(value)) return value.length;
+  return null;
+}
+
+function toArray(value: JSONValue | undefined): JSONValue[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function isEmptyValue(value: JSONValue | undefined): boolean {
+  if (value === undefined || value === null) return true;
+  if (typeof value === 'string') return value.trim().length === 0;
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'object') return Object.keys(value).length === 0;
+  return false;
+}
+
+function isValidIban(value: string): boolean {
+  const iban = value.replace(/\s+/g, '').toUpperCase();
+  if (!/^[A-Z]{2}[0-9]{2}[A-Z0-9]{11,30}$/.test(iban)) return false;
+  const rearranged = `${iban.slice(4)}${iban.slice(0, 4)}`;
+  let remainder = 0;
+  for (const char of rearranged) {
+    const digits = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+function passesLuhn(value: string): boolean {
+  const digits = value.replace(/[\s-]+/g, '');
+  if (!/^[0-9]{2,}$/.test(digits)) return false;
+  let sum = 0;
+  for (let index = 0; index < digits.length; index += 1) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function toFuzzyTarget(value: JSONValue | undefined): { value: string; threshold: number } | null {
+  if (typeof value === 'string') return { value, threshold: DEFAULT_FUZZY_THRESHOLD };
+  if (Array.isArray(value) && typeof value[0] === 'string') {
+    const threshold = typeof value[1] === 'number' ? value[1] : DEFAULT_FUZZY_THRESHOLD;
+    return { value: value[0], threshold };
+  }
+  return null;
+}
+
+// Normalized Levenshtein similarity in [0, 1], case-insensitive.
+function similarity(a: string, b: string): number {
+  const left = a.trim().toLowerCase();
+  const right = b.trim().toLowerCase();
+  const longest = Math.max(left.length, right.length);
+  if (longest === 0) return 1;
+  let previous = Array.from({ length: right.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= left.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= right.length; j += 1) {
+      const cost = left[i - 1] === right[j - 1] ? 0 : 1;
+      current[j] = Math.min((previous[j] ?? 0) + 1, (current[j - 1] ?? 0) + 1, (previous[j - 1] ?? 0) + cost);
+    }
+    previous = current;
+  }
+  return 1 - (previous[right.length] ?? longest) / longest;
+}
+
+type DateOperator = 'before' | 'after' | 'on' | 'plusDays' | 'dateEq' | 'dateBefore' | 'dateAfter' | 'dateBetween';
+
 function compareDates(
-  op: 'before' | 'after' | 'on' | 'plusDays' | 'dateEq' | 'dateBefore' | 'dateAfter' | 'dateBetween',
+  op: DateOperator,
   left: JSONValue | undefined,
   right: JSONValue | undefined,
   locale: string,
@@ -953,8 +2333,19 @@ function evaluateTransform(
   data: Record<string, JSONValue>,
   locale: string,
 ): JSONValue | undefined {
-  if (!Array.isArray(args) || args.length > 8) return undefined;
-  const resolvedArgs = args.map((arg) => resolveTransformArg(arg, context, data));
+  if (!Array.isArray(args) || args.length > MAX_TRANSFORM_ARGS) return undefined;
+  return applyTransform(
+    transform,
+    args.map((arg) => resolveTransformArg(arg, context, data)),
+    locale,
+  );
+}
+
+function applyTransform(
+  transform: string,
+  resolvedArgs: Array<JSONValue | undefined>,
+  locale: string,
+): JSONValue | undefined {
   switch (transform) {
     case 'add':
       return numericFold(resolvedArgs, (acc, value) => acc + value);
@@ -978,7 +2369,12 @@ function evaluateTransform(
     }
     case 'round': {
       const value = toFiniteNumber(resolvedArgs[0]);
-      return value === null ? undefined : Math.round(value);
+      const digits = resolvedArgs.length > 1 ? toFiniteNumber(resolvedArgs[1]) : 0;
+      if (value === null || digits === null || !Number.isInteger(digits) || digits < 0 || digits > 10) {
+        return undefined;
+      }
+      const factor = 10 ** digits;
+      return Math.round(value * factor) / factor;
     }
     case 'floor': {
       const value = toFiniteNumber(resolvedArgs[0]);
@@ -996,6 +2392,11 @@ function evaluateTransform(
       return typeof resolvedArgs[0] === 'string' ? resolvedArgs[0].toUpperCase() : undefined;
     case 'concat':
       return resolvedArgs.map((value) => String(value ?? '')).join('');
+    case 'plus':
+      // Adds numbers, but concatenates as soon as one side is a string ("first + ' ' + last").
+      return resolvedArgs.some((value) => typeof value === 'string')
+        ? resolvedArgs.map((value) => String(value ?? '')).join('')
+        : numericFold(resolvedArgs, (acc, value) => acc + value);
     case 'plusDays': {
       const payload: JSONValue = { date: resolvedArgs[0] as JSONValue, days: resolvedArgs[1] as JSONValue };
       const shifted = coercePlusDays(payload, locale);
@@ -1046,11 +2447,271 @@ function toFiniteNumber(value: JSONValue | undefined): number | null {
   return null;
 }
 
+interface CompiledBindingExpression {
+  expression?: BindingExpression;
+  path: string;
+  dependencies: string[];
+  error?: string;
+}
+
+interface BindingExpressionScope {
+  context: ExecutionContext;
+  data: Record<string, JSONValue>;
+  computed: Record<string, JSONValue | undefined>;
+}
+
+interface BindingToken {
+  kind: 'number' | 'string' | 'path' | 'punct' | 'eof';
+  text: string;
+  offset: number;
+}
+
+const MULTIPLICATIVE_TRANSFORMS: Record<string, string> = { '*': 'multiply', '/': 'divide', '%': 'mod' };
+const STRING_ESCAPES: Record<string, string> = { n: '\n', t: '\t', '\\': '\\', "'": "'", '"': '"' };
+
+class BindingExpressionParser {
+  private readonly tokens: BindingToken[];
+  private position = 0;
+  private depth = 0;
+
+  constructor(source: string) {
+    this.tokens = tokenizeBindingExpression(source);
+  }
+
+  parse(): BindingExpression {
+    if (this.peek().kind === 'eof') {
+      throw new BindingExpressionError('Expected an expression', 0);
+    }
+    const expression = this.parseAdditive();
+    const rest = this.peek();
+    if (rest.kind !== 'eof') {
+      throw new BindingExpressionError(`Unexpected "${rest.text}"`, rest.offset);
+    }
+    return expression;
+  }
+
+  private parseAdditive(): BindingExpression {
+    let left = this.parseMultiplicative();
+    while (this.isPunct('+') || this.isPunct('-')) {
+      const operator = this.next().text;
+      const transform = operator === '+' ? 'plus' : 'subtract';
+      left = { $transform: transform, args: [left, this.parseMultiplicative()] };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): BindingExpression {
+    let left = this.parseUnary();
+    while (this.isPunct('*') || this.isPunct('/') || this.isPunct('%')) {
+      const transform = MULTIPLICATIVE_TRANSFORMS[this.next().text]!;
+      left = { $transform: transform, args: [left, this.parseUnary()] };
+    }
+    return left;
+  }
+
+  // Every nested group, call argument and negation passes through here, so this bounds recursion.
+  private parseUnary(): BindingExpression {
+    const token = this.peek();
+    this.depth += 1;
+    if (this.depth > MAX_BINDING_EXPRESSION_DEPTH) {
+      throw new BindingExpressionError('Expression is nested too deeply', token.offset);
+    }
+    try {
+      if (!this.isPunct('-')) return this.parsePrimary();
+      this.next();
+      const operand = this.parseUnary();
+      return typeof operand === 'number' ? -operand : { $transform: 'subtract', args: [0, operand] };
+    } finally {
+      this.depth -= 1;
+    }
+  }
+
+  private parsePrimary(): BindingExpression {
+    const token = this.next();
+    if (token.kind === 'number') return Number(token.text);
+    if (token.kind === 'string') return token.text;
+    if (token.kind === 'path') {
+      if (this.isPunct('(')) return this.parseCall(token);
+      if (token.text === 'true') return true;
+      if (token.text === 'false') return false;
+      if (token.text === 'null') return null;
+      return { $path: normalizeExpressionPath(token.text) };
+    }
+    if (token.kind === 'punct' && token.text === '(') {
+      const inner = this.parseAdditive();
+      this.expect(')');
+      return inner;
+    }
+    throw new BindingExpressionError(
+      token.kind === 'eof' ? 'Unexpected end of expression' : `Unexpected "${token.text}"`,
+      token.offset,
+    );
+  }
+
+  private parseCall(name: BindingToken): BindingExpression {
+    if (!BINDING_EXPRESSION_FUNCTIONS.has(name.text)) {
+      throw new BindingExpressionError(`Unknown function "${name.text}"`, name.offset);
+    }
+    this.expect('(');
+    const args: BindingExpression[] = [];
+    if (!this.isPunct(')')) {
+      args.push(this.parseAdditive());
+      while (this.isPunct(',')) {
+        this.next();
+        args.push(this.parseAdditive());
+      }
+    }
+    this.expect(')');
+    if (args.length > MAX_TRANSFORM_ARGS) {
+      throw new BindingExpressionError(
+        `"${name.text}" takes at most ${MAX_TRANSFORM_ARGS} arguments`,
+        name.offset,
+      );
+    }
+    return { $transform: name.text, args };
+  }
+
+  private expect(punct: string): void {
+    const token = this.next();
+    if (token.kind !== 'punct' || token.text !== punct) {
+      const found = token.kind === 'eof' ? 'end of expression' : `"${token.text}"`;
+      throw new BindingExpressionError(`Expected "${punct}" but found ${found}`, token.offset);
+    }
+  }
+
+  private isPunct(punct: string): boolean {
+    const token = this.peek();
+    return token.kind === 'punct' && token.text === punct;
+  }
+
+  private peek(): BindingToken {
+    return this.tokens[this.position]!;
+  }
+
+  private next(): BindingToken {
+    const token = this.tokens[this.position]!;
+    if (token.kind !== 'eof') this.position += 1;
+    return token;
+  }
+}
+
+function tokenizeBindingExpression(source: string): BindingToken[] {
+  const tokens: BindingToken[] = [];
+  let index = 0;
+  while (index < source.length) {
+    const char = source[index]!;
+    const start = index;
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+    if ('+-*/%(),'.includes(char)) {
+      tokens.push({ kind: 'punct', text: char, offset: start });
+      index += 1;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      let text = '';
+      index += 1;
+      while (index < source.length && source[index] !== char) {
+        if (source[index] === '\\') {
+          const escaped = STRING_ESCAPES[source[index + 1] ?? ''];
+          if (escaped === undefined) throw new BindingExpressionError('Invalid string escape', index);
+          text += escaped;
+          index += 2;
+        } else {
+          text += source[index];
+          index += 1;
+        }
+      }
+      if (index >= source.length) throw new BindingExpressionError('Unterminated string', start);
+      index += 1;
+      tokens.push({ kind: 'string', text, offset: start });
+      continue;
+    }
+    const rest = source.slice(index);
+    const number = /^(?:\d+(?:\.\d+)?|\.\d+)(?:[eE][+-]?\d+)?/.exec(rest);
+    if (number) {
+      tokens.push({ kind: 'number', text: number[0], offset: start });
+      index += number[0].length;
+      continue;
+    }
+    const path = /^[A-Za-z_$][\w$]*(?:\.[\w$]+|\[\d+\])*/.exec(rest);
+    if (path) {
+      tokens.push({ kind: 'path', text: path[0], offset: start });
+      index += path[0].length;
+      continue;
+    }
+    throw new BindingExpressionError(`Unexpected character "${char}"`, start);
+  }
+  tokens.push({ kind: 'eof', text: '', offset: source.length });
+  return tokens;
+}
+
+function normalizeExpressionPath(path: string): string {
+  return /^(?:data|context|computed)\./.test(path) ? path : `data.${path}`;
+}
+
+function evalBindingExpression(
+  expression: BindingExpression,
+  scope: BindingExpressionScope,
+): JSONValue | undefined {
+  if (expression === null || typeof expression !== 'object') return expression;
+  if ('$path' in expression) return readBindingPath(expression.$path, scope);
+  if (!Array.isArray(expression.args) || expression.args.length > MAX_TRANSFORM_ARGS) return undefined;
+  return applyTransform(
+    expression.$transform,
+    expression.args.map((arg) => evalBindingExpression(arg, scope)),
+    scope.context.locale,
+  );
+}
+
+function readBindingPath(path: string, scope: BindingExpressionScope): JSONValue | undefined {
+  if (path.startsWith('computed.')) {
+    return getPath(scope.computed as Record<string, JSONValue>, path.slice('computed.'.length));
+  }
+  return resolveOperand({ path }, scope.context, scope.data);
+}
+
+function computedKeysOf(paths: string[]): string[] {
+  return paths
+    .filter((path) => path.startsWith('computed.'))
+    .map((path) => path.slice('computed.'.length).split(/[.[]/)[0]!);
+}
+
+// Depth-first post-order, so every entry comes after the entries it reads.
+function orderComputedBindings(graph: Map<string, string[]>): { order: string[]; cycles: string[][] } {
+  const order: string[] = [];
+  const cycles: string[][] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+  const visit = (key: string) => {
+    const current = state.get(key);
+    if (current === 'done') return;
+    if (current === 'visiting') {
+      cycles.push(stack.slice(stack.indexOf(key)));
+      return;
+    }
+    state.set(key, 'visiting');
+    stack.push(key);
+    for (const dependency of graph.get(key) ?? []) {
+      if (graph.has(dependency)) visit(dependency);
+    }
+    stack.pop();
+    state.set(key, 'done');
+    order.push(key);
+  };
+  for (const key of graph.keys()) visit(key);
+  return { order, cycles };
+}
+
+// `asyncDeadline` is only passed by `evaluateRulesAsync`; without it async handlers are rejected.
 function executeCustomAction(
   action: RuleAction,
   ctx: RuleActionHandlerContext,
   actionPolicy: RulesEngineActionPolicy,
-): void {
+  asyncDeadline?: number,
+): Promise<void> | void {
   const actionType = typeof (action as { type?: unknown }).type === 'string'
     ? ((action as { type: string }).type)
     : 'unknown';
@@ -1062,6 +2723,24 @@ function executeCustomAction(
     ctx.trace.errors.push({ ruleId: ctx.ruleId, message: `Action not allowed by policy: ${actionType}` });
     return;
   }
+  const asyncHandler = asyncActionHandlers.get(actionType);
+  if (asyncHandler) {
+    if (asyncDeadline === undefined) {
+      ctx.trace.errors.push({
+        ruleId: ctx.ruleId,
+        message: `Action ${actionType} has an async handler; use evaluateRulesAsync`,
+      });
+      return;
+    }
+    const limitMs = Math.max(0, asyncDeadline - Date.now());
+    return withTimeout(
+      (signal) => asyncHandler(action, { ...ctx, signal }),
+      limitMs,
+      `Action ${actionType} timed out after ${limitMs}ms`,
+    ).then(() => {
+      ctx.trace.actionsApplied.push({ ruleId: ctx.ruleId, action });
+    });
+  }
   const handler = customActionHandlers.get(actionType);
   if (!handler) {
     ctx.trace.errors.push({ ruleId: ctx.ruleId, message: `No handler registered for action: ${actionType}` });
@@ -1085,6 +2764,7 @@ export function configureRulesEngine(config: RulesEngineConfig): void {
       ...(configuredRulesEngine.performance ?? {}),
       ...(config.performance ?? {}),
     },
+    conflictResolution: config.conflictResolution ?? configuredRulesEngine.conflictResolution,
   };
 }
 
@@ -1096,21 +2776,111 @@ export function registerRuleActionHandler(type: string, handler: RuleActionHandl
   if (!type || !/^[a-zA-Z0-9_.-]+$/.test(type)) {
     throw new Error('Invalid custom action type. Use alphanumeric, ".", "-", "_" only.');
   }
+  asyncActionHandlers.delete(type);
   customActionHandlers.set(type, handler);
 }
 
+/** Replaces any synchronous handler registered for `type`. */
+export function registerAsyncRuleActionHandler(type: string, handler: AsyncRuleActionHandler): void {
+  if (!type || !/^[a-zA-Z0-9_.-]+$/.test(type)) {
+    throw new Error('Invalid custom action type. Use alphanumeric, ".", "-", "_" only.');
+  }
+  customActionHandlers.delete(type);
+  asyncActionHandlers.set(type, handler);
+}
+
 export function unregisterRuleActionHandler(type: string): void {
   customActionHandlers.delete(type);
+  asyncActionHandlers.delete(type);
 }
 
 export function clearRuleActionHandlers(): void {
   customActionHandlers.clear();
+  asyncActionHandlers.clear();
+}
+
+export function registerRuleLookup(name: string, definition: RuleLookupDefinition): void {
+  if (!name || !/^[a-zA-Z0-9_.-]+$/.test(name)) {
+    throw new Error('Invalid lookup name. Use alphanumeric, ".", "-", "_" only.');
+  }
+  const cache =
+    definition.cacheTtlMs !== undefined && definition.cacheTtlMs > 0
+      ? new LruCache<string, { value: JSONValue | undefined; expiresAt: number }>(
+          definition.cacheSize ?? DEFAULT_LOOKUP_CACHE_SIZE,
+        )
+      : null;
+  ruleLookups.set(name, { definition, cache });
+}
+
+export function unregisterRuleLookup(name: string): void {
+  ruleLookups.delete(name);
+}
+
+export function clearRuleLookups(): void {
+  ruleLookups.clear();
+}
+
+export function listRuleLookups(): string[] {
+  return Array.from(ruleLookups.keys()).sort();
+}
+
+export function registerConflictResolutionStrategy(name: string, strategy: ConflictResolutionStrategy): void {
+  if (!name || !/^[a-zA-Z0-9_.-]+$/.test(name)) {
+    throw new Error('Invalid conflict resolution strategy name. Use alphanumeric, ".", "-", "_" only.');
+  }
+  if (name in BUILT_IN_CONFLICT_RESOLUTION_STRATEGIES) {
+    throw new Error(`Cannot replace built-in conflict resolution strategy: ${name}`);
+  }
+  conflictResolutionStrategies.set(name, strategy);
+}
+
+export function unregisterConflictResolutionStrategy(name: string): void {
+  if (name in BUILT_IN_CONFLICT_RESOLUTION_STRATEGIES) return;
+  conflictResolutionStrategies.delete(name);
+}
+
+export function listConflictResolutionStrategies(): string[] {
+  return Array.from(conflictResolutionStrategies.keys());
+}
+
+export function registerRuleOperator(name: string, operator: RuleOperatorDefinition): void {
+  if (!name || !/^[a-zA-Z0-9_.-]+$/.test(name)) {
+    throw new Error('Invalid rule operator name. Use alphanumeric, ".", "-", "_" only.');
+  }
+  if (operator.arity !== 1 && operator.arity !== 2) {
+    throw new Error(`Rule operator arity must be 1 or 2: ${name}`);
+  }
+  if (CORE_RULE_OPERATORS.some((core) => core.name === name) || name in BUILT_IN_RULE_OPERATORS) {
+    throw new Error(`Cannot replace built-in rule operator: ${name}`);
+  }
+  ruleOperators.set(name, operator);
+}
+
+export function unregisterRuleOperator(name: string): void {
+  if (name in BUILT_IN_RULE_OPERATORS) return;
+  ruleOperators.delete(name);
+}
+
+export function listRuleOperators(): RuleOperatorDescriptor[] {
+  const core = CORE_RULE_OPERATORS.map((operator) => ({ ...operator, builtIn: true }));
+  const registered = Array.from(ruleOperators.entries()).map(([name, operator]) => ({
+    name,
+    arity: operator.arity,
+    label: operator.label ?? name,
+    builtIn: name in BUILT_IN_RULE_OPERATORS,
+  }));
+  return [...core, ...registered];
+}
+
+export function getRuleOperator(name: string): RuleOperatorDescriptor | undefined {
+  return listRuleOperators().find((operator) => operator.name === name);
 }
 
 function resolveRulesEngineConfig(): {
   limits: RulesEngineLimits;
   actionPolicy: RulesEngineActionPolicy;
   performance: RulesEnginePerformancePolicy;
+  conflictResolution: string;
 } {
   const env = readConfigFromEnv();
   return {
@@ -1127,6 +2897,10 @@ function resolveRulesEngineConfig(): {
         configuredRulesEngine.limits?.maxDepth ??
         env.limits.maxDepth ??
         DEFAULT_RULES_ENGINE_CONFIG.limits.maxDepth,
+      maxChainIterations:
+        configuredRulesEngine.limits?.maxChainIterations ??
+        env.limits.maxChainIterations ??
+        DEFAULT_RULES_ENGINE_CONFIG.limits.maxChainIterations,
     },
     actionPolicy: {
       allowCustomActions:
@@ -1152,6 +2926,10 @@ function resolveRulesEngineConfig(): {
         env.performance.memoizeConditionEvaluations ??
         DEFAULT_RULES_ENGINE_CONFIG.performance.memoizeConditionEvaluations,
     },
+    conflictResolution:
+      configuredRulesEngine.conflictResolution ??
+      env.conflictResolution ??
+      DEFAULT_RULES_ENGINE_CONFIG.conflictResolution,
   };
 }
 
@@ -1159,6 +2937,7 @@ function readConfigFromEnv(): {
   limits: Partial<RulesEngineLimits>;
   actionPolicy: Partial<RulesEngineActionPolicy>;
   performance: Partial<RulesEnginePerformancePolicy>;
+  conflictResolution?: string;
 } {
   if (typeof process === 'undefined' || !process.env) {
     return { limits: {}, actionPolicy: {}, performance: {} };
@@ -1166,15 +2945,18 @@ function readConfigFromEnv(): {
   const timeoutMs = parsePositiveInt(process.env.RULEFLOW_RULES_TIMEOUT_MS);
   const maxRules = parsePositiveInt(process.env.RULEFLOW_RULES_MAX_RULES);
   const maxDepth = parsePositiveInt(process.env.RULEFLOW_RULES_MAX_DEPTH);
+  const maxChainIterations = parsePositiveInt(process.env.RULEFLOW_RULES_MAX_CHAIN_ITERATIONS);
   const pathCacheSize = parsePositiveInt(process.env.RULEFLOW_RULES_PATH_CACHE_SIZE);
   const conditionMemoSize = parsePositiveInt(process.env.RULEFLOW_RULES_CONDITION_MEMO_SIZE);
   const memoizeConditionEvaluations = parseBoolean(process.env.RULEFLOW_RULES_MEMOIZE_CONDITIONS);
   const allowCustomActions = parseBoolean(process.env.RULEFLOW_RULES_ALLOW_CUSTOM_ACTIONS);
   const allowedActionTypes = parseCsv(process.env.RULEFLOW_RULES_ALLOWED_ACTIONS);
+  const conflictResolution = process.env.RULEFLOW_RULES_CONFLICT_RESOLUTION?.trim() || undefined;
   const limits: Partial<RulesEngineLimits> = {};
   if (timeoutMs !== undefined) limits.timeoutMs = timeoutMs;
   if (maxRules !== undefined) limits.maxRules = maxRules;
   if (maxDepth !== undefined) limits.maxDepth = maxDepth;
+  if (maxChainIterations !== undefined) limits.maxChainIterations = maxChainIterations;
   const performance: Partial<RulesEnginePerformancePolicy> = {};
   if (pathCacheSize !== undefined) performance.pathCacheSize = pathCacheSize;
   if (conditionMemoSize !== undefined) performance.conditionMemoSize = conditionMemoSize;
@@ -1186,6 +2968,7 @@ function readConfigFromEnv(): {
     limits,
     actionPolicy,
     performance,
+    conflictResolution,
   };
 }
 
@@ -1258,6 +3041,239 @@ function updatePathCacheLimit(limit: number): void {
   pathCache.setLimit(safeLimit);
 }
 
+type CompiledOperand = (context: ExecutionContext, data: Record<string, JSONValue>) => JSONValue | undefined;
+type CompiledTest = (context: ExecutionContext, data: Record<string, JSONValue>) => boolean;
+type RuleMatcher = (
+  rule: Rule,
+  context: ExecutionContext,
+  data: Record<string, JSONValue>,
+  scope: ConditionScope,
+  epoch: number,
+) => { result: boolean; reads: RuleRead[] };
+
+interface CompiledRule {
+  ordinal: number;
+  entry: RuleAgendaEntry;
+  scopeBucket: number;
+  conditionKey: string;
+  /** Absent when the condition needs the interpreter (quantifiers or registered operators). */
+  test?: CompiledTest;
+  depth: number;
+  /** Every path operand in explain order; explain evaluation does not short-circuit, so all are read. */
+  reads: Array<{ path: string; read: CompiledOperand }>;
+  discriminator?: { path: string; read: CompiledOperand; key: string };
+}
+
+const CORE_OPERATOR_NAMES = new Set(CORE_RULE_OPERATORS.map((operator) => operator.name));
+
+class CompiledRuleIndex {
+  private readonly byRule = new Map<Rule, CompiledRule>();
+  private readonly ordered: CompiledRule[];
+  private readonly scopes: Array<RuleScope | undefined> = [];
+  // Alpha memories: normalized path -> literal key -> ordinals of rules whose discriminator matches it.
+  private readonly alpha = new Map<string, Map<string, Set<number>>>();
+  private readonly sortedByStrategy = new Map<ConflictResolutionStrategy, CompiledRule[]>();
+
+  constructor(private readonly rules: Rule[]) {
+    const scopeBuckets = new Map<string, number>();
+    this.ordered = rules.map((rule, ordinal) => {
+      const scopeKey = stableSerialize(rule.scope ?? null);
+      let scopeBucket = scopeBuckets.get(scopeKey);
+      if (scopeBucket === undefined) {
+        scopeBucket = this.scopes.length;
+        scopeBuckets.set(scopeKey, scopeBucket);
+        this.scopes.push(rule.scope);
+      }
+      const reads: CompiledRule['reads'] = [];
+      const shape = { depth: 0, compilable: true };
+      const test = compileCondition(rule.when, 0, reads, shape);
+      const discriminator = shape.compilable ? findDiscriminator(rule.when) : undefined;
+      const compiled: CompiledRule = {
+        ordinal,
+        entry: toAgendaEntry(rule),
+        scopeBucket,
+        conditionKey: stableSerialize(rule.when),
+        ...(shape.compilable ? { test } : {}),
+        depth: shape.depth,
+        reads: Array.from(new Map(reads.map((read) => [read.path, read])).values()),
+        ...(discriminator ? { discriminator } : {}),
+      };
+      if (discriminator) {
+        const buckets = this.alpha.get(discriminator.path) ?? new Map<string, Set<number>>();
+        const bucket = buckets.get(discriminator.key) ?? new Set<number>();
+        bucket.add(ordinal);
+        buckets.set(discriminator.key, bucket);
+        this.alpha.set(discriminator.path, buckets);
+      }
+      this.byRule.set(rule, compiled);
+      return compiled;
+    });
+  }
+
+  stats(): CompiledRuleSetStats {
+    return {
+      rules: this.ordered.length,
+      indexedRules: this.ordered.filter((rule) => rule.discriminator).length,
+      indexedPaths: Array.from(this.alpha.keys()).sort((a, b) => a.localeCompare(b)),
+      scopeBuckets: this.scopes.length,
+      compiledConditions: this.ordered.filter((rule) => rule.test).length,
+    };
+  }
+
+  conditionKey(rule: Rule): string | undefined {
+    return this.byRule.get(rule)?.conditionKey;
+  }
+
+  // Sorting the full list once and filtering by scope yields the same order as filtering then sorting.
+  agenda(
+    strategy: ConflictResolutionStrategy,
+    context: ExecutionContext,
+    skipped: RulesSkipTrace[],
+    asOfMs: number,
+  ): RuleAgendaEntry[] {
+    const effective = selectEffectiveRules(this.rules, asOfMs, skipped);
+    const inScope = this.scopes.map((scope) => matchesScope(scope, context));
+    for (const rule of this.ordered) {
+      if (effective && !effective.has(rule.entry.rule)) continue;
+      if (!inScope[rule.scopeBucket]) skipped.push({ ruleId: rule.entry.ruleId, reason: 'scope_mismatch' });
+    }
+    let sorted = this.sortedByStrategy.get(strategy);
+    if (!sorted) {
+      sorted = [...this.ordered].sort((a, b) => strategy.compare(a.entry, b.entry));
+      this.sortedByStrategy.set(strategy, sorted);
+    }
+    return sorted
+      .filter((rule) => inScope[rule.scopeBucket] && (!effective || effective.has(rule.entry.rule)))
+      .map((rule) => rule.entry);
+  }
+
+  /** One matcher per evaluation: alpha memories are cached until the next mutating rule. */
+  createMatcher(): RuleMatcher {
+    const memories = new Map<string, { epoch: number; allowed?: Set<number> }>();
+    return (rule, context, data, scope, epoch) => {
+      const compiled = this.byRule.get(rule);
+      if (!compiled?.test || compiled.depth > scope.maxDepth) {
+        const { result, reads } = evaluateConditionExplain(rule.when, context, data, scope);
+        return { result, reads };
+      }
+      const reads = compiled.reads.map(({ path, read }) => {
+        const value = read(context, data);
+        return { path, value: value !== null && typeof value === 'object' ? cloneValue(value) : value };
+      });
+      const discriminator = compiled.discriminator;
+      if (discriminator) {
+        let memory = memories.get(discriminator.path);
+        if (!memory || memory.epoch !== epoch) {
+          const key = toIndexKey(discriminator.read(context, data));
+          memory = { epoch, ...(key !== undefined ? { allowed: this.alpha.get(discriminator.path)?.get(key) } : {}) };
+          memories.set(discriminator.path, memory);
+        }
+        if (!memory.allowed?.has(compiled.ordinal)) return { result: false, reads };
+      }
+      return { result: compiled.test(context, data), reads };
+    };
+  }
+}
+
+function compileCondition(
+  condition: RuleCondition,
+  depth: number,
+  reads: CompiledRule['reads'],
+  shape: { depth: number; compilable: boolean },
+): CompiledTest {
+  shape.depth = Math.max(shape.depth, depth);
+  if ('all' in condition) {
+    const children = condition.all.map((child) => compileCondition(child, depth + 1, reads, shape));
+    return (context, data) => children.every((child) => child(context, data));
+  }
+  if ('any' in condition) {
+    const children = condition.any.map((child) => compileCondition(child, depth + 1, reads, shape));
+    return (context, data) => children.some((child) => child(context, data));
+  }
+  if ('not' in condition) {
+    const child = compileCondition(condition.not, depth + 1, reads, shape);
+    return (context, data) => !child(context, data);
+  }
+  if ('some' in condition || 'every' in condition || 'none' in condition) {
+    shape.compilable = false;
+    return () => false;
+  }
+
+  if ('lookup' in condition.left || (condition.right && 'lookup' in condition.right)) {
+    shape.compilable = false;
+    return () => false;
+  }
+
+  const op = condition.op;
+  // Registered operators may throw, and a short-circuited closure would drop that error.
+  if (!CORE_OPERATOR_NAMES.has(op) && !(op in BUILT_IN_RULE_OPERATORS)) shape.compilable = false;
+  const left = compileOperand(condition.left, reads);
+  const right = condition.right ? compileOperand(condition.right, reads) : undefined;
+  if (op === 'eq' && right) {
+    return (context, data) => deepEqual(left(context, data), right(context, data));
+  }
+  return (context, data) => compareValues(op, left(context, data), right?.(context, data), context, data);
+}
+
+// Mirrors resolveOperandExplain, which reports unresolved value operands as null.
+function compileOperand(operand: RuleOperand, reads: CompiledRule['reads']): CompiledOperand {
+  if ('lookup' in operand) return () => undefined;
+  if ('value' in operand) {
+    const value = operand.value;
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      const constant = value ?? null;
+      return () => constant;
+    }
+    return (context, data) => resolveDynamicValue(value, context, data) ?? null;
+  }
+  if (isItemPath(operand.path)) return () => undefined;
+  const read = compilePathRead(operand.path);
+  reads.push({ path: operand.path, read });
+  return read;
+}
+
+function compilePathRead(path: string): CompiledOperand {
+  if (path.startsWith('context.')) {
+    const tokens = [...tokenizePath(path.slice('context.'.length))];
+    return (context) => readTokens(context as unknown as Record<string, JSONValue>, tokens);
+  }
+  const tokens = [...tokenizePath(path.startsWith('data.') ? path.slice('data.'.length) : path)];
+  return (_context, data) => readTokens(data, tokens);
+}
+
+/** First `eq` between a path and a scalar literal that must hold for the whole condition to hold. */
+function findDiscriminator(condition: RuleCondition): CompiledRule['discriminator'] {
+  if ('all' in condition) {
+    for (const child of condition.all) {
+      const found = findDiscriminator(child);
+      if (found) return found;
+    }
+    return undefined;
+  }
+  if ('any' in condition || 'not' in condition || 'some' in condition || 'every' in condition || 'none' in condition) {
+    return undefined;
+  }
+  if (condition.op !== 'eq' || !condition.right) return undefined;
+  for (const [pathOperand, literal] of [
+    [condition.left, condition.right],
+    [condition.right, condition.left],
+  ] as const) {
+    if (!('path' in pathOperand) || isItemPath(pathOperand.path) || !('value' in literal)) continue;
+    const key = toIndexKey(literal.value);
+    if (key === undefined) continue;
+    return { path: normalizeReadPath(pathOperand.path), read: compilePathRead(pathOperand.path), key };
+  }
+  return undefined;
+}
+
+function toIndexKey(value: JSONValue | undefined): string | undefined {
+  if (value === null) return 'null';
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return `${typeof value}:${String(value)}`;
+  }
+  return undefined;
+}
+
 function isUnsafeKey(value: string): boolean {
   return value === '__proto__' || value === 'constructor' || value === 'prototype';
 }
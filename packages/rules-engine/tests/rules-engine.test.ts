@@ -1,13 +1,31 @@
 import { describe, expect, it, vi } from 'vitest';
-import type { ExecutionContext, Rule } from '@platform/schema';
+import { compileDecisionTable, type DecisionTable, type ExecutionContext, type JSONValue, type Rule, type RuleAction, type RuleSet } from '@platform/schema';
 import {
   clearRuleActionHandlers,
+  clearRuleLookups,
+  compileRuleSet,
+  BindingExpressionError,
+  collectBindingExpressionDependencies,
   configureRulesEngine,
+  createComputedBindingEvaluator,
   createMemoizedConditionEvaluator,
+  evaluateBindingExpression,
   evaluateCondition,
   evaluateRules,
+  evaluateRulesAsync,
+  findComputedBindingCycles,
+  getRuleOperator,
+  listRuleOperators,
+  parseBindingExpression,
+  registerAsyncRuleActionHandler,
+  registerConflictResolutionStrategy,
   registerRuleActionHandler,
+  registerRuleLookup,
+  registerRuleOperator,
   resetRulesEngineConfig,
+  runRuleTests,
+  unregisterConflictResolutionStrategy,
+  unregisterRuleOperator,
 } from '../src/index';
 
 const baseContext: ExecutionContext = {
@@ -230,6 +248,152 @@ describe('rules-engine', () => {
     expect(result.data.discount).toBe(0.2);
   });
 
+  it('breaks priority ties with salience', () => {
+    const always = { op: 'eq', left: { value: true }, right: { value: true } } as const;
+    const result = evaluateRules({
+      rules: [
+        { ruleId: 'A_LOW', priority: 5, salience: 1, when: always },
+        { ruleId: 'B_HIGH', priority: 5, salience: 9, when: always },
+        { ruleId: 'C_TOP', priority: 10, when: always },
+      ],
+      context: baseContext,
+      data: {},
+    });
+
+    expect(result.trace.rulesConsidered).toEqual(['C_TOP', 'B_HIGH', 'A_LOW']);
+    expect(result.trace.conflictResolution?.strategy).toBe('priority-salience');
+    expect(result.trace.conflictResolution?.order.map((entry) => entry.salience)).toEqual([0, 9, 1]);
+  });
+
+  it('fires only the first matched rule per group with first-match', () => {
+    const rules: Rule[] = [
+      {
+        ruleId: 'FEE_PREMIUM',
+        group: 'fees',
+        priority: 10,
+        when: { op: 'gt', left: { path: 'data.balance' }, right: { value: 10000 } },
+        actions: [{ type: 'setField', path: 'data.fee', value: 0 }],
+      },
+      {
+        ruleId: 'FEE_STANDARD',
+        group: 'fees',
+        priority: 1,
+        when: { op: 'exists', left: { path: 'data.balance' } },
+        actions: [{ type: 'setField', path: 'data.fee', value: 5 }],
+      },
+      {
+        ruleId: 'FLAG',
+        group: 'flags',
+        when: { op: 'exists', left: { path: 'data.balance' } },
+        actions: [{ type: 'setField', path: 'data.flagged', value: true }],
+      },
+    ];
+
+    const result = evaluateRules({
+      rules,
+      context: baseContext,
+      data: { balance: 20000 },
+      options: { conflictResolution: 'first-match' },
+    });
+
+    expect(result.data.fee).toBe(0);
+    expect(result.data.flagged).toBe(true);
+    expect(result.trace.rulesMatched).toEqual(['FEE_PREMIUM', 'FLAG']);
+    expect(result.trace.conflictResolution?.skipped).toEqual([
+      { ruleId: 'FEE_STANDARD', reason: 'group_resolved', group: 'fees', resolvedBy: 'FEE_PREMIUM' },
+    ]);
+  });
+
+  it('honors exclusive groups declared on the rule set', () => {
+    const always = { op: 'eq', left: { value: true }, right: { value: true } } as const;
+    const result = evaluateRules({
+      rules: {
+        version: '1.0.0',
+        groups: { pricing: { exclusive: true } },
+        rules: [
+          { ruleId: 'PRICE_A', group: 'pricing', priority: 2, when: always },
+          { ruleId: 'PRICE_B', group: 'pricing', priority: 1, when: always },
+          { ruleId: 'OTHER_A', priority: 2, when: always },
+          { ruleId: 'OTHER_B', priority: 1, when: always },
+        ],
+      },
+      context: baseContext,
+      data: {},
+    });
+
+    expect(result.trace.rulesMatched).toEqual(['OTHER_A', 'PRICE_A', 'OTHER_B']);
+    expect(result.trace.conflictResolution?.skipped.map((entry) => entry.ruleId)).toEqual(['PRICE_B']);
+  });
+
+  it('lets narrower scopes win with the specificity strategy', () => {
+    const always = { op: 'eq', left: { value: true }, right: { value: true } } as const;
+    const result = evaluateRules({
+      rules: [
+        {
+          ruleId: 'GLOBAL',
+          priority: 100,
+          when: always,
+          actions: [{ type: 'setField', path: 'data.limit', value: 1000 }],
+        },
+        {
+          ruleId: 'US_ADMIN',
+          scope: { countries: ['US'], roles: ['admin'] },
+          when: always,
+          actions: [{ type: 'setField', path: 'data.limit', value: 5000 }],
+        },
+        {
+          ruleId: 'US_OR_CA',
+          scope: { countries: ['US', 'CA'] },
+          when: always,
+          actions: [{ type: 'setField', path: 'data.limit', value: 2000 }],
+        },
+        {
+          ruleId: 'DE_ONLY',
+          scope: { countries: ['DE'] },
+          when: always,
+          actions: [{ type: 'setField', path: 'data.limit', value: 9000 }],
+        },
+      ],
+      context: baseContext,
+      data: {},
+      options: { conflictResolution: 'specificity' },
+    });
+
+    expect(result.data.limit).toBe(5000);
+    expect(result.trace.rulesConsidered).toEqual(['US_ADMIN', 'US_OR_CA', 'GLOBAL']);
+    expect(result.trace.conflictResolution?.skipped).toEqual([
+      { ruleId: 'DE_ONLY', reason: 'scope_mismatch' },
+      { ruleId: 'US_OR_CA', reason: 'group_resolved', group: 'default', resolvedBy: 'US_ADMIN' },
+      { ruleId: 'GLOBAL', reason: 'group_resolved', group: 'default', resolvedBy: 'US_ADMIN' },
+    ]);
+  });
+
+  it('supports registered conflict resolution strategies', () => {
+    resetRulesEngineConfig();
+    registerConflictResolutionStrategy('alphabetical', {
+      compare: (a, b) => a.ruleId.localeCompare(b.ruleId),
+    });
+    configureRulesEngine({ conflictResolution: 'alphabetical' });
+    const always = { op: 'eq', left: { value: true }, right: { value: true } } as const;
+    const rules: Rule[] = [
+      { ruleId: 'B', priority: 10, when: always },
+      { ruleId: 'A', priority: 1, when: always },
+    ];
+
+    const result = evaluateRules({ rules, context: baseContext, data: {} });
+    expect(result.trace.rulesConsidered).toEqual(['A', 'B']);
+    expect(result.trace.conflictResolution?.strategy).toBe('alphabetical');
+
+    unregisterConflictResolutionStrategy('alphabetical');
+    const fallback = evaluateRules({ rules, context: baseContext, data: {} });
+    expect(fallback.trace.rulesConsidered).toEqual(['B', 'A']);
+    expect(fallback.trace.errors.some((error) => error.message.includes('Unknown conflict resolution strategy'))).toBe(
+      true,
+    );
+    expect(() => registerConflictResolutionStrategy('first-match', { compare: () => 0 })).toThrow();
+    resetRulesEngineConfig();
+  });
+
   it('records events and stops on throwError', () => {
     const rules: Rule[] = [
       {
@@ -307,6 +471,144 @@ describe('rules-engine', () => {
     expect(result.data.shouldSkip).toBeUndefined();
   });
 
+  it('chains rules until a fixpoint is reached', () => {
+    const rules: Rule[] = [
+      {
+        ruleId: 'TIER_GOLD',
+        priority: 10,
+        when: { op: 'eq', left: { path: 'data.riskBand' }, right: { value: 'low' } },
+        actions: [{ type: 'setField', path: 'data.tier', value: 'gold' }],
+      },
+      {
+        ruleId: 'RISK_BAND',
+        priority: 5,
+        when: { op: 'gte', left: { path: 'data.score' }, right: { value: 700 } },
+        actions: [{ type: 'setField', path: 'data.riskBand', value: 'low' }],
+      },
+      {
+        ruleId: 'STATIC',
+        priority: 1,
+        when: { op: 'eq', left: { value: true }, right: { value: true } },
+        actions: [{ type: 'emitEvent', event: 'evaluated' }],
+      },
+    ];
+
+    const single = evaluateRules({ rules, context: baseContext, data: { score: 720 } });
+    expect(single.data.tier).toBeUndefined();
+    expect(single.trace.passes).toBeUndefined();
+
+    const chained = evaluateRules({
+      rules,
+      context: baseContext,
+      data: { score: 720 },
+      options: { mode: 'chain' },
+    });
+    expect(chained.data.tier).toBe('gold');
+    expect(chained.trace.errors).toHaveLength(0);
+    expect(chained.trace.rulesMatched).toEqual(['RISK_BAND', 'STATIC', 'TIER_GOLD']);
+    expect(chained.trace.passes).toEqual([
+      {
+        pass: 1,
+        rulesEvaluated: ['TIER_GOLD', 'RISK_BAND', 'STATIC'],
+        rulesMatched: ['RISK_BAND', 'STATIC'],
+        changedPaths: ['data.riskBand'],
+      },
+      { pass: 2, rulesEvaluated: ['TIER_GOLD'], rulesMatched: ['TIER_GOLD'], changedPaths: ['data.tier'] },
+    ]);
+    expect(chained.trace.events).toHaveLength(1);
+  });
+
+  it('does not re-fire a chained rule that still matches after its reads change', () => {
+    const result = evaluateRules({
+      rules: [
+        {
+          ruleId: 'TAG_POSITIVE',
+          priority: 10,
+          when: { op: 'gt', left: { path: 'data.x' }, right: { value: 0 } },
+          actions: [
+            { type: 'addItem', path: 'data.list', value: 'A' },
+            { type: 'emitEvent', event: 'positive' },
+          ],
+        },
+        {
+          ruleId: 'BUMP',
+          priority: 5,
+          when: { op: 'eq', left: { path: 'data.x' }, right: { value: 1 } },
+          actions: [{ type: 'setField', path: 'data.x', value: 2 }],
+        },
+        {
+          ruleId: 'RESET',
+          priority: 1,
+          when: { op: 'eq', left: { path: 'data.x' }, right: { value: 2 } },
+          actions: [{ type: 'setField', path: 'data.x', value: 3 }],
+        },
+      ],
+      context: baseContext,
+      data: { x: 1, list: [] },
+      options: { mode: 'chain' },
+    });
+
+    expect(result.data).toEqual({ x: 3, list: ['A'] });
+    expect(result.trace.events).toEqual([expect.objectContaining({ ruleId: 'TAG_POSITIVE', event: 'positive' })]);
+    expect(result.trace.errors).toHaveLength(0);
+
+    // Once the condition turned false in between, the rule fires again.
+    const refired = evaluateRules({
+      rules: [
+        {
+          ruleId: 'TAG_OPEN',
+          priority: 10,
+          when: { op: 'eq', left: { path: 'data.status' }, right: { value: 'open' } },
+          actions: [{ type: 'addItem', path: 'data.log', value: 'open' }],
+        },
+        {
+          ruleId: 'CLOSE',
+          priority: 5,
+          when: { op: 'eq', left: { path: 'data.log' }, right: { value: ['open'] } },
+          actions: [{ type: 'setField', path: 'data.status', value: 'closed' }],
+        },
+        {
+          ruleId: 'REOPEN',
+          priority: 1,
+          when: { op: 'eq', left: { path: 'data.status' }, right: { value: 'closed' } },
+          actions: [
+            { type: 'setField', path: 'data.status', value: 'open' },
+            { type: 'setField', path: 'data.reopened', value: true },
+          ],
+        },
+      ],
+      context: baseContext,
+      data: { status: 'open', log: [] },
+      options: { mode: 'chain', maxChainIterations: 5 },
+    });
+    expect(refired.data.log).toEqual(['open', 'open']);
+  });
+
+  it('stops chaining at the max iteration cap for cyclic rules', () => {
+    const result = evaluateRules({
+      rules: [
+        {
+          ruleId: 'PING',
+          when: { op: 'eq', left: { path: 'data.state' }, right: { value: 'ping' } },
+          actions: [{ type: 'setField', path: 'data.state', value: 'pong' }],
+        },
+        {
+          ruleId: 'PONG',
+          when: { op: 'eq', left: { path: 'data.state' }, right: { value: 'pong' } },
+          actions: [{ type: 'setField', path: 'data.state', value: 'ping' }],
+        },
+      ],
+      context: baseContext,
+      data: { state: 'ping' },
+      options: { mode: 'chain', maxChainIterations: 3, timeoutMs: 1000 },
+    });
+
+    expect(result.trace.passes).toHaveLength(3);
+    expect(
+      result.trace.errors.some((error) => error.message.includes('did not reach a fixpoint after 3 passes')),
+    ).toBe(true);
+  });
+
   it('records depth errors for overly nested conditions', () => {
     const nested = { not: { not: { not: { op: 'exists', left: { path: 'data.value' } } } } } as const;
     const result = evaluateRules({
@@ -444,4 +746,631 @@ describe('rules-engine', () => {
       ),
     ).toBe(false);
   });
+
+  it('evaluates built-in domain operators', () => {
+    const check = (op: string, left: unknown, right?: unknown) =>
+      evaluateCondition(
+        {
+          op,
+          left: { value: left as never },
+          ...(right === undefined ? {} : { right: { value: right as never } }),
+        },
+        baseContext,
+        {},
+      );
+
+    expect(check('matchesRegex', 'AB-123', '^[A-Z]{2}-\\d+$')).toBe(true);
+    expect(check('matchesRegex', 'ab-123', ['^[A-Z]{2}-\\d+$', 'i'])).toBe(true);
+    expect(check('matchesRegex', 'AB-123', '([')).toBe(false);
+    expect(check('matchesRegex', 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaa!', '^(a+)+$')).toBe(false);
+    expect(check('matchesRegex', 'aaaa', '^(?:a|(b*))+$')).toBe(false);
+    expect(check('matchesRegex', 'a'.repeat(300), 'a'.repeat(300))).toBe(false);
+    expect(check('matchesRegex', '555-123-4567', '^(\\d{3}-){2}\\d{4}$')).toBe(true);
+    expect(check('matchesRegex', 'a+b(c', '^(a\\+b[(+]c)+$')).toBe(true);
+    expect(check('matchesRegex', 'aaa', '^(a|aa)+$')).toBe(false);
+    expect(check('matchesRegex', 'aa', '(a|a)*')).toBe(false);
+    expect(check('matchesRegex', 'b', '^(a|b)$')).toBe(true);
+    expect(check('matchesRegex', `${'a'.repeat(1001)}`, '^a+$')).toBe(false);
+    expect(check('between', 5, [1, 10])).toBe(true);
+    expect(check('between', 11, [1, 10])).toBe(false);
+    expect(check('lengthGt', 'hello', 3)).toBe(true);
+    expect(check('lengthGt', [1], 3)).toBe(false);
+    expect(check('isEmpty', '  ')).toBe(true);
+    expect(check('isEmpty', { a: 1 })).toBe(false);
+    expect(check('anyOf', ['gold', 'silver'], ['silver', 'bronze'])).toBe(true);
+    expect(check('allOf', ['gold', 'silver'], ['silver', 'bronze'])).toBe(false);
+    expect(check('allOf', ['gold', 'silver', 'bronze'], ['silver', 'bronze'])).toBe(true);
+    expect(check('validIban', 'GB82 WEST 1234 5698 7654 32')).toBe(true);
+    expect(check('validIban', 'GB82 WEST 1234 5698 7654 33')).toBe(false);
+    expect(check('validLuhn', '4111 1111 1111 1111')).toBe(true);
+    expect(check('validLuhn', '4111 1111 1111 1112')).toBe(false);
+    expect(check('fuzzyMatch', 'Jon Smith', 'John Smith')).toBe(true);
+    expect(check('fuzzyMatch', 'Jane Doe', ['John Smith', 0.5])).toBe(false);
+  });
+
+  it('evaluates registered operators and records their explain detail', () => {
+    registerRuleOperator('divisibleBy', {
+      arity: 2,
+      label: 'Divisible by',
+      evaluate: (left, right) => typeof left === 'number' && typeof right === 'number' && left % right === 0,
+      explain: (left, right, result) => `${String(left)} % ${String(right)} ${result ? '=' : '!='} 0`,
+    });
+    try {
+      expect(getRuleOperator('divisibleBy')).toEqual({ name: 'divisibleBy', arity: 2, label: 'Divisible by', builtIn: false });
+      expect(listRuleOperators().some((operator) => operator.name === 'exists' && operator.arity === 1)).toBe(true);
+
+      const result = evaluateRules({
+        rules: [
+          {
+            ruleId: 'EVEN',
+            when: { op: 'divisibleBy', left: { path: 'data.count' }, right: { value: 2 } },
+            actions: [{ type: 'setField', path: 'data.even', value: true }],
+          },
+        ],
+        context: baseContext,
+        data: { count: 4 },
+      });
+
+      expect(result.data.even).toBe(true);
+      expect(result.trace.conditionExplains?.EVEN).toMatchObject({
+        kind: 'compare',
+        op: 'divisibleBy',
+        result: true,
+        detail: '4 % 2 = 0',
+      });
+    } finally {
+      unregisterRuleOperator('divisibleBy');
+    }
+
+    expect(getRuleOperator('divisibleBy')).toBeUndefined();
+    expect(() => registerRuleOperator('eq', { arity: 2, evaluate: () => true })).toThrow('built-in');
+    expect(() => registerRuleOperator('bad name', { arity: 1, evaluate: () => true })).toThrow('Invalid rule operator');
+  });
+
+  it('evaluates some/every/none quantifiers over array paths', () => {
+    const data = {
+      lineItems: [{ amount: 250 }, { amount: 1500 }],
+      applicants: [
+        { age: 34, documents: ['passport'] },
+        { age: 17, documents: [] },
+      ],
+    };
+    const result = evaluateRules({
+      rules: [
+        {
+          ruleId: 'LARGE_LINE',
+          when: { some: { path: 'data.lineItems', when: { op: 'gt', left: { path: '$item.amount' }, right: { value: 1000 } } } },
+          actions: [{ type: 'setField', path: 'data.review', value: true }],
+        },
+        {
+          ruleId: 'ALL_ADULTS',
+          when: { every: { path: 'data.applicants', when: { op: 'gte', left: { path: '$item.age' }, right: { value: 18 } } } },
+          actions: [{ type: 'setField', path: 'data.allAdults', value: true }],
+        },
+        {
+          ruleId: 'MISSING_DOCUMENTS',
+          when: {
+            all: [
+              { op: 'exists', left: { path: 'data.applicants' } },
+              {
+                not: {
+                  none: {
+                    path: 'data.applicants',
+                    when: { none: { path: '$item.documents', when: { op: 'exists', left: { path: '$item' } } } },
+                  },
+                },
+              },
+            ],
+          },
+          actions: [{ type: 'setField', path: 'data.missingDocuments', value: true }],
+        },
+      ],
+      context: baseContext,
+      data,
+    });
+
+    expect(result.data.review).toBe(true);
+    expect(result.data.allAdults).toBeUndefined();
+    expect(result.data.missingDocuments).toBe(true);
+
+    const explain = result.trace.conditionExplains?.ALL_ADULTS;
+    expect(explain).toMatchObject({
+      kind: 'every',
+      path: 'data.applicants',
+      result: false,
+      elements: [
+        { index: 0, result: true, explain: { kind: 'compare', left: { path: '$item.age', value: 34 } } },
+        { index: 1, result: false, explain: { kind: 'compare', left: { path: '$item.age', value: 17 } } },
+      ],
+    });
+    expect(result.trace.readsByRuleId?.ALL_ADULTS?.map((read) => read.path)).toEqual(['data.applicants']);
+
+    expect(
+      evaluateCondition(
+        { every: { path: 'data.missing', when: { op: 'eq', left: { path: '$item' }, right: { value: 1 } } } },
+        baseContext,
+        {},
+      ),
+    ).toBe(true);
+  });
+
+  it('applies maxDepth and the timeout inside quantifiers', () => {
+    const deep = evaluateRules({
+      rules: [
+        {
+          ruleId: 'DEEP_QUANTIFIER',
+          when: { some: { path: 'data.items', when: { not: { op: 'exists', left: { path: '$item.missing' } } } } },
+        },
+      ],
+      context: baseContext,
+      data: { items: [{}] },
+      options: { maxDepth: 1 },
+    });
+    expect(deep.trace.errors[0]?.message).toContain('Max condition depth exceeded');
+
+    const now = vi.spyOn(Date, 'now');
+    let tick = 0;
+    now.mockImplementation(() => (tick += 10));
+    try {
+      const slow = evaluateRules({
+        rules: [
+          {
+            ruleId: 'SLOW_QUANTIFIER',
+            when: { every: { path: 'data.items', when: { op: 'exists', left: { path: '$item' } } } },
+          },
+        ],
+        context: baseContext,
+        data: { items: Array.from({ length: 50 }, (_, index) => index) },
+        options: { timeoutMs: 100 },
+      });
+      expect(slow.trace.conditionResults.SLOW_QUANTIFIER).toBeUndefined();
+      expect(slow.trace.errors[0]).toEqual({ ruleId: 'SLOW_QUANTIFIER', message: 'Rules evaluation timeout after 100ms' });
+    } finally {
+      now.mockRestore();
+    }
+  });
+
+  it('runs compiled decision tables according to their hit policy', () => {
+    const table: DecisionTable = {
+      tableId: 'shipping',
+      hitPolicy: 'first',
+      inputs: [
+        { id: 'country', path: 'context.country' },
+        { id: 'weight', path: 'data.weightKg', op: 'lte' },
+      ],
+      outputs: [{ id: 'carrier', path: 'data.carrier' }],
+      rows: [
+        { id: 'domesticLight', inputs: { country: { value: 'US' }, weight: { value: 2 } }, outputs: { carrier: 'usps' } },
+        { id: 'domestic', inputs: { country: { value: 'US' } }, outputs: { carrier: 'ups' } },
+        { id: 'other', inputs: {}, outputs: { carrier: 'dhl' } },
+      ],
+    };
+
+    const first = evaluateRules({ rules: compileDecisionTable(table), context: baseContext, data: { weightKg: 1 } });
+    expect(first.data.carrier).toBe('usps');
+    expect(first.trace.rulesMatched).toEqual(['shipping.domesticLight']);
+
+    const collected = evaluateRules({
+      rules: compileDecisionTable({ ...table, hitPolicy: 'collect' }),
+      context: baseContext,
+      data: { weightKg: 1 },
+    });
+    expect(collected.data.carrier).toEqual(['usps', 'ups', 'dhl']);
+  });
+
+  it('runs golden rule test cases and reports diffs per case', () => {
+    const rules: Rule[] = [
+      {
+        ruleId: 'ADULT',
+        when: { op: 'gte', left: { path: 'data.age' }, right: { value: 18 } },
+        actions: [
+          { type: 'setField', path: 'data.profile.adult', value: true },
+          { type: 'setField', path: 'data.tier', value: 'standard' },
+        ],
+      },
+      {
+        ruleId: 'BLOCKED',
+        when: { op: 'eq', left: { path: 'data.blocked' }, right: { value: true } },
+        actions: [{ type: 'throwError', message: 'Blocked' }],
+      },
+    ];
+    const data = { age: 30, profile: { name: 'Ada' } };
+
+    const suite = runRuleTests(rules, [
+      {
+        id: 'adult',
+        context: baseContext,
+        data,
+        expect: { matchedRuleIds: ['ADULT'], data: { profile: { adult: true } } },
+      },
+      {
+        id: 'wrong-tier',
+        context: baseContext,
+        data,
+        expect: { matchedRuleIds: ['ADULT', 'BLOCKED'], data: { tier: 'gold', profile: { adult: true } } },
+      },
+      {
+        id: 'blocked',
+        context: baseContext,
+        data: { blocked: true },
+        expect: { errors: ['Blocked'] },
+      },
+    ]);
+
+    expect(suite).toMatchObject({ passed: false, total: 3, failed: 1 });
+    expect(suite.results.map((result) => result.passed)).toEqual([true, false, true]);
+    expect(suite.results[1]?.diffs).toEqual([
+      { path: 'matchedRuleIds', expected: ['ADULT', 'BLOCKED'], actual: ['ADULT'] },
+      { path: 'data.tier', expected: 'gold', actual: 'standard' },
+    ]);
+    // Each case evaluates a copy of its input.
+    expect(data).toEqual({ age: 30, profile: { name: 'Ada' } });
+  });
+
+  it('compiles a rule set into an indexed evaluator with the same results and trace', () => {
+    const rules: RuleSet = {
+      version: '1.0.0',
+      groups: { pricing: { exclusive: true } },
+      rules: [
+        {
+          ruleId: 'GOLD',
+          priority: 5,
+          group: 'pricing',
+          when: { all: [{ op: 'eq', left: { path: 'data.tier' }, right: { value: 'gold' } }, { op: 'gt', left: { path: 'data.amount' }, right: { value: 100 } }] },
+          actions: [{ type: 'setField', path: 'data.discount', value: 0.2 }],
+        },
+        {
+          ruleId: 'SILVER',
+          priority: 5,
+          group: 'pricing',
+          when: { op: 'eq', left: { value: 'silver' }, right: { path: 'tier' } },
+          actions: [{ type: 'setField', path: 'data.discount', value: 0.1 }],
+        },
+        {
+          ruleId: 'UPGRADE',
+          priority: 10,
+          when: { op: 'eq', left: { path: 'data.amount' }, right: { value: 500 } },
+          actions: [{ type: 'setField', path: 'data.tier', value: 'gold' }],
+        },
+        {
+          ruleId: 'DE_ONLY',
+          scope: { countries: ['DE'] },
+          when: { op: 'exists', left: { path: 'data.amount' } },
+        },
+        {
+          ruleId: 'ANY_BIG_ITEM',
+          when: { some: { path: 'data.items', when: { op: 'gte', left: { path: '$item.qty' }, right: { value: 3 } } } },
+          actions: [{ type: 'setField', path: 'data.bulk', value: true }],
+        },
+        {
+          ruleId: 'NOT_VIP',
+          when: { not: { op: 'in', left: { path: 'context.role' }, right: { value: ['vip'] } } },
+          actions: [{ type: 'setContext', path: 'context.featureFlags.priced', value: true }],
+        },
+      ],
+    };
+    const compiled = compileRuleSet(rules);
+    expect(compiled.stats).toEqual({
+      rules: 6,
+      indexedRules: 3,
+      indexedPaths: ['data.amount', 'data.tier'],
+      scopeBuckets: 2,
+      compiledConditions: 5,
+    });
+
+    const fixtures: Array<Record<string, JSONValue>> = [
+      { tier: 'silver', amount: 500, items: [{ qty: 1 }, { qty: 4 }] },
+      { tier: 'bronze', amount: 20 },
+    ];
+    const stripTiming = (trace: object) => ({ ...trace, startedAt: '', durationMs: 0 });
+    for (const mode of ['apply', 'chain', 'predicate'] as const) {
+      for (const data of fixtures) {
+        const input = { context: baseContext, data, options: { mode } };
+        const expected = evaluateRules({ rules, ...input });
+        const actual = compiled.evaluate(input);
+        expect(actual.data).toEqual(expected.data);
+        expect(actual.context).toEqual(expected.context);
+        expect(stripTiming(actual.trace)).toEqual(stripTiming(expected.trace));
+
+        const fast = compiled.evaluate({ ...input, options: { mode, explain: false } });
+        const { conditionExplains: _explains, ...expectedWithoutExplains } = stripTiming(expected.trace) as typeof expected.trace;
+        expect(fast.trace.conditionExplains).toBeUndefined();
+        expect(stripTiming(fast.trace)).toEqual(expectedWithoutExplains);
+        expect(fast.data).toEqual(expected.data);
+      }
+    }
+  });
+
+  it('resolves lookup operands asynchronously and records them as reads', async () => {
+    clearRuleLookups();
+    const sanctioned = new Set(['DE89370400440532013000']);
+    const calls: JSONValue[] = [];
+    registerRuleLookup('sanctions', {
+      resolve: async (key) => {
+        calls.push(key ?? null);
+        return typeof key === 'string' && sanctioned.has(key);
+      },
+    });
+    registerRuleLookup('riskByCountry', { resolve: async (key) => (key === 'DE' ? 'high' : 'low') });
+    registerRuleLookup('country', { resolve: async (key) => (typeof key === 'string' ? key.slice(0, 2) : null) });
+
+    const rules: Rule[] = [
+      {
+        ruleId: 'BLOCK_SANCTIONED',
+        priority: 2,
+        when: { op: 'eq', left: { lookup: 'sanctions', key: { path: 'data.iban' } }, right: { value: true } },
+        actions: [{ type: 'setField', path: 'data.blocked', value: true }],
+      },
+      {
+        ruleId: 'REVIEW_PAYEES',
+        priority: 1,
+        when: {
+          all: [
+            { op: 'eq', left: { lookup: 'riskByCountry', key: { lookup: 'country', key: { path: 'data.iban' } } }, right: { value: 'high' } },
+            { some: { path: 'data.payees', when: { op: 'eq', left: { lookup: 'sanctions', key: { path: '$item' } }, right: { value: true } } } },
+          ],
+        },
+        actions: [{ type: 'setField', path: 'data.review', value: true }],
+      },
+    ];
+    const data = { iban: 'DE89370400440532013000', payees: ['FR7630006000011234567890189', 'DE89370400440532013000'] };
+
+    const result = await evaluateRulesAsync({ rules, context: baseContext, data, options: { timeoutMs: 1000 } });
+    expect(result.trace.errors).toEqual([]);
+    expect(result.data).toMatchObject({ blocked: true, review: true });
+    expect(calls).toEqual(['DE89370400440532013000', 'FR7630006000011234567890189']);
+    expect(result.trace.readsByRuleId?.BLOCK_SANCTIONED).toEqual([
+      { path: 'data.iban', value: 'DE89370400440532013000' },
+      {
+        path: 'lookup.sanctions',
+        value: true,
+        lookup: { name: 'sanctions', key: 'DE89370400440532013000', cached: false, durationMs: expect.any(Number) },
+      },
+    ]);
+    expect(result.trace.readsByRuleId?.REVIEW_PAYEES?.filter((read) => read.lookup).map((read) => [read.lookup?.name, read.lookup?.key, read.lookup?.cached])).toEqual([
+      ['country', 'DE89370400440532013000', false],
+      ['riskByCountry', 'DE', false],
+      ['sanctions', 'FR7630006000011234567890189', false],
+      ['sanctions', 'DE89370400440532013000', true],
+    ]);
+    expect(result.trace.conditionExplains?.BLOCK_SANCTIONED).toMatchObject({
+      kind: 'compare',
+      left: { kind: 'lookup', lookup: 'sanctions', key: 'DE89370400440532013000', value: true },
+    });
+
+    const sync = evaluateRules({ rules, context: baseContext, data });
+    expect(sync.trace.rulesMatched).toEqual([]);
+    expect(sync.trace.errors).toEqual([
+      { ruleId: 'BLOCK_SANCTIONED', message: 'Lookup "sanctions" requires evaluateRulesAsync' },
+      { ruleId: 'REVIEW_PAYEES', message: 'Lookup "country" requires evaluateRulesAsync' },
+    ]);
+    clearRuleLookups();
+  });
+
+  it('caches lookups across evaluations and bounds lookups and async actions by timeoutMs', async () => {
+    clearRuleLookups();
+    clearRuleActionHandlers();
+    resetRulesEngineConfig();
+    let fxCalls = 0;
+    registerRuleLookup('fxRate', {
+      cacheTtlMs: 60_000,
+      resolve: async (key) => {
+        fxCalls += 1;
+        return key === 'EUR' ? 1.1 : 1;
+      },
+    });
+    let aborted = false;
+    registerRuleLookup('slow', {
+      timeoutMs: 20,
+      resolve: (_key, ctx) =>
+        new Promise((resolve) => {
+          const timer = setTimeout(() => resolve(true), 1000);
+          ctx.signal.addEventListener('abort', () => {
+            aborted = true;
+            clearTimeout(timer);
+          });
+        }),
+    });
+    registerAsyncRuleActionHandler('enrich', async (_action, ctx) => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      ctx.data.enriched = true;
+    });
+    configureRulesEngine({ actionPolicy: { allowCustomActions: true, allowedActionTypes: ['enrich'] } });
+
+    const enrich = { type: 'enrich' } as unknown as RuleAction;
+    const rules: Rule[] = [
+      {
+        ruleId: 'CONVERT',
+        priority: 3,
+        when: { op: 'gt', left: { lookup: 'fxRate', key: { path: 'data.currency' } }, right: { value: 1 } },
+        actions: [enrich],
+      },
+      {
+        ruleId: 'SLOW_CHECK',
+        priority: 2,
+        when: { op: 'eq', left: { lookup: 'slow', key: { value: 'x' } }, right: { value: true } },
+      },
+      {
+        ruleId: 'AFTER',
+        priority: 1,
+        when: { op: 'eq', left: { path: 'data.enriched' }, right: { value: true } },
+      },
+    ];
+    const input = { rules, context: baseContext, data: { currency: 'EUR' }, options: { timeoutMs: 1000 } };
+
+    const first = await evaluateRulesAsync(input);
+    expect(first.data.enriched).toBe(true);
+    expect(first.trace.rulesMatched).toEqual(['CONVERT', 'AFTER']);
+    expect(first.trace.actionsApplied.map((entry) => entry.action.type)).toEqual(['enrich']);
+    expect(first.trace.errors).toEqual([{ ruleId: 'SLOW_CHECK', message: 'Lookup "slow" timed out after 20ms' }]);
+    expect(aborted).toBe(true);
+
+    const second = await evaluateRulesAsync(input);
+    expect(fxCalls).toBe(1);
+    expect(second.trace.readsByRuleId?.CONVERT?.find((read) => read.lookup)?.lookup?.cached).toBe(true);
+    expect(evaluateRules(input).trace.errors).toContainEqual({ ruleId: 'CONVERT', message: 'Lookup "fxRate" requires evaluateRulesAsync' });
+
+    registerRuleLookup('fxRate', { resolve: async () => 2 });
+    const syncAction = evaluateRules({
+      rules: [{ ruleId: 'ENRICH', when: { op: 'exists', left: { path: 'data.currency' } }, actions: [enrich] }],
+      context: baseContext,
+      data: { currency: 'EUR' },
+    });
+    expect(syncAction.trace.errors).toEqual([{ ruleId: 'ENRICH', message: 'Action enrich has an async handler; use evaluateRulesAsync' }]);
+
+    const tight = await evaluateRulesAsync({
+      rules: [{ ruleId: 'ENRICH', when: { op: 'exists', left: { path: 'data.currency' } }, actions: [enrich] }],
+      context: baseContext,
+      data: { currency: 'EUR' },
+      options: { timeoutMs: 0 },
+    });
+    expect(tight.data.enriched).toBeUndefined();
+    expect(tight.trace.errors).toEqual([{ ruleId: 'ENRICH', message: 'Action enrich timed out after 0ms' }]);
+
+    clearRuleLookups();
+    clearRuleActionHandlers();
+    resetRulesEngineConfig();
+  });
+
+  it('evaluates the version of each rule in effect at options.asOf', () => {
+    const rules: Rule[] = [
+      {
+        ruleId: 'VAT_RATE',
+        version: '1',
+        effectiveTo: '2027-01-01',
+        when: { op: 'exists', left: { path: 'data.net' } },
+        actions: [{ type: 'setField', path: 'data.vatRate', value: 0.19 }],
+      },
+      {
+        ruleId: 'VAT_RATE',
+        version: '2',
+        effectiveFrom: '2027-01-01',
+        when: { op: 'exists', left: { path: 'data.net' } },
+        actions: [{ type: 'setField', path: 'data.vatRate', value: 0.21 }],
+      },
+      {
+        ruleId: 'VAT_RATE',
+        version: '2.1',
+        effectiveFrom: '2027-01-01',
+        effectiveTo: '2027-07-01T00:00:00Z',
+        when: { op: 'exists', left: { path: 'data.net' } },
+        actions: [{ type: 'setField', path: 'data.vatRate', value: 0.2 }],
+      },
+      {
+        ruleId: 'LAUNCH_PROMO',
+        effectiveFrom: '2026-12-01',
+        effectiveTo: '2026-12-24',
+        when: { op: 'exists', left: { path: 'data.net' } },
+        actions: [{ type: 'setField', path: 'data.promo', value: true }],
+      },
+    ];
+    const evaluateAt = (asOf: string | number) =>
+      evaluateRules({ rules, context: baseContext, data: { net: 100 }, options: { asOf } });
+
+    const today = evaluateAt('2026-12-10');
+    expect(today.data).toEqual({ net: 100, vatRate: 0.19, promo: true });
+    expect(today.trace.asOf).toBe('2026-12-10T00:00:00.000Z');
+    expect(today.trace.conflictResolution?.skipped).toEqual([
+      { ruleId: 'VAT_RATE', reason: 'not_effective', version: '2' },
+      { ruleId: 'VAT_RATE', reason: 'not_effective', version: '2.1' },
+    ]);
+
+    const january = evaluateAt(Date.UTC(2027, 0, 15));
+    expect(january.data).toEqual({ net: 100, vatRate: 0.2 });
+    expect(january.trace.conflictResolution?.skipped).toEqual([
+      { ruleId: 'VAT_RATE', reason: 'not_effective', version: '1' },
+      { ruleId: 'VAT_RATE', reason: 'superseded', version: '2' },
+      { ruleId: 'LAUNCH_PROMO', reason: 'not_effective' },
+    ]);
+    expect(evaluateAt('2027-07-01').data.vatRate).toBe(0.21);
+
+    const compiled = compileRuleSet(rules);
+    const compiledJanuary = compiled.evaluate({ context: baseContext, data: { net: 100 }, options: { asOf: Date.UTC(2027, 0, 15) } });
+    expect(compiledJanuary.data).toEqual(january.data);
+    expect(compiledJanuary.trace.conflictResolution).toEqual(january.trace.conflictResolution);
+
+    // Without any effective window, rules sharing a ruleId are not versions and all run.
+    const reused = evaluateRules({
+      rules: [
+        { ruleId: 'TAG', when: { op: 'exists', left: { path: 'data.net' } }, actions: [{ type: 'addItem', path: 'data.tags', value: 'a' }] },
+        { ruleId: 'TAG', when: { op: 'exists', left: { path: 'data.net' } }, actions: [{ type: 'addItem', path: 'data.tags', value: 'b' }] },
+      ],
+      context: baseContext,
+      data: { net: 100, tags: [] },
+      options: { asOf: '2027-01-15' },
+    });
+    expect(reused.data.tags).toEqual(['a', 'b']);
+    expect(reused.trace.conflictResolution?.skipped).toEqual([]);
+
+    const invalid = evaluateAt('next tuesday');
+    expect(invalid.trace.asOf).toBeUndefined();
+    expect(invalid.trace.errors).toEqual([{ message: 'Invalid asOf: next tuesday, using the evaluation start time' }]);
+  });
+
+  it('parses binding expressions into transforms and evaluates them', () => {
+    const monthly = parseBindingExpression('round(principal * rate / 12, 2)');
+    expect(monthly).toEqual({
+      $transform: 'round',
+      args: [
+        {
+          $transform: 'divide',
+          args: [{ $transform: 'multiply', args: [{ $path: 'data.principal' }, { $path: 'data.rate' }] }, 12],
+        },
+        2,
+      ],
+    });
+    expect(evaluateBindingExpression(monthly, baseContext, { principal: 10000, rate: 0.05 })).toBe(41.67);
+
+    const fullName = parseBindingExpression("data.first + ' ' + last");
+    expect(evaluateBindingExpression(fullName, baseContext, { first: 'Ada', last: 'Lovelace' })).toBe('Ada Lovelace');
+    expect(evaluateBindingExpression(parseBindingExpression('1 + 2 * -(3 - 5) % 3'), baseContext, {})).toBe(2);
+    expect(evaluateBindingExpression(parseBindingExpression('upper(context.country)'), baseContext, {})).toBe('US');
+    expect(evaluateBindingExpression(parseBindingExpression('total / count'), baseContext, { total: 5, count: 0 })).toBeUndefined();
+    expect(evaluateBindingExpression(parseBindingExpression('items[1].price'), baseContext, { items: [{}, { price: 3 }] })).toBe(3);
+    expect(parseBindingExpression('data.customer-name')).toEqual({ $path: 'data.customer-name' });
+    expect(evaluateBindingExpression(parseBindingExpression(' order.ship-to[0].zip-code '), baseContext, {
+      order: { 'ship-to': [{ 'zip-code': '10115' }] },
+    })).toBe('10115');
+    expect(evaluateBindingExpression(parseBindingExpression('total - discount'), baseContext, { total: 5, discount: 2 })).toBe(3);
+    expect(collectBindingExpressionDependencies(parseBindingExpression('computed.net * (1 + vat) + net'))).toEqual([
+      'computed.net',
+      'data.vat',
+      'data.net',
+    ]);
+
+    expect(() => parseBindingExpression('eval(x)')).toThrow(new BindingExpressionError('Unknown function "eval"', 0));
+    expect(() => parseBindingExpression('a +')).toThrow('Unexpected end of expression at column 4');
+    expect(() => parseBindingExpression('a; b')).toThrow(BindingExpressionError);
+    expect(() => parseBindingExpression(`${'('.repeat(40)}1${')'.repeat(40)}`)).toThrow('nested too deeply');
+  });
+
+  it('evaluates computed bindings in dependency order and only recomputes changed inputs', () => {
+    const evaluator = createComputedBindingEvaluator();
+    const computed = {
+      total: 'computed.monthly * months',
+      monthly: 'round(principal * rate / 12, 2)',
+      label: "name + ': ' + computed.total",
+      plain: 'data.name',
+    };
+
+    const first = evaluator.evaluate(computed, { principal: 1200, rate: 0.1, months: 12, name: 'Loan' }, baseContext);
+    expect(first.monthly).toEqual({ value: 10, path: 'round(principal * rate / 12, 2)', dependencies: ['data.principal', 'data.rate'] });
+    expect(first.total?.value).toBe(120);
+    expect(first.label?.value).toBe('Loan: 120');
+    expect(first.plain).toEqual({ value: 'Loan', path: 'data.name', dependencies: ['data.name'] });
+    expect(evaluator.stats()).toEqual({ evaluations: 4, cacheHits: 0 });
+
+    const renamed = evaluator.evaluate(computed, { principal: 1200, rate: 0.1, months: 12, name: 'Car' }, baseContext);
+    expect(renamed.label?.value).toBe('Car: 120');
+    expect(evaluator.stats()).toEqual({ evaluations: 6, cacheHits: 2 });
+
+    const cyclic = { a: 'computed.b + 1', b: 'computed.a * 2', c: 'computed.a', d: 'x +' };
+    expect(findComputedBindingCycles(cyclic)).toEqual([['a', 'b']]);
+    const result = evaluator.evaluate(cyclic, { x: 1 }, baseContext);
+    expect(result.a).toMatchObject({ value: undefined, error: 'Computed binding cycle: a -> b -> a' });
+    expect(result.b?.error).toBe('Computed binding cycle: a -> b -> a');
+    expect(result.c).toMatchObject({ value: undefined });
+    expect(result.c?.error).toBeUndefined();
+    expect(result.d?.error).toBe('Unexpected end of expression at column 4');
+  });
 });
@@ -0,0 +1,309 @@
+import type { ExecutionContext, JSONValue, UIComponentDataSource } from '@platform/schema';
+import { RealtimeManager } from '../realtime/RealtimeManager';
+import type { ComponentDataSourceConfig, DataSourceAdapter } from './DataSourceAdapter';
+import { createDataSourceAdapter } from './createDataSourceAdapter';
+
+export type ComponentDataStatus = 'loading' | 'ready' | 'empty' | 'error';
+
+export interface ComponentDataState {
+  status: ComponentDataStatus;
+  /** Latest payload. While parameters change it still holds the previous one. */
+  data?: JSONValue;
+  error?: string;
+  params: Record<string, JSONValue>;
+}
+
+export type ComponentDataListener = (componentId: string, state: ComponentDataState) => void;
+
+export interface ComponentDataLoaderOptions<
+  TConfig extends ComponentDataSourceConfig = ComponentDataSourceConfig,
+> {
+  /** Defaults to `createDataSourceAdapter`. Adapters are reused per type, endpoint and query. */
+  resolveAdapter?: (config: TConfig) => DataSourceAdapter;
+  /** Manager for `websocket` subscriptions; a private one is created when omitted. */
+  realtime?: RealtimeManager;
+  /** How long a loaded result is reused for the same parameters. Defaults to 60 seconds. */
+  cacheTtlMs?: number;
+  /** Results kept at most; the least recently stored is evicted first. Defaults to 100. */
+  maxCacheEntries?: number;
+}
+
+const DEFAULT_CACHE_TTL_MS = 60_000;
+const DEFAULT_MAX_CACHE_ENTRIES = 100;
+
+type ComponentEntry<TConfig> = {
+  key: string;
+  config: TConfig;
+  state: ComponentDataState;
+  pending?: Promise<ComponentDataState>;
+  abort?: AbortController;
+  unsubscribe?: () => void;
+};
+
+/**
+ * Loads the declared `dataSource` of components. Results are cached per source and parameter
+ * set for `cacheTtlMs`, a load superseded by new parameters (or released) is aborted and never
+ * reported, and `websocket` sources stay subscribed through the `RealtimeManager` until released.
+ */
+export class ComponentDataLoader<TConfig extends ComponentDataSourceConfig = ComponentDataSourceConfig> {
+  private readonly entries = new Map<string, ComponentEntry<TConfig>>();
+  private readonly cache = new Map<string, { data: JSONValue; storedAt: number }>();
+  private readonly adapters = new Map<string, DataSourceAdapter>();
+  private readonly listeners = new Set<ComponentDataListener>();
+  private readonly resolveAdapter: (config: TConfig) => DataSourceAdapter;
+  private readonly realtime: RealtimeManager;
+  private readonly cacheTtlMs: number;
+  private readonly maxCacheEntries: number;
+
+  constructor(options: ComponentDataLoaderOptions<TConfig> = {}) {
+    this.resolveAdapter = options.resolveAdapter ?? ((config) => createDataSourceAdapter(config));
+    this.realtime = options.realtime ?? new RealtimeManager();
+    this.cacheTtlMs = options.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS;
+    this.maxCacheEntries = options.maxCacheEntries ?? DEFAULT_MAX_CACHE_ENTRIES;
+  }
+
+  /**
+   * Loads the source for a component unless it is already loaded (or loading) with the same
+   * parameters. A failed load is kept until the parameters change, the component is released
+   * or `reload` is called, so re-renders do not retry it in a loop.
+   */
+  load(componentId: string, config: TConfig, params: Record<string, JSONValue> = {}): Promise<ComponentDataState> {
+    const key = getDataSourceCacheKey(config, params);
+    const current = this.entries.get(componentId);
+    if (current?.key === key) return current.pending ?? Promise.resolve(current.state);
+
+    const previousData = current?.state.data;
+    if (current) this.cancel(current);
+    const entry: ComponentEntry<TConfig> = { key, config, state: { status: 'loading', data: previousData, params } };
+    this.entries.set(componentId, entry);
+
+    const cached = this.readCache(key);
+    if (cached !== undefined) {
+      this.settle(componentId, entry, toSettledState(cached, params), config);
+      return Promise.resolve(entry.state);
+    }
+
+    this.emit(componentId, entry.state);
+    const abort = new AbortController();
+    entry.abort = abort;
+    const adapter = this.adapterFor(config);
+    entry.pending = adapter
+      .connect()
+      .then(() =>
+        abort.signal.aborted
+          ? null
+          : adapter.fetch({
+              type: config.type,
+              endpoint: config.endpoint,
+              query: config.query,
+              componentId,
+              params,
+              variables: params,
+              signal: abort.signal,
+            }),
+      )
+      .then(
+        (payload: unknown) => {
+          const data = (payload ?? null) as JSONValue;
+          if (!abort.signal.aborted) this.writeCache(key, data);
+          return toSettledState(data, params);
+        },
+        (error: unknown): ComponentDataState => ({
+          status: 'error',
+          data: previousData,
+          error: error instanceof Error ? error.message : String(error),
+          params,
+        }),
+      )
+      .then((state) => {
+        if (this.entries.get(componentId) !== entry) return state;
+        entry.pending = undefined;
+        entry.abort = undefined;
+        this.settle(componentId, entry, state, config);
+        return state;
+      });
+    return entry.pending;
+  }
+
+  /**
+   * Fetches the current parameters of one component (or of every loaded component) again,
+   * bypassing the cache. Use it to retry a failed load or refresh stale data.
+   */
+  reload(componentId?: string): Promise<ComponentDataState[]> {
+    const componentIds = componentId === undefined ? [...this.entries.keys()] : [componentId];
+    return Promise.all(
+      componentIds.flatMap((id) => {
+        const entry = this.entries.get(id);
+        if (!entry) return [];
+        this.cache.delete(entry.key);
+        this.cancel(entry);
+        this.entries.set(id, { ...entry, key: '', pending: undefined, abort: undefined, unsubscribe: undefined });
+        return [this.load(id, entry.config, entry.state.params)];
+      }),
+    );
+  }
+
+  getState(componentId: string): ComponentDataState | undefined {
+    return this.entries.get(componentId)?.state;
+  }
+
+  subscribe(listener: ComponentDataListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Aborts a pending load and ends the realtime subscription of one component. */
+  release(componentId: string): void {
+    const entry = this.entries.get(componentId);
+    if (!entry) return;
+    this.cancel(entry);
+    this.entries.delete(componentId);
+  }
+
+  /** Releases every component. Cached results survive, so a remounted page renders them at once. */
+  dispose(): void {
+    for (const componentId of [...this.entries.keys()]) this.release(componentId);
+  }
+
+  private readCache(key: string): JSONValue | undefined {
+    const cached = this.cache.get(key);
+    if (!cached) return undefined;
+    if (Date.now() - cached.storedAt > this.cacheTtlMs) {
+      this.cache.delete(key);
+      return undefined;
+    }
+    return cached.data;
+  }
+
+  private writeCache(key: string, data: JSONValue): void {
+    this.cache.delete(key);
+    this.cache.set(key, { data, storedAt: Date.now() });
+    while (this.cache.size > this.maxCacheEntries) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest === undefined) break;
+      this.cache.delete(oldest);
+    }
+  }
+
+  private settle(componentId: string, entry: ComponentEntry<TConfig>, state: ComponentDataState, config: TConfig): void {
+    entry.state = state;
+    this.emit(componentId, state);
+    if (config.type === 'websocket') this.subscribeRealtime(componentId, entry, config);
+  }
+
+  private subscribeRealtime(componentId: string, entry: ComponentEntry<TConfig>, config: TConfig): void {
+    if (entry.unsubscribe) return;
+    let active = true;
+    entry.unsubscribe = () => {
+      active = false;
+    };
+    const handler = (payload: unknown) => {
+      if (!active) return;
+      const data = (payload ?? null) as JSONValue;
+      this.writeCache(entry.key, data);
+      entry.state = toSettledState(data, entry.state.params);
+      this.emit(componentId, entry.state);
+    };
+    this.realtime
+      .subscribe(
+        this.adapterFor(config),
+        {
+          topic: config.realtime?.topic ?? config.endpoint,
+          throttleMs: config.realtime?.throttleMs,
+          deltaPatch: config.realtime?.deltaPatch,
+        },
+        handler,
+      )
+      .then(
+        (unsubscribe) => {
+          if (!active) {
+            unsubscribe();
+            return;
+          }
+          entry.unsubscribe = () => {
+            active = false;
+            unsubscribe();
+          };
+        },
+        (error: unknown) => {
+          if (!active) return;
+          entry.state = {
+            ...entry.state,
+            status: 'error',
+            error: error instanceof Error ? error.message : String(error),
+          };
+          this.emit(componentId, entry.state);
+        },
+      );
+  }
+
+  private cancel(entry: ComponentEntry<TConfig>): void {
+    entry.abort?.abort();
+    entry.unsubscribe?.();
+  }
+
+  private adapterFor(config: TConfig): DataSourceAdapter {
+    const key = JSON.stringify([config.type, config.endpoint, config.query ?? null]);
+    const existing = this.adapters.get(key);
+    if (existing) return existing;
+    const adapter = this.resolveAdapter(config);
+    this.adapters.set(key, adapter);
+    return adapter;
+  }
+
+  private emit(componentId: string, state: ComponentDataState): void {
+    this.listeners.forEach((listener) => listener(componentId, state));
+  }
+}
+
+/** Reads the `params` paths of a data source; `context.*` paths read the execution context. */
+export function resolveDataSourceParams(
+  dataSource: Pick<UIComponentDataSource, 'params'>,
+  data: Record<string, JSONValue>,
+  context: ExecutionContext,
+): Record<string, JSONValue> {
+  const params: Record<string, JSONValue> = {};
+  for (const [name, path] of Object.entries(dataSource.params ?? {})) {
+    const trimmed = path.trim();
+    const value = trimmed.startsWith('context.')
+      ? readPath(context as unknown as Record<string, JSONValue>, trimmed.slice('context.'.length))
+      : readPath(data, trimmed.startsWith('data.') ? trimmed.slice('data.'.length) : trimmed);
+    params[name] = value ?? null;
+  }
+  return params;
+}
+
+export function getDataSourceCacheKey(
+  config: ComponentDataSourceConfig,
+  params: Record<string, JSONValue>,
+): string {
+  const sortedParams = Object.keys(params)
+    .sort()
+    .map((name) => [name, params[name] ?? null]);
+  return JSON.stringify([config.type, config.endpoint, config.query ?? null, sortedParams]);
+}
+
+function toSettledState(data: JSONValue | undefined, params: Record<string, JSONValue>): ComponentDataState {
+  return { status: isEmptyPayload(data) ? 'empty' : 'ready', data, params };
+}
+
+function isEmptyPayload(data: JSONValue | undefined): boolean {
+  if (data === undefined || data === null) return true;
+  if (Array.isArray(data)) return data.length === 0;
+  if (typeof data === 'object') return Object.keys(data).length === 0;
+  return false;
+}
+
+function readPath(obj: Record<string, JSONValue>, path: string): JSONValue | undefined {
+  const parts = path.replace(/\[(\d+)\]/g, '.$1').split('.').filter(Boolean);
+  let current: JSONValue | undefined = obj;
+  for (const part of parts) {
+    if (current === null || current === undefined) return undefined;
+    if (Array.isArray(current)) current = current[Number(part)];
+    else if (typeof current === 'object') current = (current as Record<string, JSONValue>)[part];
+    else return undefined;
+  }
+  return current;
+}
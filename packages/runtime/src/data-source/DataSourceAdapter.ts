@@ -43,6 +43,7 @@ export interface DispatchRequest {
     method?: string;
   };
   resilience?: RequestResiliencePolicy;
+  signal?: AbortSignal;
 }
 
 export interface DataSourceAdapter {
@@ -59,4 +60,5 @@ export interface ComponentDataSourceConfig {
   endpoint: string;
   query?: string;
   resilience?: RequestResiliencePolicy;
+  realtime?: { topic?: string; throttleMs?: number; deltaPatch?: boolean };
 }
@@ -29,6 +29,7 @@ export class GraphQLAdapter implements DataSourceAdapter {
         () =>
           fetch(endpoint, {
             ...this.init,
+            ...(query?.signal ? { signal: query.signal } : {}),
             method: 'POST',
             headers: {
               'content-type': 'application/json',
@@ -23,6 +23,12 @@ export class InMemoryAdapter implements DataSourceAdapter {
       if (typeof query.key === 'string') {
         return this.data[query.key];
       }
+      // Seeding an endpoint lets the adapter stand in for a component `dataSource`; a function
+      // seed receives the request, so responses can depend on `params`.
+      if (typeof query.endpoint === 'string' && Object.prototype.hasOwnProperty.call(this.data, query.endpoint)) {
+        const seeded = this.data[query.endpoint];
+        return typeof seeded === 'function' ? seeded(query) : seeded;
+      }
       if (query.patch && typeof query.patch === 'object') {
         Object.assign(this.data, query.patch as Record<string, unknown>);
       }
@@ -26,6 +26,7 @@ export class RestAdapter implements DataSourceAdapter {
     const targetUrl = buildRestUrl(endpoint, query?.params);
     const requestInit: RequestInit = {
       ...this.init,
+      ...(query?.signal ? { signal: query.signal } : {}),
       method,
       headers,
       body:
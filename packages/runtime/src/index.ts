@@ -7,6 +7,7 @@ export * from './data-source/KafkaAdapter';
 export * from './data-source/GrpcAdapter';
 export * from './data-source/InMemoryAdapter';
 export * from './data-source/createDataSourceAdapter';
+export * from './data-source/ComponentDataLoader';
 export * from './data-source/resilience';
 export * from './data-source/response-parsers';
 export * from './data-source/safe-transform';
@@ -16,3 +17,4 @@ export * from './data-source/connectors/KafkaConnector';
 export * from './data-source/connectors/GrpcConnector';
 export * from './realtime/RealtimeManager';
 export * from './realtime/SubscriptionRegistry';
+export * from './validation/FormValidator';
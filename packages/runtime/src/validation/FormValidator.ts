@@ -0,0 +1,352 @@
+import type { I18nProvider } from '@platform/i18n';
+import { createFallbackI18nProvider } from '@platform/i18n';
+import { evaluateCondition, evaluateRules } from '@platform/rules-engine';
+import { expandRepeaterComponents } from '@platform/schema';
+import type {
+  ExecutionContext,
+  JSONValue,
+  LayoutNode,
+  Rule,
+  RuleCondition,
+  RuleSet,
+  UIComponent,
+} from '@platform/schema';
+
+export type FormValidationCode =
+  | 'required'
+  | 'min'
+  | 'max'
+  | 'regex'
+  | 'minDate'
+  | 'maxDate'
+  | 'minTime'
+  | 'maxTime'
+  | 'rule';
+
+export interface FormFieldError {
+  componentId: string;
+  code: FormValidationCode;
+  message: string;
+  ruleId?: string;
+}
+
+export interface FormFieldState {
+  value: JSONValue | undefined;
+  required: boolean;
+  errors: FormFieldError[];
+  valid: boolean;
+  touched: boolean;
+  dirty: boolean;
+}
+
+export interface FormValidationResult {
+  valid: boolean;
+  fields: Record<string, FormFieldState>;
+  errors: FormFieldError[];
+}
+
+export interface ValidateFormInput {
+  components: UIComponent[];
+  /** Page layout; template components of its repeaters are validated once per item. */
+  layout?: LayoutNode;
+  data: Record<string, JSONValue>;
+  context: ExecutionContext;
+  /** Rule set the `validations.rules` names are looked up in. */
+  rules?: Rule[] | RuleSet;
+  i18n?: I18nProvider;
+  touched?: ReadonlySet<string>;
+  /** Values fields are compared against to decide whether they are dirty. */
+  initialData?: Record<string, JSONValue>;
+  initialContext?: ExecutionContext;
+}
+
+export interface FormValidatorOptions {
+  components: UIComponent[];
+  layout?: LayoutNode;
+  initialData?: Record<string, JSONValue>;
+  initialContext?: ExecutionContext;
+  rules?: Rule[] | RuleSet;
+  i18n?: I18nProvider;
+}
+
+const EMPTY_FIELD_STATE: FormFieldState = {
+  value: undefined,
+  required: false,
+  errors: [],
+  valid: true,
+  touched: false,
+  dirty: false,
+};
+
+/**
+ * Checks every visible, enabled component against its `validations` and `rules.requiredWhen`.
+ * A name in `validations.rules` fails the field when that rule raises an error (usually a
+ * `throwError` action); the error message is translated as an i18n key.
+ */
+export function validateForm(input: ValidateFormInput): FormValidationResult {
+  const i18n = input.i18n ?? createFallbackI18nProvider();
+  const ruleErrors = evaluateValidationRules(input);
+  const fields: Record<string, FormFieldState> = {};
+  const errors: FormFieldError[] = [];
+
+  for (const component of expandRepeaterComponents(input.components, input.layout, input.data)) {
+    const value = readFieldValue(component, input.data, input.context);
+    const initialValue =
+      input.initialData === undefined
+        ? value
+        : readFieldValue(component, input.initialData, input.initialContext ?? input.context);
+    const active =
+      isConditionMet(component.rules?.visibleWhen, input, true) &&
+      !isConditionMet(component.rules?.disabledWhen, input, false) &&
+      component.props?.disabled !== true;
+    const required =
+      Boolean(component.validations?.required) || isConditionMet(component.rules?.requiredWhen, input, false);
+    const fieldErrors = active ? validateField(component, value, required, ruleErrors, i18n) : [];
+    fields[component.id] = {
+      value,
+      required,
+      errors: fieldErrors,
+      valid: fieldErrors.length === 0,
+      touched: input.touched?.has(component.id) ?? false,
+      dirty: !isSameValue(value, initialValue),
+    };
+    errors.push(...fieldErrors);
+  }
+
+  return { valid: errors.length === 0, fields, errors };
+}
+
+export function getFieldState(result: FormValidationResult, componentId: string): FormFieldState {
+  return result.fields[componentId] ?? EMPTY_FIELD_STATE;
+}
+
+/** Keeps touched state and the initial values between validations of one rendered page. */
+export class FormValidator {
+  private readonly touched = new Set<string>();
+  private initialData: Record<string, JSONValue>;
+  private initialContext: ExecutionContext | undefined;
+
+  constructor(private readonly options: FormValidatorOptions) {
+    this.initialData = cloneValue(options.initialData ?? {});
+    this.initialContext = options.initialContext ? cloneValue(options.initialContext) : undefined;
+  }
+
+  touch(componentId: string): void {
+    this.touched.add(componentId);
+  }
+
+  /** Touches every field, including one copy per repeater item present in `data`. */
+  touchAll(data: Record<string, JSONValue> = this.initialData): void {
+    for (const component of expandRepeaterComponents(this.options.components, this.options.layout, data)) {
+      this.touched.add(component.id);
+    }
+  }
+
+  isTouched(componentId: string): boolean {
+    return this.touched.has(componentId);
+  }
+
+  validate(data: Record<string, JSONValue>, context: ExecutionContext): FormValidationResult {
+    return validateForm({
+      components: this.options.components,
+      layout: this.options.layout,
+      data,
+      context,
+      rules: this.options.rules,
+      i18n: this.options.i18n,
+      touched: this.touched,
+      initialData: this.initialData,
+      initialContext: this.initialContext,
+    });
+  }
+
+  /** Marks every field touched so all errors show, then validates. */
+  submit(data: Record<string, JSONValue>, context: ExecutionContext): FormValidationResult {
+    this.touchAll(data);
+    return this.validate(data, context);
+  }
+
+  reset(initialData?: Record<string, JSONValue>, initialContext?: ExecutionContext): void {
+    this.touched.clear();
+    if (initialData) this.initialData = cloneValue(initialData);
+    if (initialContext) this.initialContext = cloneValue(initialContext);
+  }
+}
+
+function validateField(
+  component: UIComponent,
+  value: JSONValue | undefined,
+  required: boolean,
+  ruleErrors: Map<string, string>,
+  i18n: I18nProvider,
+): FormFieldError[] {
+  const spec = component.validations ?? {};
+  const errors: FormFieldError[] = [];
+  const label = component.i18n?.labelKey ? i18n.t(component.i18n.labelKey) : String(component.props?.label ?? '');
+  const fail = (
+    code: FormValidationCode,
+    defaultText: string,
+    params: Record<string, unknown> = {},
+    messageKey: string = code,
+  ) => {
+    errors.push({
+      componentId: component.id,
+      code,
+      message: i18n.t(`runtime.validation.${messageKey}`, { label, ...params }, { defaultText }),
+    });
+  };
+
+  if (value === undefined || isEmptyValue(value)) {
+    if (required) fail('required', 'This field is required');
+  } else {
+    const measured = measureValue(value);
+    if (typeof spec.min === 'number' && measured !== null && measured.size < spec.min) {
+      const min = i18n.formatNumber(spec.min);
+      if (measured.length) fail('min', `Enter at least ${min} characters`, { min }, 'minLength');
+      else fail('min', `Must be at least ${min}`, { min });
+    }
+    if (typeof spec.max === 'number' && measured !== null && measured.size > spec.max) {
+      const max = i18n.formatNumber(spec.max);
+      if (measured.length) fail('max', `Enter at most ${max} characters`, { max }, 'maxLength');
+      else fail('max', `Must be at most ${max}`, { max });
+    }
+    if (spec.regex && !matchesPattern(spec.regex, value)) {
+      fail('regex', 'Enter a value in the expected format', { pattern: spec.regex });
+    }
+    if (spec.minDate && !isAtLeast(parseDate(value), parseDate(spec.minDate))) {
+      fail('minDate', `Choose a date on or after ${spec.minDate}`, { minDate: spec.minDate });
+    }
+    if (spec.maxDate && !isAtMost(parseDate(value), parseDate(spec.maxDate))) {
+      fail('maxDate', `Choose a date on or before ${spec.maxDate}`, { maxDate: spec.maxDate });
+    }
+    if (spec.minTime && !isAtLeast(parseTimeOfDay(value), parseTimeOfDay(spec.minTime))) {
+      fail('minTime', `Choose a time at or after ${spec.minTime}`, { minTime: spec.minTime });
+    }
+    if (spec.maxTime && !isAtMost(parseTimeOfDay(value), parseTimeOfDay(spec.maxTime))) {
+      fail('maxTime', `Choose a time at or before ${spec.maxTime}`, { maxTime: spec.maxTime });
+    }
+  }
+
+  for (const ruleId of spec.rules ?? []) {
+    const message = ruleErrors.get(ruleId);
+    if (message === undefined) continue;
+    errors.push({
+      componentId: component.id,
+      code: 'rule',
+      ruleId,
+      message: i18n.t(message, { label, ruleId }, { defaultText: message }),
+    });
+  }
+  return errors;
+}
+
+// Each named rule runs on its own so one failing `throwError` does not halt the others.
+function evaluateValidationRules(input: ValidateFormInput): Map<string, string> {
+  const failures = new Map<string, string>();
+  if (!input.rules) return failures;
+  const available = Array.isArray(input.rules) ? input.rules : input.rules.rules;
+  const names = new Set(input.components.flatMap((component) => component.validations?.rules ?? []));
+  for (const ruleId of names) {
+    const versions = available.filter((rule) => rule.ruleId === ruleId);
+    if (versions.length === 0) continue;
+    const result = evaluateRules({ rules: versions, context: input.context, data: input.data });
+    const error = result.trace.errors.find((entry) => entry.ruleId === ruleId);
+    if (error) failures.set(ruleId, error.message);
+  }
+  return failures;
+}
+
+function isConditionMet(
+  condition: RuleCondition | undefined,
+  input: ValidateFormInput,
+  fallback: boolean,
+): boolean {
+  if (!condition) return fallback;
+  try {
+    return evaluateCondition(condition, input.context, input.data);
+  } catch {
+    return fallback;
+  }
+}
+
+function readFieldValue(
+  component: UIComponent,
+  data: Record<string, JSONValue>,
+  context: ExecutionContext,
+): JSONValue | undefined {
+  const binding = component.bindings?.data?.valuePath ?? component.bindings?.data?.value;
+  if (typeof binding !== 'string' || binding.trim().length === 0) return component.props?.value;
+  const path = binding.trim();
+  if (path.startsWith('context.')) {
+    return getPath(context as unknown as Record<string, JSONValue>, path.slice('context.'.length));
+  }
+  return getPath(data, path.startsWith('data.') ? path.slice('data.'.length) : path);
+}
+
+function isEmptyValue(value: JSONValue): boolean {
+  if (value === null) return true;
+  if (typeof value === 'string') return value.trim().length === 0;
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+}
+
+// Numbers are bounded by value, strings and lists by length.
+function measureValue(value: JSONValue): { size: number; length: boolean } | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? { size: value, length: false } : null;
+  if (typeof value === 'string' || Array.isArray(value)) return { size: value.length, length: true };
+  return null;
+}
+
+function matchesPattern(pattern: string, value: JSONValue): boolean {
+  if (typeof value !== 'string' && typeof value !== 'number') return false;
+  try {
+    return new RegExp(pattern).test(String(value));
+  } catch {
+    // An unparseable pattern is a schema problem, not a user input problem.
+    return true;
+  }
+}
+
+function parseDate(value: JSONValue | undefined): number | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const parsed = typeof value === 'number' ? value : Date.parse(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function parseTimeOfDay(value: JSONValue | undefined): number | null {
+  if (typeof value !== 'string') return null;
+  const match = /(\d{1,2}):(\d{2})(?::(\d{2}))?/.exec(value);
+  if (!match) return null;
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3] ?? 0);
+}
+
+// A value that cannot be parsed never satisfies a bound; a bound that cannot be parsed is ignored.
+function isAtLeast(value: number | null, bound: number | null): boolean {
+  if (bound === null) return true;
+  return value !== null && value >= bound;
+}
+
+function isAtMost(value: number | null, bound: number | null): boolean {
+  if (bound === null) return true;
+  return value !== null && value <= bound;
+}
+
+function getPath(obj: Record<string, JSONValue>, path: string): JSONValue | undefined {
+  const parts = path.replace(/\[(\d+)\]/g, '.$1').split('.').filter(Boolean);
+  let current: JSONValue | undefined = obj;
+  for (const part of parts) {
+    if (current === null || current === undefined) return undefined;
+    if (Array.isArray(current)) current = current[Number(part)];
+    else if (typeof current === 'object') current = (current as Record<string, JSONValue>)[part];
+    else return undefined;
+  }
+  return current;
+}
+
+function isSameValue(left: JSONValue | undefined, right: JSONValue | undefined): boolean {
+  return JSON.stringify(left ?? null) === JSON.stringify(right ?? null);
+}
+
+function cloneValue<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
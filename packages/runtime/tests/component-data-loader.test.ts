@@ -0,0 +1,173 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { ExecutionContext } from '@platform/schema';
+import { ComponentDataLoader, resolveDataSourceParams } from '../src/data-source/ComponentDataLoader';
+import type { DispatchRequest } from '../src/data-source/DataSourceAdapter';
+import { InMemoryAdapter } from '../src/data-source/InMemoryAdapter';
+import { RealtimeManager } from '../src/realtime/RealtimeManager';
+
+const context: ExecutionContext = {
+  tenantId: 'tenant-1',
+  userId: 'user-1',
+  role: 'author',
+  roles: ['author'],
+  country: 'US',
+  locale: 'en-US',
+  timezone: 'UTC',
+  device: 'desktop',
+  permissions: [],
+  featureFlags: {},
+};
+
+const ordersSource = { type: 'rest' as const, endpoint: '/orders', params: { status: 'data.filters.status' } };
+
+describe('component data loader', () => {
+  it('reads params from data and context paths', () => {
+    const params = resolveDataSourceParams(
+      { params: { status: 'data.filters.status', tenant: 'context.tenantId', page: 'paging.page', missing: 'x.y' } },
+      { filters: { status: 'open' }, paging: { page: 2 } },
+      context,
+    );
+    expect(params).toEqual({ status: 'open', tenant: 'tenant-1', page: 2, missing: null });
+  });
+
+  it('reports loading, ready, empty and error states and caches per parameter set', async () => {
+    const orders = vi.fn((request: DispatchRequest) => {
+      const status = request.params?.status;
+      if (status === 'broken') throw new Error('orders unavailable');
+      return status === 'open' ? [{ id: 'o-1' }] : [];
+    });
+    const loader = new ComponentDataLoader({ resolveAdapter: () => new InMemoryAdapter({ '/orders': orders }) });
+    const states: string[] = [];
+    loader.subscribe((componentId, state) => states.push(`${componentId}:${state.status}`));
+
+    await expect(loader.load('ordersTable', ordersSource, { status: 'open' })).resolves.toMatchObject({
+      status: 'ready',
+      data: [{ id: 'o-1' }],
+    });
+    await loader.load('ordersTable', ordersSource, { status: 'open' });
+    await expect(loader.load('ordersTable', ordersSource, { status: 'closed' })).resolves.toMatchObject({
+      status: 'empty',
+      data: [],
+    });
+    const failed = await loader.load('ordersTable', ordersSource, { status: 'broken' });
+    expect(failed).toMatchObject({ status: 'error', error: 'orders unavailable', data: [] });
+    await loader.load('ordersTable', ordersSource, { status: 'open' });
+
+    expect(orders).toHaveBeenCalledTimes(3);
+    expect(states).toEqual([
+      'ordersTable:loading',
+      'ordersTable:ready',
+      'ordersTable:loading',
+      'ordersTable:empty',
+      'ordersTable:loading',
+      'ordersTable:error',
+      'ordersTable:ready',
+    ]);
+  });
+
+  it('retries failed loads on reload and refetches expired or evicted results', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      let failing = true;
+      const orders = vi.fn((request: DispatchRequest) => {
+        if (failing) throw new Error('orders unavailable');
+        return [{ id: `o-${String(request.params?.status)}` }];
+      });
+      const loader = new ComponentDataLoader({
+        resolveAdapter: () => new InMemoryAdapter({ '/orders': orders }),
+        cacheTtlMs: 1000,
+        maxCacheEntries: 1,
+      });
+
+      await expect(loader.load('ordersTable', ordersSource, { status: 'open' })).resolves.toMatchObject({ status: 'error' });
+      await loader.load('ordersTable', ordersSource, { status: 'open' });
+      expect(orders).toHaveBeenCalledTimes(1);
+
+      failing = false;
+      await expect(loader.reload('ordersTable')).resolves.toEqual([
+        expect.objectContaining({ status: 'ready', data: [{ id: 'o-open' }] }),
+      ]);
+      expect(orders).toHaveBeenCalledTimes(2);
+
+      await loader.load('ordersTable', ordersSource, { status: 'closed' });
+      await loader.load('ordersTable', ordersSource, { status: 'closed' });
+      expect(orders).toHaveBeenCalledTimes(3);
+      // Only one result is kept, so going back to "open" fetches again.
+      await loader.load('ordersTable', ordersSource, { status: 'open' });
+      expect(orders).toHaveBeenCalledTimes(4);
+
+      loader.release('ordersTable');
+      await loader.load('ordersTable', ordersSource, { status: 'open' });
+      expect(orders).toHaveBeenCalledTimes(4);
+      vi.advanceTimersByTime(1001);
+      loader.release('ordersTable');
+      await loader.load('ordersTable', ordersSource, { status: 'open' });
+      expect(orders).toHaveBeenCalledTimes(5);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('aborts superseded and released loads without reporting them', async () => {
+    const resolvers: Array<(value: unknown) => void> = [];
+    const signals: AbortSignal[] = [];
+    const adapter = new InMemoryAdapter({
+      '/orders': (request: DispatchRequest) => {
+        if (request.signal) signals.push(request.signal);
+        return new Promise((resolve) => resolvers.push(resolve));
+      },
+    });
+    const loader = new ComponentDataLoader({ resolveAdapter: () => adapter });
+    const listener = vi.fn();
+    loader.subscribe(listener);
+
+    const first = loader.load('ordersTable', ordersSource, { status: 'open' });
+    await vi.waitFor(() => expect(resolvers).toHaveLength(1));
+    const second = loader.load('ordersTable', ordersSource, { status: 'closed' });
+    await vi.waitFor(() => expect(resolvers).toHaveLength(2));
+    expect(signals[0]?.aborted).toBe(true);
+    resolvers[1]?.([{ id: 'c-1' }]);
+    resolvers[0]?.([{ id: 'stale' }]);
+    await first;
+    await expect(second).resolves.toMatchObject({ status: 'ready', data: [{ id: 'c-1' }] });
+    expect(loader.getState('ordersTable')?.data).toEqual([{ id: 'c-1' }]);
+
+    const third = loader.load('ordersTable', ordersSource, { status: 'late' });
+    await vi.waitFor(() => expect(resolvers).toHaveLength(3));
+    loader.release('ordersTable');
+    resolvers[2]?.([{ id: 'late' }]);
+    await third;
+    expect(signals[2]?.aborted).toBe(true);
+    expect(loader.getState('ordersTable')).toBeUndefined();
+    const statuses = listener.mock.calls.map(([, state]) => state.status);
+    expect(statuses).toEqual(['loading', 'loading', 'ready', 'loading']);
+  });
+
+  it('keeps websocket sources updated through the realtime manager until released', async () => {
+    const adapter = new InMemoryAdapter({ 'wss://feed.example.com': { price: 1 } });
+    const realtime = new RealtimeManager({
+      scheduleFrame: (run) => {
+        run();
+        return () => undefined;
+      },
+    });
+    const loader = new ComponentDataLoader({ resolveAdapter: () => adapter, realtime });
+    const source = {
+      type: 'websocket' as const,
+      endpoint: 'wss://feed.example.com',
+      realtime: { topic: 'prices' },
+    };
+
+    await loader.load('ticker', source);
+    await vi.waitFor(() => {
+      adapter.publish('prices', { price: 2 });
+      expect(loader.getState('ticker')).toMatchObject({ status: 'ready', data: { price: 2 } });
+    });
+
+    loader.dispose();
+    adapter.publish('prices', { price: 3 });
+    expect(loader.getState('ticker')).toBeUndefined();
+    await expect(loader.load('ticker', source)).resolves.toMatchObject({ data: { price: 2 } });
+    realtime.destroy();
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { createProviderFromBundles, PLATFORM_BUNDLES } from '@platform/i18n';
+import type { ExecutionContext, LayoutNode, Rule, UIComponent } from '@platform/schema';
+import { FormValidator, validateForm } from '../src/validation/FormValidator';
+
+const context: ExecutionContext = {
+  tenantId: 'tenant-1',
+  userId: 'user-1',
+  role: 'author',
+  roles: ['author'],
+  country: 'US',
+  locale: 'en-US',
+  timezone: 'UTC',
+  device: 'desktop',
+  permissions: [],
+  featureFlags: {},
+};
+
+function field(id: string, overrides: Partial<UIComponent> = {}): UIComponent {
+  return {
+    id,
+    type: 'input',
+    adapterHint: 'platform.textField',
+    accessibility: { ariaLabelKey: `${id}.aria`, keyboardNav: true, focusOrder: 1 },
+    bindings: { data: { value: `data.${id}` } },
+    ...overrides,
+  };
+}
+
+describe('form validator', () => {
+  it('enforces the validation spec and requiredWhen against bound values', () => {
+    const components = [
+      field('name', { validations: { required: true, min: 3, regex: '^[A-Z]' } }),
+      field('amount', { validations: { min: 10, max: 100 } }),
+      field('startDate', { validations: { minDate: '2024-01-01', maxDate: '2024-12-31' } }),
+      field('startTime', { validations: { minTime: '09:00', maxTime: '17:30' } }),
+      field('reason', { rules: { requiredWhen: { op: 'gt', left: { path: 'data.amount' }, right: { value: 50 } } } }),
+      field('hidden', {
+        validations: { required: true },
+        rules: { visibleWhen: { op: 'eq', left: { value: true }, right: { value: false } } },
+      }),
+    ];
+
+    const result = validateForm({
+      components,
+      context,
+      data: { name: 'al', amount: 500, startDate: '2023-06-01', startTime: '18:00' },
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.fields.name?.errors.map((error) => error.code)).toEqual(['min', 'regex']);
+    expect(result.fields.name?.errors[0]?.message).toBe('Enter at least 3 characters');
+    expect(result.fields.amount?.errors.map((error) => error.message)).toEqual(['Must be at most 100']);
+    expect(result.fields.startDate?.errors.map((error) => error.code)).toEqual(['minDate']);
+    expect(result.fields.startTime?.errors.map((error) => error.code)).toEqual(['maxTime']);
+    expect(result.fields.reason).toMatchObject({ required: true, errors: [expect.objectContaining({ code: 'required' })] });
+    expect(result.fields.hidden?.errors).toEqual([]);
+
+    const fixed = validateForm({
+      components,
+      context,
+      data: { name: 'Alice', amount: 20, startDate: '2024-03-01', startTime: '10:15' },
+    });
+    expect(fixed).toMatchObject({ valid: true, errors: [] });
+  });
+
+  it('runs named rules for cross-field checks and localizes messages', () => {
+    const rules: Rule[] = [
+      {
+        ruleId: 'END_AFTER_START',
+        when: { op: 'lt', left: { path: 'data.end' }, right: { path: 'data.start' } },
+        actions: [{ type: 'throwError', message: 'End must not be before start' }],
+      },
+      {
+        ruleId: 'NOT_NEGATIVE',
+        when: { op: 'lt', left: { path: 'data.end' }, right: { value: 0 } },
+        actions: [{ type: 'throwError', message: 'Must not be negative' }],
+      },
+    ];
+    const i18n = createProviderFromBundles({ locale: 'de', bundles: PLATFORM_BUNDLES });
+    const components = [
+      field('start', { validations: { required: true } }),
+      field('end', { validations: { max: 10, rules: ['END_AFTER_START', 'NOT_NEGATIVE', 'UNKNOWN'] } }),
+    ];
+
+    const result = validateForm({ components, context, rules, i18n, data: { start: 5, end: 12 } });
+    expect(result.fields.end?.errors).toEqual([
+      { componentId: 'end', code: 'max', message: 'Darf höchstens 10 sein' },
+    ]);
+
+    const crossed = validateForm({ components, context, rules: { version: '1.0.0', rules }, i18n, data: { end: -1 } });
+    expect(crossed.fields.start?.errors[0]?.message).toBe('Dieses Feld ist erforderlich');
+    expect(crossed.fields.end?.errors).toEqual([
+      { componentId: 'end', code: 'rule', ruleId: 'NOT_NEGATIVE', message: 'Must not be negative' },
+    ]);
+
+    const both = validateForm({ components, context, rules, data: { start: 5, end: -1 } });
+    expect(both.fields.end?.errors.map((error) => error.ruleId)).toEqual(['END_AFTER_START', 'NOT_NEGATIVE']);
+  });
+
+  it('tracks touched and dirty fields and touches everything on submit', () => {
+    const validator = new FormValidator({
+      components: [field('email', { validations: { required: true } }), field('note')],
+      initialData: { email: '', note: 'draft' },
+    });
+
+    const initial = validator.validate({ email: '', note: 'draft' }, context);
+    expect(initial.fields.email).toMatchObject({ touched: false, dirty: false, valid: false });
+
+    validator.touch('note');
+    const edited = validator.validate({ email: '', note: 'final' }, context);
+    expect(edited.fields.note).toMatchObject({ touched: true, dirty: true, valid: true });
+    expect(edited.fields.email?.touched).toBe(false);
+
+    const submitted = validator.submit({ email: '', note: 'final' }, context);
+    expect(submitted.valid).toBe(false);
+    expect(submitted.fields.email?.touched).toBe(true);
+
+    validator.reset({ email: 'a@b.c', note: 'final' });
+    expect(validator.validate({ email: 'a@b.c', note: 'final' }, context).fields.email).toMatchObject({
+      touched: false,
+      dirty: false,
+      valid: true,
+    });
+  });
+
+  it('validates one copy of repeater template components per item', () => {
+    const layout: LayoutNode = {
+      id: 'root',
+      type: 'repeater',
+      itemsPath: 'data.applicants',
+      template: { id: 'applicant', type: 'stack', componentIds: ['applicantName'] },
+    };
+    const components = [
+      field('applicantName', {
+        bindings: { data: { value: 'data.applicants[$index].name' } },
+        validations: { required: true },
+      }),
+    ];
+    const data = { applicants: [{ name: 'Ada' }, { name: '' }] };
+
+    const result = validateForm({ components, layout, context, data });
+    expect(Object.keys(result.fields)).toEqual(['applicantName[0]', 'applicantName[1]']);
+    expect(result.errors.map((error) => error.componentId)).toEqual(['applicantName[1]']);
+
+    const validator = new FormValidator({ components, layout, initialData: data });
+    expect(validator.submit(data, context).fields['applicantName[1]']?.touched).toBe(true);
+  });
+});
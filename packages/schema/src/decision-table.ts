@@ -0,0 +1,122 @@
+import type { JSONValue, Rule, RuleAction, RuleCondition, RuleOperator, RuleSet } from './types';
+
+export type DecisionTableHitPolicy = 'unique' | 'first' | 'priority' | 'collect' | 'any';
+
+export interface DecisionTableInput {
+  id: string;
+  label?: string;
+  path: string;
+  op?: RuleOperator;
+}
+
+export interface DecisionTableOutput {
+  id: string;
+  label?: string;
+  path: string;
+}
+
+export interface DecisionTableEntry {
+  op?: RuleOperator;
+  value?: JSONValue;
+}
+
+export interface DecisionTableRow {
+  id: string;
+  description?: string;
+  priority?: number;
+  inputs: Record<string, DecisionTableEntry>;
+  outputs: Record<string, JSONValue>;
+}
+
+export interface DecisionTable {
+  tableId: string;
+  description?: string;
+  hitPolicy: DecisionTableHitPolicy;
+  priority?: number;
+  inputs: DecisionTableInput[];
+  outputs: DecisionTableOutput[];
+  rows: DecisionTableRow[];
+}
+
+export function decisionTableRuleId(table: Pick<DecisionTable, 'tableId'>, row: Pick<DecisionTableRow, 'id'>): string {
+  return `${table.tableId}.${row.id}`;
+}
+
+export function compileDecisionTable(table: DecisionTable): RuleSet {
+  const rules = table.rows.map((row, index): Rule => {
+    const conditions: RuleCondition[] = [];
+    for (const input of table.inputs) {
+      const entry = row.inputs[input.id];
+      if (!entry) continue;
+      conditions.push({
+        op: entry.op ?? input.op ?? 'eq',
+        left: { path: input.path },
+        ...(entry.value !== undefined ? { right: { value: entry.value } } : {}),
+      });
+    }
+
+    const actions: RuleAction[] = [];
+    for (const output of table.outputs) {
+      const value = row.outputs[output.id];
+      if (value === undefined) continue;
+      actions.push(toOutputAction(table.hitPolicy, output.path, value));
+    }
+
+    const priority = table.hitPolicy === 'priority' ? row.priority ?? 0 : table.priority;
+    return {
+      ruleId: decisionTableRuleId(table, row),
+      description: row.description ?? `${table.tableId} row ${index + 1}`,
+      ...(priority !== undefined ? { priority } : {}),
+      // Row order breaks ties, so the first listed row wins within equal priority.
+      salience: table.rows.length - index,
+      group: table.tableId,
+      when: { all: conditions },
+      ...(actions.length > 0 ? { actions } : {}),
+    };
+  });
+
+  return {
+    version: '1.0.0',
+    rules,
+    groups: {
+      [table.tableId]: {
+        exclusive: table.hitPolicy !== 'collect',
+        ...(table.description ? { description: table.description } : {}),
+      },
+    },
+  };
+}
+
+export function applyDecisionTable(ruleSet: RuleSet, table: DecisionTable): RuleSet {
+  const compiled = compileDecisionTable(table);
+  const otherTables = (ruleSet.decisionTables ?? []).filter((candidate) => candidate.tableId !== table.tableId);
+  return {
+    ...ruleSet,
+    rules: [...ruleSet.rules.filter((rule) => rule.group !== table.tableId), ...compiled.rules],
+    groups: { ...(ruleSet.groups ?? {}), ...compiled.groups },
+    decisionTables: [...otherTables, table],
+  };
+}
+
+export function removeDecisionTable(ruleSet: RuleSet, tableId: string): RuleSet {
+  const groups = { ...(ruleSet.groups ?? {}) };
+  delete groups[tableId];
+  const decisionTables = (ruleSet.decisionTables ?? []).filter((table) => table.tableId !== tableId);
+  return {
+    ...ruleSet,
+    rules: ruleSet.rules.filter((rule) => rule.group !== tableId),
+    groups,
+    decisionTables,
+  };
+}
+
+function toOutputAction(hitPolicy: DecisionTableHitPolicy, path: string, value: JSONValue): RuleAction {
+  if (path.startsWith('context.')) {
+    return { type: 'setContext', path, value };
+  }
+  // Collect gathers every matching row's output into a list, as in DMN.
+  if (hitPolicy === 'collect') {
+    return { type: 'addItem', path, value };
+  }
+  return { type: 'setField', path, value };
+}
@@ -1,4 +1,12 @@
-import type { FlowAction, FlowSchema, FlowTransition, JSONValue, RuleCondition } from './types';
+import type {
+  FlowAction,
+  FlowHistoryMode,
+  FlowSchema,
+  FlowState,
+  FlowTransition,
+  JSONValue,
+  RuleCondition,
+} from './types';
 
 export interface FlowScreenPosition {
   x: number;
@@ -11,9 +19,32 @@ export interface FlowScreenNode {
   uiPageId: string;
   description?: string;
   position?: FlowScreenPosition;
+  /** Group (compound state) the screen belongs to. */
+  parentId?: string;
+  entry?: FlowAction[];
+  exit?: FlowAction[];
   metadata?: Record<string, JSONValue>;
 }
 
+/**
+ * A compound state drawn as a box around its screens and nested groups. Transitions may start
+ * at a group to handle an event for every screen inside it, and may target a history node.
+ */
+export interface FlowGroupNode {
+  id: string;
+  title: string;
+  parentId?: string;
+  initialChildId?: string;
+  history?: FlowHistoryNode[];
+  entry?: FlowAction[];
+  exit?: FlowAction[];
+}
+
+export interface FlowHistoryNode {
+  id: string;
+  mode: FlowHistoryMode;
+}
+
 export type FlowConditionExpression = string | RuleCondition;
 
 export interface FlowTransitionEdge {
@@ -37,6 +68,7 @@ export interface FlowGraphSchema {
   initialScreenId: string;
   screens: FlowScreenNode[];
   transitions: FlowTransitionEdge[];
+  groups?: FlowGroupNode[];
 }
 
 let flowIdCounter = 0;
@@ -190,7 +222,22 @@ export function flowGraphToStateMachine(flow: FlowGraphSchema): FlowSchema {
     states[screen.id] = {
       uiPageId: screen.uiPageId,
       on: {},
+      ...hierarchyFields(screen.parentId, screen.entry, screen.exit),
+    };
+  }
+
+  for (const group of flow.groups ?? []) {
+    if (states[group.id]) continue;
+    states[group.id] = {
+      uiPageId: group.id,
+      on: {},
+      ...hierarchyFields(group.parentId, group.entry, group.exit),
+      ...(group.initialChildId ? { initial: group.initialChildId } : {}),
     };
+    for (const history of group.history ?? []) {
+      if (states[history.id]) continue;
+      states[history.id] = { uiPageId: group.id, on: {}, parent: group.id, history: history.mode };
+    }
   }
 
   for (const transition of flow.transitions) {
@@ -229,8 +276,32 @@ export function flowGraphToStateMachine(flow: FlowGraphSchema): FlowSchema {
 
 export function stateMachineToFlowGraph(flow: FlowSchema): FlowGraphSchema {
   const stateEntries = Object.entries(flow.states ?? {});
-  const screens = stateEntries.map(([stateId, state], index) =>
-    createFlowScreen({
+  const parentIds = new Set(stateEntries.map(([, state]) => state.parent).filter((id): id is string => Boolean(id)));
+  const groups: FlowGroupNode[] = [];
+  const screenEntries: Array<[string, FlowState]> = [];
+
+  for (const [stateId, state] of stateEntries) {
+    if (state.history) continue;
+    if (!parentIds.has(stateId)) {
+      screenEntries.push([stateId, state]);
+      continue;
+    }
+    const history = stateEntries
+      .filter(([, child]) => child.parent === stateId && child.history)
+      .map(([historyId, child]) => ({ id: historyId, mode: child.history as FlowHistoryMode }));
+    groups.push({
+      id: stateId,
+      title: normalizeScreenTitle(stateId),
+      ...(state.parent ? { parentId: state.parent } : {}),
+      ...(state.initial ? { initialChildId: state.initial } : {}),
+      ...(history.length > 0 ? { history } : {}),
+      ...(state.entry ? { entry: state.entry } : {}),
+      ...(state.exit ? { exit: state.exit } : {}),
+    });
+  }
+
+  const screens = screenEntries.map(([stateId, state], index) => ({
+    ...createFlowScreen({
       id: stateId,
       title: normalizeScreenTitle(stateId),
       uiPageId: state.uiPageId,
@@ -239,7 +310,10 @@ export function stateMachineToFlowGraph(flow: FlowSchema): FlowGraphSchema {
         y: 90 + Math.floor(index / 3) * 190,
       },
     }),
-  );
+    ...(state.parent ? { parentId: state.parent } : {}),
+    ...(state.entry ? { entry: state.entry } : {}),
+    ...(state.exit ? { exit: state.exit } : {}),
+  }));
 
   const transitions: FlowTransitionEdge[] = [];
   for (const [fromState, state] of stateEntries) {
@@ -266,6 +340,19 @@ export function stateMachineToFlowGraph(flow: FlowSchema): FlowGraphSchema {
     initialScreenId: flow.initialState,
     screens,
     transitions,
+    ...(groups.length > 0 ? { groups } : {}),
+  };
+}
+
+function hierarchyFields(
+  parent: string | undefined,
+  entry: FlowAction[] | undefined,
+  exit: FlowAction[] | undefined,
+): Pick<FlowState, 'parent' | 'entry' | 'exit'> {
+  return {
+    ...(parent ? { parent } : {}),
+    ...(entry ? { entry } : {}),
+    ...(exit ? { exit } : {}),
   };
 }
 
@@ -4,11 +4,15 @@ import flowSchema from '../schemas/flow.schema.json';
 import rulesSchema from '../schemas/rules.schema.json';
 import apiMappingSchema from '../schemas/api-mapping.schema.json';
 import applicationBundleSchema from '../schemas/application-bundle.schema.json';
+import decisionTableSchema from '../schemas/decision-table.schema.json';
 
 export * from './country-codes';
 export * from './types';
 export * from './ui';
 export * from './flow';
+export * from './decision-table';
+export * from './rule-dsl';
+export * from './repeater';
 export * from './application';
 export * from './ui-migration';
 
@@ -19,4 +23,5 @@ export {
   rulesSchema,
   apiMappingSchema,
   applicationBundleSchema,
+  decisionTableSchema,
 };
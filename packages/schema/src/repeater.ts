@@ -0,0 +1,153 @@
+import type { JSONValue, LayoutNode, RepeaterLayout, UIComponent } from './types';
+
+export const REPEATER_INDEX_PLACEHOLDER = '$index';
+
+export type RepeaterAction =
+  | { type: 'add'; item?: JSONValue }
+  | { type: 'remove'; index: number }
+  | { type: 'move'; from: number; to: number };
+
+const INDEX_PATTERN = /\$index\b/g;
+
+/** Id of the copy of a template component rendered for one item, e.g. `applicantName[1]`. */
+export function getRepeaterItemComponentId(componentId: string, index: number): string {
+  return `${componentId}[${index}]`;
+}
+
+/** Splits an id from `getRepeaterItemComponentId` back into the template id and item index. */
+export function parseRepeaterItemComponentId(id: string): { componentId: string; index: number } | null {
+  const match = /^(.*)\[(\d+)\]$/.exec(id);
+  if (!match) return null;
+  return { componentId: match[1]!, index: Number(match[2]) };
+}
+
+/** Copy of a template component for one item: `$index` in bindings, rules and events becomes `index`. */
+export function scopeComponentToRepeaterItem(component: UIComponent, index: number): UIComponent {
+  return {
+    ...component,
+    id: getRepeaterItemComponentId(component.id, index),
+    ...(component.bindings ? { bindings: substituteIndex(component.bindings, index) } : {}),
+    ...(component.rules ? { rules: substituteIndex(component.rules, index) } : {}),
+    ...(component.events ? { events: substituteIndex(component.events, index) } : {}),
+  };
+}
+
+/** Repeater nodes of a layout in document order. Repeaters inside a template are not descended into. */
+export function collectRepeaterLayouts(layout: LayoutNode | undefined): RepeaterLayout[] {
+  const repeaters: RepeaterLayout[] = [];
+  const visit = (node: LayoutNode) => {
+    if (node.type === 'repeater') {
+      repeaters.push(node);
+      return;
+    }
+    node.children?.forEach(visit);
+    if (node.type === 'tabs') node.tabs.forEach((tab) => visit(tab.child));
+  };
+  if (layout) visit(layout);
+  return repeaters;
+}
+
+export function collectLayoutComponentIds(node: LayoutNode): string[] {
+  const ids: string[] = [...(node.componentIds ?? [])];
+  node.children?.forEach((child) => ids.push(...collectLayoutComponentIds(child)));
+  if (node.type === 'tabs') node.tabs.forEach((tab) => ids.push(...collectLayoutComponentIds(tab.child)));
+  if (node.type === 'repeater') ids.push(...collectLayoutComponentIds(node.template));
+  return ids;
+}
+
+export function readRepeaterItems(data: Record<string, JSONValue>, repeater: RepeaterLayout): JSONValue[] {
+  let current: JSONValue | undefined = data;
+  for (const part of splitItemsPath(repeater.itemsPath)) {
+    if (current === null || typeof current !== 'object') return [];
+    current = Array.isArray(current) ? current[Number(part)] : current[part];
+  }
+  return Array.isArray(current) ? current : [];
+}
+
+/**
+ * Replaces the template components of every repeater with one scoped copy per item, so
+ * validation and rule evaluation see `applicantName[0]`, `applicantName[1]`, ... instead.
+ */
+export function expandRepeaterComponents(
+  components: UIComponent[],
+  layout: LayoutNode | undefined,
+  data: Record<string, JSONValue>,
+): UIComponent[] {
+  const repeaters = collectRepeaterLayouts(layout);
+  if (repeaters.length === 0) return components;
+  const componentsById = new Map(components.map((component) => [component.id, component]));
+  const templateIds = new Set<string>();
+  const instances: UIComponent[] = [];
+  for (const repeater of repeaters) {
+    const ids = collectLayoutComponentIds(repeater.template);
+    ids.forEach((id) => templateIds.add(id));
+    const count = readRepeaterItems(data, repeater).length;
+    for (let index = 0; index < count; index += 1) {
+      for (const id of ids) {
+        const component = componentsById.get(id);
+        if (component) instances.push(scopeComponentToRepeaterItem(component, index));
+      }
+    }
+  }
+  return [...components.filter((component) => !templateIds.has(component.id)), ...instances];
+}
+
+/**
+ * Adds, removes or reorders items of a repeater's array. Returns `data` itself when the action
+ * does not apply (index out of range, or `minItems` / `maxItems` reached), otherwise a copy.
+ */
+export function applyRepeaterAction(
+  data: Record<string, JSONValue>,
+  repeater: RepeaterLayout,
+  action: RepeaterAction,
+): Record<string, JSONValue> {
+  const items = readRepeaterItems(data, repeater);
+  const inRange = (index: number) => Number.isInteger(index) && index >= 0 && index < items.length;
+  let next: JSONValue[];
+  if (action.type === 'add') {
+    if (repeater.maxItems !== undefined && items.length >= repeater.maxItems) return data;
+    next = [...items, cloneJson(action.item ?? repeater.newItem ?? {})];
+  } else if (action.type === 'remove') {
+    if (!inRange(action.index) || items.length <= (repeater.minItems ?? 0)) return data;
+    next = items.filter((_item, index) => index !== action.index);
+  } else {
+    if (!inRange(action.from) || !inRange(action.to) || action.from === action.to) return data;
+    next = [...items];
+    const [moved] = next.splice(action.from, 1);
+    next.splice(action.to, 0, moved!);
+  }
+  return writePath(data, splitItemsPath(repeater.itemsPath), next) as Record<string, JSONValue>;
+}
+
+function splitItemsPath(itemsPath: string): string[] {
+  const trimmed = itemsPath.trim();
+  const path = trimmed.startsWith('data.') ? trimmed.slice('data.'.length) : trimmed;
+  return path.replace(/\[(\d+)\]/g, '.$1').split('.').filter(Boolean);
+}
+
+function writePath(current: JSONValue | undefined, parts: string[], value: JSONValue): JSONValue {
+  if (parts.length === 0) return value;
+  const [head, ...rest] = parts as [string, ...string[]];
+  if (Array.isArray(current)) {
+    const copy = [...current];
+    copy[Number(head)] = writePath(copy[Number(head)], rest, value);
+    return copy;
+  }
+  const record = current !== null && typeof current === 'object' ? current : {};
+  return { ...record, [head]: writePath(record[head], rest, value) };
+}
+
+function substituteIndex<T>(value: T, index: number): T {
+  if (typeof value === 'string') return value.replace(INDEX_PATTERN, String(index)) as T;
+  if (Array.isArray(value)) return value.map((entry) => substituteIndex(entry, index)) as T;
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, substituteIndex(entry, index)]),
+    ) as T;
+  }
+  return value;
+}
+
+function cloneJson<T extends JSONValue>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
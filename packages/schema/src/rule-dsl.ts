@@ -0,0 +1,546 @@
+import type { JSONValue, RuleAction, RuleCondition, RuleOperand, RuleOperator } from './types';
+
+export interface RuleText {
+  when: RuleCondition;
+  actions: RuleAction[];
+}
+
+export interface RuleDslPrintOptions {
+  /** Line width after which and/or chains are broken onto separate lines. Defaults to 80. */
+  maxWidth?: number;
+}
+
+export class RuleDslError extends Error {
+  constructor(
+    message: string,
+    readonly line: number,
+    readonly column: number,
+    readonly offset: number,
+  ) {
+    super(`${message} at line ${line}, column ${column}`);
+    this.name = 'RuleDslError';
+  }
+}
+
+type TokenKind = 'ident' | 'string' | 'number' | 'punct' | 'eof';
+
+interface Token {
+  kind: TokenKind;
+  text: string;
+  line: number;
+  column: number;
+  offset: number;
+}
+
+const KEYWORDS = new Set(['and', 'or', 'not', 'all', 'any', 'some', 'every', 'none', 'true', 'false', 'null', 'when', 'then']);
+
+const SYMBOL_TO_OPERATOR: Record<string, RuleOperator> = {
+  '==': 'eq',
+  '!=': 'neq',
+  '>': 'gt',
+  '>=': 'gte',
+  '<': 'lt',
+  '<=': 'lte',
+};
+
+const OPERATOR_TO_SYMBOL: Record<string, string> = Object.fromEntries(
+  Object.entries(SYMBOL_TO_OPERATOR).map(([symbol, op]) => [op, symbol]),
+);
+
+const PUNCTUATION = ['==', '!=', '>=', '<=', '->', '>', '<', '=', '(', ')', '[', ']', '{', '}', ',', ':', ';'];
+
+const QUANTIFIERS = ['some', 'every', 'none'] as const;
+
+const ACTION_VERBS = new Set<RuleAction['type']>([
+  'setField',
+  'setContext',
+  'removeField',
+  'addItem',
+  'mapField',
+  'throwError',
+  'emitEvent',
+]);
+
+/**
+ * Parses a condition such as `data.age >= 18 and context.country in ["DE","FR"]`.
+ * `and` binds tighter than `or`; parentheses, `not`, `all(...)`/`any(...)` and
+ * `some|every|none <path> (...)` quantifiers are supported. `lookup <name>(<operand>)` reads a
+ * registered lookup, e.g. `lookup sanctions(data.iban) == true`.
+ */
+export function parseRuleCondition(text: string): RuleCondition {
+  const parser = new RuleDslParser(text);
+  const condition = parser.parseCondition();
+  parser.expectEnd();
+  return condition;
+}
+
+/** Parses newline- or `;`-separated actions, e.g. `setField data.eligible = true`. */
+export function parseRuleActions(text: string): RuleAction[] {
+  const parser = new RuleDslParser(text);
+  const actions = parser.parseActions();
+  parser.expectEnd();
+  return actions;
+}
+
+/** Parses a `when <condition> [then <actions>]` block. */
+export function parseRuleText(text: string): RuleText {
+  const parser = new RuleDslParser(text);
+  parser.expectKeyword('when');
+  const when = parser.parseCondition();
+  const actions = parser.acceptKeyword('then') ? parser.parseActions() : [];
+  parser.expectEnd();
+  return { when, actions };
+}
+
+export function printRuleCondition(condition: RuleCondition, options: RuleDslPrintOptions = {}): string {
+  return printCondition(condition, '', options.maxWidth ?? 80);
+}
+
+export function printRuleActions(actions: RuleAction[]): string {
+  return actions.map(printAction).join('\n');
+}
+
+export function printRuleText(rule: RuleText, options: RuleDslPrintOptions = {}): string {
+  const maxWidth = options.maxWidth ?? 80;
+  const lines = ['when', `  ${printCondition(rule.when, '  ', maxWidth)}`];
+  if (rule.actions.length > 0) {
+    lines.push('then', ...rule.actions.map((action) => `  ${printAction(action)}`));
+  }
+  return lines.join('\n');
+}
+
+class RuleDslParser {
+  private readonly tokens: Token[];
+  private index = 0;
+
+  constructor(text: string) {
+    this.tokens = tokenize(text);
+  }
+
+  parseCondition(): RuleCondition {
+    const first = this.parseAnd();
+    const rest: RuleCondition[] = [];
+    while (this.acceptKeyword('or')) rest.push(this.parseAnd());
+    return rest.length > 0 ? { any: [first, ...rest] } : first;
+  }
+
+  parseActions(): RuleAction[] {
+    const actions: RuleAction[] = [];
+    while (this.peek().kind !== 'eof') {
+      if (this.acceptPunct(';')) continue;
+      actions.push(this.parseAction());
+    }
+    return actions;
+  }
+
+  expectKeyword(keyword: string): void {
+    if (!this.acceptKeyword(keyword)) this.fail(`Expected "${keyword}"`);
+  }
+
+  acceptKeyword(keyword: string): boolean {
+    const token = this.peek();
+    if (token.kind === 'ident' && token.text === keyword) {
+      this.index += 1;
+      return true;
+    }
+    return false;
+  }
+
+  expectEnd(): void {
+    if (this.peek().kind !== 'eof') this.fail('Unexpected input');
+  }
+
+  private parseAnd(): RuleCondition {
+    const first = this.parseUnary();
+    const rest: RuleCondition[] = [];
+    while (this.acceptKeyword('and')) rest.push(this.parseUnary());
+    return rest.length > 0 ? { all: [first, ...rest] } : first;
+  }
+
+  private parseUnary(): RuleCondition {
+    if (this.acceptKeyword('not')) return { not: this.parseUnary() };
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): RuleCondition {
+    if (this.acceptPunct('(')) {
+      const inner = this.parseCondition();
+      this.expectPunct(')');
+      return inner;
+    }
+
+    const token = this.peek();
+    if (token.kind === 'ident' && (token.text === 'all' || token.text === 'any') && this.peek(1).text === '(') {
+      this.index += 2;
+      const children: RuleCondition[] = [];
+      if (!this.acceptPunct(')')) {
+        do {
+          children.push(this.parseCondition());
+        } while (this.acceptPunct(','));
+        this.expectPunct(')');
+      }
+      return token.text === 'all' ? { all: children } : { any: children };
+    }
+
+    const quantifier = QUANTIFIERS.find((name) => token.kind === 'ident' && token.text === name);
+    if (quantifier) {
+      this.index += 1;
+      const path = this.expectPath();
+      this.expectPunct('(');
+      const when = this.parseCondition();
+      this.expectPunct(')');
+      const clause = { path, when };
+      if (quantifier === 'some') return { some: clause };
+      if (quantifier === 'every') return { every: clause };
+      return { none: clause };
+    }
+
+    return this.parseComparison();
+  }
+
+  private parseComparison(): RuleCondition {
+    const left = this.parseOperand();
+    const token = this.peek();
+    const symbolic = token.kind === 'punct' ? SYMBOL_TO_OPERATOR[token.text] : undefined;
+    if (symbolic) {
+      this.index += 1;
+      return { op: symbolic, left, right: this.parseOperand() };
+    }
+    if (token.kind !== 'ident' || KEYWORDS.has(token.text)) {
+      this.fail(token.text === '=' ? 'Expected an operator (use "==" for equality)' : 'Expected an operator');
+    }
+    const op: RuleOperator = token.text;
+    this.index += 1;
+
+    // Unary operators such as `exists` are followed directly by a boolean connective or the end.
+    if (this.atConditionBoundary()) return { op, left };
+    return { op, left, right: this.parseOperand() };
+  }
+
+  private atConditionBoundary(): boolean {
+    const token = this.peek();
+    if (token.kind === 'eof') return true;
+    if (token.kind === 'punct') return token.text === ')' || token.text === ',';
+    return token.kind === 'ident' && (token.text === 'and' || token.text === 'or' || token.text === 'then');
+  }
+
+  private parseOperand(): RuleOperand {
+    const token = this.peek();
+    if (token.kind === 'ident' && token.text === 'lookup' && this.peek(1).kind === 'ident' && this.peek(2).text === '(') {
+      const lookup = this.peek(1).text;
+      this.index += 3;
+      const key = this.parseOperand();
+      this.expectPunct(')');
+      return { lookup, key };
+    }
+    if (token.kind === 'ident' && !KEYWORDS.has(token.text)) {
+      this.index += 1;
+      return { path: token.text };
+    }
+    return { value: this.parseLiteral() };
+  }
+
+  private parseLiteral(): JSONValue {
+    const token = this.peek();
+    if (token.kind === 'string') {
+      this.index += 1;
+      return JSON.parse(token.text) as string;
+    }
+    if (token.kind === 'number') {
+      this.index += 1;
+      return Number(token.text);
+    }
+    if (token.kind === 'ident' && (token.text === 'true' || token.text === 'false' || token.text === 'null')) {
+      this.index += 1;
+      return token.text === 'null' ? null : token.text === 'true';
+    }
+    if (this.acceptPunct('[')) {
+      const items: JSONValue[] = [];
+      if (!this.acceptPunct(']')) {
+        do {
+          items.push(this.parseLiteral());
+        } while (this.acceptPunct(','));
+        this.expectPunct(']');
+      }
+      return items;
+    }
+    if (this.acceptPunct('{')) {
+      const record: Record<string, JSONValue> = {};
+      if (!this.acceptPunct('}')) {
+        do {
+          const key = this.peek();
+          if (key.kind !== 'string') this.fail('Expected a quoted object key');
+          this.index += 1;
+          this.expectPunct(':');
+          record[JSON.parse(key.text) as string] = this.parseLiteral();
+        } while (this.acceptPunct(','));
+        this.expectPunct('}');
+      }
+      return record;
+    }
+    this.fail('Expected a path or literal value');
+  }
+
+  private parseAction(): RuleAction {
+    const token = this.peek();
+    if (token.kind !== 'ident' || !ACTION_VERBS.has(token.text as RuleAction['type'])) {
+      this.fail(`Expected an action (${[...ACTION_VERBS].join(', ')})`);
+    }
+    this.index += 1;
+    const type = token.text as RuleAction['type'];
+
+    switch (type) {
+      case 'setField':
+      case 'setContext':
+      case 'addItem': {
+        const path = this.expectPath();
+        this.expectPunct('=');
+        return { type, path, value: this.parseLiteral() };
+      }
+      case 'removeField':
+        return { type, path: this.expectPath() };
+      case 'mapField': {
+        const from = this.expectPath();
+        this.expectPunct('->');
+        return { type, from, to: this.expectPath() };
+      }
+      case 'throwError': {
+        const message = this.expectString();
+        if (this.acceptKeyword('code')) return { type, message, code: this.expectString() };
+        return { type, message };
+      }
+      case 'emitEvent': {
+        const event = this.expectString();
+        if (this.atActionBoundary()) return { type, event };
+        return { type, event, payload: this.parseLiteral() };
+      }
+    }
+  }
+
+  private atActionBoundary(): boolean {
+    const token = this.peek();
+    if (token.kind === 'eof') return true;
+    if (token.kind === 'punct') return token.text === ';';
+    return token.kind === 'ident' && ACTION_VERBS.has(token.text as RuleAction['type']);
+  }
+
+  private expectPath(): string {
+    const token = this.peek();
+    if (token.kind !== 'ident' || KEYWORDS.has(token.text)) this.fail('Expected a path');
+    this.index += 1;
+    return token.text;
+  }
+
+  private expectString(): string {
+    const token = this.peek();
+    if (token.kind !== 'string') this.fail('Expected a quoted string');
+    this.index += 1;
+    return JSON.parse(token.text) as string;
+  }
+
+  private acceptPunct(text: string): boolean {
+    const token = this.peek();
+    if (token.kind === 'punct' && token.text === text) {
+      this.index += 1;
+      return true;
+    }
+    return false;
+  }
+
+  private expectPunct(text: string): void {
+    if (!this.acceptPunct(text)) this.fail(`Expected "${text}"`);
+  }
+
+  private peek(ahead = 0): Token {
+    return this.tokens[Math.min(this.index + ahead, this.tokens.length - 1)] as Token;
+  }
+
+  private fail(message: string): never {
+    const token = this.peek();
+    const found = token.kind === 'eof' ? 'end of input' : `"${token.text}"`;
+    throw new RuleDslError(`${message} but found ${found}`, token.line, token.column, token.offset);
+  }
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let offset = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  const push = (kind: TokenKind, start: number, end: number) => {
+    tokens.push({ kind, text: text.slice(start, end), line, column: start - lineStart + 1, offset: start });
+  };
+
+  while (offset < text.length) {
+    const char = text[offset] as string;
+
+    if (char === '\n') {
+      offset += 1;
+      line += 1;
+      lineStart = offset;
+      continue;
+    }
+    if (/\s/.test(char)) {
+      offset += 1;
+      continue;
+    }
+    if (char === '#') {
+      while (offset < text.length && text[offset] !== '\n') offset += 1;
+      continue;
+    }
+
+    const start = offset;
+    if (char === '"') {
+      offset += 1;
+      while (offset < text.length && text[offset] !== '"') {
+        if (text[offset] === '\n') break;
+        offset += text[offset] === '\\' ? 2 : 1;
+      }
+      if (text[offset] !== '"') {
+        throw new RuleDslError('Unterminated string', line, start - lineStart + 1, start);
+      }
+      offset += 1;
+      try {
+        JSON.parse(text.slice(start, offset));
+      } catch {
+        throw new RuleDslError('Invalid string escape', line, start - lineStart + 1, start);
+      }
+      push('string', start, offset);
+      continue;
+    }
+
+    const number = /^-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/.exec(text.slice(offset));
+    if (number) {
+      offset += number[0].length;
+      push('number', start, offset);
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      offset += 1;
+      while (offset < text.length) {
+        const next = text[offset] as string;
+        if (/[A-Za-z0-9_$.]/.test(next)) {
+          offset += 1;
+        } else if (next === '-' && /[A-Za-z0-9_]/.test(text[offset + 1] ?? '')) {
+          offset += 1;
+        } else if (next === '[' && /[.$]/.test(text.slice(start, offset))) {
+          // Array indexes belong to the path (`data.items[0].sku`), but only for dotted paths.
+          const index = /^\[\d+\]/.exec(text.slice(offset));
+          if (!index) break;
+          offset += index[0].length;
+        } else {
+          break;
+        }
+      }
+      push('ident', start, offset);
+      continue;
+    }
+
+    const punct = PUNCTUATION.find((candidate) => text.startsWith(candidate, offset));
+    if (punct) {
+      offset += punct.length;
+      push('punct', start, offset);
+      continue;
+    }
+
+    throw new RuleDslError(`Unexpected character "${char}"`, line, start - lineStart + 1, start);
+  }
+
+  tokens.push({ kind: 'eof', text: '', line, column: offset - lineStart + 1, offset });
+  return tokens;
+}
+
+function printCondition(condition: RuleCondition, indent: string, maxWidth: number): string {
+  const flat = printFlat(condition);
+  if (indent.length + flat.length <= maxWidth) return flat;
+
+  const chain = chainOf(condition);
+  if (chain) {
+    return chain.children
+      .map((child, index) => `${index > 0 ? `${indent}${chain.keyword} ` : ''}${printChild(child, indent, maxWidth)}`)
+      .join('\n');
+  }
+  if ('not' in condition) {
+    return `not ${printChild(condition.not, indent, maxWidth)}`;
+  }
+  const quantifier = quantifierOf(condition);
+  if (quantifier) {
+    const inner = `${indent}  `;
+    return `${quantifier.op} ${quantifier.path} (\n${inner}${printCondition(quantifier.when, inner, maxWidth)}\n${indent})`;
+  }
+  return flat;
+}
+
+function printChild(child: RuleCondition, indent: string, maxWidth: number): string {
+  if (!chainOf(child)) return printCondition(child, indent, maxWidth);
+  const flat = `(${printFlat(child)})`;
+  if (indent.length + flat.length <= maxWidth) return flat;
+  const inner = `${indent}  `;
+  return `(\n${inner}${printCondition(child, inner, maxWidth)}\n${indent})`;
+}
+
+function printFlat(condition: RuleCondition): string {
+  if ('all' in condition || 'any' in condition) {
+    const chain = chainOf(condition);
+    if (chain) return chain.children.map((child) => wrapFlat(child)).join(` ${chain.keyword} `);
+    // Empty and single-child groups keep their function form so the text round-trips exactly.
+    const children = 'all' in condition ? condition.all : condition.any;
+    return `${'all' in condition ? 'all' : 'any'}(${children.map(printFlat).join(', ')})`;
+  }
+  if ('not' in condition) return `not ${wrapFlat(condition.not)}`;
+  if ('some' in condition || 'every' in condition || 'none' in condition) {
+    const quantifier = quantifierOf(condition);
+    return quantifier ? `${quantifier.op} ${quantifier.path} (${printFlat(quantifier.when)})` : '';
+  }
+
+  const left = printOperand(condition.left);
+  if (!condition.right) return `${left} ${condition.op}`;
+  return `${left} ${OPERATOR_TO_SYMBOL[condition.op] ?? condition.op} ${printOperand(condition.right)}`;
+}
+
+function wrapFlat(condition: RuleCondition): string {
+  return chainOf(condition) ? `(${printFlat(condition)})` : printFlat(condition);
+}
+
+function chainOf(condition: RuleCondition): { keyword: 'and' | 'or'; children: RuleCondition[] } | null {
+  if ('all' in condition && condition.all.length > 1) return { keyword: 'and', children: condition.all };
+  if ('any' in condition && condition.any.length > 1) return { keyword: 'or', children: condition.any };
+  return null;
+}
+
+function quantifierOf(
+  condition: RuleCondition,
+): { op: (typeof QUANTIFIERS)[number]; path: string; when: RuleCondition } | null {
+  if ('some' in condition) return { op: 'some', ...condition.some };
+  if ('every' in condition) return { op: 'every', ...condition.every };
+  if ('none' in condition) return { op: 'none', ...condition.none };
+  return null;
+}
+
+function printOperand(operand: RuleOperand): string {
+  if ('lookup' in operand) return `lookup ${operand.lookup}(${printOperand(operand.key)})`;
+  return 'path' in operand ? operand.path : JSON.stringify(operand.value);
+}
+
+function printAction(action: RuleAction): string {
+  switch (action.type) {
+    case 'setField':
+    case 'setContext':
+    case 'addItem':
+      return `${action.type} ${action.path} = ${JSON.stringify(action.value)}`;
+    case 'removeField':
+      return `removeField ${action.path}`;
+    case 'mapField':
+      return `mapField ${action.from} -> ${action.to}`;
+    case 'throwError':
+      return action.code
+        ? `throwError ${JSON.stringify(action.message)} code ${JSON.stringify(action.code)}`
+        : `throwError ${JSON.stringify(action.message)}`;
+    case 'emitEvent':
+      return action.payload === undefined
+        ? `emitEvent ${JSON.stringify(action.event)}`
+        : `emitEvent ${JSON.stringify(action.event)} ${JSON.stringify(action.payload)}`;
+  }
+}
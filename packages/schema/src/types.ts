@@ -1,4 +1,5 @@
 ﻿import type { CountryCode } from './country-codes';
+import type { DecisionTable } from './decision-table';
 
 export type JSONValue =
   | string
@@ -79,11 +80,11 @@ export interface UISchemaPage {
   sections: SectionNode[];
 }
 
-export type LayoutNode = GridLayout | StackLayout | TabsLayout | SectionLayout;
+export type LayoutNode = GridLayout | StackLayout | TabsLayout | SectionLayout | RepeaterLayout;
 
 export interface BaseLayoutNode {
   id: string;
-  type: 'grid' | 'stack' | 'tabs' | 'section';
+  type: 'grid' | 'stack' | 'tabs' | 'section' | 'repeater';
   props?: Record<string, JSONValue>;
   componentIds?: string[];
   children?: LayoutNode[];
@@ -140,6 +141,21 @@ export interface SectionLayout extends BaseLayoutNode {
   title?: string;
 }
 
+/**
+ * Renders `template` once per element of the array at `itemsPath`. Inside the template,
+ * `$index` in component bindings, rules and events stands for the element's index, e.g.
+ * `data.applicants[$index].name`.
+ */
+export interface RepeaterLayout extends BaseLayoutNode {
+  type: 'repeater';
+  itemsPath: string;
+  template: LayoutNode;
+  /** Element appended by an `add` action. Defaults to `{}`. */
+  newItem?: JSONValue;
+  minItems?: number;
+  maxItems?: number;
+}
+
 export interface UIComponent {
   id: string;
   type: string;
@@ -159,11 +175,16 @@ export interface UIComponentDataSource {
   type: 'rest' | 'graphql' | 'websocket';
   endpoint: string;
   query?: string;
+  /** Request parameters read from `data.*` / `context.*` paths; the source reloads when they change. */
+  params?: Record<string, string>;
+  /** Live updates for `websocket` sources. The topic defaults to the endpoint. */
+  realtime?: { topic?: string; throttleMs?: number; deltaPatch?: boolean };
 }
 
 export interface BindingSpec {
   data?: Record<string, string>;
   context?: Record<string, string>;
+  /** Expressions such as `principal * rate / 12`; `computed.<key>` reads another entry of this map. */
   computed?: Record<string, string>;
 }
 
@@ -248,11 +269,32 @@ export interface FlowForkConfig {
   joinState: string;
 }
 
+/**
+ * A state is compound when other states name it as `parent`. Only leaf states are ever active;
+ * events a leaf does not handle bubble up through its ancestors.
+ */
 export interface FlowState {
+  /** Page shown while the state is active. Compound and history states are never shown. */
   uiPageId: string;
   on: Record<string, FlowTransition>;
   transitions?: FlowTransition[];
-}
+  parent?: string;
+  /** Child entered when a compound state is targeted directly; defaults to its first child. */
+  initial?: string;
+  /**
+   * Marks a history pseudo-state of `parent`. Targeting it re-enters the child (`shallow`) or the
+   * leaf states (`deep`) that were active when `parent` was last exited, else `parent`'s initial child.
+   */
+  history?: FlowHistoryMode;
+  /** Run when the state is entered, outermost state first. */
+  entry?: FlowAction[];
+  /** Run when the state is exited, innermost state first. */
+  exit?: FlowAction[];
+  /** Marks an end state, which is expected to have no outgoing transitions. */
+  final?: boolean;
+}
+
+export type FlowHistoryMode = 'shallow' | 'deep';
 
 export interface FlowTransition {
   target: string;
@@ -268,11 +310,54 @@ export interface FlowTransition {
   fork?: FlowForkConfig;
 }
 
-export type FlowAction = 'evaluateRules' | 'callApi' | 'setContext' | 'navigate';
+export type FlowActionType = 'evaluateRules' | 'callApi' | 'setContext' | 'navigate';
+
+/**
+ * Transition actions run in list order. The bare string form is shorthand: `'callApi'` calls the
+ * transition's `apiId` and `'navigate'` shows the target state's page; `'setContext'` carries no
+ * payload and does nothing.
+ */
+export type FlowAction = FlowActionType | FlowActionConfig;
+
+export type FlowActionConfig =
+  | FlowEvaluateRulesAction
+  | FlowCallApiAction
+  | FlowSetContextAction
+  | FlowNavigateAction;
+
+export interface FlowEvaluateRulesAction {
+  type: 'evaluateRules';
+}
+
+export interface FlowCallApiAction {
+  type: 'callApi';
+  apiId: string;
+}
+
+export interface FlowSetContextAction {
+  type: 'setContext';
+  /** Context path, with or without the `context.` prefix. */
+  path: string;
+  value: JSONValue;
+}
+
+/** Renders `pageId` instead of the target state's page, or hands `url` back to the host. */
+export interface FlowNavigateAction {
+  type: 'navigate';
+  url?: string;
+  pageId?: string;
+}
 
 export interface RuleSet {
   version: string;
   rules: Rule[];
+  groups?: Record<string, RuleGroupPolicy>;
+  decisionTables?: DecisionTable[];
+}
+
+export interface RuleGroupPolicy {
+  exclusive?: boolean;
+  description?: string;
 }
 
 export interface Rule {
@@ -280,7 +365,15 @@ export interface Rule {
   description?: string;
   priority?: number;
   salience?: number;
+  group?: string;
   version?: string;
+  /**
+   * ISO date or date-time from which this version applies (inclusive). Several rules may share a
+   * `ruleId` with different windows; the engine evaluates the one in effect at `options.asOf`.
+   */
+  effectiveFrom?: string;
+  /** ISO date or date-time at which this version stops applying (exclusive). */
+  effectiveTo?: string;
   scope?: RuleScope;
   when: RuleCondition;
   actions?: RuleAction[];
@@ -295,7 +388,14 @@ export interface RuleScope {
   issuers?: string[];
 }
 
-export type RuleCondition = AllCondition | AnyCondition | NotCondition | CompareCondition;
+export type RuleCondition =
+  | AllCondition
+  | AnyCondition
+  | NotCondition
+  | SomeCondition
+  | EveryCondition
+  | NoneCondition
+  | CompareCondition;
 
 export interface AllCondition {
   all: RuleCondition[];
@@ -309,13 +409,32 @@ export interface NotCondition {
   not: RuleCondition;
 }
 
+export interface QuantifierClause {
+  path: string;
+  when: RuleCondition;
+}
+
+export interface SomeCondition {
+  some: QuantifierClause;
+}
+
+export interface EveryCondition {
+  every: QuantifierClause;
+}
+
+export interface NoneCondition {
+  none: QuantifierClause;
+}
+
 export interface CompareCondition {
   op: RuleOperator;
   left: RuleOperand;
   right?: RuleOperand;
 }
 
-export type RuleOperator =
+export type RuleOperator = BuiltInRuleOperator | (string & {});
+
+export type BuiltInRuleOperator =
   | 'eq'
   | 'neq'
   | 'gt'
@@ -336,7 +455,16 @@ export type RuleOperator =
   | 'endsWith'
   | 'exists';
 
-export type RuleOperand = { path: string } | { value: JSONValue };
+export type RuleOperand = { path: string } | { value: JSONValue } | LookupOperand;
+
+/**
+ * Value returned by a registered lookup for `key`, e.g. `{ lookup: 'sanctions', key: { path: 'data.iban' } }`.
+ * Only `evaluateRulesAsync` resolves lookups; synchronous evaluation reports them as rule errors.
+ */
+export interface LookupOperand {
+  lookup: string;
+  key: RuleOperand;
+}
 
 export type RuleAction =
   | { type: 'setField'; path: string; value: JSONValue }
@@ -347,12 +475,31 @@ export type RuleAction =
   | { type: 'throwError'; message: string; code?: string }
   | { type: 'emitEvent'; event: string; payload?: JSONValue };
 
+/** Golden test case for a rule set: evaluating `data` under `context` should produce `expect`. */
+export interface RuleTestCase {
+  id: string;
+  description?: string;
+  context: ExecutionContext;
+  data: Record<string, JSONValue>;
+  expect: RuleTestExpectation;
+}
+
+export interface RuleTestExpectation {
+  /** Compared ignoring order. */
+  matchedRuleIds?: string[];
+  /** Only the listed fields are compared; nested objects are matched the same way. */
+  data?: Record<string, JSONValue>;
+  errors?: string[];
+}
+
 export interface ApiMapping {
   version: string;
   apiId: string;
   type: 'rest' | 'graphql';
   method: HttpMethod;
   endpoint: string;
+  query?: string;
+  operationName?: string;
   requestMap: RequestMap;
   responseMap: ResponseMap;
   transforms?: TransformSpec[];
@@ -389,5 +536,10 @@ export interface ErrorHandling {
   retry?: {
     maxAttempts: number;
     backoffMs: number;
+    maxBackoffMs?: number;
+    jitter?: boolean;
+    retryOn?: number[];
   };
+  timeoutMs?: number;
+  errorPath?: string;
 }
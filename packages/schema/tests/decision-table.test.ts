@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { applyDecisionTable, compileDecisionTable, removeDecisionTable, type DecisionTable } from '../src';
+
+const discountTable: DecisionTable = {
+  tableId: 'discounts',
+  hitPolicy: 'first',
+  inputs: [
+    { id: 'segment', path: 'data.segment' },
+    { id: 'total', path: 'data.orderTotal', op: 'gte' },
+  ],
+  outputs: [
+    { id: 'discount', path: 'data.discount' },
+    { id: 'tier', path: 'context.tier' },
+  ],
+  rows: [
+    { id: 'vip', inputs: { segment: { value: 'vip' } }, outputs: { discount: 0.2, tier: 'gold' } },
+    { id: 'large', inputs: { total: { value: 1000 } }, outputs: { discount: 0.1 } },
+    { id: 'fallback', inputs: {}, outputs: { discount: 0 } },
+  ],
+};
+
+describe('decision tables', () => {
+  it('compiles rows to grouped rules in row order', () => {
+    const compiled = compileDecisionTable(discountTable);
+
+    expect(compiled.groups).toEqual({ discounts: { exclusive: true } });
+    expect(compiled.rules.map((rule) => [rule.ruleId, rule.salience])).toEqual([
+      ['discounts.vip', 3],
+      ['discounts.large', 2],
+      ['discounts.fallback', 1],
+    ]);
+    expect(compiled.rules[0]).toMatchObject({
+      group: 'discounts',
+      when: { all: [{ op: 'eq', left: { path: 'data.segment' }, right: { value: 'vip' } }] },
+      actions: [
+        { type: 'setField', path: 'data.discount', value: 0.2 },
+        { type: 'setContext', path: 'context.tier', value: 'gold' },
+      ],
+    });
+    expect(compiled.rules[1]?.when).toEqual({
+      all: [{ op: 'gte', left: { path: 'data.orderTotal' }, right: { value: 1000 } }],
+    });
+    expect(compiled.rules[2]?.when).toEqual({ all: [] });
+  });
+
+  it('uses row priorities for the priority policy and addItem for collect', () => {
+    const byPriority = compileDecisionTable({
+      ...discountTable,
+      hitPolicy: 'priority',
+      rows: discountTable.rows.map((row, index) => ({ ...row, priority: index * 10 })),
+    });
+    expect(byPriority.rules.map((rule) => rule.priority)).toEqual([0, 10, 20]);
+
+    const collected = compileDecisionTable({ ...discountTable, hitPolicy: 'collect' });
+    expect(collected.groups?.discounts?.exclusive).toBe(false);
+    expect(collected.rules[1]?.actions).toEqual([{ type: 'addItem', path: 'data.discount', value: 0.1 }]);
+  });
+
+  it('replaces and removes a table within a rule set', () => {
+    const base = {
+      version: '1.0.0',
+      rules: [{ ruleId: 'MANUAL', when: { op: 'exists' as const, left: { path: 'data.a' } } }],
+    };
+    const applied = applyDecisionTable(applyDecisionTable(base, discountTable), {
+      ...discountTable,
+      rows: discountTable.rows.slice(0, 1),
+    });
+    expect(applied.rules.map((rule) => rule.ruleId)).toEqual(['MANUAL', 'discounts.vip']);
+    expect(applied.decisionTables).toHaveLength(1);
+
+    const removed = removeDecisionTable(applied, 'discounts');
+    expect(removed.rules.map((rule) => rule.ruleId)).toEqual(['MANUAL']);
+    expect(removed.groups).toEqual({});
+    expect(removed.decisionTables).toEqual([]);
+  });
+});
@@ -89,4 +89,43 @@ describe('flow graph helpers', () => {
     expect(graph.transitions[0]?.to).toBe('review');
     expect(graph.transitions[0]?.condition).toBe('rule:CanProceed');
   });
+
+  it('round-trips compound states as groups', () => {
+    const machine = {
+      version: '1.0.0',
+      flowId: 'nested-flow',
+      initialState: 'wizard',
+      states: {
+        wizard: {
+          uiPageId: 'wizard',
+          initial: 'details',
+          on: { cancel: { target: 'cancelled' } },
+          exit: ['evaluateRules' as const],
+        },
+        details: { uiPageId: 'details-page', parent: 'wizard', on: { next: { target: 'review' } } },
+        review: { uiPageId: 'review-page', parent: 'wizard', on: {} },
+        resume: { uiPageId: 'wizard', parent: 'wizard', history: 'deep' as const, on: {} },
+        cancelled: { uiPageId: 'cancelled-page', on: { back: { target: 'resume' } } },
+      },
+    };
+
+    const graph = stateMachineToFlowGraph(machine);
+    expect(graph.groups).toEqual([
+      {
+        id: 'wizard',
+        title: 'Wizard',
+        initialChildId: 'details',
+        history: [{ id: 'resume', mode: 'deep' }],
+        exit: ['evaluateRules'],
+      },
+    ]);
+    expect(graph.screens.map((screen) => [screen.id, screen.parentId])).toEqual([
+      ['details', 'wizard'],
+      ['review', 'wizard'],
+      ['cancelled', undefined],
+    ]);
+    expect(graph.transitions.find((transition) => transition.from === 'wizard')?.to).toBe('cancelled');
+
+    expect(flowGraphToStateMachine(graph).states).toMatchObject(machine.states);
+  });
 });
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyRepeaterAction,
+  expandRepeaterComponents,
+  parseRepeaterItemComponentId,
+  scopeComponentToRepeaterItem,
+  type LayoutNode,
+  type RepeaterLayout,
+  type UIComponent,
+} from '../src/index';
+
+const repeater: RepeaterLayout = {
+  id: 'applicants',
+  type: 'repeater',
+  itemsPath: 'data.household.applicants',
+  newItem: { name: '' },
+  minItems: 1,
+  maxItems: 3,
+  template: { id: 'applicant', type: 'stack', componentIds: ['applicantName'] },
+};
+
+const applicantName: UIComponent = {
+  id: 'applicantName',
+  type: 'input',
+  adapterHint: 'platform.textField',
+  bindings: { data: { value: 'data.household.applicants[$index].name' } },
+  rules: {
+    requiredWhen: { op: 'exists', left: { path: 'data.household.applicants[$index].employer' } },
+  },
+  accessibility: { ariaLabelKey: 'runtime.applicant.name.aria', keyboardNav: true, focusOrder: 1 },
+};
+
+describe('repeater helpers', () => {
+  it('scopes template components to an item index', () => {
+    const scoped = scopeComponentToRepeaterItem(applicantName, 2);
+    expect(scoped.id).toBe('applicantName[2]');
+    expect(scoped.bindings?.data?.value).toBe('data.household.applicants[2].name');
+    expect(scoped.rules?.requiredWhen).toEqual({
+      op: 'exists',
+      left: { path: 'data.household.applicants[2].employer' },
+    });
+    expect(parseRepeaterItemComponentId(scoped.id)).toEqual({ componentId: 'applicantName', index: 2 });
+    expect(parseRepeaterItemComponentId('applicantName')).toBeNull();
+  });
+
+  it('expands template components once per item and leaves other components alone', () => {
+    const layout: LayoutNode = { id: 'root', type: 'section', componentIds: ['title'], children: [repeater] };
+    const title: UIComponent = { ...applicantName, id: 'title', bindings: undefined, rules: undefined };
+    const data = { household: { applicants: [{ name: 'Ada' }, { name: 'Grace' }] } };
+
+    const ids = expandRepeaterComponents([title, applicantName], layout, data).map((component) => component.id);
+    expect(ids).toEqual(['title', 'applicantName[0]', 'applicantName[1]']);
+    expect(expandRepeaterComponents([title, applicantName], layout, {}).map((component) => component.id)).toEqual([
+      'title',
+    ]);
+  });
+
+  it('adds, removes and moves items within minItems and maxItems', () => {
+    const data = { household: { applicants: [{ name: 'Ada' }] }, other: true };
+
+    const added = applyRepeaterAction(data, repeater, { type: 'add' });
+    expect(added).toEqual({ household: { applicants: [{ name: 'Ada' }, { name: '' }] }, other: true });
+    expect(data.household.applicants).toHaveLength(1);
+
+    const moved = applyRepeaterAction(added, repeater, { type: 'move', from: 1, to: 0 });
+    expect(moved.household).toEqual({ applicants: [{ name: '' }, { name: 'Ada' }] });
+
+    const removed = applyRepeaterAction(moved, repeater, { type: 'remove', index: 0 });
+    expect(removed.household).toEqual({ applicants: [{ name: 'Ada' }] });
+
+    expect(applyRepeaterAction(removed, repeater, { type: 'remove', index: 0 })).toBe(removed);
+    expect(applyRepeaterAction(removed, repeater, { type: 'move', from: 0, to: 4 })).toBe(removed);
+    const full = { household: { applicants: [{}, {}, {}] } };
+    expect(applyRepeaterAction(full, repeater, { type: 'add', item: { name: 'x' } })).toBe(full);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import {
+  RuleDslError,
+  parseRuleActions,
+  parseRuleCondition,
+  parseRuleText,
+  printRuleActions,
+  printRuleCondition,
+  printRuleText,
+  type RuleAction,
+  type RuleCondition,
+} from '../src';
+
+describe('rule DSL', () => {
+  it('parses comparisons with and/or precedence', () => {
+    expect(parseRuleCondition('data.age >= 18 and context.country in ["DE","FR"] or data.vip exists')).toEqual({
+      any: [
+        {
+          all: [
+            { op: 'gte', left: { path: 'data.age' }, right: { value: 18 } },
+            { op: 'in', left: { path: 'context.country' }, right: { value: ['DE', 'FR'] } },
+          ],
+        },
+        { op: 'exists', left: { path: 'data.vip' } },
+      ],
+    });
+    expect(parseRuleCondition('not (data.a == data.b)')).toEqual({
+      not: { op: 'eq', left: { path: 'data.a' }, right: { path: 'data.b' } },
+    });
+  });
+
+  it('round-trips nested groups, quantifiers and literals through the printer', () => {
+    const source: RuleCondition = {
+      all: [
+        { any: [{ op: 'eq', left: { path: 'data.segment' }, right: { value: 'vip' } }, { op: 'isEmpty', left: { path: 'data.notes' } }] },
+        { not: { all: [{ op: 'lt', left: { path: 'data.score' }, right: { value: -1.5 } }] } },
+        {
+          some: {
+            path: 'data.items',
+            when: { op: 'between', left: { path: '$item.qty' }, right: { value: [1, 5] } },
+          },
+        },
+        { op: 'eq', left: { path: 'data.items[0].meta' }, right: { value: { ok: true, tags: null } } },
+        { any: [] },
+      ],
+    };
+
+    const text = printRuleCondition(source, { maxWidth: 1000 });
+    expect(text).toBe(
+      '(data.segment == "vip" or data.notes isEmpty) and not all(data.score < -1.5) and some data.items ($item.qty between [1,5]) and data.items[0].meta == {"ok":true,"tags":null} and any()',
+    );
+    expect(parseRuleCondition(text)).toEqual(source);
+
+    const wrapped = printRuleCondition(source, { maxWidth: 40 });
+    expect(wrapped.split('\n').length).toBeGreaterThan(3);
+    expect(parseRuleCondition(wrapped)).toEqual(source);
+  });
+
+  it('parses and prints lookup operands', () => {
+    const source: RuleCondition = {
+      all: [
+        { op: 'eq', left: { lookup: 'sanctions', key: { path: 'data.iban' } }, right: { value: true } },
+        { op: 'in', left: { path: 'data.tier' }, right: { lookup: 'tiers.allowed', key: { lookup: 'region', key: { path: 'context.country' } } } },
+      ],
+    };
+
+    const text = printRuleCondition(source, { maxWidth: 1000 });
+    expect(text).toBe('lookup sanctions(data.iban) == true and data.tier in lookup tiers.allowed(lookup region(context.country))');
+    expect(parseRuleCondition(text)).toEqual(source);
+    expect(parseRuleCondition('data.lookup == 1')).toEqual({ op: 'eq', left: { path: 'data.lookup' }, right: { value: 1 } });
+  });
+
+  it('parses and prints actions and whole rule blocks', () => {
+    const actions: RuleAction[] = [
+      { type: 'setField', path: 'data.eligible', value: true },
+      { type: 'setContext', path: 'context.tier', value: 'gold' },
+      { type: 'removeField', path: 'data.tmp' },
+      { type: 'addItem', path: 'data.tags', value: 'vip' },
+      { type: 'mapField', from: 'data.a', to: 'data.b' },
+      { type: 'emitEvent', event: 'approved', payload: { id: 1 } },
+      { type: 'emitEvent', event: 'done' },
+      { type: 'throwError', message: 'Blocked "x"', code: 'E1' },
+    ];
+    expect(parseRuleActions(printRuleActions(actions))).toEqual(actions);
+    expect(parseRuleActions('setField data.a = 1; removeField data.b')).toHaveLength(2);
+
+    const rule = { when: { op: 'gte', left: { path: 'data.age' }, right: { value: 18 } }, actions: actions.slice(0, 1) };
+    const text = printRuleText(rule);
+    expect(text).toBe('when\n  data.age >= 18\nthen\n  setField data.eligible = true');
+    expect(parseRuleText(text)).toEqual(rule);
+    expect(parseRuleText('when data.x exists')).toEqual({ when: { op: 'exists', left: { path: 'data.x' } }, actions: [] });
+  });
+
+  it('reports line and column for syntax errors', () => {
+    const attempt = (text: string) => {
+      try {
+        parseRuleCondition(text);
+      } catch (error) {
+        return error;
+      }
+      return null;
+    };
+
+    const missingParen = attempt('data.a == 1 and\n  (data.b > 2');
+    expect(missingParen).toBeInstanceOf(RuleDslError);
+    expect(missingParen).toMatchObject({ line: 2, column: 14 });
+    expect((missingParen as Error).message).toBe('Expected ")" but found end of input at line 2, column 14');
+
+    expect(attempt('data.a = 1')).toMatchObject({ line: 1, column: 8 });
+    expect((attempt('data.a = 1') as Error).message).toContain('use "==" for equality');
+    expect(attempt('data.a == "open')).toMatchObject({ line: 1, column: 11 });
+    expect(attempt('data.a == 1 ~')).toMatchObject({ line: 1, column: 13 });
+  });
+});
@@ -1,8 +1,33 @@
 import Ajv2020, { type ErrorObject, type ValidateFunction } from 'ajv/dist/2020';
 import type { TranslationBundle } from '@platform/i18n';
-import type { ApiMapping, ExecutionContext, FlowSchema, JSONValue, RuleSet, UISchema } from '@platform/schema';
 import {
+  collectBindingExpressionDependencies,
+  evaluateCondition,
+  findComputedBindingCycles,
+  getRuleOperator,
+  parseBindingExpression,
+} from '@platform/rules-engine';
+import type {
+  ApiMapping,
+  DecisionTable,
+  DecisionTableEntry,
+  ExecutionContext,
+  FlowSchema,
+  FlowTransition,
+  JSONValue,
+  LayoutNode,
+  Rule,
+  RuleCondition,
+  RuleOperand,
+  RuleScope,
+  RuleSet,
+  UISchema,
+} from '@platform/schema';
+import {
+  REPEATER_INDEX_PLACEHOLDER,
   apiMappingSchema,
+  collectLayoutComponentIds,
+  decisionTableSchema,
   executionContextSchema,
   flowSchema,
   rulesSchema,
@@ -20,6 +45,18 @@ export interface ValidationResult {
   issues: ValidationIssue[];
 }
 
+export type FlowAnalysisIssueKind = 'unreachable' | 'dead_end' | 'stuck_event' | 'join_unreachable' | 'timer_race';
+
+export interface FlowAnalysisIssue extends ValidationIssue {
+  kind: FlowAnalysisIssueKind;
+  stateId: string;
+}
+
+export interface FlowAnalysisResult {
+  valid: boolean;
+  issues: FlowAnalysisIssue[];
+}
+
 const ajv = new Ajv2020({ allErrors: true, strict: false });
 const validators = {
   executionContext: ajv.compile(executionContextSchema),
@@ -27,6 +64,27 @@ const validators = {
   flow: ajv.compile(flowSchema),
   rules: ajv.compile(rulesSchema),
   api: ajv.compile(apiMappingSchema),
+  decisionTable: ajv.compile(decisionTableSchema),
+};
+
+// Operators whose cells can be sampled for decision table overlap and gap analysis.
+const ANALYZABLE_TABLE_OPERATORS = new Set(['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'between', 'in']);
+const MAX_TABLE_SAMPLE_COMBINATIONS = 4096;
+const MAX_TABLE_GAP_ISSUES = 3;
+// Upper bound on disjunctive-normal-form branches per rule before the analyzer skips that rule.
+const MAX_ANALYSIS_BRANCHES = 64;
+// Guard samples run against this context; sampled `context.*` paths are written over it.
+const FLOW_ANALYSIS_CONTEXT: ExecutionContext = {
+  tenantId: 'analysis',
+  userId: 'analysis',
+  role: 'analysis',
+  roles: [],
+  country: 'US',
+  locale: 'en-US',
+  timezone: 'UTC',
+  device: 'desktop',
+  permissions: [],
+  featureFlags: {},
 };
 
 export function validateExecutionContext(value: ExecutionContext): ValidationResult {
@@ -39,6 +97,8 @@ export function validateUISchema(value: UISchema): ValidationResult {
     validateAccessibility(value),
     validateI18nKeyUsage(value),
     validateComponentDateValidations(value),
+    validateComputedBindings(value),
+    validateRepeaters(value),
   );
 }
 
@@ -47,11 +107,64 @@ export function validateFlowSchema(value: FlowSchema): ValidationResult {
 }
 
 export function validateRulesSchema(value: RuleSet): ValidationResult {
-  return mergeResults(validateWithSchema(validators.rules, value), validateDateOperators(value));
+  return mergeResults(
+    validateWithSchema(validators.rules, value),
+    validateRuleOperators(value),
+    validateDateOperators(value),
+    validateRuleWindows(value),
+    ...(value?.decisionTables ?? []).map((table, index) =>
+      prefixIssues(validateDecisionTable(table), `decisionTables.${index}`),
+    ),
+  );
+}
+
+export function validateDecisionTable(value: DecisionTable): ValidationResult {
+  const schemaResult = validateWithSchema(validators.decisionTable, value);
+  if (!schemaResult.valid) return schemaResult;
+  return validateDecisionTableRows(value);
+}
+
+/**
+ * Semantic checks over a rule set: contradictory conditions, rules shadowed inside exclusive
+ * groups, overlapping rules that set the same path to different values, and read/write cycles.
+ * Conditions on unknown operators, quantifiers and date operators are treated as opaque.
+ */
+export function analyzeRuleSet(value: RuleSet): ValidationResult {
+  const issues: ValidationIssue[] = [];
+  if (!value || typeof value !== 'object' || !Array.isArray(value.rules)) {
+    return { valid: true, issues };
+  }
+
+  const facts = value.rules.map((rule, index) => toRuleFacts(rule, index));
+  collectUnreachableRuleIssues(facts, issues);
+  collectShadowedRuleIssues(value, facts, issues);
+  collectConflictingWriteIssues(value, facts, issues);
+  collectRuleCycleIssues(facts, issues);
+  return { valid: hasNoErrors(issues), issues };
+}
+
+/**
+ * Model checks a flow: states unreachable from `initialState`, non-final leaf states with no way
+ * out, events whose guards can all be false at once, fork branches that never reach their join,
+ * and timers racing event transitions to a different target. Guards are run through the rules
+ * engine at sampled inputs, so every stuck-event issue names a concrete input that triggers it.
+ */
+export function analyzeFlowSchema(value: FlowSchema): FlowAnalysisResult {
+  const issues: FlowAnalysisIssue[] = [];
+  if (!value || typeof value !== 'object' || !value.states) {
+    return { valid: true, issues };
+  }
+
+  collectUnreachableStateIssues(value, issues);
+  collectDeadEndIssues(value, issues);
+  collectStuckEventIssues(value, issues);
+  collectJoinIssues(value, issues);
+  collectTimerRaceIssues(value, issues);
+  return { valid: hasNoErrors(issues), issues };
 }
 
 export function validateApiMapping(value: ApiMapping): ValidationResult {
-  return validateWithSchema(validators.api, value);
+  return mergeResults(validateWithSchema(validators.api, value), validateGraphQLMapping(value));
 }
 
 export function assertExecutionContext(value: ExecutionContext): void {
@@ -70,6 +183,10 @@ export function assertRulesSchema(value: RuleSet): void {
   assertValid('RuleSet', validateRulesSchema(value));
 }
 
+export function assertDecisionTable(value: DecisionTable): void {
+  assertValid('DecisionTable', validateDecisionTable(value));
+}
+
 export function assertApiMapping(value: ApiMapping): void {
   assertValid('ApiMapping', validateApiMapping(value));
 }
@@ -104,7 +221,7 @@ export function validateI18nCoverage(uiSchemaValue: UISchema, options: I18nCover
     }
   }
 
-  return { valid: issues.length === 0, issues };
+  return { valid: hasNoErrors(issues), issues };
 }
 
 export function validateAccessibility(uiSchemaValue: UISchema): ValidationResult {
@@ -161,7 +278,7 @@ export function validateAccessibility(uiSchemaValue: UISchema): ValidationResult
     }
   }
 
-  return { valid: issues.length === 0, issues };
+  return { valid: hasNoErrors(issues), issues };
 }
 
 function validateWithSchema(validator: ValidateFunction, value: unknown): ValidationResult {
@@ -204,7 +321,17 @@ function pointerToPath(pointer: string): string {
 
 function mergeResults(...results: ValidationResult[]): ValidationResult {
   const issues = results.flatMap((result) => result.issues);
-  return { valid: issues.length === 0, issues };
+  return { valid: hasNoErrors(issues), issues };
+}
+
+function prefixIssues(result: ValidationResult, prefix: string): ValidationResult {
+  const issues = result.issues.map((issue) => ({ ...issue, path: issue.path ? `${prefix}.${issue.path}` : prefix }));
+  return { valid: hasNoErrors(issues), issues };
+}
+
+// Warnings are reported alongside errors but never make a result invalid.
+function hasNoErrors(issues: ValidationIssue[]): boolean {
+  return !issues.some((issue) => issue.severity === 'error');
 }
 
 function validateI18nKeyUsage(uiSchemaValue: UISchema): ValidationResult {
@@ -250,7 +377,7 @@ function validateI18nKeyUsage(uiSchemaValue: UISchema): ValidationResult {
     }
   }
 
-  return { valid: issues.length === 0, issues };
+  return { valid: hasNoErrors(issues), issues };
 }
 
 function validateComponentDateValidations(uiSchemaValue: UISchema): ValidationResult {
@@ -310,7 +437,120 @@ function validateComponentDateValidations(uiSchemaValue: UISchema): ValidationRe
     }
   }
 
-  return { valid: issues.length === 0, issues };
+  return { valid: hasNoErrors(issues), issues };
+}
+
+// Grid items override computed entries of their component, so cycles are checked on the merged map.
+function validateComputedBindings(uiSchemaValue: UISchema): ValidationResult {
+  const issues: ValidationIssue[] = [];
+  const componentsById = new Map(uiSchemaValue.components.map((component) => [component.id, component]));
+
+  const check = (own: Record<string, string>, merged: Record<string, string>, basePath: string) => {
+    for (const [key, source] of Object.entries(own)) {
+      if (typeof source !== 'string' || source.trim().length === 0) continue;
+      let references: string[];
+      try {
+        references = collectComputedReferences(source);
+      } catch (error) {
+        issues.push({
+          path: `${basePath}.${key}`,
+          message: `Invalid computed binding: ${error instanceof Error ? error.message : String(error)}`,
+          severity: 'error',
+        });
+        continue;
+      }
+      for (const reference of references) {
+        if (merged[reference] !== undefined) continue;
+        issues.push({
+          path: `${basePath}.${key}`,
+          message: `Computed binding references unknown computed.${reference}`,
+          severity: 'warning',
+        });
+      }
+    }
+    for (const cycle of findComputedBindingCycles(merged)) {
+      issues.push({
+        path: basePath,
+        message: `Computed bindings form a cycle: ${[...cycle, cycle[0]].join(' -> ')}`,
+        severity: 'error',
+      });
+    }
+  };
+
+  for (const component of uiSchemaValue.components) {
+    const computed = component.bindings?.computed;
+    if (computed) check(computed, computed, `components.${component.id}.bindings.computed`);
+  }
+  for (const item of uiSchemaValue.items ?? []) {
+    const computed = item.bindings?.computed;
+    if (!computed) continue;
+    const merged = { ...(componentsById.get(item.componentId)?.bindings?.computed ?? {}), ...computed };
+    check(computed, merged, `items.${item.id}.bindings.computed`);
+  }
+
+  return { valid: hasNoErrors(issues), issues };
+}
+
+// `$index` only has a value inside a repeater template, so components using it elsewhere are errors.
+function validateRepeaters(uiSchemaValue: UISchema): ValidationResult {
+  const issues: ValidationIssue[] = [];
+  const componentIds = new Set(uiSchemaValue.components.map((component) => component.id));
+  const templateComponentIds = new Set<string>();
+
+  const visit = (node: LayoutNode, path: string, insideTemplate: boolean) => {
+    if (node.type === 'repeater') {
+      if (insideTemplate) {
+        issues.push({ path, message: 'Repeaters cannot be nested inside a repeater template', severity: 'error' });
+      }
+      const itemsPath = typeof node.itemsPath === 'string' ? node.itemsPath.trim() : '';
+      if (!itemsPath.startsWith('data.') || itemsPath.includes(REPEATER_INDEX_PLACEHOLDER)) {
+        issues.push({
+          path: `${path}.itemsPath`,
+          message: 'Repeater itemsPath must be a data.* path without $index',
+          severity: 'error',
+        });
+      }
+      if (node.minItems !== undefined && node.maxItems !== undefined && node.minItems > node.maxItems) {
+        issues.push({ path, message: 'Repeater minItems cannot exceed maxItems', severity: 'error' });
+      }
+      if (!node.template) return;
+      for (const id of collectLayoutComponentIds(node.template)) {
+        templateComponentIds.add(id);
+        if (componentIds.has(id)) continue;
+        issues.push({
+          path: `${path}.template`,
+          message: `Repeater template references unknown component ${id}`,
+          severity: 'error',
+        });
+      }
+      visit(node.template, `${path}.template`, true);
+      return;
+    }
+    node.children?.forEach((child) => visit(child, `${path}.children.${child.id}`, insideTemplate));
+    if (node.type === 'tabs') {
+      node.tabs.forEach((tab) => visit(tab.child, `${path}.tabs.${tab.id}`, insideTemplate));
+    }
+  };
+  if (uiSchemaValue.layout) visit(uiSchemaValue.layout, 'layout', false);
+
+  for (const component of uiSchemaValue.components) {
+    if (templateComponentIds.has(component.id)) continue;
+    const scoped = JSON.stringify([component.bindings, component.rules, component.events]);
+    if (!scoped.includes(REPEATER_INDEX_PLACEHOLDER)) continue;
+    issues.push({
+      path: `components.${component.id}`,
+      message: 'Component uses $index but is not part of a repeater template',
+      severity: 'error',
+    });
+  }
+
+  return { valid: hasNoErrors(issues), issues };
+}
+
+function collectComputedReferences(source: string): string[] {
+  return collectBindingExpressionDependencies(parseBindingExpression(source))
+    .filter((path) => path.startsWith('computed.'))
+    .map((path) => path.slice('computed.'.length).split(/[.[]/)[0] ?? '');
 }
 
 function assertValid(label: string, result: ValidationResult): void {
@@ -391,7 +631,345 @@ function validateDateOperators(value: RuleSet): ValidationResult {
     collectDateIssues(rule.when, `rules.${ruleIndex}.when`, issues);
   });
 
-  return { valid: issues.length === 0, issues };
+  return { valid: hasNoErrors(issues), issues };
+}
+
+/** Effective windows must parse, be non-empty and not overlap between versions of the same `ruleId`. */
+function validateRuleWindows(value: RuleSet): ValidationResult {
+  const issues: ValidationIssue[] = [];
+  if (!value || typeof value !== 'object' || !Array.isArray(value.rules)) {
+    return { valid: true, issues };
+  }
+
+  const versions = new Map<string, number[]>();
+  value.rules.forEach((rule, ruleIndex) => {
+    if (!rule || typeof rule !== 'object') return;
+    let valid = true;
+    for (const key of ['effectiveFrom', 'effectiveTo'] as const) {
+      const bound = rule[key];
+      if (bound !== undefined && (typeof bound !== 'string' || Number.isNaN(Date.parse(bound)))) {
+        issues.push({ path: `rules.${ruleIndex}.${key}`, message: `${key} must be an ISO date or date-time`, severity: 'error' });
+        valid = false;
+      }
+    }
+    if (!valid) return;
+    const window = ruleWindow(rule);
+    if (window.from >= window.to) {
+      issues.push({ path: `rules.${ruleIndex}.effectiveTo`, message: 'effectiveTo must be after effectiveFrom', severity: 'error' });
+      return;
+    }
+    versions.set(rule.ruleId, [...(versions.get(rule.ruleId) ?? []), ruleIndex]);
+  });
+
+  for (const [ruleId, indexes] of versions) {
+    // Rules sharing a ruleId without any effective window are not versions of each other.
+    const windowed = indexes.some((index) => {
+      const rule = value.rules[index] as Rule;
+      return rule.effectiveFrom !== undefined || rule.effectiveTo !== undefined;
+    });
+    if (!windowed) continue;
+    indexes.forEach((firstIndex, position) => {
+      for (const secondIndex of indexes.slice(position + 1)) {
+        const first = ruleWindow(value.rules[firstIndex] as Rule);
+        const second = ruleWindow(value.rules[secondIndex] as Rule);
+        if (!(first.from < second.to && second.from < first.to)) continue;
+        const start = Math.max(first.from, second.from);
+        const end = Math.min(first.to, second.to);
+        const overlap = Number.isFinite(start)
+          ? `both apply at ${new Date(start).toISOString()}`
+          : Number.isFinite(end)
+            ? `both apply before ${new Date(end).toISOString()}`
+            : 'both always apply';
+        issues.push({
+          path: `rules.${secondIndex}`,
+          message: `rule "${ruleId}" has overlapping effective windows at rules.${firstIndex} and rules.${secondIndex}: ${overlap}`,
+          severity: 'error',
+        });
+      }
+    });
+  }
+
+  return { valid: hasNoErrors(issues), issues };
+}
+
+function validateRuleOperators(value: RuleSet): ValidationResult {
+  const issues: ValidationIssue[] = [];
+  if (!value || typeof value !== 'object' || !Array.isArray(value.rules)) {
+    return { valid: true, issues };
+  }
+
+  value.rules.forEach((rule, ruleIndex) => {
+    collectOperatorIssues(rule.when, `rules.${ruleIndex}.when`, issues, false);
+  });
+
+  return { valid: hasNoErrors(issues), issues };
+}
+
+function collectOperatorIssues(
+  condition: unknown,
+  path: string,
+  issues: ValidationIssue[],
+  inQuantifier: boolean,
+): void {
+  if (!condition || typeof condition !== 'object') return;
+  const rec = condition as Record<string, unknown>;
+  if (Array.isArray(rec.all)) {
+    rec.all.forEach((child, index) => collectOperatorIssues(child, `${path}.all.${index}`, issues, inQuantifier));
+    return;
+  }
+  if (Array.isArray(rec.any)) {
+    rec.any.forEach((child, index) => collectOperatorIssues(child, `${path}.any.${index}`, issues, inQuantifier));
+    return;
+  }
+  if (rec.not) {
+    collectOperatorIssues(rec.not, `${path}.not`, issues, inQuantifier);
+    return;
+  }
+  const quantifier = getQuantifierClause(rec);
+  if (quantifier) {
+    if (!inQuantifier && isItemPath(quantifier.clause.path)) {
+      issues.push({
+        path: `${path}.${quantifier.kind}.path`,
+        message: '$item paths are only available inside some/every/none',
+        severity: 'error',
+      });
+    }
+    collectOperatorIssues(quantifier.clause.when, `${path}.${quantifier.kind}.when`, issues, true);
+    return;
+  }
+  if (typeof rec.op !== 'string') return;
+
+  if (!inQuantifier) {
+    for (const side of ['left', 'right'] as const) {
+      const operand = rec[side] as Record<string, unknown> | undefined;
+      if (typeof operand?.path === 'string' && isItemPath(operand.path)) {
+        issues.push({
+          path: `${path}.${side}`,
+          message: '$item paths are only available inside some/every/none',
+          severity: 'error',
+        });
+      }
+    }
+  }
+
+  const operator = getRuleOperator(rec.op);
+  if (!operator) {
+    issues.push({ path: `${path}.op`, message: `unknown operator "${rec.op}"`, severity: 'error' });
+    return;
+  }
+  if (operator.arity === 2 && !rec.right) {
+    issues.push({ path, message: `${rec.op} requires a right operand`, severity: 'error' });
+  }
+  if (operator.arity === 1 && rec.right) {
+    issues.push({ path: `${path}.right`, message: `${rec.op} does not take a right operand`, severity: 'warning' });
+  }
+}
+
+function validateDecisionTableRows(table: DecisionTable): ValidationResult {
+  const issues: ValidationIssue[] = [];
+  collectDuplicateIds(table.inputs, 'inputs', issues);
+  collectDuplicateIds(table.outputs, 'outputs', issues);
+  collectDuplicateIds(table.rows, 'rows', issues);
+
+  const inputs = new Map(table.inputs.map((input) => [input.id, input]));
+  const outputIds = new Set(table.outputs.map((output) => output.id));
+  table.rows.forEach((row, rowIndex) => {
+    for (const [inputId, entry] of Object.entries(row.inputs)) {
+      const path = `rows.${rowIndex}.inputs.${inputId}`;
+      const input = inputs.get(inputId);
+      if (!input) {
+        issues.push({ path, message: `unknown input column "${inputId}"`, severity: 'error' });
+        continue;
+      }
+      const op = entry.op ?? input.op ?? 'eq';
+      const operator = getRuleOperator(op);
+      if (!operator) {
+        issues.push({ path, message: `unknown operator "${op}"`, severity: 'error' });
+      } else if (operator.arity === 2 && entry.value === undefined) {
+        issues.push({ path, message: `${op} requires a value`, severity: 'error' });
+      } else if (operator.arity === 1 && entry.value !== undefined) {
+        issues.push({ path, message: `${op} does not take a value`, severity: 'warning' });
+      }
+    }
+    for (const outputId of Object.keys(row.outputs)) {
+      if (!outputIds.has(outputId)) {
+        issues.push({
+          path: `rows.${rowIndex}.outputs.${outputId}`,
+          message: `unknown output column "${outputId}"`,
+          severity: 'error',
+        });
+      }
+    }
+    if (Object.keys(row.outputs).length === 0) {
+      issues.push({ path: `rows.${rowIndex}.outputs`, message: `row "${row.id}" sets no outputs`, severity: 'warning' });
+    }
+  });
+
+  if (!issues.some((issue) => issue.severity === 'error')) {
+    collectDecisionTableCoverageIssues(table, issues);
+  }
+  return { valid: hasNoErrors(issues), issues };
+}
+
+function collectDuplicateIds(items: Array<{ id: string }>, path: string, issues: ValidationIssue[]): void {
+  const seen = new Set<string>();
+  items.forEach((item, index) => {
+    if (seen.has(item.id)) {
+      issues.push({ path: `${path}.${index}.id`, message: `duplicate id "${item.id}"`, severity: 'error' });
+    }
+    seen.add(item.id);
+  });
+}
+
+type TableSample = { kind: 'value'; value: JSONValue } | { kind: 'other' };
+type TableCell = { op: string; value: JSONValue | undefined } | null;
+
+// Samples every input column at its cell boundaries (and between them), then checks which rows
+// match each combination: none means a gap, several means an overlap.
+function collectDecisionTableCoverageIssues(table: DecisionTable, issues: ValidationIssue[]): void {
+  if (table.rows.length === 0) return;
+  const columns: Array<{ id: string; cells: TableCell[]; samples: TableSample[] }> = [];
+  for (const input of table.inputs) {
+    const cells = table.rows.map((row): TableCell => {
+      const entry: DecisionTableEntry | undefined = row.inputs[input.id];
+      return entry ? { op: entry.op ?? input.op ?? 'eq', value: entry.value } : null;
+    });
+    const unanalyzable = cells.findIndex((cell) => cell !== null && !ANALYZABLE_TABLE_OPERATORS.has(cell.op));
+    if (unanalyzable >= 0) {
+      issues.push({
+        path: `rows.${unanalyzable}.inputs.${input.id}`,
+        message: `coverage not checked: operator "${cells[unanalyzable]?.op}" cannot be sampled`,
+        severity: 'warning',
+      });
+      return;
+    }
+    columns.push({ id: input.id, cells, samples: buildTableSamples(cells) });
+  }
+  const combinations = columns.reduce((total, column) => total * column.samples.length, 1);
+  if (combinations > MAX_TABLE_SAMPLE_COMBINATIONS) {
+    issues.push({
+      path: 'rows',
+      message: `coverage not checked: ${combinations} input combinations exceed the limit of ${MAX_TABLE_SAMPLE_COMBINATIONS}`,
+      severity: 'warning',
+    });
+    return;
+  }
+
+  const overlaps = new Map<string, [number, number]>();
+  const gaps: TableSample[][] = [];
+  const reachable = new Set<number>();
+  const outputsKey = (rowIndex: number) => JSON.stringify(table.rows[rowIndex]?.outputs ?? {});
+
+  for (let combination = 0; combination < combinations; combination += 1) {
+    let remainder = combination;
+    const point = columns.map((column) => {
+      const sample = column.samples[remainder % column.samples.length]!;
+      remainder = Math.floor(remainder / column.samples.length);
+      return sample;
+    });
+    const matched = table.rows
+      .map((_row, rowIndex) => rowIndex)
+      .filter((rowIndex) => columns.every((column, columnIndex) => tableCellMatches(column.cells[rowIndex] ?? null, point[columnIndex]!)));
+
+    if (matched.length === 0) {
+      gaps.push(point);
+      continue;
+    }
+    reachable.add(matched[0]!);
+    if (table.hitPolicy !== 'unique' && table.hitPolicy !== 'any') continue;
+    for (let i = 0; i < matched.length; i += 1) {
+      for (let j = i + 1; j < matched.length; j += 1) {
+        const a = matched[i]!;
+        const b = matched[j]!;
+        if (table.hitPolicy === 'any' && outputsKey(a) === outputsKey(b)) continue;
+        overlaps.set(`${a}:${b}`, [a, b]);
+      }
+    }
+  }
+
+  for (const [a, b] of overlaps.values()) {
+    const message =
+      table.hitPolicy === 'unique'
+        ? `row "${table.rows[b]?.id}" overlaps row "${table.rows[a]?.id}" (hit policy unique)`
+        : `row "${table.rows[b]?.id}" overlaps row "${table.rows[a]?.id}" with different outputs (hit policy any)`;
+    issues.push({ path: `rows.${b}`, message, severity: 'error' });
+  }
+  if (table.hitPolicy === 'first') {
+    table.rows.forEach((row, rowIndex) => {
+      if (!reachable.has(rowIndex)) {
+        issues.push({ path: `rows.${rowIndex}`, message: `row "${row.id}" is shadowed by earlier rows`, severity: 'warning' });
+      }
+    });
+  }
+  for (const gap of gaps.slice(0, MAX_TABLE_GAP_ISSUES)) {
+    const described = columns.map((column, index) => `${column.id}=${describeTableSample(gap[index]!)}`).join(', ');
+    issues.push({ path: 'rows', message: `no row matches ${described}`, severity: 'warning' });
+  }
+}
+
+function buildTableSamples(cells: TableCell[]): TableSample[] {
+  const numbers = new Set<number>();
+  const literals = new Map<string, JSONValue>();
+  for (const cell of cells) {
+    if (!cell) continue;
+    const values = Array.isArray(cell.value) ? cell.value : [cell.value ?? null];
+    for (const value of values) {
+      if (typeof value === 'number') numbers.add(value);
+      else literals.set(JSON.stringify(value), value);
+    }
+  }
+
+  const samples: TableSample[] = [];
+  const sorted = Array.from(numbers).sort((a, b) => a - b);
+  if (sorted.length > 0) {
+    samples.push({ kind: 'value', value: sorted[0]! - 1 });
+    sorted.forEach((value, index) => {
+      samples.push({ kind: 'value', value });
+      const next = sorted[index + 1];
+      samples.push({ kind: 'value', value: next === undefined ? value + 1 : (value + next) / 2 });
+    });
+  }
+  for (const value of literals.values()) {
+    samples.push({ kind: 'value', value });
+  }
+  if (literals.size > 0 || samples.length === 0) {
+    samples.push({ kind: 'other' });
+  }
+  return samples;
+}
+
+function tableCellMatches(cell: TableCell, sample: TableSample): boolean {
+  if (!cell) return true;
+  if (sample.kind === 'other') return cell.op === 'neq';
+  const actual = sample.value;
+  const expected = cell.value;
+  switch (cell.op) {
+    case 'eq':
+      return JSON.stringify(actual) === JSON.stringify(expected);
+    case 'neq':
+      return JSON.stringify(actual) !== JSON.stringify(expected);
+    case 'gt':
+      return typeof actual === 'number' && typeof expected === 'number' && actual > expected;
+    case 'gte':
+      return typeof actual === 'number' && typeof expected === 'number' && actual >= expected;
+    case 'lt':
+      return typeof actual === 'number' && typeof expected === 'number' && actual < expected;
+    case 'lte':
+      return typeof actual === 'number' && typeof expected === 'number' && actual <= expected;
+    case 'between': {
+      if (typeof actual !== 'number' || !Array.isArray(expected)) return false;
+      const [min, max] = expected;
+      return typeof min === 'number' && typeof max === 'number' && actual >= min && actual <= max;
+    }
+    case 'in':
+      return Array.isArray(expected) && expected.some((item) => JSON.stringify(item) === JSON.stringify(actual));
+    default:
+      return true;
+  }
+}
+
+function describeTableSample(sample: TableSample): string {
+  return sample.kind === 'other' ? '(any other value)' : JSON.stringify(sample.value);
 }
 
 function validateFlowAdvanced(value: FlowSchema): ValidationResult {
@@ -407,9 +985,62 @@ function validateFlowAdvanced(value: FlowSchema): ValidationResult {
     (state.transitions ?? []).forEach((transition, index) => {
       validateFlowTransition(stateId, `transitions.${index}`, transition, value, issues);
     });
+    validateFlowHierarchy(stateId, value, issues);
   }
 
-  return { valid: issues.length === 0, issues };
+  return { valid: hasNoErrors(issues), issues };
+}
+
+function validateFlowHierarchy(stateId: string, flow: FlowSchema, issues: ValidationIssue[]): void {
+  const state = flow.states[stateId];
+  if (!state) return;
+
+  if (state.parent !== undefined) {
+    const parent = flow.states[state.parent];
+    if (!parent) {
+      issues.push({
+        path: `states.${stateId}.parent`,
+        message: `parent state "${state.parent}" does not exist`,
+        severity: 'error',
+      });
+    } else if (parent.history) {
+      issues.push({
+        path: `states.${stateId}.parent`,
+        message: `history state "${state.parent}" cannot contain states`,
+        severity: 'error',
+      });
+    }
+    const seen = new Set<string>([stateId]);
+    let current: string | undefined = state.parent;
+    while (current && flow.states[current]) {
+      if (seen.has(current)) {
+        issues.push({
+          path: `states.${stateId}.parent`,
+          message: `state "${stateId}" is nested inside itself`,
+          severity: 'error',
+        });
+        break;
+      }
+      seen.add(current);
+      current = flow.states[current]?.parent;
+    }
+  }
+
+  if (state.history && state.parent === undefined) {
+    issues.push({
+      path: `states.${stateId}.history`,
+      message: 'history state must have a parent',
+      severity: 'error',
+    });
+  }
+
+  if (state.initial !== undefined && flow.states[state.initial]?.parent !== stateId) {
+    issues.push({
+      path: `states.${stateId}.initial`,
+      message: `initial state "${state.initial}" is not a child of "${stateId}"`,
+      severity: 'error',
+    });
+  }
 }
 
 function validateFlowTransition(
@@ -447,6 +1078,302 @@ function validateFlowTransition(
   }
 }
 
+type FlowTransitionRef = {
+  stateId: string;
+  path: string;
+  transition: FlowTransition;
+  /** Event that fires the transition; undefined for timers and event-less list entries. */
+  event?: string;
+  timer: boolean;
+};
+
+function flowTransitionRefs(flow: FlowSchema, stateId: string): FlowTransitionRef[] {
+  const state = flow.states[stateId];
+  if (!state) return [];
+  const refs: FlowTransitionRef[] = Object.entries(state.on ?? {}).map(([event, transition]) => ({
+    stateId,
+    path: `states.${stateId}.on.${event}`,
+    transition,
+    event,
+    timer: false,
+  }));
+  (state.transitions ?? []).forEach((transition, index) => {
+    const timer = transition.delayMs !== undefined && transition.delayMs >= 0;
+    refs.push({
+      stateId,
+      path: `states.${stateId}.transitions.${index}`,
+      transition,
+      ...(!timer && transition.onEvent ? { event: transition.onEvent } : {}),
+      timer,
+    });
+  });
+  return refs;
+}
+
+function flowAncestors(flow: FlowSchema, stateId: string): string[] {
+  const ancestors: string[] = [];
+  let current = flow.states[stateId]?.parent;
+  while (current && flow.states[current] && current !== stateId && !ancestors.includes(current)) {
+    ancestors.push(current);
+    current = flow.states[current]?.parent;
+  }
+  return ancestors;
+}
+
+function flowChildren(flow: FlowSchema, stateId: string): string[] {
+  return Object.keys(flow.states).filter((id) => flow.states[id]?.parent === stateId && !flow.states[id]?.history);
+}
+
+// Mirrors the engine's entry rules: entering a state activates its ancestors, a compound state
+// descends to its initial child and a history state falls back to its parent's initial child.
+function reachableFlowStates(flow: FlowSchema): Set<string> {
+  const reached = new Set<string>();
+  const queue: string[] = [];
+  const mark = (stateId: string) => {
+    if (reached.has(stateId) || !flow.states[stateId]) return;
+    reached.add(stateId);
+    queue.push(stateId);
+  };
+  const enter = (stateId: string, depth = 0) => {
+    const state = flow.states[stateId];
+    if (!state || depth > Object.keys(flow.states).length) return;
+    mark(stateId);
+    flowAncestors(flow, stateId).forEach(mark);
+    const compoundId = state.history ? state.parent : stateId;
+    if (!compoundId) return;
+    const children = flowChildren(flow, compoundId);
+    const initial = flow.states[compoundId]?.initial ?? children[0];
+    if (initial && initial !== stateId && children.includes(initial)) enter(initial, depth + 1);
+  };
+
+  enter(flow.initialState);
+  while (queue.length > 0) {
+    const stateId = queue.shift()!;
+    for (const ref of flowTransitionRefs(flow, stateId)) {
+      if (ref.transition.fork) ref.transition.fork.branches.forEach((branch) => enter(branch));
+      else enter(ref.transition.target);
+    }
+  }
+  return reached;
+}
+
+function collectUnreachableStateIssues(flow: FlowSchema, issues: FlowAnalysisIssue[]): void {
+  if (!flow.states[flow.initialState]) return;
+  const reached = reachableFlowStates(flow);
+  for (const stateId of Object.keys(flow.states)) {
+    if (reached.has(stateId)) continue;
+    issues.push({
+      kind: 'unreachable',
+      stateId,
+      path: `states.${stateId}`,
+      message: `state "${stateId}" is unreachable from initial state "${flow.initialState}"`,
+      severity: 'warning',
+    });
+  }
+}
+
+function collectDeadEndIssues(flow: FlowSchema, issues: FlowAnalysisIssue[]): void {
+  for (const [stateId, state] of Object.entries(flow.states)) {
+    if (state.final || state.history) continue;
+    if (Object.values(flow.states).some((candidate) => candidate.parent === stateId)) continue;
+    const exits = [stateId, ...flowAncestors(flow, stateId)].flatMap((id) =>
+      flowTransitionRefs(flow, id).filter((ref) => ref.timer || ref.event !== undefined),
+    );
+    if (exits.length > 0) continue;
+    issues.push({
+      kind: 'dead_end',
+      stateId,
+      path: `states.${stateId}`,
+      message: `state "${stateId}" has no outgoing transitions; mark it final if the flow ends here`,
+      severity: 'warning',
+    });
+  }
+}
+
+// Samples every path the guards read at the literals they compare against (plus "missing"), runs
+// all guards of an event through the rules engine and reports the first point where none passes.
+// Events handled by an ancestor count as candidates too, since unmatched events bubble up.
+function collectStuckEventIssues(flow: FlowSchema, issues: FlowAnalysisIssue[]): void {
+  for (const stateId of Object.keys(flow.states)) {
+    const own = flowTransitionRefs(flow, stateId).filter((ref) => ref.event !== undefined);
+    const events = Array.from(new Set(own.map((ref) => ref.event!)));
+    for (const event of events) {
+      const candidates = [stateId, ...flowAncestors(flow, stateId)].flatMap((id) =>
+        flowTransitionRefs(flow, id).filter((ref) => ref.event === event),
+      );
+      if (candidates.some((ref) => !ref.transition.guard)) continue;
+      const guards = candidates.map((ref) => ref.transition.guard!);
+      const witness = findFailingGuardInput(guards);
+      if (!witness) continue;
+      issues.push({
+        kind: 'stuck_event',
+        stateId,
+        path: own.find((ref) => ref.event === event)!.path,
+        message: `event "${event}" in state "${stateId}" has no passing guard when ${witness}`,
+        severity: 'warning',
+      });
+    }
+  }
+}
+
+function findFailingGuardInput(guards: RuleCondition[]): string | null {
+  const literals = new Map<string, JSONValue[]>();
+  guards.forEach((guard) => collectGuardLiterals(guard, literals));
+  const columns = Array.from(literals.entries()).map(([path, values]) => {
+    // Paths only tested for presence still need one present value.
+    const samples = buildTableSamples((values.length > 0 ? values : [true]).map((value) => ({ op: 'eq', value })));
+    const sampled = samples.flatMap((sample) => (sample.kind === 'value' ? [sample.value] : []));
+    return { path, samples: [...sampled, undefined] as Array<JSONValue | undefined> };
+  });
+  const combinations = columns.reduce((total, column) => total * column.samples.length, 1);
+  if (combinations > MAX_TABLE_SAMPLE_COMBINATIONS) return null;
+
+  for (let combination = 0; combination < combinations; combination += 1) {
+    let remainder = combination;
+    const context = structuredClone(FLOW_ANALYSIS_CONTEXT) as unknown as Record<string, JSONValue>;
+    const data: Record<string, JSONValue> = {};
+    const point = columns.map((column) => {
+      const value = column.samples[remainder % column.samples.length];
+      remainder = Math.floor(remainder / column.samples.length);
+      if (column.path.startsWith('context.')) {
+        assignAnalysisPath(context, column.path.slice('context.'.length), value);
+      } else {
+        assignAnalysisPath(data, column.path.slice('data.'.length), value);
+      }
+      return { path: column.path, value };
+    });
+
+    let allFalse = true;
+    for (const guard of guards) {
+      try {
+        if (evaluateCondition(guard, context as unknown as ExecutionContext, data)) {
+          allFalse = false;
+          break;
+        }
+      } catch {
+        allFalse = false;
+        break;
+      }
+    }
+    if (!allFalse) continue;
+    if (point.length === 0) return 'evaluated with any input';
+    return point
+      .map(({ path, value }) => (value === undefined ? `${path} is missing` : `${path}=${JSON.stringify(value)}`))
+      .join(', ');
+  }
+  return null;
+}
+
+function collectGuardLiterals(condition: unknown, literals: Map<string, JSONValue[]>): void {
+  if (!condition || typeof condition !== 'object') return;
+  const rec = condition as Record<string, unknown>;
+  if (Array.isArray(rec.all) || Array.isArray(rec.any)) {
+    for (const child of (rec.all ?? rec.any) as unknown[]) collectGuardLiterals(child, literals);
+    return;
+  }
+  if (rec.not) {
+    collectGuardLiterals(rec.not, literals);
+    return;
+  }
+  if (typeof rec.op !== 'string') return;
+  const left = rec.left as Record<string, unknown> | undefined;
+  const right = rec.right as Record<string, unknown> | undefined;
+  for (const [pathSide, valueSide] of [
+    [left, right],
+    [right, left],
+  ] as const) {
+    const path = pathSide?.path;
+    if (typeof path !== 'string' || isItemPath(path) || path.includes('[')) continue;
+    const values = literals.get(qualifyPath(path, 'data.')) ?? [];
+    literals.set(qualifyPath(path, 'data.'), values);
+    if (valueSide && 'value' in valueSide) values.push(valueSide.value as JSONValue);
+  }
+}
+
+function assignAnalysisPath(target: Record<string, JSONValue>, path: string, value: JSONValue | undefined): void {
+  const segments = path.split('.');
+  let cursor = target;
+  for (const segment of segments.slice(0, -1)) {
+    const next = cursor[segment];
+    if (!next || typeof next !== 'object' || Array.isArray(next)) {
+      cursor[segment] = {};
+    }
+    cursor = cursor[segment] as Record<string, JSONValue>;
+  }
+  const leaf = segments[segments.length - 1]!;
+  if (value === undefined) delete cursor[leaf];
+  else cursor[leaf] = value;
+}
+
+function collectJoinIssues(flow: FlowSchema, issues: FlowAnalysisIssue[]): void {
+  for (const stateId of Object.keys(flow.states)) {
+    for (const ref of flowTransitionRefs(flow, stateId)) {
+      const fork = ref.transition.fork;
+      if (!fork || !flow.states[fork.joinState]) continue;
+      fork.branches.forEach((branch, index) => {
+        const within = Object.keys(flow.states).filter(
+          (id) => id === branch || flowAncestors(flow, id).includes(branch),
+        );
+        const reachesJoin = within.some((id) =>
+          flowTransitionRefs(flow, id).some((candidate) => !candidate.transition.fork && candidate.transition.target === fork.joinState),
+        );
+        if (reachesJoin) return;
+        const joinType = fork.joinType ?? 'and';
+        issues.push({
+          kind: 'join_unreachable',
+          stateId,
+          path: `${ref.path}.fork.branches.${index}`,
+          message:
+            joinType === 'and'
+              ? `branch "${branch}" never transitions to join state "${fork.joinState}", so the join can never complete`
+              : `branch "${branch}" never transitions to join state "${fork.joinState}"`,
+          severity: joinType === 'and' ? 'error' : 'warning',
+        });
+      });
+    }
+  }
+}
+
+function collectTimerRaceIssues(flow: FlowSchema, issues: FlowAnalysisIssue[]): void {
+  for (const stateId of Object.keys(flow.states)) {
+    const refs = flowTransitionRefs(flow, stateId);
+    const eventRefs = [stateId, ...flowAncestors(flow, stateId)].flatMap((id) =>
+      flowTransitionRefs(flow, id).filter((ref) => ref.event !== undefined),
+    );
+    for (const timer of refs.filter((ref) => ref.timer)) {
+      const competing = Array.from(
+        new Set(eventRefs.filter((ref) => ref.transition.target !== timer.transition.target).map((ref) => ref.event!)),
+      );
+      if (competing.length === 0) continue;
+      issues.push({
+        kind: 'timer_race',
+        stateId,
+        path: timer.path,
+        message: `timer after ${timer.transition.delayMs}ms in state "${stateId}" races ${competing
+          .map((event) => `"${event}"`)
+          .join(', ')} to a different target`,
+        severity: 'warning',
+      });
+    }
+  }
+}
+
+function getQuantifierClause(
+  rec: Record<string, unknown>,
+): { kind: 'some' | 'every' | 'none'; clause: { path?: unknown; when?: unknown } } | null {
+  for (const kind of ['some', 'every', 'none'] as const) {
+    const clause = rec[kind];
+    if (clause && typeof clause === 'object') {
+      return { kind, clause: clause as { path?: unknown; when?: unknown } };
+    }
+  }
+  return null;
+}
+
+function isItemPath(path: unknown): boolean {
+  return typeof path === 'string' && (path === '$item' || path.startsWith('$item.'));
+}
+
 function collectDateIssues(condition: unknown, path: string, issues: ValidationIssue[]): void {
   if (!condition || typeof condition !== 'object') return;
   const rec = condition as Record<string, unknown>;
@@ -462,6 +1389,11 @@ function collectDateIssues(condition: unknown, path: string, issues: ValidationI
     collectDateIssues(rec.not, `${path}.not`, issues);
     return;
   }
+  const quantifier = getQuantifierClause(rec);
+  if (quantifier) {
+    collectDateIssues(quantifier.clause.when, `${path}.${quantifier.kind}.when`, issues);
+    return;
+  }
 
   const op = rec.op;
   if (
@@ -479,10 +1411,8 @@ function collectDateIssues(condition: unknown, path: string, issues: ValidationI
   const left = rec.left as Record<string, unknown> | undefined;
   const right = rec.right as Record<string, unknown> | undefined;
 
-  if (!right) {
-    issues.push({ path, message: 'date comparisons require a right operand', severity: 'error' });
-    return;
-  }
+  // Missing right operands are reported by validateRuleOperators.
+  if (!right) return;
 
   if (!isValidDateOperand(left, false)) {
     issues.push({ path: `${path}.left`, message: 'date operands must be a path or ISO date string', severity: 'error' });
@@ -503,6 +1433,8 @@ function isValidDateOperand(operand: Record<string, unknown> | undefined, allowR
   if ('path' in operand && typeof operand.path === 'string' && operand.path.length > 0) {
     return true;
   }
+  // Lookup results are only known at evaluation time.
+  if ('lookup' in operand && typeof operand.lookup === 'string') return true;
   if (!('value' in operand)) return false;
   const value = operand.value as JSONValue;
   if (allowRange && Array.isArray(value)) {
@@ -529,3 +1461,663 @@ function isValidDateLiteral(value: JSONValue): boolean {
   if (/^\d{1,4}[\/.-]\d{1,2}[\/.-]\d{1,4}$/.test(trimmed)) return true;
   return false;
 }
+
+function validateGraphQLMapping(value: ApiMapping): ValidationResult {
+  const issues: ValidationIssue[] = [];
+  if (!value || typeof value !== 'object' || value.type !== 'graphql') {
+    return { valid: true, issues };
+  }
+
+  const query = typeof value.query === 'string' ? value.query : '';
+  if (query.trim().length === 0) {
+    issues.push({ path: 'query', message: 'graphql mappings require a query', severity: 'error' });
+    return { valid: false, issues };
+  }
+
+  const source = stripGraphQLCommentsAndStrings(query);
+  if (!/^\s*(query|mutation|subscription)\b|^\s*\{/.test(source)) {
+    issues.push({
+      path: 'query',
+      message: 'query must start with an operation (query, mutation, subscription) or a selection set',
+      severity: 'error',
+    });
+  }
+  if (value.operationName && !new RegExp(`\\b(query|mutation|subscription)\\s+${escapeRegExp(value.operationName)}\\b`).test(source)) {
+    issues.push({
+      path: 'operationName',
+      message: `operation "${value.operationName}" is not defined in query`,
+      severity: 'error',
+    });
+  }
+
+  const mapped = new Set(Object.keys(value.requestMap?.body ?? {}));
+  const variables = collectGraphQLVariables(source);
+  for (const [name, variable] of variables) {
+    if (mapped.has(name) || variable.hasDefault) continue;
+    issues.push({
+      path: `requestMap.body.${name}`,
+      message: `query variable $${name} is not mapped in requestMap.body`,
+      severity: 'error',
+    });
+  }
+  for (const name of mapped) {
+    if (variables.has(name)) continue;
+    issues.push({
+      path: `requestMap.body.${name}`,
+      message: `requestMap.body.${name} is not a variable of the query`,
+      severity: 'warning',
+    });
+  }
+
+  return { valid: hasNoErrors(issues), issues };
+}
+
+function collectGraphQLVariables(source: string): Map<string, { hasDefault: boolean }> {
+  const variables = new Map<string, { hasDefault: boolean }>();
+  const definitions = /^\s*(?:query|mutation|subscription)\b[^({]*\(([^)]*)\)/.exec(source)?.[1] ?? '';
+  for (const definition of definitions.split('$').slice(1)) {
+    const name = /^([A-Za-z_][A-Za-z0-9_]*)/.exec(definition)?.[1];
+    if (!name) continue;
+    variables.set(name, { hasDefault: definition.includes('=') });
+  }
+  for (const match of source.matchAll(/\$([A-Za-z_][A-Za-z0-9_]*)/g)) {
+    if (match[1] && !variables.has(match[1])) {
+      variables.set(match[1], { hasDefault: false });
+    }
+  }
+  return variables;
+}
+
+function stripGraphQLCommentsAndStrings(query: string): string {
+  return query.replace(/"(?:\\.|[^"\\])*"/g, '""').replace(/#[^\n]*/g, '');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+type AnalysisOp = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'notIn' | 'exists' | 'missing';
+
+type AnalysisAtom =
+  | { kind: 'path'; path: string; op: AnalysisOp; value: JSONValue }
+  | { kind: 'opaque'; key: string; negated: boolean };
+
+type RangeBound = { value: number; inclusive: boolean };
+
+interface PathFacts {
+  candidates?: JSONValue[];
+  excluded: Set<string>;
+  lower?: RangeBound;
+  upper?: RangeBound;
+  numeric: boolean;
+  exists: boolean;
+  missing: boolean;
+}
+
+interface BranchFacts {
+  atoms: AnalysisAtom[];
+  paths: Map<string, PathFacts>;
+  opaque: Set<string>;
+  satisfiable: boolean;
+}
+
+interface RuleFacts {
+  rule: Rule;
+  index: number;
+  /** Disjunctive normal form of `when`; null when it exceeds MAX_ANALYSIS_BRANCHES. */
+  branches: BranchFacts[] | null;
+  reads: string[];
+  writes: Array<{ path: string; value?: JSONValue; actionIndex: number }>;
+}
+
+// Complements used when pushing `not` down to atoms. Range operators only match numbers, so
+// `not gt 10` becomes `lte 10` or "not a number" (see negateAtom).
+const NEGATED_ANALYSIS_OPS: Record<AnalysisOp, AnalysisOp> = {
+  eq: 'neq',
+  neq: 'eq',
+  gt: 'lte',
+  gte: 'lt',
+  lt: 'gte',
+  lte: 'gt',
+  in: 'notIn',
+  notIn: 'in',
+  exists: 'missing',
+  missing: 'exists',
+};
+
+const MIRRORED_ANALYSIS_OPS: Record<string, AnalysisOp> = {
+  eq: 'eq',
+  neq: 'neq',
+  gt: 'lt',
+  gte: 'lte',
+  lt: 'gt',
+  lte: 'gte',
+};
+
+function collectUnreachableRuleIssues(facts: RuleFacts[], issues: ValidationIssue[]): void {
+  for (const fact of facts) {
+    if (!fact.branches || fact.branches.some((branch) => branch.satisfiable)) continue;
+    issues.push({
+      path: `rules.${fact.index}.when`,
+      message: `rule "${fact.rule.ruleId}" can never match: its condition is contradictory`,
+      severity: 'error',
+    });
+  }
+}
+
+function collectShadowedRuleIssues(value: RuleSet, facts: RuleFacts[], issues: ValidationIssue[]): void {
+  for (const shadowed of facts) {
+    const group = shadowed.rule.group ?? 'default';
+    if (value.groups?.[group]?.exclusive !== true) continue;
+    if (!shadowed.branches?.some((branch) => branch.satisfiable)) continue;
+
+    const winner = facts.find(
+      (candidate) =>
+        candidate !== shadowed &&
+        (candidate.rule.group ?? 'default') === group &&
+        compareAgendaOrder(candidate.rule, shadowed.rule) < 0 &&
+        candidate.rule.ruleId !== shadowed.rule.ruleId &&
+        windowCovers(candidate.rule, shadowed.rule) &&
+        scopeCovers(candidate.rule.scope, shadowed.rule.scope) &&
+        ruleImplies(shadowed, candidate),
+    );
+    if (!winner) continue;
+    issues.push({
+      path: `rules.${shadowed.index}`,
+      message: `rule "${shadowed.rule.ruleId}" is shadowed by higher-priority rule "${winner.rule.ruleId}" in exclusive group "${group}" and can never fire`,
+      severity: 'warning',
+    });
+  }
+}
+
+function collectConflictingWriteIssues(value: RuleSet, facts: RuleFacts[], issues: ValidationIssue[]): void {
+  facts.forEach((first, firstIndex) => {
+    for (const second of facts.slice(firstIndex + 1)) {
+      const group = first.rule.group ?? 'default';
+      const sameExclusiveGroup =
+        (second.rule.group ?? 'default') === group && value.groups?.[group]?.exclusive === true;
+      if (sameExclusiveGroup || !canFireTogether(first.rule, second.rule)) continue;
+      if (!scopesOverlap(first.rule.scope, second.rule.scope)) continue;
+
+      const conflict = second.writes.find((write) =>
+        first.writes.some(
+          (other) =>
+            other.path === write.path &&
+            write.value !== undefined &&
+            other.value !== undefined &&
+            stableKey(other.value) !== stableKey(write.value),
+        ),
+      );
+      if (!conflict || !rulesOverlap(first, second)) continue;
+
+      const tied = compareAgendaOrder(first.rule, second.rule, false) === 0;
+      issues.push({
+        path: `rules.${second.index}.actions.${conflict.actionIndex}`,
+        message: tied
+          ? `rules "${first.rule.ruleId}" and "${second.rule.ruleId}" set ${conflict.path} to different values under overlapping conditions with equal priority and salience`
+          : `rules "${first.rule.ruleId}" and "${second.rule.ruleId}" set ${conflict.path} to different values under overlapping conditions`,
+        severity: tied ? 'error' : 'warning',
+      });
+    }
+  });
+}
+
+function collectRuleCycleIssues(facts: RuleFacts[], issues: ValidationIssue[]): void {
+  const edges = facts.map((writer) =>
+    facts
+      .filter(
+        (reader) =>
+          (reader === writer || canFireTogether(reader.rule, writer.rule)) &&
+          writer.writes.some((write) => reader.reads.some((read) => pathsOverlap(write.path, read))),
+      )
+      .map((reader) => reader.index),
+  );
+
+  for (const component of stronglyConnectedComponents(edges)) {
+    if (component.length === 1) {
+      const index = component[0]!;
+      if (!edges[index]?.includes(index)) continue;
+      issues.push({
+        path: `rules.${index}`,
+        message: `rule "${facts[index]?.rule.ruleId}" reads a path it writes (read/write cycle); chain mode re-evaluates it until maxChainIterations`,
+        severity: 'warning',
+      });
+      continue;
+    }
+    const ordered = [...component].sort((a, b) => a - b);
+    const ids = ordered.map((index) => `"${facts[index]?.rule.ruleId}"`).join(', ');
+    issues.push({
+      path: `rules.${ordered[0]}`,
+      message: `rules ${ids} read paths written by each other (read/write cycle); chain mode re-evaluates them until maxChainIterations`,
+      severity: 'warning',
+    });
+  }
+}
+
+function toRuleFacts(rule: Rule, index: number): RuleFacts {
+  const dnf = conditionBranches(rule.when, false);
+  const reads: string[] = [];
+  collectConditionReads(rule.when, reads);
+  const writes: RuleFacts['writes'] = [];
+  (rule.actions ?? []).forEach((action, actionIndex) => {
+    switch (action.type) {
+      case 'setField':
+        writes.push({ path: qualifyPath(action.path, 'data.'), value: action.value, actionIndex });
+        break;
+      case 'setContext':
+        writes.push({ path: qualifyPath(action.path, 'context.'), value: action.value, actionIndex });
+        break;
+      case 'removeField':
+      case 'addItem':
+        writes.push({ path: qualifyPath(action.path, 'data.'), actionIndex });
+        break;
+      case 'mapField':
+        reads.push(qualifyPath(action.from, 'data.'));
+        writes.push({ path: qualifyPath(action.to, 'data.'), actionIndex });
+        break;
+      default:
+        break;
+    }
+  });
+  return { rule, index, branches: dnf ? dnf.map(buildBranchFacts) : null, reads, writes };
+}
+
+function conditionBranches(condition: RuleCondition, negated: boolean): AnalysisAtom[][] | null {
+  if ('all' in condition || 'any' in condition) {
+    const children = 'all' in condition ? condition.all : condition.any;
+    const conjunctive = 'all' in condition !== negated;
+    let branches: AnalysisAtom[][] = conjunctive ? [[]] : [];
+    for (const child of children) {
+      const childBranches = conditionBranches(child, negated);
+      if (!childBranches) return null;
+      branches = conjunctive
+        ? branches.flatMap((branch) => childBranches.map((childBranch) => [...branch, ...childBranch]))
+        : [...branches, ...childBranches];
+      if (branches.length > MAX_ANALYSIS_BRANCHES) return null;
+    }
+    return branches;
+  }
+  if ('not' in condition) return conditionBranches(condition.not, !negated);
+  if ('op' in condition) {
+    const atoms = compareAtoms(condition.op, condition.left, condition.right);
+    if (atoms) {
+      // not (a and b) == (not a) or (not b)
+      return negated ? atoms.flatMap((atom) => negateAtom(atom).map((alternative) => [alternative])) : [atoms];
+    }
+  }
+  return [[{ kind: 'opaque', key: stableKey(condition), negated }]];
+}
+
+function compareAtoms(op: string, left: RuleOperand, right: RuleOperand | undefined): AnalysisAtom[] | null {
+  let path: string;
+  let value: JSONValue | undefined;
+  let normalizedOp = op;
+  if ('path' in left && (!right || 'value' in right)) {
+    path = left.path;
+    value = right && 'value' in right ? right.value : undefined;
+  } else if (right && 'path' in right && 'value' in left && MIRRORED_ANALYSIS_OPS[op]) {
+    path = right.path;
+    value = left.value;
+    normalizedOp = MIRRORED_ANALYSIS_OPS[op] as AnalysisOp;
+  } else {
+    return null;
+  }
+
+  const atom = (atomOp: AnalysisOp, atomValue: JSONValue): AnalysisAtom => ({
+    kind: 'path',
+    path,
+    op: atomOp,
+    value: atomValue,
+  });
+  switch (normalizedOp) {
+    case 'eq':
+    case 'neq':
+      return value === undefined ? null : [atom(normalizedOp, value)];
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte':
+      return typeof value === 'number' ? [atom(normalizedOp, value)] : null;
+    case 'between':
+      return Array.isArray(value) && typeof value[0] === 'number' && typeof value[1] === 'number'
+        ? [atom('gte', value[0]), atom('lte', value[1])]
+        : null;
+    case 'in':
+      return Array.isArray(value) ? [atom('in', value)] : null;
+    case 'exists':
+      return [atom('exists', null)];
+    default:
+      return null;
+  }
+}
+
+/** Alternatives (a disjunction) that together are equivalent to `not atom`. */
+function negateAtom(atom: AnalysisAtom): AnalysisAtom[] {
+  if (atom.kind === 'opaque') return [{ ...atom, negated: !atom.negated }];
+  const negated: AnalysisAtom = { ...atom, op: NEGATED_ANALYSIS_OPS[atom.op] };
+  return isRangeOp(atom.op) ? [negated, { kind: 'opaque', key: numericKey(atom.path), negated: true }] : [negated];
+}
+
+function isRangeOp(op: AnalysisOp): boolean {
+  return op === 'gt' || op === 'gte' || op === 'lt' || op === 'lte';
+}
+
+function numericKey(path: string): string {
+  return `${path} is number`;
+}
+
+function atomKey(atom: AnalysisAtom): string {
+  return atom.kind === 'opaque' ? atom.key : `${atom.path} ${atom.op} ${stableKey(atom.value)}`;
+}
+
+function buildBranchFacts(atoms: AnalysisAtom[]): BranchFacts {
+  const paths = new Map<string, PathFacts>();
+  const opaque = new Set<string>();
+
+  for (const atom of atoms) {
+    if (atom.kind === 'opaque') {
+      opaque.add(`${atom.negated ? '-' : '+'}${atom.key}`);
+      continue;
+    }
+    opaque.add(`+${atomKey(atom)}`);
+    if (isRangeOp(atom.op)) opaque.add(`+${numericKey(atom.path)}`);
+    let facts = paths.get(atom.path);
+    if (!facts) {
+      facts = { excluded: new Set(), numeric: false, exists: false, missing: false };
+      paths.set(atom.path, facts);
+    }
+    applyAtom(facts, atom.op, atom.value);
+  }
+
+  const contradictoryOpaque = [...opaque].some((key) => key.startsWith('+') && opaque.has(`-${key.slice(1)}`));
+  const satisfiable = !contradictoryOpaque && [...paths.values()].every(isPathSatisfiable);
+  return { atoms, paths, opaque, satisfiable };
+}
+
+function applyAtom(facts: PathFacts, op: AnalysisOp, value: JSONValue): void {
+  switch (op) {
+    case 'eq':
+      facts.candidates = intersectCandidates(facts.candidates, [value]);
+      break;
+    case 'in':
+      facts.candidates = intersectCandidates(facts.candidates, Array.isArray(value) ? value : []);
+      break;
+    case 'neq':
+      facts.excluded.add(stableKey(value));
+      break;
+    case 'notIn':
+      for (const item of Array.isArray(value) ? value : []) facts.excluded.add(stableKey(item));
+      break;
+    case 'exists':
+      facts.exists = true;
+      break;
+    case 'missing':
+      facts.missing = true;
+      break;
+    default: {
+      if (typeof value !== 'number') break;
+      facts.numeric = true;
+      const inclusive = op === 'gte' || op === 'lte';
+      if (op === 'gt' || op === 'gte') facts.lower = tighterBound(facts.lower, { value, inclusive }, 'lower');
+      else facts.upper = tighterBound(facts.upper, { value, inclusive }, 'upper');
+    }
+  }
+}
+
+function intersectCandidates(current: JSONValue[] | undefined, next: JSONValue[]): JSONValue[] {
+  if (!current) return next;
+  const keys = new Set(next.map(stableKey));
+  return current.filter((item) => keys.has(stableKey(item)));
+}
+
+function tighterBound(current: RangeBound | undefined, next: RangeBound, side: 'lower' | 'upper'): RangeBound {
+  if (!current || current.value === next.value) {
+    return { value: next.value, inclusive: (current?.inclusive ?? true) && next.inclusive };
+  }
+  const nextIsTighter = side === 'lower' ? next.value > current.value : next.value < current.value;
+  return nextIsTighter ? next : current;
+}
+
+function remainingCandidates(facts: PathFacts): JSONValue[] | undefined {
+  return facts.candidates?.filter(
+    (candidate) =>
+      !facts.excluded.has(stableKey(candidate)) &&
+      (!facts.numeric || (typeof candidate === 'number' && withinBounds(candidate, facts))),
+  );
+}
+
+function withinBounds(value: number, facts: PathFacts): boolean {
+  const { lower, upper } = facts;
+  if (lower && (value < lower.value || (value === lower.value && !lower.inclusive))) return false;
+  if (upper && (value > upper.value || (value === upper.value && !upper.inclusive))) return false;
+  return true;
+}
+
+function isPathSatisfiable(facts: PathFacts): boolean {
+  if (facts.missing && (facts.exists || facts.numeric || facts.candidates !== undefined)) return false;
+  const { lower, upper } = facts;
+  if (lower && upper && (lower.value > upper.value || (lower.value === upper.value && !(lower.inclusive && upper.inclusive)))) {
+    return false;
+  }
+  const candidates = remainingCandidates(facts);
+  return candidates === undefined || candidates.length > 0;
+}
+
+function effectiveBounds(facts: PathFacts): { lower?: RangeBound; upper?: RangeBound } {
+  const candidates = remainingCandidates(facts);
+  if (candidates && candidates.length > 0 && candidates.every((candidate) => typeof candidate === 'number')) {
+    const numbers = candidates as number[];
+    return {
+      lower: tighterBound(facts.lower, { value: Math.min(...numbers), inclusive: true }, 'lower'),
+      upper: tighterBound(facts.upper, { value: Math.max(...numbers), inclusive: true }, 'upper'),
+    };
+  }
+  return { lower: facts.lower, upper: facts.upper };
+}
+
+function branchImplies(branch: BranchFacts, atom: AnalysisAtom): boolean {
+  if (atom.kind === 'opaque') return branch.opaque.has(`${atom.negated ? '-' : '+'}${atom.key}`);
+  if (branch.opaque.has(`+${atomKey(atom)}`)) return true;
+  const facts = branch.paths.get(atom.path);
+  if (!facts) return false;
+
+  const candidates = remainingCandidates(facts);
+  const { lower, upper } = effectiveBounds(facts);
+  const value = atom.value;
+  switch (atom.op) {
+    case 'eq':
+      return candidates !== undefined && candidates.length > 0 && candidates.every((item) => stableKey(item) === stableKey(value));
+    case 'neq':
+      return impliesNotEqual(facts, candidates, value);
+    case 'in': {
+      const allowed = new Set((Array.isArray(value) ? value : []).map(stableKey));
+      return candidates !== undefined && candidates.every((item) => allowed.has(stableKey(item)));
+    }
+    case 'notIn':
+      return (Array.isArray(value) ? value : []).every((item) => impliesNotEqual(facts, candidates, item));
+    case 'exists':
+      return facts.exists || facts.numeric || candidates !== undefined;
+    case 'missing':
+      return facts.missing;
+    case 'gt':
+    case 'gte':
+      return (
+        typeof value === 'number' &&
+        lower !== undefined &&
+        (lower.value > value || (lower.value === value && (atom.op === 'gte' || !lower.inclusive)))
+      );
+    case 'lt':
+    case 'lte':
+      return (
+        typeof value === 'number' &&
+        upper !== undefined &&
+        (upper.value < value || (upper.value === value && (atom.op === 'lte' || !upper.inclusive)))
+      );
+  }
+}
+
+function impliesNotEqual(facts: PathFacts, candidates: JSONValue[] | undefined, value: JSONValue): boolean {
+  if (facts.missing || facts.excluded.has(stableKey(value))) return true;
+  if (candidates !== undefined) return candidates.every((item) => stableKey(item) !== stableKey(value));
+  if (facts.numeric) return typeof value !== 'number' || !withinBounds(value, facts);
+  return false;
+}
+
+/** True when every way `antecedent` can match also satisfies `consequent`. */
+function ruleImplies(antecedent: RuleFacts, consequent: RuleFacts): boolean {
+  if (!antecedent.branches || !consequent.branches) return false;
+  return antecedent.branches
+    .filter((branch) => branch.satisfiable)
+    .every((branch) =>
+      consequent.branches?.some((target) => target.atoms.every((atom) => branchImplies(branch, atom))),
+    );
+}
+
+/** Conservative: rules are assumed to overlap unless every pair of branches is contradictory. */
+function rulesOverlap(first: RuleFacts, second: RuleFacts): boolean {
+  if (!first.branches || !second.branches) return true;
+  return first.branches.some((left) =>
+    second.branches?.some((right) => buildBranchFacts([...left.atoms, ...right.atoms]).satisfiable),
+  );
+}
+
+function compareAgendaOrder(first: Rule, second: Rule, tieBreakById = true): number {
+  const priorityDiff = (second.priority ?? 0) - (first.priority ?? 0);
+  if (priorityDiff !== 0) return priorityDiff;
+  const salienceDiff = (second.salience ?? 0) - (first.salience ?? 0);
+  if (salienceDiff !== 0) return salienceDiff;
+  return tieBreakById ? first.ruleId.localeCompare(second.ruleId) : 0;
+}
+
+function scopeEntries(scope: RuleScope | undefined): Array<[string, string[]]> {
+  return Object.entries(scope ?? {}).filter(
+    (entry): entry is [string, string[]] => Array.isArray(entry[1]) && entry[1].length > 0,
+  );
+}
+
+/** True when `outer` applies everywhere `inner` does. */
+function scopeCovers(outer: RuleScope | undefined, inner: RuleScope | undefined): boolean {
+  const innerScope = (inner ?? {}) as Record<string, string[] | undefined>;
+  return scopeEntries(outer).every(([key, values]) => {
+    const innerValues = innerScope[key];
+    return Array.isArray(innerValues) && innerValues.length > 0 && innerValues.every((item) => values.includes(item));
+  });
+}
+
+// Versions of one ruleId never run in the same evaluation, and neither do rules whose windows are disjoint.
+function canFireTogether(first: Rule, second: Rule): boolean {
+  if (first.ruleId === second.ruleId) return false;
+  const a = ruleWindow(first);
+  const b = ruleWindow(second);
+  return a.from < b.to && b.from < a.to;
+}
+
+function windowCovers(outer: Rule, inner: Rule): boolean {
+  const a = ruleWindow(outer);
+  const b = ruleWindow(inner);
+  return a.from <= b.from && b.to <= a.to;
+}
+
+function ruleWindow(rule: Rule): { from: number; to: number } {
+  return {
+    from: rule.effectiveFrom === undefined ? Number.NEGATIVE_INFINITY : Date.parse(rule.effectiveFrom),
+    to: rule.effectiveTo === undefined ? Number.POSITIVE_INFINITY : Date.parse(rule.effectiveTo),
+  };
+}
+
+function scopesOverlap(first: RuleScope | undefined, second: RuleScope | undefined): boolean {
+  const secondScope = (second ?? {}) as Record<string, string[] | undefined>;
+  return scopeEntries(first).every(([key, values]) => {
+    const other = secondScope[key];
+    return !Array.isArray(other) || other.length === 0 || other.some((item) => values.includes(item));
+  });
+}
+
+function collectConditionReads(condition: unknown, reads: string[]): void {
+  if (!condition || typeof condition !== 'object') return;
+  const rec = condition as Record<string, unknown>;
+  if (Array.isArray(rec.all) || Array.isArray(rec.any)) {
+    for (const child of (rec.all ?? rec.any) as unknown[]) collectConditionReads(child, reads);
+    return;
+  }
+  if (rec.not) {
+    collectConditionReads(rec.not, reads);
+    return;
+  }
+  const quantifier = getQuantifierClause(rec);
+  if (quantifier) {
+    if (typeof quantifier.clause.path === 'string' && !isItemPath(quantifier.clause.path)) {
+      reads.push(quantifier.clause.path);
+    }
+    collectConditionReads(quantifier.clause.when, reads);
+    return;
+  }
+  for (const side of ['left', 'right'] as const) {
+    const operand = rec[side] as Record<string, unknown> | undefined;
+    if (typeof operand?.path === 'string' && !isItemPath(operand.path)) reads.push(operand.path);
+  }
+}
+
+function qualifyPath(path: string, defaultPrefix: 'data.' | 'context.'): string {
+  return path.startsWith('data.') || path.startsWith('context.') ? path : `${defaultPrefix}${path}`;
+}
+
+function pathsOverlap(first: string, second: string): boolean {
+  if (first === second) return true;
+  const [shorter, longer] = first.length < second.length ? [first, second] : [second, first];
+  return longer.startsWith(`${shorter}.`) || longer.startsWith(`${shorter}[`);
+}
+
+function stronglyConnectedComponents(edges: number[][]): number[][] {
+  const indexOf = new Map<number, number>();
+  const lowLink = new Map<number, number>();
+  const stack: number[] = [];
+  const onStack = new Set<number>();
+  const components: number[][] = [];
+  let counter = 0;
+
+  const visit = (node: number): void => {
+    indexOf.set(node, counter);
+    lowLink.set(node, counter);
+    counter += 1;
+    stack.push(node);
+    onStack.add(node);
+
+    for (const next of edges[node] ?? []) {
+      if (!indexOf.has(next)) {
+        visit(next);
+        lowLink.set(node, Math.min(lowLink.get(node) as number, lowLink.get(next) as number));
+      } else if (onStack.has(next)) {
+        lowLink.set(node, Math.min(lowLink.get(node) as number, indexOf.get(next) as number));
+      }
+    }
+
+    if (lowLink.get(node) === indexOf.get(node)) {
+      const component: number[] = [];
+      let member: number | undefined;
+      do {
+        member = stack.pop() as number;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== node);
+      components.push(component);
+    }
+  };
+
+  edges.forEach((_, node) => {
+    if (!indexOf.has(node)) visit(node);
+  });
+  return components;
+}
+
+function stableKey(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableKey).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableKey(record[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'undefined';
+}
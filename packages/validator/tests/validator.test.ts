@@ -1,13 +1,18 @@
 import { describe, expect, it } from 'vitest';
-import type { ApiMapping, FlowSchema, RuleSet, UISchema } from '@platform/schema';
+import type { ApiMapping, DecisionTable, FlowSchema, RuleSet, UISchema } from '@platform/schema';
 import { PLATFORM_BUNDLES } from '@platform/i18n';
 import exampleUi from '@platform/schema/examples/example.ui.json';
 import exampleFlow from '@platform/schema/examples/example.flow.json';
 import exampleRules from '@platform/schema/examples/example.rules.json';
 import exampleApi from '@platform/schema/examples/example.api.json';
 import {
+  analyzeFlowSchema,
+  analyzeRuleSet,
+  assertApiMapping,
+  assertRulesSchema,
   validateApiMapping,
   validateAccessibility,
+  validateDecisionTable,
   validateFlowSchema,
   validateI18nCoverage,
   validateRulesSchema,
@@ -121,6 +126,173 @@ describe('validator', () => {
     expect(result.issues.some((issue) => issue.message.includes('minTime'))).toBe(true);
   });
 
+  it('checks computed binding expressions for syntax errors and cycles', () => {
+    const accessibility = { ariaLabelKey: 'runtime.filters.customerName.aria', keyboardNav: true, focusOrder: 1 };
+    const schema: UISchema = {
+      version: '1.0.0',
+      pageId: 'computed-bindings',
+      layout: { id: 'root', type: 'section', componentIds: ['summary'] },
+      components: [
+        {
+          id: 'summary',
+          type: 'text',
+          adapterHint: 'platform.text',
+          bindings: {
+            computed: {
+              monthly: 'round(principal * rate / 12, 2)',
+              total: 'computed.monthly * months',
+              broken: 'principal *',
+              unknown: 'exec(principal)',
+              typo: 'computed.totl + 1',
+            },
+          },
+          accessibility,
+        },
+      ],
+      items: [
+        {
+          id: 'summary-item',
+          componentId: 'summary',
+          x: 0,
+          y: 0,
+          w: 4,
+          h: 1,
+          bindings: { computed: { monthly: 'computed.total / months' } },
+        },
+      ],
+    };
+
+    const result = validateUISchema(schema);
+    const computedIssues = result.issues.filter((issue) => issue.path.includes('bindings.computed'));
+    expect(computedIssues).toEqual([
+      {
+        path: 'components.summary.bindings.computed.broken',
+        message: 'Invalid computed binding: Unexpected end of expression at column 12',
+        severity: 'error',
+      },
+      {
+        path: 'components.summary.bindings.computed.unknown',
+        message: 'Invalid computed binding: Unknown function "exec" at column 1',
+        severity: 'error',
+      },
+      {
+        path: 'components.summary.bindings.computed.typo',
+        message: 'Computed binding references unknown computed.totl',
+        severity: 'warning',
+      },
+      {
+        path: 'items.summary-item.bindings.computed',
+        message: 'Computed bindings form a cycle: monthly -> total -> monthly',
+        severity: 'error',
+      },
+    ]);
+
+    const warningsOnly = validateUISchema({
+      ...schema,
+      components: [
+        {
+          ...schema.components[0]!,
+          bindings: { computed: { name: 'data.customer-name', typo: 'computed.totl + 1' } },
+        },
+      ],
+      items: undefined,
+    });
+    expect(warningsOnly.issues.map((issue) => issue.severity)).toEqual(['warning']);
+    expect(warningsOnly.valid).toBe(true);
+  });
+
+  it('checks repeater layouts and $index usage', () => {
+    const field = (id: string, path: string) => ({
+      id,
+      type: 'input' as const,
+      adapterHint: 'platform.textField',
+      bindings: { data: { value: path } },
+      accessibility: { ariaLabelKey: 'runtime.filters.customerName.aria', keyboardNav: true, focusOrder: 1 },
+    });
+    const valid: UISchema = {
+      version: '1.0.0',
+      pageId: 'repeaters',
+      layout: {
+        id: 'root',
+        type: 'section',
+        children: [
+          {
+            id: 'applicants',
+            type: 'repeater',
+            itemsPath: 'data.applicants',
+            minItems: 1,
+            template: { id: 'applicant', type: 'stack', componentIds: ['applicantName'] },
+          },
+        ],
+      },
+      components: [field('applicantName', 'data.applicants[$index].name')],
+    };
+    expect(validateUISchema(valid)).toEqual({ valid: true, issues: [] });
+
+    const invalid: UISchema = {
+      ...valid,
+      layout: {
+        id: 'root',
+        type: 'section',
+        componentIds: ['stray'],
+        children: [
+          {
+            id: 'applicants',
+            type: 'repeater',
+            itemsPath: 'applicants[$index]',
+            minItems: 3,
+            maxItems: 1,
+            template: {
+              id: 'applicant',
+              type: 'stack',
+              componentIds: ['applicantName', 'missing'],
+              children: [
+                {
+                  id: 'phones',
+                  type: 'repeater',
+                  itemsPath: 'data.applicants[$index].phones',
+                  template: { id: 'phone', type: 'stack', componentIds: [] },
+                },
+              ],
+            },
+          },
+        ],
+      },
+      components: [field('applicantName', 'data.applicants[$index].name'), field('stray', 'data.rows[$index]')],
+    };
+    const issues = validateUISchema(invalid).issues.filter(
+      (issue) => issue.message.includes('epeater') || issue.message.includes('$index'),
+    );
+    expect(issues).toEqual([
+      {
+        path: 'layout.children.applicants.itemsPath',
+        message: 'Repeater itemsPath must be a data.* path without $index',
+        severity: 'error',
+      },
+      { path: 'layout.children.applicants', message: 'Repeater minItems cannot exceed maxItems', severity: 'error' },
+      {
+        path: 'layout.children.applicants.template',
+        message: 'Repeater template references unknown component missing',
+        severity: 'error',
+      },
+      {
+        path: 'layout.children.applicants.template.children.phones',
+        message: 'Repeaters cannot be nested inside a repeater template',
+        severity: 'error',
+      },
+      {
+        path: 'layout.children.applicants.template.children.phones.itemsPath',
+        message: 'Repeater itemsPath must be a data.* path without $index',
+        severity: 'error',
+      },
+      {
+        path: 'components.stray',
+        message: 'Component uses $index but is not part of a repeater template',
+        severity: 'error',
+      },
+    ]);
+  });
+
   it('accepts component dataSource config', () => {
     const schema: UISchema = {
       version: '1.0.0',
@@ -179,4 +351,480 @@ describe('validator', () => {
     expect(result.issues.some((issue) => issue.path.endsWith('fork.joinState'))).toBe(true);
     expect(result.issues.some((issue) => issue.message.includes('branch state'))).toBe(true);
   });
+
+  it('checks compound state parents, initial children and history states', () => {
+    const schema: FlowSchema = {
+      version: '1.0.0',
+      flowId: 'nested-flow',
+      initialState: 'wizard',
+      states: {
+        wizard: { uiPageId: 'wizard', initial: 'other', on: { cancel: { target: 'done' } }, entry: ['evaluateRules'] },
+        step1: { uiPageId: 'step1-page', parent: 'wizard', on: {} },
+        other: { uiPageId: 'other-page', on: {} },
+        resume: { uiPageId: 'resume', history: 'deep', on: {} },
+        orphan: { uiPageId: 'orphan-page', parent: 'missing', on: {} },
+        loopA: { uiPageId: 'a', parent: 'loopB', on: {} },
+        loopB: { uiPageId: 'b', parent: 'loopA', on: {} },
+        done: { uiPageId: 'done-page', on: {} },
+      },
+    };
+
+    const result = validateFlowSchema(schema);
+    expect(result.issues.map((issue) => issue.path)).toEqual([
+      'states.wizard.initial',
+      'states.resume.history',
+      'states.orphan.parent',
+      'states.loopA.parent',
+      'states.loopB.parent',
+    ]);
+  });
+
+  it('accepts structured flow actions next to shorthand names', () => {
+    const schema: FlowSchema = {
+      version: '1.0.0',
+      flowId: 'actions-flow',
+      initialState: 'start',
+      states: {
+        start: {
+          uiPageId: 'start-page',
+          on: {
+            submit: {
+              target: 'done',
+              actions: [
+                'evaluateRules',
+                { type: 'setContext', path: 'context.locale', value: 'fr-FR' },
+                { type: 'callApi', apiId: 'submitOrder' },
+                { type: 'navigate', url: '/thanks' },
+              ],
+            },
+          },
+        },
+        done: { uiPageId: 'done-page', on: {} },
+      },
+    };
+    expect(validateFlowSchema(schema).valid).toBe(true);
+
+    const missingApi = JSON.parse(JSON.stringify(schema)) as FlowSchema;
+    missingApi.states.start!.on.submit!.actions = [{ type: 'callApi' } as never, { type: 'navigate' } as never];
+    expect(validateFlowSchema(missingApi).valid).toBe(false);
+  });
+
+  it('checks graphql queries and mapped variables', () => {
+    const base: ApiMapping = {
+      version: '1.0.0',
+      apiId: 'customerLookup',
+      type: 'graphql',
+      method: 'POST',
+      endpoint: 'https://api.example.com/graphql',
+      query: 'query Customer($id: ID!, $locale: String, $limit: Int = 5) { customer(id: $id, locale: $locale) { name } }',
+      operationName: 'Customer',
+      requestMap: {
+        body: {
+          id: { from: 'data.customerId' },
+          locale: { from: 'context.locale' },
+        },
+      },
+      responseMap: { data: { customerName: 'response.customer.name' } },
+    };
+    expect(validateApiMapping(base)).toEqual({ valid: true, issues: [] });
+
+    const missingVariable = validateApiMapping({
+      ...base,
+      operationName: 'Lookup',
+      requestMap: { body: { id: { from: 'data.customerId' }, extra: { from: 'data.extra' } } },
+    });
+    expect(missingVariable.valid).toBe(false);
+    expect(missingVariable.issues).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ path: 'operationName', severity: 'error' }),
+        expect.objectContaining({ path: 'requestMap.body.locale', severity: 'error' }),
+        expect.objectContaining({ path: 'requestMap.body.extra', severity: 'warning' }),
+      ]),
+    );
+    expect(missingVariable.issues.some((issue) => issue.path === 'requestMap.body.limit')).toBe(false);
+
+    const missingQuery = validateApiMapping({ ...base, query: undefined });
+    expect(missingQuery.valid).toBe(false);
+    expect(missingQuery.issues[0]?.message).toContain('require a query');
+  });
+
+  it('keeps results with only warnings valid', () => {
+    const mapping: ApiMapping = {
+      version: '1.0.0',
+      apiId: 'customerLookup',
+      type: 'graphql',
+      method: 'POST',
+      endpoint: 'https://api.example.com/graphql',
+      query: 'query Customer($id: ID!) { customer(id: $id) { name } }',
+      requestMap: { body: { id: { from: 'data.customerId' }, extra: { from: 'data.extra' } } },
+      responseMap: { data: { customerName: 'response.customer.name' } },
+    };
+    expect(validateApiMapping(mapping)).toEqual({
+      valid: true,
+      issues: [expect.objectContaining({ path: 'requestMap.body.extra', severity: 'warning' })],
+    });
+    expect(() => assertApiMapping(mapping)).not.toThrow();
+
+    const ruleSet: RuleSet = {
+      version: '1.0.0',
+      rules: [{ ruleId: 'HAS_EMAIL', when: { op: 'exists', left: { path: 'data.email' }, right: { value: true } } }],
+    };
+    expect(validateRulesSchema(ruleSet)).toEqual({
+      valid: true,
+      issues: [expect.objectContaining({ path: 'rules.0.when.right', severity: 'warning' })],
+    });
+    expect(() => assertRulesSchema(ruleSet)).not.toThrow();
+  });
+
+  it('checks rule operators against the operator registry', () => {
+    const result = validateRulesSchema({
+      version: '1.0.0',
+      rules: [
+        {
+          ruleId: 'OPERATORS',
+          when: {
+            all: [
+              { op: 'validIban', left: { path: 'data.iban' } },
+              { op: 'between', left: { path: 'data.amount' }, right: { value: [1, 10] } },
+              { op: 'lengthGt', left: { path: 'data.name' } },
+              { op: 'isEmpty', left: { path: 'data.notes' }, right: { value: true } },
+              { op: 'soundsLike', left: { path: 'data.name' }, right: { value: 'Jon' } },
+            ],
+          },
+        },
+      ],
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([
+      expect.objectContaining({ path: 'rules.0.when.all.2', severity: 'error' }),
+      expect.objectContaining({ path: 'rules.0.when.all.3.right', severity: 'warning' }),
+      expect.objectContaining({ path: 'rules.0.when.all.4.op', message: 'unknown operator "soundsLike"' }),
+    ]);
+  });
+
+  it('accepts quantifier conditions and scopes $item paths to them', () => {
+    const valid = validateRulesSchema({
+      version: '1.0.0',
+      rules: [
+        {
+          ruleId: 'LARGE_LINE',
+          when: {
+            some: {
+              path: 'data.lineItems',
+              when: { op: 'gt', left: { path: '$item.amount' }, right: { value: 1000 } },
+            },
+          },
+        },
+      ],
+    });
+    expect(valid).toEqual({ valid: true, issues: [] });
+
+    const invalid = validateRulesSchema({
+      version: '1.0.0',
+      rules: [
+        {
+          ruleId: 'ITEM_OUTSIDE',
+          when: {
+            all: [
+              { op: 'gt', left: { path: '$item.amount' }, right: { value: 1000 } },
+              { every: { path: 'data.lineItems', when: { op: 'dateBefore', left: { path: '$item.due' } } } },
+            ],
+          },
+        },
+      ],
+    });
+    expect(invalid.valid).toBe(false);
+    expect(invalid.issues).toEqual([
+      expect.objectContaining({ path: 'rules.0.when.all.0.left', severity: 'error' }),
+      expect.objectContaining({ path: 'rules.0.when.all.1.every.when', message: 'dateBefore requires a right operand' }),
+    ]);
+  });
+
+  it('checks effective windows of rule versions for overlaps', () => {
+    const when = { op: 'exists', left: { path: 'data.net' } } as const;
+    const result = validateRulesSchema({
+      version: '1.0.0',
+      rules: [
+        { ruleId: 'VAT_RATE', version: '1', effectiveTo: '2027-01-01', when },
+        { ruleId: 'VAT_RATE', version: '2', effectiveFrom: '2027-01-01', when },
+        { ruleId: 'VAT_RATE', version: '2.1', effectiveFrom: '2027-03-01', effectiveTo: '2027-06-01', when },
+        { ruleId: 'PROMO', effectiveFrom: '2026-12-24', effectiveTo: '2026-12-01', when },
+        { ruleId: 'LEGACY', effectiveFrom: '2026-13-40', when },
+        { ruleId: 'DUPLICATE', when },
+        { ruleId: 'DUPLICATE', effectiveTo: '2026-01-01', when },
+        { ruleId: 'REUSED', when },
+        { ruleId: 'REUSED', when },
+      ],
+    });
+
+    expect(result.issues).toEqual([
+      { path: 'rules.3.effectiveTo', message: 'effectiveTo must be after effectiveFrom', severity: 'error' },
+      { path: 'rules.4.effectiveFrom', message: 'effectiveFrom must be an ISO date or date-time', severity: 'error' },
+      {
+        path: 'rules.2',
+        message: 'rule "VAT_RATE" has overlapping effective windows at rules.1 and rules.2: both apply at 2027-03-01T00:00:00.000Z',
+        severity: 'error',
+      },
+      {
+        path: 'rules.6',
+        message: 'rule "DUPLICATE" has overlapping effective windows at rules.5 and rules.6: both apply before 2026-01-01T00:00:00.000Z',
+        severity: 'error',
+      },
+    ]);
+
+    // Versions with disjoint windows never run together, so they are not reported as conflicting writes.
+    const analysis = analyzeRuleSet({
+      version: '1.0.0',
+      rules: [
+        { ruleId: 'RATE_2026', effectiveTo: '2027-01-01', when, actions: [{ type: 'setField', path: 'data.rate', value: 1 }] },
+        { ruleId: 'RATE_2027', effectiveFrom: '2027-01-01', when, actions: [{ type: 'setField', path: 'data.rate', value: 2 }] },
+      ],
+    });
+    expect(analysis.issues).toEqual([]);
+  });
+
+  it('reports overlapping, shadowed and missing decision table rows', () => {
+    const table: DecisionTable = {
+      tableId: 'risk',
+      hitPolicy: 'unique',
+      inputs: [
+        { id: 'score', path: 'data.score', op: 'gte' },
+        { id: 'segment', path: 'data.segment' },
+      ],
+      outputs: [{ id: 'level', path: 'data.riskLevel' }],
+      rows: [
+        { id: 'low', inputs: { score: { op: 'lt', value: 500 } }, outputs: { level: 'high' } },
+        { id: 'mid', inputs: { score: { op: 'between', value: [500, 700] } }, outputs: { level: 'medium' } },
+        { id: 'top', inputs: { score: { value: 700 }, segment: { value: 'retail' } }, outputs: { level: 'low' } },
+      ],
+    };
+
+    const unique = validateDecisionTable(table);
+    expect(unique.valid).toBe(false);
+    expect(unique.issues).toEqual([
+      { path: 'rows.2', message: 'row "top" overlaps row "mid" (hit policy unique)', severity: 'error' },
+      expect.objectContaining({ path: 'rows', message: expect.stringContaining('segment=(any other value)'), severity: 'warning' }),
+    ]);
+
+    const first = validateDecisionTable({
+      ...table,
+      hitPolicy: 'first',
+      rows: [...table.rows, { id: 'rest', inputs: {}, outputs: { level: 'unknown' } }, { id: 'never', inputs: {}, outputs: { level: 'x' } }],
+    });
+    expect(first).toEqual({
+      valid: true,
+      issues: [{ path: 'rows.4', message: 'row "never" is shadowed by earlier rows', severity: 'warning' }],
+    });
+
+    const unsampled = validateDecisionTable({
+      ...table,
+      inputs: [...table.inputs, { id: 'name', path: 'data.name', op: 'startsWith' }],
+      rows: [...table.rows, { id: 'vip', inputs: { name: { value: 'VIP' } }, outputs: { level: 'low' } }],
+    });
+    expect(unsampled).toEqual({
+      valid: true,
+      issues: [
+        {
+          path: 'rows.3.inputs.name',
+          message: 'coverage not checked: operator "startsWith" cannot be sampled',
+          severity: 'warning',
+        },
+      ],
+    });
+
+    const broken = validateRulesSchema({
+      version: '1.0.0',
+      rules: [],
+      decisionTables: [
+        {
+          ...table,
+          rows: [{ id: 'bad', inputs: { unknown: { value: 1 }, score: { op: 'between' } }, outputs: {} }],
+        },
+      ],
+    });
+    expect(broken.issues).toEqual([
+      expect.objectContaining({ path: 'decisionTables.0.rows.0.inputs.unknown', severity: 'error' }),
+      expect.objectContaining({ path: 'decisionTables.0.rows.0.inputs.score', message: 'between requires a value' }),
+      expect.objectContaining({ path: 'decisionTables.0.rows.0.outputs', severity: 'warning' }),
+    ]);
+  });
+
+  it('analyzes rule sets for contradictions, shadowing, conflicts and cycles', () => {
+    const ruleSet: RuleSet = {
+      version: '1.0.0',
+      groups: { pricing: { exclusive: true } },
+      rules: [
+        {
+          ruleId: 'IMPOSSIBLE',
+          when: {
+            all: [
+              { op: 'gt', left: { path: 'data.amount' }, right: { value: 10 } },
+              { op: 'lt', left: { path: 'data.amount' }, right: { value: 5 } },
+            ],
+          },
+        },
+        {
+          ruleId: 'VIP_PRICE',
+          priority: 10,
+          group: 'pricing',
+          when: { op: 'in', left: { path: 'data.segment' }, right: { value: ['vip', 'gold'] } },
+          actions: [{ type: 'setField', path: 'data.discount', value: 0.2 }],
+        },
+        {
+          ruleId: 'GOLD_PRICE',
+          priority: 5,
+          group: 'pricing',
+          when: {
+            all: [
+              { op: 'eq', left: { path: 'data.segment' }, right: { value: 'gold' } },
+              { op: 'gte', left: { path: 'data.amount' }, right: { value: 100 } },
+            ],
+          },
+          actions: [{ type: 'setField', path: 'data.discount', value: 0.3 }],
+        },
+        {
+          ruleId: 'BULK_DISCOUNT',
+          when: { op: 'gte', left: { path: 'data.amount' }, right: { value: 50 } },
+          actions: [{ type: 'setField', path: 'data.discount', value: 0.1 }],
+        },
+        {
+          ruleId: 'SMALL_ORDER',
+          when: { not: { op: 'gte', left: { path: 'data.amount' }, right: { value: 50 } } },
+          actions: [{ type: 'setField', path: 'data.discount', value: 0 }],
+        },
+        {
+          ruleId: 'FLAG_A',
+          when: { op: 'exists', left: { path: 'data.b' } },
+          actions: [{ type: 'setField', path: 'data.a', value: true }],
+        },
+        {
+          ruleId: 'FLAG_B',
+          when: { op: 'eq', left: { path: 'data.a' }, right: { value: true } },
+          actions: [{ type: 'setField', path: 'data.b', value: true }],
+        },
+      ],
+    };
+
+    const result = analyzeRuleSet(ruleSet);
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([
+      expect.objectContaining({ path: 'rules.0.when', severity: 'error' }),
+      expect.objectContaining({
+        path: 'rules.2',
+        severity: 'warning',
+        message: expect.stringContaining('shadowed by higher-priority rule "VIP_PRICE"'),
+      }),
+      expect.objectContaining({
+        path: 'rules.3.actions.0',
+        severity: 'warning',
+        message: expect.stringContaining('"VIP_PRICE" and "BULK_DISCOUNT" set data.discount'),
+      }),
+      expect.objectContaining({ path: 'rules.4.actions.0', message: expect.stringContaining('"VIP_PRICE" and "SMALL_ORDER"') }),
+      expect.objectContaining({
+        path: 'rules.3.actions.0',
+        severity: 'warning',
+        message: expect.stringContaining('"GOLD_PRICE" and "BULK_DISCOUNT"'),
+      }),
+      expect.objectContaining({
+        path: 'rules.5',
+        severity: 'warning',
+        message: expect.stringContaining('"FLAG_A", "FLAG_B"'),
+      }),
+    ]);
+    // SMALL_ORDER never matches together with BULK_DISCOUNT or GOLD_PRICE, so those pairs do not conflict.
+    expect(result.issues.some((issue) => issue.message.includes('"SMALL_ORDER"') && !issue.message.includes('VIP_PRICE'))).toBe(false);
+
+    const tied = analyzeRuleSet({
+      version: '1.0.0',
+      rules: [
+        { ruleId: 'A', when: { op: 'eq', left: { path: 'data.x' }, right: { value: 1 } }, actions: [{ type: 'setField', path: 'data.y', value: 1 }] },
+        { ruleId: 'B', when: { op: 'gte', left: { path: 'data.x' }, right: { value: 0 } }, actions: [{ type: 'setField', path: 'data.y', value: 2 }] },
+      ],
+    });
+    expect(tied.issues).toEqual([expect.objectContaining({ path: 'rules.1.actions.0', severity: 'error' })]);
+
+    const counter = analyzeRuleSet({
+      version: '1.0.0',
+      rules: [
+        {
+          ruleId: 'COUNT_UP',
+          when: { op: 'lt', left: { path: 'data.count' }, right: { value: 10 } },
+          actions: [{ type: 'setField', path: 'data.count', value: 10 }],
+        },
+      ],
+    });
+    expect(counter.valid).toBe(true);
+    expect(counter.issues).toEqual([
+      {
+        path: 'rules.0',
+        severity: 'warning',
+        message: 'rule "COUNT_UP" reads a path it writes (read/write cycle); chain mode re-evaluates it until maxChainIterations',
+      },
+    ]);
+  });
+
+  it('model checks flows for unreachable states, dead ends, stuck guards, joins and timer races', () => {
+    const schema: FlowSchema = {
+      version: '1.0.0',
+      flowId: 'checked-flow',
+      initialState: 'start',
+      states: {
+        start: {
+          uiPageId: 'start-page',
+          on: {
+            next: { target: 'review', guard: { op: 'gt', left: { path: 'data.amount' }, right: { value: 100 } } },
+            split: { target: 'start', fork: { branches: ['kyc', 'docs'], joinState: 'review' } },
+          },
+          transitions: [
+            { target: 'review', onEvent: 'next', guard: { op: 'lte', left: { path: 'data.amount' }, right: { value: 50 } } },
+          ],
+        },
+        kyc: { uiPageId: 'kyc-page', on: { done: { target: 'review' } } },
+        docs: {
+          uiPageId: 'docs-page',
+          on: { upload: { target: 'done' } },
+          transitions: [{ target: 'expired', delayMs: 60000 }],
+        },
+        review: {
+          uiPageId: 'review-page',
+          on: {
+            approve: { target: 'done', guard: { op: 'eq', left: { path: 'context.country' }, right: { value: 'US' } } },
+          },
+        },
+        expired: { uiPageId: 'expired-page', on: {} },
+        done: { uiPageId: 'done-page', on: {}, final: true },
+        orphan: { uiPageId: 'orphan-page', on: { back: { target: 'start' } } },
+      },
+    };
+
+    const result = analyzeFlowSchema(schema);
+    expect(result.valid).toBe(false);
+    expect(result.issues.map((issue) => [issue.kind, issue.path, issue.severity])).toEqual([
+      ['unreachable', 'states.orphan', 'warning'],
+      ['dead_end', 'states.expired', 'warning'],
+      ['stuck_event', 'states.start.on.next', 'warning'],
+      ['stuck_event', 'states.review.on.approve', 'warning'],
+      ['join_unreachable', 'states.start.on.split.fork.branches.1', 'error'],
+      ['timer_race', 'states.docs.transitions.0', 'warning'],
+    ]);
+    expect(result.issues[2]?.message).toBe('event "next" in state "start" has no passing guard when data.amount=75');
+    expect(result.issues[3]?.message).toContain('context.country is missing');
+
+    const exhaustive = analyzeFlowSchema({
+      ...schema,
+      states: {
+        start: {
+          uiPageId: 'start-page',
+          on: { next: { target: 'done', guard: { op: 'gt', left: { path: 'data.amount' }, right: { value: 100 } } } },
+          transitions: [
+            { target: 'done', onEvent: 'next', guard: { op: 'lte', left: { path: 'data.amount' }, right: { value: 100 } } },
+            { target: 'done', onEvent: 'next', guard: { not: { op: 'exists', left: { path: 'data.amount' } } } },
+          ],
+        },
+        done: { uiPageId: 'done-page', on: {}, final: true },
+      },
+    });
+    expect(exhaustive.issues).toEqual([]);
+  });
 });
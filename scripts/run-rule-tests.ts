@@ -0,0 +1,92 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { RuleSet, RuleTestCase } from '@platform/schema';
+import { runRuleTests } from '@platform/rules-engine';
+
+type RuleTestTarget = {
+  label: string;
+  rules: RuleSet;
+  ruleTests: RuleTestCase[];
+};
+
+// Accepts config bundles ({ rules, ruleTests }) or GitOps exports (payload.packages[].versions[].bundle).
+// Directories are searched for `.json` files; files without rule tests are skipped.
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  if (args.length === 0) {
+    console.error('Usage: tsx scripts/run-rule-tests.ts <bundle.json | directory> [...more]');
+    process.exit(1);
+  }
+  const files = (await Promise.all(args.map(expandJsonFiles))).flat();
+
+  let failed = 0;
+  let total = 0;
+  for (const file of files) {
+    const raw = (await fs.readFile(file, 'utf8')).replace(/^\uFEFF/, '');
+    for (const target of collectTargets(file, JSON.parse(raw) as unknown)) {
+      const suite = runRuleTests(target.rules, target.ruleTests);
+      total += suite.total;
+      failed += suite.failed;
+      console.log(`${target.label}: ${suite.total - suite.failed}/${suite.total} passed`);
+      for (const result of suite.results) {
+        console.log(`  ${result.passed ? 'PASS' : 'FAIL'} ${result.id} (${result.durationMs.toFixed(1)}ms)`);
+        for (const diff of result.diffs) {
+          console.log(`    ${diff.path}: expected ${JSON.stringify(diff.expected)}, got ${JSON.stringify(diff.actual)}`);
+        }
+      }
+    }
+  }
+
+  if (failed > 0) {
+    console.error(`Rule tests failed: ${failed} of ${total} case(s).`);
+    process.exit(1);
+  }
+  console.log(`Rule tests passed: ${total} case(s).`);
+}
+
+async function expandJsonFiles(target: string): Promise<string[]> {
+  if (!(await fs.stat(target)).isDirectory()) return [target];
+  const entries = await fs.readdir(target, { withFileTypes: true });
+  const nested = await Promise.all(
+    entries
+      .filter((entry) => entry.name !== 'node_modules' && !entry.name.startsWith('.'))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((entry) => {
+        const entryPath = path.join(target, entry.name);
+        if (entry.isDirectory()) return expandJsonFiles(entryPath);
+        return Promise.resolve(entry.name.endsWith('.json') ? [entryPath] : []);
+      }),
+  );
+  return nested.flat();
+}
+
+function collectTargets(file: string, value: unknown): RuleTestTarget[] {
+  if (!isRecord(value)) return [];
+  const payload = isRecord(value.payload) ? value.payload : undefined;
+  if (payload && Array.isArray(payload.packages)) {
+    return payload.packages.flatMap((pkg: unknown) => {
+      if (!isRecord(pkg) || !Array.isArray(pkg.versions)) return [];
+      return pkg.versions.flatMap((version: unknown) => {
+        if (!isRecord(version)) return [];
+        const label = `${file} ${String(pkg.configId ?? pkg.id)}@${String(version.version ?? version.id)}`;
+        return toTarget(label, version.bundle);
+      });
+    });
+  }
+  return toTarget(file, value);
+}
+
+function toTarget(label: string, bundle: unknown): RuleTestTarget[] {
+  if (!isRecord(bundle) || !isRecord(bundle.rules) || !Array.isArray(bundle.ruleTests)) return [];
+  if (bundle.ruleTests.length === 0) return [];
+  return [{ label, rules: bundle.rules as unknown as RuleSet, ruleTests: bundle.ruleTests as RuleTestCase[] }];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : String(error));
+  process.exit(1);
+});